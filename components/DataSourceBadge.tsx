@@ -0,0 +1,30 @@
+interface DataSourceBadgeProps {
+  source?: 'LIVE' | 'CACHED' | 'ESTIMATED'
+  dataAge?: number // seconds
+}
+
+// Where option chain numbers came from - estimated ones are not real OI/PCR
+export default function DataSourceBadge({ source, dataAge }: DataSourceBadgeProps) {
+  if (!source) return null
+
+  if (source === 'ESTIMATED') {
+    return (
+      <span className="source-badge estimated" title="No option chain available - PCR, IV and OI levels are guessed from price momentum">
+        ⚠️ ESTIMATED
+      </span>
+    )
+  }
+
+  return (
+    <span className={`source-badge ${source.toLowerCase()}`} title={`Option chain data ${formatAge(dataAge || 0)} old`}>
+      {source === 'LIVE' ? '● LIVE' : `CACHED · ${formatAge(dataAge || 0)}`}
+    </span>
+  )
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`
+  return `${Math.round(seconds / 86400)}d`
+}
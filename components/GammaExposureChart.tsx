@@ -0,0 +1,77 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+
+interface StrikeGamma {
+  strike: number
+  callGEX: number
+  putGEX: number
+  netGEX: number
+}
+
+export interface GammaExposureData {
+  spotPrice: number
+  totalGEX: number
+  regime: 'POSITIVE' | 'NEGATIVE'
+  zeroGammaLevel: number | null
+  callWall: number | null
+  putWall: number | null
+  interpretation: string
+  profile: StrikeGamma[]
+}
+
+interface GammaExposureChartProps {
+  label: string
+  data: GammaExposureData
+}
+
+// Call and put gamma per strike (₹ Cr per 1% move) with spot, flip and walls marked
+export default function GammaExposureChart({ label, data }: GammaExposureChartProps) {
+  const strikes = data.profile.map(s => s.strike)
+  // Reference lines need a category on the axis - snap levels to the nearest plotted strike
+  const nearest = (level: number | null) => level === null || strikes.length === 0
+    ? null
+    : strikes.reduce((best, s) => (Math.abs(s - level) < Math.abs(best - level) ? s : best))
+
+  return (
+    <div className="gex-card">
+      <div className="gex-header">
+        <span>{label}</span>
+        <span className={`gex-regime ${data.regime.toLowerCase()}`}>
+          {data.regime === 'POSITIVE' ? '+' : ''}{data.totalGEX.toLocaleString('en-IN')} Cr
+        </span>
+      </div>
+      <div className="gex-levels">
+        <span>Flip: {data.zeroGammaLevel !== null ? Math.round(data.zeroGammaLevel).toLocaleString('en-IN') : '—'}</span>
+        <span className="positive">Put wall: {data.putWall?.toLocaleString('en-IN') ?? '—'}</span>
+        <span className="negative">Call wall: {data.callWall?.toLocaleString('en-IN') ?? '—'}</span>
+      </div>
+      <ResponsiveContainer width="100%" height={220}>
+        <BarChart data={data.profile} stackOffset="sign" margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis dataKey="strike" tick={{ fontSize: 10, fill: '#94a3b8' }} interval="preserveStartEnd" />
+          <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} width={50} />
+          <Tooltip
+            formatter={(value: number, name: string) => [`${value.toLocaleString('en-IN')} Cr`, name]}
+            labelFormatter={strike => `Strike ${strike}`}
+          />
+          <ReferenceLine y={0} stroke="#64748b" />
+          <Bar dataKey="callGEX" name="Call GEX" stackId="gex" fill="#22c55e" />
+          <Bar dataKey="putGEX" name="Put GEX" stackId="gex" fill="#ef4444" />
+          <ReferenceLine x={nearest(data.spotPrice) ?? undefined} stroke="#f8fafc" label={{ value: 'Spot', fill: '#f8fafc', fontSize: 10 }} />
+          {data.zeroGammaLevel !== null && (
+            <ReferenceLine x={nearest(data.zeroGammaLevel) ?? undefined} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: 'Flip', fill: '#f59e0b', fontSize: 10 }} />
+          )}
+        </BarChart>
+      </ResponsiveContainer>
+      <div className="gex-interpretation">{data.interpretation}</div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import useSWR from 'swr'
+import type { NotificationResponse } from '../lib/notifications/preferences'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+// The in-app inbox for /account, newest first
+export default function NotificationInbox() {
+  const { data, mutate } = useSWR<{ notifications: NotificationResponse[]; unread: number }>(
+    '/api/notifications?limit=50',
+    fetcher,
+    { refreshInterval: 60000 }
+  )
+
+  const markRead = async (ids?: string[]) => {
+    await fetch('/api/notifications', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : {}),
+    })
+    mutate()
+  }
+
+  if (!data?.notifications) {
+    return (
+      <div className="loading">
+        <div className="spinner"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <p className="auth-switch" style={{ marginTop: 0 }}>
+        {data.unread} unread
+        {data.unread > 0 && (
+          <button className="link-btn" onClick={() => markRead()}>Mark all read</button>
+        )}
+      </p>
+      {data.notifications.length === 0 ? (
+        <p className="no-data">No notifications yet</p>
+      ) : (
+        data.notifications.map(notification => (
+          <div key={notification.id} className={`inbox-item ${notification.read ? '' : 'unread'}`}>
+            <div className="inbox-title">
+              {notification.title}
+              {!notification.read && (
+                <button className="link-btn" onClick={() => markRead([notification.id])}>Mark read</button>
+              )}
+            </div>
+            <div className="inbox-body">{notification.body}</div>
+            <div className="stock-company">
+              {new Date(notification.createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
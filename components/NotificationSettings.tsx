@@ -0,0 +1,193 @@
+import { FormEvent, useEffect, useState } from 'react'
+import useSWR from 'swr'
+import type { PreferencesResponse } from '../lib/notifications/preferences'
+import type { NotificationChannel } from '../models/Notification'
+
+const CHANNELS: Array<{ key: NotificationChannel; label: string; placeholder?: string }> = [
+  { key: 'IN_APP', label: 'In-app' },
+  { key: 'EMAIL', label: 'Email', placeholder: 'you@example.com' },
+  { key: 'WEBHOOK', label: 'Webhook', placeholder: 'https://example.com/hook' },
+  { key: 'TELEGRAM', label: 'Telegram', placeholder: 'Chat id, e.g. 123456789' },
+]
+
+const DIGEST_OPTIONS = [15, 30, 60, 120, 240]
+
+// Form values as typed; converted on save
+interface SettingsForm {
+  channels: Record<NotificationChannel, { enabled: boolean; target: string }>
+  webhookSecret: string
+  quiet: boolean
+  quietStart: string
+  quietEnd: string
+  digestMinutes: string
+}
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+// Alert delivery channels, quiet hours and digest mode for /account
+export default function NotificationSettings() {
+  const { data, mutate } = useSWR<{ preferences: PreferencesResponse }>('/api/notifications/preferences', fetcher)
+  const [form, setForm] = useState<SettingsForm | null>(null)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (data?.preferences) setForm(toForm(data.preferences))
+  }, [data])
+
+  if (!data?.preferences || !form) {
+    return (
+      <div className="loading">
+        <div className="spinner"></div>
+      </div>
+    )
+  }
+  const preferences = data.preferences
+
+  const setChannel = (key: NotificationChannel, changes: Partial<{ enabled: boolean; target: string }>) =>
+    setForm({ ...form, channels: { ...form.channels, [key]: { ...form.channels[key], ...changes } } })
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    setMessage(null)
+    setFieldErrors({})
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toBody(form)),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        setMessage({ ok: false, text: body.error || 'Failed to save' })
+        setFieldErrors(body.errors || {})
+        return
+      }
+      await mutate(body, false)
+      setMessage({ ok: true, text: 'Notification settings saved' })
+    } catch (err) {
+      setMessage({ ok: false, text: 'Failed to save' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={save}>
+      {message && (
+        <div className={message.ok ? 'form-success' : 'error-message'}>
+          {message.ok ? '✅' : '⚠️'} {message.text}
+        </div>
+      )}
+
+      {CHANNELS.map(channel => {
+        const settings = form.channels[channel.key]
+        const available = preferences.channels[channel.key].available
+        return (
+          <div key={channel.key} className="form-field">
+            <label className="checkbox-field">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                disabled={!available && !settings.enabled}
+                onChange={e => setChannel(channel.key, { enabled: e.target.checked })}
+              />
+              {channel.label}
+              {!available && <span className="stock-company"> (not set up on this server)</span>}
+            </label>
+            {channel.placeholder && (
+              <input
+                value={settings.target}
+                placeholder={channel.placeholder}
+                onChange={e => setChannel(channel.key, { target: e.target.value })}
+              />
+            )}
+            {fieldErrors[`channels.${channel.key}.target`] && (
+              <span className="form-error">{fieldErrors[`channels.${channel.key}.target`]}</span>
+            )}
+          </div>
+        )
+      })}
+
+      <label className="form-field">
+        Webhook secret
+        <input
+          type="password"
+          value={form.webhookSecret}
+          placeholder={preferences.channels.WEBHOOK.hasSecret ? 'Set - leave blank to keep' : 'Optional, signs each request'}
+          onChange={e => setForm({ ...form, webhookSecret: e.target.value })}
+          autoComplete="off"
+        />
+      </label>
+
+      <div className="form-field">
+        <label className="checkbox-field">
+          <input type="checkbox" checked={form.quiet} onChange={e => setForm({ ...form, quiet: e.target.checked })} />
+          Quiet hours (IST)
+        </label>
+        {form.quiet && (
+          <div className="inline-form" style={{ marginBottom: 0 }}>
+            <input type="time" value={form.quietStart} onChange={e => setForm({ ...form, quietStart: e.target.value })} required />
+            <span>to</span>
+            <input type="time" value={form.quietEnd} onChange={e => setForm({ ...form, quietEnd: e.target.value })} required />
+          </div>
+        )}
+        {(fieldErrors['quietHours.start'] || fieldErrors['quietHours.end']) && (
+          <span className="form-error">{fieldErrors['quietHours.start'] || fieldErrors['quietHours.end']}</span>
+        )}
+      </div>
+
+      <label className="form-field">
+        Digest
+        <select value={form.digestMinutes} onChange={e => setForm({ ...form, digestMinutes: e.target.value })}>
+          <option value="">Send each alert straight away</option>
+          {DIGEST_OPTIONS.map(minutes => (
+            <option key={minutes} value={String(minutes)}>
+              One message every {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <button className="refresh-btn" type="submit" disabled={saving}>
+        {saving ? 'Saving...' : 'Save Notifications'}
+      </button>
+    </form>
+  )
+}
+
+function toForm(preferences: PreferencesResponse): SettingsForm {
+  const channels = {} as SettingsForm['channels']
+  CHANNELS.forEach(({ key }) => {
+    channels[key] = { enabled: preferences.channels[key].enabled, target: preferences.channels[key].target || '' }
+  })
+  const digest = preferences.digestMinutes
+  return {
+    channels,
+    webhookSecret: '',
+    quiet: !!preferences.quietHours,
+    quietStart: preferences.quietHours?.start || '22:00',
+    quietEnd: preferences.quietHours?.end || '07:00',
+    digestMinutes: digest ? String(digest) : '',
+  }
+}
+
+// Form -> PUT body; blank targets are left out and a blank secret keeps the stored one
+function toBody(form: SettingsForm) {
+  const channel = (key: NotificationChannel) => {
+    const { enabled, target } = form.channels[key]
+    return { enabled, ...(target.trim() ? { target: target.trim() } : {}) }
+  }
+  return {
+    channels: {
+      IN_APP: { enabled: form.channels.IN_APP.enabled },
+      EMAIL: channel('EMAIL'),
+      WEBHOOK: { ...channel('WEBHOOK'), ...(form.webhookSecret ? { secret: form.webhookSecret } : {}) },
+      TELEGRAM: channel('TELEGRAM'),
+    },
+    quietHours: form.quiet ? { start: form.quietStart, end: form.quietEnd } : null,
+    digestMinutes: form.digestMinutes ? Number(form.digestMinutes) : null,
+  }
+}
@@ -1,4 +1,5 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import { RealtimeQuote, RealtimeSignal, useRealtimeEvent, useRealtimeSymbols } from '../hooks/useRealtime'
 
 interface SimpleAnalysisPanelProps {
   symbol: string
@@ -7,6 +8,21 @@ interface SimpleAnalysisPanelProps {
 export default function SimpleAnalysisPanel({ symbol }: SimpleAnalysisPanelProps) {
   const [loading, setLoading] = useState(false)
   const [data, setData] = useState<any>(null)
+  const [quote, setQuote] = useState<RealtimeQuote | null>(null)
+  const [signal, setSignal] = useState<RealtimeSignal | null>(null)
+
+  // Live price and the scanner's latest read while the panel is open
+  useRealtimeSymbols([symbol])
+  useRealtimeEvent('quote', tick => {
+    if (tick.symbol === symbol) setQuote(tick)
+  })
+  useRealtimeEvent('signal', next => {
+    if (next.symbol === symbol) setSignal(next)
+  })
+  useEffect(() => {
+    setQuote(null)
+    setSignal(null)
+  }, [symbol])
 
   const runAnalysis = async () => {
     setLoading(true)
@@ -21,9 +37,36 @@ export default function SimpleAnalysisPanel({ symbol }: SimpleAnalysisPanelProps
     }
   }
 
+  const live = quote && (
+    <div style={{
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      background: '#1f2937',
+      color: '#f9fafb',
+      padding: '10px 14px',
+      borderRadius: '8px',
+      marginBottom: '12px',
+      fontSize: '14px'
+    }}>
+      <span>
+        🟢 ₹{quote.price.toFixed(2)}{' '}
+        <span style={{ color: quote.change >= 0 ? '#10b981' : '#ef4444' }}>
+          ({quote.changePercent >= 0 ? '+' : ''}{quote.changePercent.toFixed(2)}%)
+        </span>
+      </span>
+      {signal?.aiConfidence && (
+        <span style={{ color: '#9ca3af' }}>
+          Scanner: {signal.aiConfidence.recommendation} ({signal.aiConfidence.score})
+        </span>
+      )}
+    </div>
+  )
+
   if (!data && !loading) {
     return (
       <div style={{ padding: '20px', textAlign: 'center' }}>
+        {live}
         <button 
           onClick={runAnalysis}
           style={{
@@ -64,6 +107,7 @@ export default function SimpleAnalysisPanel({ symbol }: SimpleAnalysisPanelProps
       color: '#f9fafb'
     }}>
       <h3 style={{ marginTop: 0 }}>🧠 AI Analysis Results</h3>
+      {live}
       
       {/* Confidence Score */}
       <div style={{ 
@@ -0,0 +1,161 @@
+import { useState } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { PerformanceMetrics, TradeAnalytics } from '../lib/db/tradeAnalyticsService'
+
+type BreakdownKey = keyof TradeAnalytics['breakdowns']
+
+const BREAKDOWNS: Array<{ key: BreakdownKey; label: string }> = [
+  { key: 'strategy', label: 'Strategy' },
+  { key: 'tag', label: 'Tag' },
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'weekday', label: 'Weekday' },
+  { key: 'timeOfDay', label: 'Time of day' },
+  { key: 'emotionalState', label: 'Emotion' },
+]
+
+interface TradeAnalyticsPanelProps {
+  analytics: TradeAnalytics
+}
+
+// Journal performance: headline ratios, equity curve, R distribution and breakdowns
+export default function TradeAnalyticsPanel({ analytics }: TradeAnalyticsPanelProps) {
+  const [breakdown, setBreakdown] = useState<BreakdownKey>('strategy')
+  const { summary, risk, streaks } = analytics
+  const rows = analytics.breakdowns[breakdown]
+
+  if (summary.trades === 0) {
+    return (
+      <div className="card" style={{ marginBottom: '20px' }}>
+        <h2>📈 Performance</h2>
+        <p className="no-data">Close some trades to see analytics</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: '20px' }}>
+      <h2>📈 Performance</h2>
+
+      <div className="analytics-metrics">
+        <Metric label="Expectancy" value={formatRupees(summary.expectancy)} negative={summary.expectancy < 0} />
+        <Metric label="Profit factor" value={formatProfitFactor(summary)} />
+        <Metric
+          label="Avg R"
+          value={summary.avgR !== null ? `${summary.avgR.toFixed(2)}R` : '-'}
+          hint={`${summary.rTrades} of ${summary.trades} with a stop`}
+          negative={summary.avgR !== null && summary.avgR < 0}
+        />
+        <Metric label="Avg win / loss" value={`${formatRupees(summary.avgWin)} / ${formatRupees(summary.avgLoss)}`} />
+        <Metric label="Max drawdown" value={formatRupees(-risk.maxDrawdown)} negative={risk.maxDrawdown > 0} />
+        <Metric label="Sharpe / Sortino" value={`${formatRatio(risk.sharpe)} / ${formatRatio(risk.sortino)}`} hint={`${risk.days} trading days`} />
+        <Metric label="Best / worst day" value={`${formatRupees(risk.bestDay)} / ${formatRupees(risk.worstDay)}`} />
+        <Metric
+          label="Streaks"
+          value={`${streaks.longestWin}W / ${streaks.longestLoss}L`}
+          hint={streaks.current.type ? `Current: ${streaks.current.length} ${streaks.current.type === 'WIN' ? 'wins' : 'losses'}` : undefined}
+        />
+      </div>
+
+      <div className="analytics-charts">
+        <div>
+          <h3>Equity curve</h3>
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={analytics.equityCurve} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="date" tick={{ fontSize: 10, fill: '#94a3b8' }} interval="preserveStartEnd" />
+              <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} width={60} />
+              <Tooltip formatter={(value: number, name: string) => [formatRupees(value), name]} />
+              <ReferenceLine y={0} stroke="#64748b" />
+              <Line type="monotone" dataKey="equity" name="Equity" stroke="#3b82f6" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div>
+          <h3>R-multiples</h3>
+          <ResponsiveContainer width="100%" height={220}>
+            <BarChart data={analytics.rDistribution} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="bucket" tick={{ fontSize: 10, fill: '#94a3b8' }} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 10, fill: '#94a3b8' }} width={30} />
+              <Tooltip />
+              <Bar dataKey="trades" name="Trades" fill="#8b5cf6" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="tabs">
+        {BREAKDOWNS.map(b => (
+          <button key={b.key} className={`tab ${breakdown === b.key ? 'active' : ''}`} onClick={() => setBreakdown(b.key)}>
+            {b.label}
+          </button>
+        ))}
+      </div>
+      {rows.length === 0 ? (
+        <p className="no-data">Nothing to break down</p>
+      ) : (
+        <table className="watchlist-table">
+          <thead>
+            <tr>
+              <th>{BREAKDOWNS.find(b => b.key === breakdown)?.label}</th>
+              <th>Trades</th>
+              <th>Win rate</th>
+              <th>P&L</th>
+              <th>Expectancy</th>
+              <th>Profit factor</th>
+              <th>Avg R</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key}>
+                <td>{row.key}</td>
+                <td>{row.trades}</td>
+                <td>{row.winRate.toFixed(1)}%</td>
+                <td className={row.totalPnl < 0 ? 'negative' : 'positive'}>{formatRupees(row.totalPnl)}</td>
+                <td className={row.expectancy < 0 ? 'negative' : 'positive'}>{formatRupees(row.expectancy)}</td>
+                <td>{formatProfitFactor(row)}</td>
+                <td>{row.avgR !== null ? `${row.avgR.toFixed(2)}R` : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function Metric({ label, value, hint, negative }: { label: string; value: string; hint?: string; negative?: boolean }) {
+  return (
+    <div className="analytics-metric">
+      <div className="index-name">{label}</div>
+      <div className={`analytics-value ${negative ? 'negative' : ''}`}>{value}</div>
+      {hint && <div className="stock-company">{hint}</div>}
+    </div>
+  )
+}
+
+// No losing trades means no profit factor - infinite if there were wins
+function formatProfitFactor(metrics: PerformanceMetrics): string {
+  if (metrics.profitFactor !== null) return metrics.profitFactor.toFixed(2)
+  return metrics.wins > 0 ? '∞' : '-'
+}
+
+function formatRatio(value: number | null): string {
+  return value !== null ? value.toFixed(2) : '-'
+}
+
+function formatRupees(value: number): string {
+  return `${value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`
+}
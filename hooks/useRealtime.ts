@@ -0,0 +1,121 @@
+// Realtime Hooks
+// One socket.io connection per browser tab to the scanner's realtime server
+// (NEXT_PUBLIC_REALTIME_URL). Without that URL nothing connects and pages keep polling.
+// Signed-in users authenticate with a token from /api/realtime-token to get their alerts.
+import { useEffect, useRef, useState } from 'react'
+import { io, Socket } from 'socket.io-client'
+import type { ClientToServerEvents, ServerToClientEvents } from '../lib/realtime/events'
+
+export type {
+  RealtimeAlert,
+  RealtimeIndices,
+  RealtimeOptionChain,
+  RealtimeQuote,
+  RealtimeSignal,
+} from '../lib/realtime/events'
+
+type RealtimeClient = Socket<ServerToClientEvents, ClientToServerEvents>
+
+const RECONNECT_DELAY_MS = 5000
+
+let client: RealtimeClient | null = null
+// Symbol -> number of mounted components subscribed to it
+const subscriptions = new Map<string, number>()
+
+function getClient(): RealtimeClient | null {
+  const url = process.env.NEXT_PUBLIC_REALTIME_URL
+  if (typeof window === 'undefined' || !url) return null
+  if (client) return client
+
+  const socket: RealtimeClient = io(url, {
+    transports: ['websocket'],
+    // Called on every (re)connect, so an expired token is replaced by a fresh one
+    auth: callback => {
+      fetch('/api/realtime-token')
+        .then(res => res.json())
+        .then(body => callback(body?.token ? { token: body.token } : {}))
+        .catch(() => callback({}))
+    },
+  })
+
+  // Rooms don't survive a reconnect
+  socket.on('connect', () => {
+    const symbols = Array.from(subscriptions.keys())
+    if (symbols.length > 0) socket.emit('subscribe', symbols)
+  })
+
+  // A refused handshake isn't retried automatically; try again with a new token
+  socket.on('connect_error', () => {
+    if (!socket.active) setTimeout(() => socket.connect(), RECONNECT_DELAY_MS)
+  })
+
+  client = socket
+  return client
+}
+
+// Whether the realtime connection is up - pages poll while it isn't
+export function useRealtimeConnection(): boolean {
+  const [connected, setConnected] = useState(false)
+
+  useEffect(() => {
+    const socket = getClient()
+    if (!socket) return
+    const update = () => setConnected(socket.connected)
+    update()
+    socket.on('connect', update)
+    socket.on('disconnect', update)
+    return () => {
+      socket.off('connect', update)
+      socket.off('disconnect', update)
+    }
+  }, [])
+
+  return connected
+}
+
+// Receive quote, signal and option chain events for these symbols while mounted
+export function useRealtimeSymbols(symbols: string[]): void {
+  const key = symbols.map(s => s.toUpperCase()).sort().join(',')
+
+  useEffect(() => {
+    const socket = getClient()
+    if (!socket || !key) return
+    const list = key.split(',')
+
+    const added = list.filter(symbol => {
+      const count = subscriptions.get(symbol) || 0
+      subscriptions.set(symbol, count + 1)
+      return count === 0
+    })
+    if (added.length > 0 && socket.connected) socket.emit('subscribe', added)
+
+    return () => {
+      const removed = list.filter(symbol => {
+        const count = (subscriptions.get(symbol) || 1) - 1
+        if (count > 0) subscriptions.set(symbol, count)
+        else subscriptions.delete(symbol)
+        return count === 0
+      })
+      if (removed.length > 0 && socket.connected) socket.emit('unsubscribe', removed)
+    }
+  }, [key])
+}
+
+// Listen for a server event while mounted; the latest handler is always called
+export function useRealtimeEvent<E extends keyof ServerToClientEvents>(
+  event: E,
+  handler: ServerToClientEvents[E]
+): void {
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => {
+    const socket = getClient()
+    if (!socket) return
+    const listener = (...args: unknown[]) => (handlerRef.current as (...a: unknown[]) => void)(...args)
+    socket.on(event, listener as any)
+    return () => {
+      socket.off(event, listener as any)
+    }
+  }, [event])
+}
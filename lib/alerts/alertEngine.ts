@@ -0,0 +1,295 @@
+// Alert Engine
+// Evaluates every armed alert against a completed market scan: price levels, volume
+// spikes against the 20-day average, breakouts, operator games, candlestick patterns and
+// condition expressions (utils/conditionDsl).
+// Each firing is stored with the market context behind it. An alert fires once per
+// event (type + trading day + signal) and, with a cooldown, re-arms for the next one.
+// Level alerts (price, volume, condition) have no signal to tell events apart, so with a
+// cooldown each cooldown window counts as a new event.
+// Each firing is handed to the notification dispatcher for the user's channels.
+import { AlertService } from '../db/alertService'
+import { getMarketDataProvider } from '../marketData'
+import { notifyAlertTrigger } from '../notifications/dispatcher'
+import { conditionCandleRange } from '../screener/screener'
+import { getSymbolMaster } from '../symbols'
+import type { MarketScan, StockData } from '../scanner/marketScan'
+import { Alert, AlertTrigger } from '../../models/Alert'
+import { CandleData, istDateKey, toCandles } from '../../utils/candles'
+import { CompiledCondition, compileCondition, evaluateCondition } from '../../utils/conditionDsl'
+import { analyzeMultiTimeframe, MTFAnalysis } from '../../utils/multiTimeframeAnalysis'
+import type { OptionChainAnalysis } from '../../utils/optionChainAnalysis'
+import { detectBreakout, detectCandlestickPatterns } from '../../utils/technicalAnalysis'
+import { detectOperatorGame } from '../../utils/operatorAnalysis'
+
+export interface AlertMarketContext {
+  symbol: string          // NSE symbol / index code
+  price: number
+  changePercent: number
+  volume?: number
+  candles: CandleData[]   // daily, oldest first; the last bar is the current session
+  stock?: StockData       // scanner analysis, for CONDITION alerts
+  optionChain?: OptionChainAnalysis | null // indices only
+  mtf?: MTFAnalysis | null // loaded by runAlertEngine when a condition reads it
+  history?: CandleData[]  // longer daily history, loaded by runAlertEngine when a condition's
+                          // indicators need more bars than candles holds
+  snapshotAt: Date
+}
+
+export interface AlertMatch {
+  key: string
+  message: string
+  context: AlertTrigger['context']
+}
+
+export interface AlertRunSummary {
+  evaluated: number
+  triggered: AlertTrigger[]
+  duplicates: number
+}
+
+export const DEFAULT_VOLUME_SPIKE_RATIO = 2
+const VOLUME_AVERAGE_DAYS = 20
+// Pattern detectors need a couple of weeks of bars
+const MIN_CANDLES = 10
+
+// Alert conditions compiled once per process; null for ones that don't compile
+const compiledConditions = new Map<string, CompiledCondition | null>()
+
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+
+// Does this alert fire on this market context? Pure - no database access.
+export function evaluateAlert(alert: Alert, market: AlertMarketContext): AlertMatch | null {
+  const { candles } = market
+  const last = candles[candles.length - 1]
+  const tradingDate = last ? istDateKey(last.timestamp) : istDateKey(Math.floor(market.snapshotAt.getTime() / 1000))
+  const ratio = volumeRatio(candles, market.volume)
+  const base = {
+    price: market.price,
+    changePercent: market.changePercent,
+    volume: market.volume,
+    ...(ratio !== null ? { volumeRatio: round(ratio, 2) } : {}),
+  }
+  const wanted = alert.condition.trim().toUpperCase()
+  const levelKey = `${alert.type}:${tradingDate}${cooldownBucket(alert, market.snapshotAt)}`
+
+  switch (alert.type) {
+    case 'PRICE_ABOVE':
+      if (!(market.price >= alert.value)) return null
+      return {
+        key: levelKey,
+        message: `${market.symbol} at ₹${market.price} is above ₹${alert.value}`,
+        context: base,
+      }
+
+    case 'PRICE_BELOW':
+      if (!(market.price > 0 && market.price <= alert.value)) return null
+      return {
+        key: levelKey,
+        message: `${market.symbol} at ₹${market.price} is below ₹${alert.value}`,
+        context: base,
+      }
+
+    case 'VOLUME_SPIKE': {
+      const threshold = alert.value > 0 ? alert.value : DEFAULT_VOLUME_SPIKE_RATIO
+      if (ratio === null || ratio < threshold) return null
+      return {
+        key: levelKey,
+        message: `${market.symbol} volume is ${ratio.toFixed(1)}x its ${VOLUME_AVERAGE_DAYS}-day average`,
+        context: base,
+      }
+    }
+
+    case 'BREAKOUT': {
+      if (candles.length < MIN_CANDLES) return null
+      const breakout = detectBreakout(candles)
+      if (!breakout || (wanted && wanted !== breakout.signal)) return null
+      return {
+        key: `${alert.type}:${tradingDate}:${breakout.pattern}`,
+        message: `${market.symbol}: ${breakout.pattern}`,
+        context: { ...base, signal: breakout.signal, details: [breakout.description] },
+      }
+    }
+
+    case 'OPERATOR_GAME': {
+      if (candles.length < MIN_CANDLES) return null
+      const game = detectOperatorGame(candles)
+      if (!game || (wanted && wanted !== 'ANY' && wanted !== game.type)) return null
+      return {
+        key: `${alert.type}:${tradingDate}:${game.type}`,
+        message: `${market.symbol}: ${game.type.replace(/_/g, ' ')} (${game.confidence} confidence) - ${game.action}`,
+        context: { ...base, signal: game.type, details: [game.description, ...game.indicators] },
+      }
+    }
+
+    case 'PATTERN_DETECTED': {
+      if (candles.length < 3) return null
+      const patterns = detectCandlestickPatterns(candles).filter(p =>
+        wanted ? p.pattern.toUpperCase().includes(wanted) : p.signal !== 'NEUTRAL'
+      )
+      if (patterns.length === 0) return null
+      const names = patterns.map(p => p.pattern)
+      return {
+        key: `${alert.type}:${tradingDate}:${names.join('+')}`,
+        message: `${market.symbol}: ${names.join(', ')}`,
+        context: { ...base, signal: patterns[0].signal, details: patterns.map(p => `${p.pattern}: ${p.description}`) },
+      }
+    }
+
+    case 'CONDITION': {
+      const condition = conditionFor(alert)
+      if (!condition) return null
+      const history = market.history && market.history.length > candles.length ? market.history : candles
+      const result = evaluateCondition(condition, {
+        stock: market.stock,
+        candles: history,
+        optionChain: market.optionChain,
+        mtf: market.mtf,
+      })
+      if (!result.matched) return null
+      return {
+        key: levelKey,
+        message: `${market.symbol}: ${alert.condition.trim()}`,
+        context: { ...base, details: Object.keys(result.values).map(label => `${label} = ${result.values[label]}`) },
+      }
+    }
+
+    default:
+      return null
+  }
+}
+
+// ':<window number>' for alerts with a cooldown. getArmedAlerts holds the alert back for a
+// full cooldown after it fires, so the next firing always lands in a later window.
+function cooldownBucket(alert: Alert, snapshotAt: Date): string {
+  if (!alert.cooldownMinutes) return ''
+  return `:${Math.floor(snapshotAt.getTime() / (alert.cooldownMinutes * 60 * 1000))}`
+}
+
+function conditionFor(alert: Alert): CompiledCondition | null {
+  let condition = compiledConditions.get(alert.condition)
+  if (condition === undefined) {
+    condition = compileCondition(alert.condition).condition
+    compiledConditions.set(alert.condition, condition)
+  }
+  return condition
+}
+
+// Current session volume over the average of the previous 20 sessions
+export function volumeRatio(candles: CandleData[], currentVolume?: number): number | null {
+  if (candles.length < 2) return null
+  const current = currentVolume || candles[candles.length - 1].volume
+  const previous = candles.slice(-(VOLUME_AVERAGE_DAYS + 1), -1).filter(c => c.volume > 0)
+  if (!current || previous.length === 0) return null
+  const average = previous.reduce((sum, c) => sum + c.volume, 0) / previous.length
+  return average > 0 ? current / average : null
+}
+
+// ─── Running ────────────────────────────────────────────────────────────────
+
+// One context per scanned stock and index
+export function alertContextsFromScan(scan: MarketScan, snapshotAt: Date): AlertMarketContext[] {
+  const contexts: AlertMarketContext[] = scan.data.allStocks.map(stock => ({
+    symbol: stock.symbol,
+    price: stock.price,
+    changePercent: stock.changePercent,
+    volume: stock.volume,
+    candles: scan.candles[stock.symbol] || [],
+    stock,
+    snapshotAt,
+  }))
+
+  const { indices, optionChainData } = scan.data
+  const indexQuotes: Array<[string, { price: number; changePercent: number }, OptionChainAnalysis | null]> = [
+    ['NIFTY', indices.nifty, optionChainData.nifty],
+    ['BANKNIFTY', indices.bankNifty, optionChainData.bankNifty],
+    ['SENSEX', indices.sensex, optionChainData.sensex],
+  ]
+  indexQuotes.forEach(([symbol, quote, optionChain]) => {
+    if (quote.price > 0) {
+      contexts.push({
+        symbol,
+        price: quote.price,
+        changePercent: quote.changePercent,
+        candles: scan.candles[symbol] || [],
+        optionChain,
+        snapshotAt,
+      })
+    }
+  })
+  return contexts
+}
+
+// Evaluate every armed alert against the scan and record what fires
+export async function runAlertEngine(markets: AlertMarketContext[], now: Date = new Date()): Promise<AlertRunSummary> {
+  const master = getSymbolMaster()
+  const bySymbol = new Map<string, AlertMarketContext>()
+  markets.forEach(m => bySymbol.set(m.symbol.toUpperCase(), m))
+
+  const alerts = await AlertService.getArmedAlerts(now)
+  const summary: AlertRunSummary = { evaluated: 0, triggered: [], duplicates: 0 }
+  // Daily history per symbol and range, fetched once per run
+  const histories = new Map<string, Promise<CandleData[]>>()
+
+  for (const alert of alerts) {
+    // Alerts may name the NSE ticker or the Yahoo symbol
+    const symbol = master.get(alert.symbol)?.symbol || alert.symbol.toUpperCase()
+    const market = bySymbol.get(symbol)
+    if (!market) continue
+    summary.evaluated++
+
+    // Multi-timeframe analysis fetches intraday bars - only for conditions that read it
+    const condition = alert.type === 'CONDITION' ? conditionFor(alert) : null
+    if (condition && market.mtf === undefined && condition.sources.includes('mtf')) {
+      market.mtf = await analyzeMultiTimeframe(symbol).catch(error => {
+        console.log(`MTF analysis failed for ${symbol}:`, error)
+        return null
+      })
+    }
+
+    // The scan keeps ~3 months of candles; longer indicators (EMA(200)) get the history they need
+    const bars = Math.max(market.candles.length, market.history?.length || 0)
+    if (condition && condition.sources.includes('candles') && condition.lookback > bars) {
+      const range = conditionCandleRange(condition)
+      const cacheKey = `${symbol}:${range}`
+      if (!histories.has(cacheKey)) {
+        histories.set(cacheKey, getMarketDataProvider()
+          .getCandles(master.toYahoo(symbol), '1d', range)
+          .then(history => toCandles(history))
+          .catch(error => {
+            console.log(`Alert history failed for ${symbol}:`, error)
+            return [] as CandleData[]
+          }))
+      }
+      const history = await histories.get(cacheKey)!
+      if (history.length > bars) market.history = history
+    }
+
+    const match = evaluateAlert(alert, market)
+    if (!match) continue
+    if (match.key === alert.lastTriggerKey) {
+      summary.duplicates++
+      continue
+    }
+
+    const trigger = await AlertService.recordTrigger(
+      alert,
+      { key: match.key, message: match.message, context: match.context, snapshotAt: market.snapshotAt },
+      now
+    )
+    if (!trigger) {
+      summary.duplicates++
+      continue
+    }
+    summary.triggered.push(trigger)
+    await notifyAlertTrigger(trigger, now).catch(error =>
+      console.error(`Failed to queue notifications for alert ${alert._id}:`, error)
+    )
+  }
+
+  return summary
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,41 @@
+// Credential Validation
+// zod schemas for signup, sign-in and password change, shared by the API routes and
+// the next-auth credentials provider
+import { z } from 'zod'
+
+export const MIN_PASSWORD_LENGTH = 8
+
+// The sign-in error (next-auth's `error`) while failed attempts are throttled
+export const SIGNIN_THROTTLED_ERROR = 'TooManyAttempts'
+const MAX_PASSWORD_LENGTH = 128 // bcrypt ignores anything past 72 bytes anyway
+
+const email = z.string().trim().pipe(z.email({ error: 'Enter a valid email address' }))
+
+const newPassword = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+  .max(MAX_PASSWORD_LENGTH, { error: `Password must be at most ${MAX_PASSWORD_LENGTH} characters` })
+  .refine(value => /[A-Za-z]/.test(value) && /\d/.test(value), {
+    error: 'Password must contain a letter and a number',
+  })
+
+export const signupSchema = z.object({
+  email,
+  password: newPassword,
+  name: z.string().trim().max(80).optional(),
+})
+
+export const loginSchema = z.object({
+  email,
+  password: z.string().min(1).max(MAX_PASSWORD_LENGTH),
+})
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, { error: 'Enter your current password' }),
+    newPassword,
+  })
+  .refine(value => value.currentPassword !== value.newPassword, {
+    error: 'New password must differ from the current one',
+    path: ['newPassword'],
+  })
@@ -0,0 +1,90 @@
+// Auth Options
+// next-auth configuration: email/password sign-in against UserService, JWT sessions
+// (no session collection), and the user's id on the session for API routes.
+// NEXTAUTH_SECRET signs the session cookie and must be set outside development.
+// Sessions signed in before the user's last password change are refused, and failed
+// sign-ins are throttled per email and per client IP.
+import type { NextAuthOptions } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import { ObjectId } from 'mongodb'
+import { UserService } from '../db/userService'
+import { loginSchema, SIGNIN_THROTTLED_ERROR } from './credentials'
+
+const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+export const authOptions: NextAuthOptions = {
+  secret: process.env.NEXTAUTH_SECRET,
+  session: {
+    strategy: 'jwt',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  },
+  pages: {
+    signIn: '/login',
+  },
+  providers: [
+    CredentialsProvider({
+      name: 'Email',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+      },
+      // null sends the user back to /login with ?error=CredentialsSignin, a throw with
+      // ?error=<message>
+      async authorize(credentials, req) {
+        const parsed = loginSchema.safeParse(credentials)
+        if (!parsed.success) return null
+
+        const { email, password } = parsed.data
+        const ip = clientIp(req.headers)
+        if (await UserService.isSignInThrottled(email, ip)) throw new Error(SIGNIN_THROTTLED_ERROR)
+
+        const user = await UserService.verifyPassword(email, password)
+        if (!user?._id) {
+          await UserService.recordFailedSignIn(email, ip)
+          return null
+        }
+        await UserService.clearFailedSignIns(email)
+        return {
+          id: user._id.toString(),
+          email: user.email,
+          name: user.name || null,
+          plan: user.plan,
+          passwordChangedAt: user.passwordChangedAt?.getTime() || 0,
+        }
+      },
+    }),
+  ],
+  callbacks: {
+    // `user` is only present at sign-in; later calls check the password hasn't changed
+    // since. Throwing ends the session: next-auth clears the cookie
+    async jwt({ token, user }) {
+      if (user) {
+        token.sub = user.id
+        token.plan = user.plan
+        token.passwordChangedAt = user.passwordChangedAt || 0
+        return token
+      }
+
+      const current = token.sub && ObjectId.isValid(token.sub) ? await UserService.getUserById(token.sub) : null
+      if (!current || (current.passwordChangedAt?.getTime() || 0) !== (token.passwordChangedAt || 0)) {
+        throw new Error('Session ended - the account was removed or its password changed')
+      }
+      return token
+    },
+    async session({ session, token }) {
+      if (session.user && token.sub) {
+        session.user.id = token.sub
+        session.user.plan = token.plan
+      }
+      return session
+    },
+  },
+}
+
+// The client address as reported by the proxy in front of the app (first X-Forwarded-For
+// entry); null when there is none, and then only the per-email limit applies
+function clientIp(headers: Record<string, unknown> | undefined): string | null {
+  const forwarded = headers?.['x-forwarded-for'] ?? headers?.['x-real-ip']
+  const value = Array.isArray(forwarded) ? forwarded[0] : forwarded
+  return typeof value === 'string' && value.trim() ? value.split(',')[0].trim() : null
+}
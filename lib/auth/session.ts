@@ -0,0 +1,48 @@
+// API Sessions
+// Resolve the signed-in user for API routes. Wrap a handler in withSession to require
+// sign-in (401 otherwise) and receive the user's id as an ObjectId; use getSessionUser
+// where signing in is optional.
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getServerSession } from 'next-auth/next'
+import { ObjectId } from 'mongodb'
+import { isMongoConfigured } from '../mongodb'
+import { authOptions } from './options'
+
+export interface SessionUser {
+  userId: ObjectId
+  email: string
+  name?: string
+}
+
+export type SessionApiHandler = (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  user: SessionUser
+) => unknown | Promise<unknown>
+
+// The signed-in user, or null for anonymous requests
+export async function getSessionUser(req: NextApiRequest, res: NextApiResponse): Promise<SessionUser | null> {
+  const session = await getServerSession(req, res, authOptions)
+  const id = session?.user?.id
+  if (!id || !ObjectId.isValid(id)) return null
+  return {
+    userId: new ObjectId(id),
+    email: session.user?.email || '',
+    name: session.user?.name || undefined,
+  }
+}
+
+// Require a signed-in user; accounts live in MongoDB, so without it there are none
+export function withSession(handler: SessionApiHandler) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    if (!isMongoConfigured()) {
+      return res.status(503).json({ error: 'Accounts need MONGODB_URI' })
+    }
+
+    const user = await getSessionUser(req, res)
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in required' })
+    }
+    return handler(req, res, user)
+  }
+}
@@ -1,17 +1,50 @@
 // Alert Service - Database operations for alerts
-import { ObjectId } from 'mongodb'
+import { MongoServerError, ObjectId } from 'mongodb'
 import { getCollection } from '../mongodb'
-import { Alert, AlertType, AlertCollections } from '../../models/Alert'
+import { Alert, AlertType, AlertCollections, AlertTrigger } from '../../models/Alert'
+import { MAX_CONDITION_LOOKBACK } from '../screener/screener'
+import { compileCondition, formatConditionErrors } from '../../utils/conditionDsl'
+
+let indexesReady: Promise<void> | null = null
 
 export class AlertService {
+  // Create trigger dedupe and history indexes (runs once per process)
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const triggers = await getCollection<AlertTrigger>(AlertCollections.ALERT_TRIGGERS)
+        await Promise.all([
+          triggers.createIndex({ alertId: 1, key: 1 }, { unique: true }),
+          triggers.createIndex({ userId: 1, triggeredAt: -1 }),
+        ])
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
   // Create alert
   static async createAlert(
     userId: string | ObjectId,
     type: AlertType,
     symbol: string,
     condition: string,
-    value: number
+    value: number,
+    options: { cooldownMinutes?: number } = {}
   ): Promise<Alert> {
+    // Don't store an expression the engine can't evaluate, or one needing more history than it fetches
+    if (type === 'CONDITION') {
+      const { condition: compiled, errors } = compileCondition(condition)
+      if (errors.length > 0) throw new Error(`Invalid alert condition:\n${formatConditionErrors(errors)}`)
+      if (compiled && compiled.lookback > MAX_CONDITION_LOOKBACK) {
+        throw new Error(
+          `Invalid alert condition: it needs ${compiled.lookback} daily bars - at most ${MAX_CONDITION_LOOKBACK} are available`
+        )
+      }
+    }
+
     const alerts = await getCollection<Alert>(AlertCollections.ALERTS)
     const id = typeof userId === 'string' ? new ObjectId(userId) : userId
 
@@ -23,6 +56,7 @@ export class AlertService {
       value,
       triggered: false,
       active: true,
+      ...(options.cooldownMinutes ? { cooldownMinutes: options.cooldownMinutes } : {}),
       createdAt: new Date(),
     }
 
@@ -126,6 +160,73 @@ export class AlertService {
       .toArray()
   }
 
+  // Active alerts that can fire now: never fired, or past their cooldown
+  static async getArmedAlerts(now: Date = new Date()): Promise<Alert[]> {
+    const alerts = await getCollection<Alert>(AlertCollections.ALERTS)
+    const candidates = await alerts.find({ active: true, triggered: false }).toArray()
+
+    return candidates.filter(alert =>
+      !alert.triggeredAt ||
+      !alert.cooldownMinutes ||
+      now.getTime() - alert.triggeredAt.getTime() >= alert.cooldownMinutes * 60 * 1000
+    )
+  }
+
+  // Store a firing and update the alert. One-shot alerts are marked triggered;
+  // alerts with a cooldown stay armed. Returns null when this key already fired.
+  static async recordTrigger(
+    alert: Alert,
+    trigger: Omit<AlertTrigger, '_id' | 'alertId' | 'userId' | 'symbol' | 'type' | 'triggeredAt'>,
+    now: Date = new Date()
+  ): Promise<AlertTrigger | null> {
+    await this.ensureIndexes()
+    const triggers = await getCollection<AlertTrigger>(AlertCollections.ALERT_TRIGGERS)
+    const alerts = await getCollection<Alert>(AlertCollections.ALERTS)
+
+    const doc: AlertTrigger = {
+      ...trigger,
+      alertId: alert._id!,
+      userId: alert.userId,
+      symbol: alert.symbol,
+      type: alert.type,
+      triggeredAt: now,
+    }
+
+    try {
+      const result = await triggers.insertOne(doc)
+      doc._id = result.insertedId
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) return null
+      throw error
+    }
+
+    await alerts.updateOne(
+      { _id: alert._id },
+      {
+        $set: {
+          triggered: !alert.cooldownMinutes,
+          triggeredAt: now,
+          lastTriggerKey: trigger.key,
+        },
+        $inc: { triggerCount: 1 },
+      }
+    )
+    return doc
+  }
+
+  // Trigger history for a user (optionally one alert), newest first
+  static async getTriggers(
+    userId: string | ObjectId,
+    options: { alertId?: string | ObjectId; limit?: number } = {}
+  ): Promise<AlertTrigger[]> {
+    const triggers = await getCollection<AlertTrigger>(AlertCollections.ALERT_TRIGGERS)
+    const query: any = { userId: typeof userId === 'string' ? new ObjectId(userId) : userId }
+    if (options.alertId) {
+      query.alertId = typeof options.alertId === 'string' ? new ObjectId(options.alertId) : options.alertId
+    }
+    return triggers.find(query).sort({ triggeredAt: -1 }).limit(options.limit || 50).toArray()
+  }
+
   // Check and trigger alerts based on current price
   static async checkPriceAlerts(symbol: string, currentPrice: number): Promise<Alert[]> {
     const alerts = await getCollection<Alert>(AlertCollections.ALERTS)
@@ -0,0 +1,265 @@
+// Market Cache Service - Stale-while-revalidate cache for quotes, candles, option chains and analysis
+import { getCollection, isMongoConfigured } from '../mongodb'
+import {
+  AnalysisCache,
+  MarketDataCache,
+  MarketDataCacheType,
+  MarketDataCollections,
+} from '../../models/MarketData'
+
+export type CacheState = 'FRESH' | 'STALE' | 'MISS'
+
+export interface CachedValue<T> {
+  data: T
+  state: CacheState
+  createdAt: Date
+  expiresAt: Date
+}
+
+export interface CachePolicy {
+  ttlSeconds: number   // served as fresh
+  staleSeconds: number // additionally served as stale while a refresh runs
+}
+
+export const CACHE_POLICIES: Record<MarketDataCacheType | AnalysisCache['analysisType'], CachePolicy> = {
+  STOCK: { ttlSeconds: 60, staleSeconds: 10 * 60 },
+  INDEX: { ttlSeconds: 30, staleSeconds: 10 * 60 },
+  CANDLES: { ttlSeconds: 5 * 60, staleSeconds: 24 * 60 * 60 },
+  OPTION_CHAIN: { ttlSeconds: 60, staleSeconds: 15 * 60 },
+  ANALYSIS: { ttlSeconds: 60, staleSeconds: 10 * 60 },
+  SMC: { ttlSeconds: 5 * 60, staleSeconds: 30 * 60 },
+  MTF: { ttlSeconds: 5 * 60, staleSeconds: 30 * 60 },
+  AI_CONFIDENCE: { ttlSeconds: 5 * 60, staleSeconds: 30 * 60 },
+  FULL: { ttlSeconds: 5 * 60, staleSeconds: 30 * 60 },
+}
+
+// Refreshes in flight in this process, keyed by cache key, so concurrent
+// requests for the same stale entry trigger a single upstream fetch
+const inflight = new Map<string, Promise<any>>()
+let indexesReady: Promise<void> | null = null
+
+export class MarketCacheService {
+  // Create unique lookup and TTL indexes (runs once per process)
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const market = await getCollection<MarketDataCache>(MarketDataCollections.MARKET_DATA_CACHE)
+        const analysis = await getCollection<AnalysisCache>(MarketDataCollections.ANALYSIS_CACHE)
+
+        await Promise.all([
+          market.createIndex({ key: 1 }, { unique: true }),
+          market.createIndex({ staleUntil: 1 }, { expireAfterSeconds: 0 }),
+          analysis.createIndex({ symbol: 1, analysisType: 1 }, { unique: true }),
+          analysis.createIndex({ staleUntil: 1 }, { expireAfterSeconds: 0 }),
+        ])
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
+  // Build the cache key for a market data entry
+  static cacheKey(type: MarketDataCacheType, symbol: string, variant?: string): string {
+    return variant ? `${type}:${symbol}:${variant}` : `${type}:${symbol}`
+  }
+
+  // Read a market data entry (fresh or stale)
+  static async get<T>(
+    type: MarketDataCacheType,
+    symbol: string,
+    variant?: string
+  ): Promise<CachedValue<T> | null> {
+    const cache = await getCollection<MarketDataCache>(MarketDataCollections.MARKET_DATA_CACHE)
+    const entry = await cache.findOne({
+      key: this.cacheKey(type, symbol, variant),
+      staleUntil: { $gt: new Date() },
+    })
+    return entry ? toCachedValue<T>(entry) : null
+  }
+
+  // Write a market data entry
+  static async set<T>(
+    type: MarketDataCacheType,
+    symbol: string,
+    data: T,
+    policy: CachePolicy = CACHE_POLICIES[type],
+    variant?: string
+  ): Promise<CachedValue<T>> {
+    await this.ensureIndexes()
+    const cache = await getCollection<MarketDataCache>(MarketDataCollections.MARKET_DATA_CACHE)
+    const key = this.cacheKey(type, symbol, variant)
+    const entry = buildEntry(data, policy)
+
+    await cache.updateOne(
+      { key },
+      { $set: { key, symbol, type, ...entry } },
+      { upsert: true }
+    )
+
+    return { data, state: 'MISS', createdAt: entry.createdAt, expiresAt: entry.expiresAt }
+  }
+
+  // Serve from cache when fresh; serve stale and refresh in the background when
+  // stale; fetch and store on a miss. Without MongoDB this is a pass-through.
+  static async getOrRefresh<T>(
+    type: MarketDataCacheType,
+    symbol: string,
+    fetcher: () => Promise<T>,
+    options: { variant?: string; policy?: CachePolicy } = {}
+  ): Promise<CachedValue<T>> {
+    const policy = options.policy || CACHE_POLICIES[type]
+    const key = this.cacheKey(type, symbol, options.variant)
+
+    return withCache<T>(
+      key,
+      () => this.get<T>(type, symbol, options.variant),
+      data => this.set(type, symbol, data, policy, options.variant),
+      fetcher,
+      policy
+    )
+  }
+
+  // Read an analysis result (fresh or stale)
+  static async getAnalysis<T>(
+    symbol: string,
+    analysisType: AnalysisCache['analysisType']
+  ): Promise<CachedValue<T> | null> {
+    const cache = await getCollection<AnalysisCache>(MarketDataCollections.ANALYSIS_CACHE)
+    const entry = await cache.findOne({ symbol, analysisType, staleUntil: { $gt: new Date() } })
+    return entry ? toCachedValue<T>(entry) : null
+  }
+
+  // Write an analysis result
+  static async setAnalysis<T>(
+    symbol: string,
+    analysisType: AnalysisCache['analysisType'],
+    data: T,
+    policy: CachePolicy = CACHE_POLICIES[analysisType]
+  ): Promise<CachedValue<T>> {
+    await this.ensureIndexes()
+    const cache = await getCollection<AnalysisCache>(MarketDataCollections.ANALYSIS_CACHE)
+    const entry = buildEntry(data, policy)
+
+    await cache.updateOne(
+      { symbol, analysisType },
+      { $set: { symbol, analysisType, ...entry } },
+      { upsert: true }
+    )
+
+    return { data, state: 'MISS', createdAt: entry.createdAt, expiresAt: entry.expiresAt }
+  }
+
+  // Stale-while-revalidate for analysis results
+  static async getOrRefreshAnalysis<T>(
+    symbol: string,
+    analysisType: AnalysisCache['analysisType'],
+    fetcher: () => Promise<T>,
+    policy: CachePolicy = CACHE_POLICIES[analysisType]
+  ): Promise<CachedValue<T>> {
+    return withCache<T>(
+      `ANALYSIS_CACHE:${analysisType}:${symbol}`,
+      () => this.getAnalysis<T>(symbol, analysisType),
+      data => this.setAnalysis(symbol, analysisType, data, policy),
+      fetcher,
+      policy
+    )
+  }
+
+  // Drop every entry for a symbol
+  static async invalidate(symbol: string): Promise<number> {
+    const market = await getCollection<MarketDataCache>(MarketDataCollections.MARKET_DATA_CACHE)
+    const analysis = await getCollection<AnalysisCache>(MarketDataCollections.ANALYSIS_CACHE)
+
+    const [marketResult, analysisResult] = await Promise.all([
+      market.deleteMany({ symbol }),
+      analysis.deleteMany({ symbol }),
+    ])
+
+    return marketResult.deletedCount + analysisResult.deletedCount
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+async function withCache<T>(
+  key: string,
+  read: () => Promise<CachedValue<T> | null>,
+  write: (data: T) => Promise<CachedValue<T>>,
+  fetcher: () => Promise<T>,
+  policy: CachePolicy
+): Promise<CachedValue<T>> {
+  if (!isMongoConfigured()) {
+    const data = await fetcher()
+    return { data, state: 'MISS', createdAt: new Date(), expiresAt: expiryFrom(new Date(), policy) }
+  }
+
+  let cached: CachedValue<T> | null = null
+  try {
+    cached = await read()
+  } catch (error) {
+    console.log(`Cache read failed for ${key}:`, error)
+  }
+
+  if (cached && cached.state === 'FRESH') return cached
+
+  if (cached && cached.state === 'STALE') {
+    refresh(key, write, fetcher).catch(error => {
+      console.log(`Background refresh failed for ${key}:`, error)
+    })
+    return cached
+  }
+
+  const data = await refresh(key, write, fetcher)
+  return { data, state: 'MISS', createdAt: new Date(), expiresAt: expiryFrom(new Date(), policy) }
+}
+
+function refresh<T>(
+  key: string,
+  write: (data: T) => Promise<CachedValue<T>>,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const existing = inflight.get(key)
+  if (existing) return existing
+
+  const pending = (async () => {
+    try {
+      const data = await fetcher()
+      // Empty results are never cached so the next request retries upstream
+      if (data !== null && data !== undefined) {
+        await write(data).catch(error => console.log(`Cache write failed for ${key}:`, error))
+      }
+      return data
+    } finally {
+      inflight.delete(key)
+    }
+  })()
+
+  inflight.set(key, pending)
+  return pending
+}
+
+function buildEntry(data: any, policy: CachePolicy) {
+  const createdAt = new Date()
+  const expiresAt = expiryFrom(createdAt, policy)
+  return {
+    data,
+    createdAt,
+    expiresAt,
+    staleUntil: new Date(expiresAt.getTime() + policy.staleSeconds * 1000),
+  }
+}
+
+function expiryFrom(createdAt: Date, policy: CachePolicy): Date {
+  return new Date(createdAt.getTime() + policy.ttlSeconds * 1000)
+}
+
+function toCachedValue<T>(entry: { data: any; createdAt: Date; expiresAt: Date }): CachedValue<T> {
+  return {
+    data: entry.data as T,
+    state: entry.expiresAt.getTime() > Date.now() ? 'FRESH' : 'STALE',
+    createdAt: entry.createdAt,
+    expiresAt: entry.expiresAt,
+  }
+}
@@ -0,0 +1,224 @@
+// Notification Service - Database operations for preferences, the in-app inbox and the outbox
+import { ObjectId } from 'mongodb'
+import { getCollection } from '../mongodb'
+import {
+  InAppNotification,
+  NotificationCollections,
+  NotificationMessage,
+  NotificationPreferences,
+  OutboxEntry,
+} from '../../models/Notification'
+import { afterQuietHours } from '../notifications/quietHours'
+
+// Retries back off 30s, 1m, 2m, 4m, 8m; the sixth failure is final
+export const MAX_DELIVERY_ATTEMPTS = 6
+const RETRY_BASE_SECONDS = 30
+const RETRY_MAX_SECONDS = 60 * 60
+// A claimed entry is retried by another worker if not settled within this
+const SEND_LEASE_SECONDS = 2 * 60
+const SENT_RETENTION_SECONDS = 30 * 24 * 60 * 60
+
+let indexesReady: Promise<void> | null = null
+
+export class NotificationService {
+  // Create lookup, due-entry and retention indexes (runs once per process)
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const preferences = await getCollection<NotificationPreferences>(NotificationCollections.PREFERENCES)
+        const inApp = await getCollection<InAppNotification>(NotificationCollections.IN_APP)
+        const outbox = await getCollection<OutboxEntry>(NotificationCollections.OUTBOX)
+        await Promise.all([
+          preferences.createIndex({ userId: 1 }, { unique: true }),
+          inApp.createIndex({ userId: 1, createdAt: -1 }),
+          outbox.createIndex({ status: 1, nextAttemptAt: 1 }),
+          outbox.createIndex({ sentAt: 1 }, { expireAfterSeconds: SENT_RETENTION_SECONDS }),
+        ])
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
+  // ─── Preferences ────────────────────────────────────────────────────────────
+
+  // A user's preferences; in-app only until they set some
+  static async getPreferences(userId: string | ObjectId): Promise<NotificationPreferences> {
+    const preferences = await getCollection<NotificationPreferences>(NotificationCollections.PREFERENCES)
+    const id = toObjectId(userId)
+    const stored = await preferences.findOne({ userId: id })
+    return stored || { userId: id, channels: { IN_APP: { enabled: true } }, updatedAt: new Date(0) }
+  }
+
+  // Replace a user's preferences
+  static async savePreferences(
+    userId: string | ObjectId,
+    settings: Pick<NotificationPreferences, 'channels' | 'quietHours' | 'digestMinutes'>
+  ): Promise<NotificationPreferences> {
+    await this.ensureIndexes()
+    const preferences = await getCollection<NotificationPreferences>(NotificationCollections.PREFERENCES)
+    const doc: NotificationPreferences = {
+      userId: toObjectId(userId),
+      channels: settings.channels,
+      ...(settings.quietHours ? { quietHours: settings.quietHours } : {}),
+      ...(settings.digestMinutes ? { digestMinutes: settings.digestMinutes } : {}),
+      updatedAt: new Date(),
+    }
+    await preferences.replaceOne({ userId: doc.userId }, doc, { upsert: true })
+    return doc
+  }
+
+  // ─── In-app ─────────────────────────────────────────────────────────────────
+
+  // Add to a user's inbox
+  static async addInApp(
+    userId: string | ObjectId,
+    message: NotificationMessage,
+    triggerId?: ObjectId
+  ): Promise<InAppNotification> {
+    await this.ensureIndexes()
+    const inApp = await getCollection<InAppNotification>(NotificationCollections.IN_APP)
+    const doc: InAppNotification = {
+      ...message,
+      userId: toObjectId(userId),
+      ...(triggerId ? { triggerId } : {}),
+      read: false,
+      createdAt: new Date(),
+    }
+    const result = await inApp.insertOne(doc)
+    return { ...doc, _id: result.insertedId }
+  }
+
+  // A user's inbox, newest first
+  static async getInApp(
+    userId: string | ObjectId,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<InAppNotification[]> {
+    const inApp = await getCollection<InAppNotification>(NotificationCollections.IN_APP)
+    const query: any = { userId: toObjectId(userId) }
+    if (options.unreadOnly) query.read = false
+    return inApp.find(query).sort({ createdAt: -1 }).limit(options.limit || 50).toArray()
+  }
+
+  // Unread notifications in a user's inbox
+  static async countUnread(userId: string | ObjectId): Promise<number> {
+    const inApp = await getCollection<InAppNotification>(NotificationCollections.IN_APP)
+    return inApp.countDocuments({ userId: toObjectId(userId), read: false })
+  }
+
+  // Mark some (or all) of a user's notifications read
+  static async markRead(userId: string | ObjectId, ids?: Array<string | ObjectId>): Promise<number> {
+    const inApp = await getCollection<InAppNotification>(NotificationCollections.IN_APP)
+    const query: any = { userId: toObjectId(userId), read: false }
+    if (ids) query._id = { $in: ids.map(toObjectId) }
+    const result = await inApp.updateMany(query, { $set: { read: true } })
+    return result.modifiedCount
+  }
+
+  // ─── Outbox ─────────────────────────────────────────────────────────────────
+
+  // Queue a message for an external channel
+  static async enqueue(entry: Omit<OutboxEntry, '_id' | 'attempts' | 'createdAt'>): Promise<OutboxEntry> {
+    await this.ensureIndexes()
+    const outbox = await getCollection<OutboxEntry>(NotificationCollections.OUTBOX)
+    const doc: OutboxEntry = { ...entry, attempts: 0, createdAt: new Date() }
+    const result = await outbox.insertOne(doc)
+    return { ...doc, _id: result.insertedId }
+  }
+
+  // Claim up to `limit` due entries for sending. Claims are leased, so entries a
+  // crashed worker was holding become due again
+  static async claimDue(now: Date = new Date(), limit: number = 50): Promise<OutboxEntry[]> {
+    const outbox = await getCollection<OutboxEntry>(NotificationCollections.OUTBOX)
+    const lockedUntil = new Date(now.getTime() + SEND_LEASE_SECONDS * 1000)
+    const claimed: OutboxEntry[] = []
+
+    while (claimed.length < limit) {
+      const entry = await outbox.findOneAndUpdate(
+        {
+          $or: [
+            { status: 'PENDING', nextAttemptAt: { $lte: now } },
+            { status: 'SENDING', lockedUntil: { $lte: now } },
+          ],
+        },
+        { $set: { status: 'SENDING', lockedUntil } },
+        { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+      )
+      if (!entry) break
+      claimed.push(entry)
+    }
+    return claimed
+  }
+
+  // Record a successful send. Only applies while this worker's lease holds; false if the
+  // entry was reclaimed by another worker in the meantime
+  static async markSent(entry: OutboxEntry, now: Date = new Date()): Promise<boolean> {
+    const outbox = await getCollection<OutboxEntry>(NotificationCollections.OUTBOX)
+    const result = await outbox.updateOne(
+      { _id: entry._id, status: 'SENDING', lockedUntil: entry.lockedUntil },
+      { $set: { status: 'SENT', sentAt: now }, $unset: { lockedUntil: '', lastError: '' }, $inc: { attempts: 1 } }
+    )
+    return result.modifiedCount > 0
+  }
+
+  // Record a failed send: schedule a retry with backoff (pushed past the user's quiet hours),
+  // or give up after the last attempt. null if the lease was lost to another worker
+  static async markFailed(
+    entry: OutboxEntry,
+    error: string,
+    now: Date = new Date(),
+    quietHours?: NotificationPreferences['quietHours']
+  ): Promise<OutboxEntry['status'] | null> {
+    const outbox = await getCollection<OutboxEntry>(NotificationCollections.OUTBOX)
+    const attempts = entry.attempts + 1
+    const status = attempts >= MAX_DELIVERY_ATTEMPTS ? 'FAILED' : 'PENDING'
+    const retryAt = new Date(now.getTime() + retryDelaySeconds(attempts) * 1000)
+    const result = await outbox.updateOne(
+      { _id: entry._id, status: 'SENDING', lockedUntil: entry.lockedUntil },
+      {
+        $set: {
+          status,
+          attempts,
+          lastError: error,
+          nextAttemptAt: afterQuietHours(retryAt, quietHours),
+        },
+        $unset: { lockedUntil: '' },
+      }
+    )
+    return result.modifiedCount > 0 ? status : null
+  }
+
+  // Entries waiting for their digest, oldest first
+  static async getHeld(): Promise<OutboxEntry[]> {
+    const outbox = await getCollection<OutboxEntry>(NotificationCollections.OUTBOX)
+    return outbox.find({ status: 'HELD' }).sort({ createdAt: 1 }).toArray()
+  }
+
+  // Swap held entries for the single digest entry that replaces them
+  static async replaceWithDigest(
+    held: OutboxEntry[],
+    digest: Omit<OutboxEntry, '_id' | 'attempts' | 'createdAt'>
+  ): Promise<OutboxEntry> {
+    const outbox = await getCollection<OutboxEntry>(NotificationCollections.OUTBOX)
+    const entry = await this.enqueue(digest)
+    await outbox.deleteMany({ _id: { $in: held.map(h => h._id!) }, status: 'HELD' })
+    return entry
+  }
+
+  // Outbox entries for a user, newest first - for checking delivery
+  static async getOutbox(userId: string | ObjectId, limit: number = 50): Promise<OutboxEntry[]> {
+    const outbox = await getCollection<OutboxEntry>(NotificationCollections.OUTBOX)
+    return outbox.find({ userId: toObjectId(userId) }).sort({ createdAt: -1 }).limit(limit).toArray()
+  }
+}
+
+// Seconds before retry n (1-based): 30s doubling, capped at an hour
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_MAX_SECONDS, RETRY_BASE_SECONDS * Math.pow(2, Math.max(0, attempts - 1)))
+}
+
+function toObjectId(id: string | ObjectId): ObjectId {
+  return typeof id === 'string' ? new ObjectId(id) : id
+}
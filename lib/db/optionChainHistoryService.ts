@@ -0,0 +1,232 @@
+// Option Chain History Service - Database operations for intraday chain snapshots
+import { Filter } from 'mongodb'
+import { getCollection } from '../mongodb'
+import {
+  ExpiryPinRecord,
+  OptionChainHistoryCollections,
+  OptionChainHistoryPoint,
+  StrikeSnapshot,
+} from '../../models/OptionChainHistory'
+import { ExpiryChain, OptionChainEntry, OptionChainSnapshot } from '../../utils/optionChainAnalysis'
+import { toIST } from '../../utils/candles'
+import { calculateMaxPain, toStrikeOI } from '../../utils/maxPain'
+
+// A month of intraday snapshots covers the life of a monthly contract
+const HISTORY_RETENTION_SECONDS = 30 * 24 * 60 * 60
+// Far expiries barely trade intraday - keep the ones people watch
+const DEFAULT_MAX_EXPIRIES = 3
+
+export interface StrikeSeriesPoint {
+  time: Date
+  spotPrice: number
+  callOI: number
+  putOI: number
+  callIV: number
+  putIV: number
+  callLTP: number
+  putLTP: number
+}
+
+export interface StrikeSeries {
+  strike: number
+  points: StrikeSeriesPoint[]
+}
+
+let indexesReady: Promise<void> | null = null
+
+export class OptionChainHistoryService {
+  // Create lookup, dedupe and retention indexes (runs once per process). Expiry pins
+  // have no TTL - the pin study needs them long after the snapshots are gone
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const history = await getCollection<OptionChainHistoryPoint>(OptionChainHistoryCollections.OPTION_CHAIN_HISTORY)
+        const pins = await getCollection<ExpiryPinRecord>(OptionChainHistoryCollections.EXPIRY_PINS)
+        await Promise.all([
+          history.createIndex({ symbol: 1, expiryDate: 1, capturedAt: 1 }, { unique: true }),
+          history.createIndex({ createdAt: 1 }, { expireAfterSeconds: HISTORY_RETENTION_SECONDS }),
+          pins.createIndex({ symbol: 1, expiryDate: 1 }, { unique: true }),
+        ])
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
+  // Store the nearest expiries of a snapshot, and the expiry pin record when it was taken
+  // on an expiry's last day. Re-recording the same capture (a cached chain served twice)
+  // is a no-op. Returns snapshot documents written.
+  static async recordSnapshot(
+    snapshot: OptionChainSnapshot,
+    maxExpiries: number = DEFAULT_MAX_EXPIRIES
+  ): Promise<number> {
+    await this.ensureIndexes()
+    const history = await getCollection<OptionChainHistoryPoint>(OptionChainHistoryCollections.OPTION_CHAIN_HISTORY)
+
+    const capturedAt = new Date(snapshot.timestamp)
+    const tradingDate = toIST(Math.floor(capturedAt.getTime() / 1000)).date
+    const symbol = snapshot.symbol.toUpperCase()
+
+    const writes = snapshot.expiries.slice(0, maxExpiries).map(expiry => ({
+      updateOne: {
+        filter: { symbol, expiryDate: expiry.date, capturedAt },
+        update: {
+          $setOnInsert: {
+            symbol,
+            expiryDate: expiry.date,
+            tradingDate,
+            capturedAt,
+            spotPrice: snapshot.spotPrice,
+            strikes: expiry.strikes.map(toStrikeSnapshot),
+            createdAt: new Date(),
+          },
+        },
+        upsert: true,
+      },
+    }))
+    if (writes.length === 0) return 0
+
+    const result = await history.bulkWrite(writes, { ordered: false })
+    const expiring = snapshot.expiries.find(expiry => expiry.date === tradingDate)
+    if (expiring) await this.recordExpiryPin(symbol, expiring, snapshot.spotPrice, capturedAt)
+    return result.upsertedCount
+  }
+
+  // Expiry day capture: the first one sets the opening max pain, the latest one the
+  // closing spot, whatever order they arrive in
+  static async recordExpiryPin(
+    symbol: string,
+    expiry: ExpiryChain,
+    spotPrice: number,
+    capturedAt: Date
+  ): Promise<void> {
+    const maxPain = calculateMaxPain(toStrikeOI(expiry.strikes))
+    if (maxPain === null || !(spotPrice > 0)) return
+
+    const pins = await getCollection<ExpiryPinRecord>(OptionChainHistoryCollections.EXPIRY_PINS)
+    const key = { symbol: symbol.toUpperCase(), expiryDate: expiry.date }
+    const now = new Date()
+    await pins.bulkWrite([
+      {
+        updateOne: {
+          filter: key,
+          update: {
+            $setOnInsert: {
+              ...key,
+              openedAt: capturedAt,
+              openingMaxPain: maxPain,
+              closedAt: capturedAt,
+              closingSpot: spotPrice,
+              updatedAt: now,
+            },
+          },
+          upsert: true,
+        },
+      },
+      {
+        updateOne: {
+          filter: { ...key, openedAt: { $gt: capturedAt } },
+          update: { $set: { openedAt: capturedAt, openingMaxPain: maxPain, updatedAt: now } },
+        },
+      },
+      {
+        updateOne: {
+          filter: { ...key, closedAt: { $lt: capturedAt } },
+          update: { $set: { closedAt: capturedAt, closingSpot: spotPrice, updatedAt: now } },
+        },
+      },
+    ])
+  }
+
+  // Expiries with history for a symbol, nearest first, skipping ones already past
+  static async getExpiries(symbol: string, fromDate: string): Promise<string[]> {
+    const history = await getCollection<OptionChainHistoryPoint>(OptionChainHistoryCollections.OPTION_CHAIN_HISTORY)
+    const expiries = await history.distinct('expiryDate', {
+      symbol: symbol.toUpperCase(),
+      expiryDate: { $gte: fromDate },
+    })
+    return (expiries as string[]).sort()
+  }
+
+  // Latest trading date captured for a symbol/expiry
+  static async getLatestTradingDate(symbol: string, expiryDate: string): Promise<string | null> {
+    const history = await getCollection<OptionChainHistoryPoint>(OptionChainHistoryCollections.OPTION_CHAIN_HISTORY)
+    const latest = await history.findOne(
+      { symbol: symbol.toUpperCase(), expiryDate },
+      { sort: { capturedAt: -1 }, projection: { tradingDate: 1 } }
+    )
+    return latest ? latest.tradingDate : null
+  }
+
+  // Snapshots for a symbol/expiry in a time range, oldest first
+  static async getHistory(
+    symbol: string,
+    expiryDate: string,
+    range: { from?: Date; to?: Date; tradingDate?: string } = {}
+  ): Promise<OptionChainHistoryPoint[]> {
+    const history = await getCollection<OptionChainHistoryPoint>(OptionChainHistoryCollections.OPTION_CHAIN_HISTORY)
+
+    const query: Filter<OptionChainHistoryPoint> = { symbol: symbol.toUpperCase(), expiryDate }
+    if (range.tradingDate) query.tradingDate = range.tradingDate
+    if (range.from || range.to) {
+      query.capturedAt = {
+        ...(range.from ? { $gte: range.from } : {}),
+        ...(range.to ? { $lte: range.to } : {}),
+      }
+    }
+
+    return history.find(query).sort({ capturedAt: 1 }).toArray()
+  }
+
+  // Expiry pin records on or after `fromDate`, oldest expiry first
+  static async getExpiryPins(symbol: string, fromDate: string): Promise<ExpiryPinRecord[]> {
+    const pins = await getCollection<ExpiryPinRecord>(OptionChainHistoryCollections.EXPIRY_PINS)
+    return pins
+      .find({ symbol: symbol.toUpperCase(), expiryDate: { $gte: fromDate } })
+      .sort({ expiryDate: 1 })
+      .toArray()
+  }
+
+  // Pivot snapshots into one time series per strike (optionally only `strikes`)
+  static toStrikeSeries(points: OptionChainHistoryPoint[], strikes?: number[]): StrikeSeries[] {
+    const byStrike = new Map<number, StrikeSeriesPoint[]>()
+
+    points.forEach(point => {
+      point.strikes.forEach(s => {
+        if (strikes && !strikes.includes(s.strike)) return
+        const series = byStrike.get(s.strike) || []
+        series.push({
+          time: point.capturedAt,
+          spotPrice: point.spotPrice,
+          callOI: s.callOI,
+          putOI: s.putOI,
+          callIV: s.callIV,
+          putIV: s.putIV,
+          callLTP: s.callLTP,
+          putLTP: s.putLTP,
+        })
+        byStrike.set(s.strike, series)
+      })
+    })
+
+    const result: StrikeSeries[] = []
+    byStrike.forEach((series, strike) => result.push({ strike, points: series }))
+    return result.sort((a, b) => a.strike - b.strike)
+  }
+}
+
+function toStrikeSnapshot(entry: OptionChainEntry): StrikeSnapshot {
+  return {
+    strike: entry.strikePrice,
+    callOI: entry.CE?.openInterest || 0,
+    putOI: entry.PE?.openInterest || 0,
+    callIV: entry.CE?.impliedVolatility || 0,
+    putIV: entry.PE?.impliedVolatility || 0,
+    callLTP: entry.CE?.lastPrice || 0,
+    putLTP: entry.PE?.lastPrice || 0,
+    callVolume: entry.CE?.totalTradedVolume || 0,
+    putVolume: entry.PE?.totalTradedVolume || 0,
+  }
+}
@@ -0,0 +1,53 @@
+// Snapshot Service - Database operations for scanner snapshots
+import { getCollection } from '../mongodb'
+import { MarketSnapshot, MarketSnapshotCollections } from '../../models/MarketSnapshot'
+
+// Snapshots are history, not state - keep a week of runs
+const SNAPSHOT_RETENTION_SECONDS = 7 * 24 * 60 * 60
+
+let indexesReady: Promise<void> | null = null
+
+export class SnapshotService {
+  // Create lookup and retention indexes (runs once per process)
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const snapshots = await getCollection<MarketSnapshot>(MarketSnapshotCollections.MARKET_SNAPSHOTS)
+        await Promise.all([
+          snapshots.createIndex({ kind: 1, completedAt: -1 }),
+          snapshots.createIndex({ createdAt: 1 }, { expireAfterSeconds: SNAPSHOT_RETENTION_SECONDS }),
+        ])
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
+  // Save a completed scan
+  static async saveSnapshot(snapshot: Omit<MarketSnapshot, '_id' | 'createdAt'>): Promise<MarketSnapshot> {
+    await this.ensureIndexes()
+    const snapshots = await getCollection<MarketSnapshot>(MarketSnapshotCollections.MARKET_SNAPSHOTS)
+
+    const doc: MarketSnapshot = { ...snapshot, createdAt: new Date() }
+    const result = await snapshots.insertOne(doc)
+    return { ...doc, _id: result.insertedId }
+  }
+
+  // Get the most recent completed scan
+  static async getLatest(kind: MarketSnapshot['kind'] = 'MARKET_OVERVIEW'): Promise<MarketSnapshot | null> {
+    const snapshots = await getCollection<MarketSnapshot>(MarketSnapshotCollections.MARKET_SNAPSHOTS)
+    return snapshots.findOne({ kind }, { sort: { completedAt: -1 } })
+  }
+
+  // Get the most recent scan if it completed within maxAgeSeconds
+  static async getRecent(
+    maxAgeSeconds: number,
+    kind: MarketSnapshot['kind'] = 'MARKET_OVERVIEW'
+  ): Promise<MarketSnapshot | null> {
+    const snapshots = await getCollection<MarketSnapshot>(MarketSnapshotCollections.MARKET_SNAPSHOTS)
+    const cutoff = new Date(Date.now() - maxAgeSeconds * 1000)
+    return snapshots.findOne({ kind, completedAt: { $gte: cutoff } }, { sort: { completedAt: -1 } })
+  }
+}
@@ -0,0 +1,411 @@
+// Trade Analytics Service - Performance analytics over a user's closed trades
+// Everything is computed in MongoDB aggregation pipelines (one $facet pass for the
+// summary and breakdowns, one $setWindowFields pass for equity, drawdown and streaks),
+// so only grouped rows come back however many trades there are. Needs MongoDB 5.0+.
+import { Document, ObjectId } from 'mongodb'
+import { getCollection } from '../mongodb'
+import { tradeQuery, TradeFilters } from './tradeService'
+import { Trade, TradeCollections } from '../../models/Trade'
+
+export interface PerformanceMetrics {
+  trades: number
+  wins: number
+  losses: number
+  winRate: number               // %
+  totalPnl: number
+  avgWin: number
+  avgLoss: number               // as a positive amount
+  expectancy: number            // average pnl per trade: winRate x avgWin - lossRate x avgLoss
+  profitFactor: number | null   // gross profit / gross loss; null without losing trades
+  rTrades: number               // trades with a stop loss, so an R-multiple
+  avgR: number | null
+  totalR: number | null
+}
+
+export interface BreakdownRow extends PerformanceMetrics {
+  key: string
+}
+
+export interface DailyPnl {
+  date: string                  // IST trading day the trades were closed on
+  trades: number
+  pnl: number
+  equity: number                // cumulative pnl at the day's close
+}
+
+export interface TradeAnalytics {
+  summary: PerformanceMetrics & {
+    bestTrade: number
+    worstTrade: number
+  }
+  // Annualised (252 sessions) over days with closed trades; null with fewer than 2 days
+  risk: {
+    days: number
+    avgDailyPnl: number
+    bestDay: number
+    worstDay: number
+    sharpe: number | null
+    sortino: number | null
+    maxDrawdown: number         // deepest fall of trade-by-trade equity from its running peak
+    maxDrawdownPeak: number     // equity at that peak
+    maxDrawdownAt: string | null
+  }
+  streaks: {
+    longestWin: number
+    longestLoss: number
+    current: { type: 'WIN' | 'LOSS' | null; length: number }
+  }
+  equityCurve: DailyPnl[]
+  rDistribution: Array<{ bucket: string; trades: number }>
+  breakdowns: {
+    strategy: BreakdownRow[]
+    tag: BreakdownRow[]
+    symbol: BreakdownRow[]
+    weekday: BreakdownRow[]
+    timeOfDay: BreakdownRow[]
+    emotionalState: BreakdownRow[]
+  }
+}
+
+const TIMEZONE = 'Asia/Kolkata'
+const TRADING_DAYS_PER_YEAR = 252
+// Most symbols shown in the symbol breakdown (best and worst by pnl are what matter)
+const MAX_SYMBOL_ROWS = 50
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+// Entry-time buckets over the NSE session, in IST minutes since midnight
+const TIME_OF_DAY: Array<{ label: string; before: number }> = [
+  { label: 'Pre-open (before 9:15)', before: 9 * 60 + 15 },
+  { label: 'Opening (9:15-10:00)', before: 10 * 60 },
+  { label: 'Morning (10:00-12:00)', before: 12 * 60 },
+  { label: 'Midday (12:00-14:00)', before: 14 * 60 },
+  { label: 'Closing (14:00-15:30)', before: 15 * 60 + 31 },
+]
+const AFTER_HOURS = 'After hours'
+
+const R_BUCKETS: Array<{ label: string; below: number }> = [
+  { label: 'Below -1R', below: -1 },
+  { label: '-1R to 0R', below: 0 },
+  { label: '0R to 1R', below: 1 },
+  { label: '1R to 2R', below: 2 },
+  { label: '2R to 3R', below: 3 },
+]
+const R_TOP_BUCKET = '3R and above'
+
+// ─── Pipeline Stages ───
+
+// Per-trade fields every facet groups on
+const ENRICH_STAGES: Document[] = [
+  {
+    $addFields: {
+      pnl: { $ifNull: ['$pnl', 0] },
+      closedAt: { $ifNull: ['$exitDate', '$date'] },
+      risk: {
+        $cond: [
+          { $and: [{ $gt: ['$stopLoss', 0] }, { $ne: ['$stopLoss', '$entry'] }] },
+          { $multiply: [{ $abs: { $subtract: ['$entry', '$stopLoss'] } }, '$quantity'] },
+          null,
+        ],
+      },
+    },
+  },
+  {
+    $addFields: {
+      r: { $cond: [{ $ne: ['$risk', null] }, { $divide: ['$pnl', '$risk'] }, null] },
+    },
+  },
+]
+
+// Accumulators behind PerformanceMetrics
+const METRIC_GROUP: Document = {
+  trades: { $sum: 1 },
+  wins: { $sum: { $cond: [{ $gt: ['$pnl', 0] }, 1, 0] } },
+  losses: { $sum: { $cond: [{ $lt: ['$pnl', 0] }, 1, 0] } },
+  totalPnl: { $sum: '$pnl' },
+  grossProfit: { $sum: { $cond: [{ $gt: ['$pnl', 0] }, '$pnl', 0] } },
+  grossLoss: { $sum: { $cond: [{ $lt: ['$pnl', 0] }, { $abs: '$pnl' }, 0] } },
+  rTrades: { $sum: { $cond: [{ $ne: ['$r', null] }, 1, 0] } },
+  totalR: { $sum: { $ifNull: ['$r', 0] } },
+}
+
+const ENTRY_MINUTES = {
+  $add: [
+    { $multiply: [{ $hour: { date: '$date', timezone: TIMEZONE } }, 60] },
+    { $minute: { date: '$date', timezone: TIMEZONE } },
+  ],
+}
+
+const TIME_OF_DAY_BUCKET = {
+  $switch: {
+    branches: TIME_OF_DAY.map(bucket => ({ case: { $lt: [ENTRY_MINUTES, bucket.before] }, then: bucket.label })),
+    default: AFTER_HOURS,
+  },
+}
+
+const R_BUCKET = {
+  $switch: {
+    branches: R_BUCKETS.map(bucket => ({ case: { $lt: ['$r', bucket.below] }, then: bucket.label })),
+    default: R_TOP_BUCKET,
+  },
+}
+
+// Group by `key`, best pnl first
+function breakdown(key: unknown, ...before: Document[]): Document[] {
+  return [...before, { $group: { _id: key, ...METRIC_GROUP } }, { $sort: { totalPnl: -1 } }]
+}
+
+interface MetricRow {
+  _id: unknown
+  trades: number
+  wins: number
+  losses: number
+  totalPnl: number
+  grossProfit: number
+  grossLoss: number
+  rTrades: number
+  totalR: number
+}
+
+interface SummaryRow extends MetricRow {
+  bestTrade: number
+  worstTrade: number
+}
+
+interface FacetResult {
+  summary: SummaryRow[]
+  daily: Array<{ _id: string; trades: number; pnl: number }>
+  rDistribution: Array<{ _id: string; trades: number }>
+  strategy: MetricRow[]
+  tag: MetricRow[]
+  symbol: MetricRow[]
+  weekday: MetricRow[]
+  timeOfDay: MetricRow[]
+  emotionalState: MetricRow[]
+}
+
+interface SequenceResult {
+  drawdown: Array<{ drawdown: number; peak: number; closedAt: Date }>
+  runs: Array<{ _id: number; longest: number }>
+  current: Array<{ _id: number; outcome: number; length: number }>
+}
+
+export class TradeAnalyticsService {
+  // Full analytics over the user's closed trades matching the filters
+  static async getAnalytics(userId: string | ObjectId, filters: TradeFilters = {}): Promise<TradeAnalytics> {
+    const trades = await getCollection<Trade>(TradeCollections.TRADES)
+    const match = { $match: tradeQuery(userId, { ...filters, status: 'CLOSED' }) }
+
+    const [facets, sequence] = await Promise.all([
+      trades.aggregate<FacetResult>([
+        match,
+        ...ENRICH_STAGES,
+        {
+          $facet: {
+            summary: [
+              {
+                $group: {
+                  _id: null,
+                  ...METRIC_GROUP,
+                  bestTrade: { $max: '$pnl' },
+                  worstTrade: { $min: '$pnl' },
+                },
+              },
+            ],
+            daily: [
+              {
+                $group: {
+                  _id: { $dateToString: { format: '%Y-%m-%d', date: '$closedAt', timezone: TIMEZONE } },
+                  trades: { $sum: 1 },
+                  pnl: { $sum: '$pnl' },
+                },
+              },
+              { $sort: { _id: 1 } },
+            ],
+            rDistribution: [
+              { $match: { r: { $ne: null } } },
+              { $group: { _id: R_BUCKET, trades: { $sum: 1 } } },
+            ],
+            strategy: breakdown({ $ifNull: ['$strategy', 'None'] }),
+            tag: breakdown('$tags', { $unwind: '$tags' }),
+            symbol: [...breakdown('$symbol'), { $limit: MAX_SYMBOL_ROWS }],
+            weekday: breakdown({ $isoDayOfWeek: { date: '$date', timezone: TIMEZONE } }),
+            timeOfDay: breakdown(TIME_OF_DAY_BUCKET),
+            emotionalState: breakdown({ $ifNull: ['$emotionalState', 'Not recorded'] }),
+          },
+        },
+      ]).next(),
+      trades.aggregate<SequenceResult>([
+        match,
+        ...ENRICH_STAGES,
+        {
+          $addFields: {
+            outcome: { $cond: [{ $gt: ['$pnl', 0] }, 1, { $cond: [{ $lt: ['$pnl', 0] }, -1, 0] }] },
+          },
+        },
+        // Trade-by-trade equity, and whether each trade continues the previous one's outcome
+        {
+          $setWindowFields: {
+            sortBy: { closedAt: 1, _id: 1 },
+            output: {
+              equity: { $sum: '$pnl', window: { documents: ['unbounded', 'current'] } },
+              previousOutcome: { $shift: { output: '$outcome', by: -1, default: null } },
+            },
+          },
+        },
+        // Running peak, and a run number that ticks over whenever the outcome changes
+        {
+          $setWindowFields: {
+            sortBy: { closedAt: 1, _id: 1 },
+            output: {
+              peak: { $max: '$equity', window: { documents: ['unbounded', 'current'] } },
+              run: {
+                $sum: { $cond: [{ $eq: ['$outcome', '$previousOutcome'] }, 0, 1] },
+                window: { documents: ['unbounded', 'current'] },
+              },
+            },
+          },
+        },
+        {
+          $facet: {
+            // Equity starts at 0, so the peak is never below it
+            drawdown: [
+              { $addFields: { peak: { $max: ['$peak', 0] } } },
+              { $project: { _id: 0, closedAt: 1, peak: 1, drawdown: { $subtract: ['$peak', '$equity'] } } },
+              { $sort: { drawdown: -1 } },
+              { $limit: 1 },
+            ],
+            runs: [
+              { $group: { _id: '$run', outcome: { $first: '$outcome' }, length: { $sum: 1 } } },
+              { $group: { _id: '$outcome', longest: { $max: '$length' } } },
+            ],
+            current: [
+              { $group: { _id: '$run', outcome: { $first: '$outcome' }, length: { $sum: 1 } } },
+              { $sort: { _id: -1 } },
+              { $limit: 1 },
+            ],
+          },
+        },
+      ]).next(),
+    ])
+
+    const summary = facets?.summary[0]
+    const daily = facets?.daily || []
+    const longest = (outcome: number) => sequence?.runs.find(run => run._id === outcome)?.longest || 0
+    const current = sequence?.current[0]
+    const drawdown = sequence?.drawdown[0]
+
+    let equity = 0
+    const equityCurve = daily.map(day => {
+      equity += day.pnl
+      return { date: day._id, trades: day.trades, pnl: round(day.pnl), equity: round(equity) }
+    })
+    const dailyPnl = daily.map(day => day.pnl)
+
+    return {
+      summary: {
+        ...toMetrics(summary),
+        bestTrade: round(summary?.bestTrade || 0),
+        worstTrade: round(summary?.worstTrade || 0),
+      },
+      risk: {
+        days: daily.length,
+        avgDailyPnl: round(mean(dailyPnl)),
+        bestDay: round(Math.max(...dailyPnl, 0)),
+        worstDay: round(Math.min(...dailyPnl, 0)),
+        sharpe: sharpeRatio(dailyPnl),
+        sortino: sortinoRatio(dailyPnl),
+        maxDrawdown: round(drawdown?.drawdown || 0),
+        maxDrawdownPeak: round(drawdown?.peak || 0),
+        maxDrawdownAt: drawdown && drawdown.drawdown > 0 ? drawdown.closedAt.toISOString() : null,
+      },
+      streaks: {
+        longestWin: longest(1),
+        longestLoss: longest(-1),
+        current: {
+          type: current?.outcome === 1 ? 'WIN' : current?.outcome === -1 ? 'LOSS' : null,
+          length: current && current.outcome !== 0 ? current.length : 0,
+        },
+      },
+      equityCurve,
+      rDistribution: [...R_BUCKETS.map(bucket => bucket.label), R_TOP_BUCKET].map(label => ({
+        bucket: label,
+        trades: facets?.rDistribution.find(row => row._id === label)?.trades || 0,
+      })),
+      breakdowns: {
+        strategy: toRows(facets?.strategy),
+        tag: toRows(facets?.tag),
+        symbol: toRows(facets?.symbol),
+        // Monday first rather than best first
+        weekday: toRows(facets?.weekday)
+          .sort((a, b) => Number(a.key) - Number(b.key))
+          .map(row => ({ ...row, key: WEEKDAYS[Number(row.key) - 1] })),
+        timeOfDay: toRows(facets?.timeOfDay).sort(
+          (a, b) => timeOfDayOrder(a.key) - timeOfDayOrder(b.key)
+        ),
+        emotionalState: toRows(facets?.emotionalState),
+      },
+    }
+  }
+}
+
+// ─── Helpers ───
+
+function toMetrics(row: MetricRow | undefined): PerformanceMetrics {
+  const trades = row?.trades || 0
+  const wins = row?.wins || 0
+  const losses = row?.losses || 0
+  const avgWin = wins > 0 ? row!.grossProfit / wins : 0
+  const avgLoss = losses > 0 ? row!.grossLoss / losses : 0
+  const winRate = trades > 0 ? wins / trades : 0
+  const lossRate = trades > 0 ? losses / trades : 0
+  const rTrades = row?.rTrades || 0
+
+  return {
+    trades,
+    wins,
+    losses,
+    winRate: round(winRate * 100),
+    totalPnl: round(row?.totalPnl || 0),
+    avgWin: round(avgWin),
+    avgLoss: round(avgLoss),
+    expectancy: round(winRate * avgWin - lossRate * avgLoss),
+    profitFactor: row && row.grossLoss > 0 ? round(row.grossProfit / row.grossLoss) : null,
+    rTrades,
+    avgR: rTrades > 0 ? round(row!.totalR / rTrades) : null,
+    totalR: rTrades > 0 ? round(row!.totalR) : null,
+  }
+}
+
+function toRows(rows: MetricRow[] | undefined): BreakdownRow[] {
+  return (rows || []).map(row => ({ key: String(row._id), ...toMetrics(row) }))
+}
+
+function timeOfDayOrder(label: string): number {
+  const index = TIME_OF_DAY.findIndex(bucket => bucket.label === label)
+  return index < 0 ? TIME_OF_DAY.length : index
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+// Mean daily pnl over its (sample) standard deviation, annualised
+function sharpeRatio(daily: number[]): number | null {
+  if (daily.length < 2) return null
+  const avg = mean(daily)
+  const variance = daily.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (daily.length - 1)
+  return variance > 0 ? round((avg / Math.sqrt(variance)) * Math.sqrt(TRADING_DAYS_PER_YEAR)) : null
+}
+
+// As Sharpe, but only losing days count as volatility
+function sortinoRatio(daily: number[]): number | null {
+  if (daily.length < 2) return null
+  const downside = Math.sqrt(daily.reduce((sum, v) => sum + Math.min(v, 0) ** 2, 0) / daily.length)
+  return downside > 0 ? round((mean(daily) / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR)) : null
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
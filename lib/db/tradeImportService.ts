@@ -0,0 +1,259 @@
+// Trade Import Service - Turns a broker tradebook into journal trades
+// Fills already in the journal are skipped, and positions left open by an earlier import
+// are matched first, so overlapping or month-by-month exports can be imported safely.
+// Commits claim each fill in a uniquely indexed collection first, so two imports of the
+// same file can't both write it.
+import { MongoBulkWriteError, ObjectId } from 'mongodb'
+import { getCollection } from '../mongodb'
+import { TradeService } from './tradeService'
+import { Trade, TradeCollections, TradeImportFill } from '../../models/Trade'
+import { calculateTradePnl } from '../../utils/tradePnl'
+import {
+  ImportedTrade,
+  OpenLot,
+  pairFills,
+  parseTradebook,
+  TradebookError,
+  TradebookProfileId,
+} from '../trades/tradebook'
+
+// Every imported trade carries this tag so imports can be filtered in the journal
+export const IMPORT_TAG = 'imported'
+
+export interface ImportPlan {
+  profile: TradebookProfileId
+  rows: number
+  fills: number
+  duplicates: number         // fills already in the journal
+  errors: TradebookError[]
+  trades: ImportedTrade[]
+  fillKeys: string[]         // the new fills the trades are built from
+}
+
+export interface ImportPreviewTrade {
+  symbol: string
+  type: Trade['type']
+  action: Trade['action']
+  date: string
+  entry: number
+  quantity: number
+  exit?: number
+  exitDate?: string
+  fees: number
+  pnl?: number
+  pnlPercent?: number
+  closesOpenTrade: boolean   // closes a trade left open by an earlier import
+  rows: number[]
+}
+
+export interface ImportPreview extends Omit<ImportPlan, 'trades' | 'fillKeys'> {
+  trades: ImportPreviewTrade[]
+  summary: {
+    closed: number
+    open: number
+    pnl: number
+  }
+}
+
+export interface ImportResult {
+  created: number
+  closed: number             // earlier imported trades closed by this import
+  duplicates: number
+}
+
+// The journal changed between planning and committing: another import took some of the
+// fills, or a trade the plan closes was closed in the meantime. Importing again re-plans
+export class TradeImportConflictError extends Error {}
+
+export class TradeImportService {
+  // Parse a tradebook and work out the trades it would create, without writing anything
+  static async plan(
+    userId: string | ObjectId,
+    csv: string,
+    profile: TradebookProfileId | 'auto' = 'auto'
+  ): Promise<ImportPlan> {
+    const trades = await getCollection<Trade>(TradeCollections.TRADES)
+    const owner = typeof userId === 'string' ? new ObjectId(userId) : userId
+    const parsed = parseTradebook(csv, profile)
+
+    const keys = parsed.fills.map(fill => fill.key)
+    const existing = keys.length > 0
+      ? await trades.find({ userId: owner, importFills: { $in: keys } }, { projection: { importFills: 1 } }).toArray()
+      : []
+    const imported = new Set<string>()
+    existing.forEach(trade => (trade.importFills || []).forEach(key => imported.add(key)))
+    const fresh = parsed.fills.filter(fill => !imported.has(fill.key))
+
+    const symbols = fresh
+      .map(fill => fill.instrument.symbol)
+      .filter((symbol, i, all) => all.indexOf(symbol) === i)
+    const open = symbols.length > 0
+      ? await trades
+          .find({ userId: owner, symbol: { $in: symbols }, exit: { $exists: false }, importFills: { $exists: true } })
+          .sort({ date: 1 })
+          .toArray()
+      : []
+
+    return {
+      profile: parsed.profile,
+      rows: parsed.rows,
+      fills: parsed.fills.length,
+      duplicates: parsed.fills.length - fresh.length,
+      errors: parsed.errors,
+      trades: pairFills(fresh, open.map(toOpenLot)),
+      fillKeys: fresh.map(fill => fill.key),
+    }
+  }
+
+  // What the plan would write, with pnl for the closed round trips
+  static toPreview({ fillKeys, ...plan }: ImportPlan): ImportPreview {
+    const trades = plan.trades.map(trade => {
+      const pnl = trade.exit !== undefined
+        ? calculateTradePnl(trade.action, trade.entry, trade.exit, trade.quantity, trade.fees)
+        : null
+      return {
+        symbol: trade.symbol,
+        type: trade.type,
+        action: trade.action,
+        date: trade.date.toISOString(),
+        entry: trade.entry,
+        quantity: trade.quantity,
+        exit: trade.exit,
+        exitDate: trade.exitDate?.toISOString(),
+        fees: trade.fees,
+        ...(pnl || {}),
+        closesOpenTrade: trade.existingId !== undefined,
+        rows: trade.rows,
+      }
+    })
+
+    const closed = trades.filter(trade => trade.exit !== undefined)
+    return {
+      ...plan,
+      trades,
+      summary: {
+        closed: closed.length,
+        open: trades.length - closed.length,
+        pnl: Math.round(closed.reduce((sum, trade) => sum + (trade.pnl || 0), 0) * 100) / 100,
+      },
+    }
+  }
+
+  // Write a plan: new trades are inserted, earlier open imports closed (or cut down to the
+  // quantity closed, with the rest inserted as a new open trade). Throws
+  // TradeImportConflictError when the journal changed since the plan; fills that weren't
+  // written are released so the next import picks them up.
+  static async commit(userId: string | ObjectId, plan: ImportPlan): Promise<ImportResult> {
+    await TradeService.ensureIndexes()
+    const trades = await getCollection<Trade>(TradeCollections.TRADES)
+    const importFills = await getCollection<TradeImportFill>(TradeCollections.IMPORT_FILLS)
+    const owner = typeof userId === 'string' ? new ObjectId(userId) : userId
+    const importId = new ObjectId()
+    const now = new Date()
+
+    if (plan.fillKeys.length > 0) {
+      try {
+        await importFills.insertMany(
+          plan.fillKeys.map(key => ({ userId: owner, key, importId, createdAt: now })),
+          { ordered: false }
+        )
+      } catch (error) {
+        await importFills.deleteMany({ importId })
+        if (error instanceof MongoBulkWriteError && error.code === 11000) {
+          throw new TradeImportConflictError('Some of these fills were imported in the meantime - import the file again')
+        }
+        throw error
+      }
+    }
+    // Give back the claims on fills no written trade used, so importing again picks them up
+    const releaseUnwritten = (written: ImportedTrade[]) => {
+      const used = new Set(written.flatMap(trade => trade.fills))
+      return importFills.deleteMany({ importId, key: { $in: plan.fillKeys.filter(key => !used.has(key)) } })
+    }
+
+    const closing = plan.trades.filter(trade => trade.existingId !== undefined)
+    const written: ImportedTrade[] = []
+    const missed: ImportedTrade[] = []
+    for (const trade of closing) {
+      const result = await trades.updateOne(
+        { _id: new ObjectId(trade.existingId), userId: owner, exit: { $exists: false } },
+        {
+          $set: {
+            quantity: trade.quantity,
+            exit: trade.exit,
+            exitDate: trade.exitDate,
+            fees: trade.fees,
+            ...calculateTradePnl(trade.action, trade.entry, trade.exit || 0, trade.quantity, trade.fees),
+            updatedAt: now,
+          },
+          $addToSet: { importFills: { $each: trade.fills } },
+        }
+      )
+      if (result.modifiedCount > 0) written.push(trade)
+      else missed.push(trade)
+    }
+
+    // A journal trade closed by hand since the plan: skip whatever was built on it (what's
+    // left of it carries its earlier fills)
+    const fresh = new Set(plan.fillKeys)
+    const stale = new Set(missed.flatMap(trade => trade.fills.filter(key => !fresh.has(key))))
+    const opened = plan.trades
+      .filter(trade => trade.existingId === undefined)
+      .filter(trade => !trade.fills.some(key => stale.has(key)))
+
+    const inserts: Trade[] = opened.map(trade => ({
+        userId: owner,
+        date: trade.date,
+        symbol: trade.symbol,
+        type: trade.type,
+        action: trade.action,
+        entry: trade.entry,
+        quantity: trade.quantity,
+        ...(trade.exit !== undefined
+          ? {
+              exit: trade.exit,
+              exitDate: trade.exitDate,
+              ...calculateTradePnl(trade.action, trade.entry, trade.exit, trade.quantity, trade.fees),
+            }
+          : {}),
+        fees: trade.fees,
+        tags: [IMPORT_TAG],
+        importFills: trade.fills,
+        createdAt: now,
+        updatedAt: now,
+      }))
+
+    if (inserts.length > 0) {
+      await trades.insertMany(inserts).catch(async error => {
+        await releaseUnwritten(written)
+        throw error
+      })
+      written.push(...opened)
+    }
+
+    if (missed.length > 0) {
+      await releaseUnwritten(written)
+      throw new TradeImportConflictError(
+        `${missed.length} open trade${missed.length > 1 ? 's were' : ' was'} closed since the preview - ` +
+        `${written.length} written, import the file again for the rest`
+      )
+    }
+
+    return { created: inserts.length, closed: closing.length, duplicates: plan.duplicates }
+  }
+}
+
+function toOpenLot(trade: Trade): OpenLot {
+  return {
+    tradeId: String(trade._id),
+    symbol: trade.symbol,
+    type: trade.type,
+    side: trade.action,
+    time: trade.date,
+    price: trade.entry,
+    quantity: trade.quantity,
+    fees: trade.fees || 0,
+    fills: trade.importFills || [],
+    rows: [],
+  }
+}
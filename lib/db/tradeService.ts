@@ -1,15 +1,54 @@
 // Trade Service - Database operations for trades
-import { ObjectId } from 'mongodb'
+import { Filter, ObjectId } from 'mongodb'
 import { getCollection } from '../mongodb'
-import { Trade, TradeCollections } from '../../models/Trade'
+import { Trade, TradeCollections, TradeImportFill } from '../../models/Trade'
+import { calculateTradePnl } from '../../utils/tradePnl'
+
+export interface TradeFilters {
+  symbol?: string
+  tag?: string
+  strategy?: string
+  from?: Date             // entry date, inclusive
+  to?: Date
+  status?: 'OPEN' | 'CLOSED'
+}
+
+// Changing any of these on a closed trade recomputes its pnl
+const PNL_FIELDS: Array<keyof Trade> = ['action', 'entry', 'exit', 'quantity', 'fees']
+
+let indexesReady: Promise<void> | null = null
 
 export class TradeService {
-  // Create new trade
+  // Create journal lookup and import fill indexes (runs once per process)
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const trades = await getCollection<Trade>(TradeCollections.TRADES)
+        const importFills = await getCollection<TradeImportFill>(TradeCollections.IMPORT_FILLS)
+        await Promise.all([
+          importFills.createIndex({ userId: 1, key: 1 }, { unique: true }),
+          trades.createIndex({ userId: 1, date: -1 }),
+          trades.createIndex({ userId: 1, symbol: 1, date: -1 }),
+          trades.createIndex({ userId: 1, tags: 1 }),
+          trades.createIndex({ userId: 1, strategy: 1 }),
+          trades.createIndex({ userId: 1, importFills: 1 }, { sparse: true }),
+        ])
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
+  // Create new trade; pnl is computed when it's created already closed
   static async createTrade(trade: Omit<Trade, '_id' | 'createdAt' | 'updatedAt'>): Promise<Trade> {
+    await this.ensureIndexes()
     const trades = await getCollection<Trade>(TradeCollections.TRADES)
 
     const newTrade: Trade = {
       ...trade,
+      ...(trade.exit !== undefined ? tradePnl(trade) : {}),
       createdAt: new Date(),
       updatedAt: new Date(),
     }
@@ -42,7 +81,15 @@ export class TradeService {
     return trades.findOne({ _id: id })
   }
 
-  // Update trade
+  // Get a trade only if this user owns it
+  static async getUserTrade(userId: string | ObjectId, tradeId: string | ObjectId): Promise<Trade | null> {
+    const trades = await getCollection<Trade>(TradeCollections.TRADES)
+    const owner = typeof userId === 'string' ? new ObjectId(userId) : userId
+    const id = typeof tradeId === 'string' ? new ObjectId(tradeId) : tradeId
+    return trades.findOne({ _id: id, userId: owner })
+  }
+
+  // Update trade; pnl follows price, quantity, side or fee changes on closed trades
   static async updateTrade(
     tradeId: string | ObjectId,
     updates: Partial<Trade>
@@ -50,25 +97,78 @@ export class TradeService {
     const trades = await getCollection<Trade>(TradeCollections.TRADES)
     const id = typeof tradeId === 'string' ? new ObjectId(tradeId) : tradeId
 
+    let changes: Partial<Trade> = updates
+    if (PNL_FIELDS.some(field => updates[field] !== undefined)) {
+      const current = await trades.findOne({ _id: id })
+      const merged = current ? { ...current, ...updates } : null
+      if (merged && merged.exit !== undefined) changes = { ...updates, ...tradePnl(merged) }
+    }
+
     const result = await trades.updateOne(
       { _id: id },
-      { $set: { ...updates, updatedAt: new Date() } }
+      { $set: { ...changes, updatedAt: new Date() } }
     )
 
     return result.modifiedCount > 0
   }
 
-  // Delete trade
+  // Close an open trade at `exit` and compute its pnl; null if it isn't open
+  static async closeTrade(
+    tradeId: string | ObjectId,
+    exit: number,
+    exitDate: Date = new Date(),
+    fees?: number
+  ): Promise<Trade | null> {
+    const trades = await getCollection<Trade>(TradeCollections.TRADES)
+    const id = typeof tradeId === 'string' ? new ObjectId(tradeId) : tradeId
+
+    const trade = await trades.findOne({ _id: id, exit: { $exists: false } })
+    if (!trade) return null
+
+    const closing = { exit, exitDate, fees: fees ?? trade.fees }
+    const { pnl, pnlPercent } = tradePnl({ ...trade, ...closing })
+    return trades.findOneAndUpdate(
+      { _id: id, exit: { $exists: false } },
+      { $set: { ...closing, pnl, pnlPercent, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    )
+  }
+
+  // Get user trades matching the filters, newest first
+  static async findTrades(
+    userId: string | ObjectId,
+    filters: TradeFilters = {},
+    limit: number = 100,
+    skip: number = 0
+  ): Promise<Trade[]> {
+    const trades = await getCollection<Trade>(TradeCollections.TRADES)
+    return trades
+      .find(tradeQuery(userId, filters))
+      .sort({ date: -1 })
+      .skip(skip)
+      .limit(limit)
+      .toArray()
+  }
+
+  // Delete trade, releasing imported fills no other trade holds so they can be imported again
   static async deleteTrade(tradeId: string | ObjectId): Promise<boolean> {
     const trades = await getCollection<Trade>(TradeCollections.TRADES)
     const id = typeof tradeId === 'string' ? new ObjectId(tradeId) : tradeId
 
-    const result = await trades.deleteOne({ _id: id })
-    return result.deletedCount > 0
+    const deleted = await trades.findOneAndDelete({ _id: id })
+    if (!deleted) return false
+
+    const keys = deleted.importFills || []
+    if (keys.length > 0) {
+      const held = await trades.distinct('importFills', { userId: deleted.userId, importFills: { $in: keys } })
+      const importFills = await getCollection<TradeImportFill>(TradeCollections.IMPORT_FILLS)
+      await importFills.deleteMany({ userId: deleted.userId, key: { $in: keys.filter(key => !held.includes(key)) } })
+    }
+    return true
   }
 
-  // Get trade statistics
-  static async getTradeStats(userId: string | ObjectId): Promise<{
+  // Get trade statistics over closed trades (optionally only those matching the filters)
+  static async getTradeStats(userId: string | ObjectId, filters: TradeFilters = {}): Promise<{
     totalTrades: number
     profitableTrades: number
     winRate: number
@@ -78,9 +178,8 @@ export class TradeService {
     worstTrade: number
   }> {
     const trades = await getCollection<Trade>(TradeCollections.TRADES)
-    const id = typeof userId === 'string' ? new ObjectId(userId) : userId
 
-    const userTrades = await trades.find({ userId: id, exit: { $exists: true } }).toArray()
+    const userTrades = await trades.find(tradeQuery(userId, { ...filters, status: 'CLOSED' })).toArray()
 
     const totalTrades = userTrades.length
     const profitableTrades = userTrades.filter(t => (t.pnl || 0) > 0).length
@@ -106,13 +205,7 @@ export class TradeService {
     userId: string | ObjectId,
     symbol: string
   ): Promise<Trade[]> {
-    const trades = await getCollection<Trade>(TradeCollections.TRADES)
-    const id = typeof userId === 'string' ? new ObjectId(userId) : userId
-
-    return trades
-      .find({ userId: id, symbol })
-      .sort({ date: -1 })
-      .toArray()
+    return this.findTrades(userId, { symbol }, 0)
   }
 
   // Get trades by date range
@@ -121,15 +214,25 @@ export class TradeService {
     startDate: Date,
     endDate: Date
   ): Promise<Trade[]> {
-    const trades = await getCollection<Trade>(TradeCollections.TRADES)
-    const id = typeof userId === 'string' ? new ObjectId(userId) : userId
+    return this.findTrades(userId, { from: startDate, to: endDate }, 0)
+  }
+}
 
-    return trades
-      .find({
-        userId: id,
-        date: { $gte: startDate, $lte: endDate }
-      })
-      .sort({ date: -1 })
-      .toArray()
+// Mongo filter for a user's trades matching the filters
+export function tradeQuery(userId: string | ObjectId, filters: TradeFilters): Filter<Trade> {
+  const query: Filter<Trade> = { userId: typeof userId === 'string' ? new ObjectId(userId) : userId }
+  if (filters.symbol) query.symbol = filters.symbol
+  if (filters.tag) query.tags = filters.tag
+  if (filters.strategy) query.strategy = filters.strategy
+  if (filters.from || filters.to) {
+    query.date = {}
+    if (filters.from) query.date.$gte = filters.from
+    if (filters.to) query.date.$lte = filters.to
   }
+  if (filters.status) query.exit = { $exists: filters.status === 'CLOSED' }
+  return query
+}
+
+function tradePnl(trade: Pick<Trade, 'action' | 'entry' | 'exit' | 'quantity' | 'fees'>) {
+  return calculateTradePnl(trade.action, trade.entry, trade.exit || 0, trade.quantity, trade.fees || 0)
 }
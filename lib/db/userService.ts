@@ -1,13 +1,41 @@
 // User Service - Database operations for users
 import { ObjectId } from 'mongodb'
 import { getCollection } from '../mongodb'
-import { User, UserProfile, UserCollections } from '../../models/User'
+import { LoginFailure, User, UserProfile, UserCollections } from '../../models/User'
 import bcrypt from 'bcryptjs'
 
+// Failed sign-ins allowed per window before further attempts are refused
+export const MAX_FAILED_SIGNINS_PER_EMAIL = 5
+export const MAX_FAILED_SIGNINS_PER_IP = 20
+const SIGNIN_WINDOW_MS = 15 * 60 * 1000
+
+let indexesReady: Promise<void> | null = null
+
 export class UserService {
+  // Create the unique email and sign-in throttle indexes (runs once per process)
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const users = await getCollection<User>(UserCollections.USERS)
+        const failures = await getCollection<LoginFailure>(UserCollections.LOGIN_FAILURES)
+        await Promise.all([
+          users.createIndex({ email: 1 }, { unique: true }),
+          failures.createIndex({ key: 1 }, { unique: true }),
+          failures.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+        ])
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
   // Create new user
   static async createUser(email: string, password: string, name?: string): Promise<User> {
+    await this.ensureIndexes()
     const users = await getCollection<User>(UserCollections.USERS)
+    email = normalizeEmail(email)
     
     // Check if user exists
     const existingUser = await users.findOne({ email })
@@ -27,7 +55,11 @@ export class UserService {
       updatedAt: new Date(),
     }
 
-    const result = await users.insertOne(user)
+    // The unique index catches a concurrent signup with the same email
+    const result = await users.insertOne(user).catch(error => {
+      if (error?.code === 11000) throw new Error('User already exists')
+      throw error
+    })
     
     // Create user profile
     await this.createUserProfile(result.insertedId)
@@ -38,7 +70,7 @@ export class UserService {
   // Get user by email
   static async getUserByEmail(email: string): Promise<User | null> {
     const users = await getCollection<User>(UserCollections.USERS)
-    return users.findOne({ email })
+    return users.findOne({ email: normalizeEmail(email) })
   }
 
   // Get user by ID
@@ -57,6 +89,64 @@ export class UserService {
     return isValid ? user : null
   }
 
+  // Change password after checking the current one; false if it doesn't match
+  static async changePassword(
+    userId: string | ObjectId,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<boolean> {
+    const user = await this.getUserById(userId)
+    if (!user || !(await bcrypt.compare(currentPassword, user.passwordHash))) return false
+
+    const users = await getCollection<User>(UserCollections.USERS)
+    const passwordHash = await bcrypt.hash(newPassword, 10)
+    const now = new Date()
+    await users.updateOne(
+      { _id: user._id },
+      { $set: { passwordHash, passwordChangedAt: now, updatedAt: now } }
+    )
+    return true
+  }
+
+  // True once the email or IP has used up its failed sign-ins for the window
+  static async isSignInThrottled(email: string, ip: string | null): Promise<boolean> {
+    await this.ensureIndexes()
+    const failures = await getCollection<LoginFailure>(UserCollections.LOGIN_FAILURES)
+    const found = await failures
+      .find({ key: { $in: signInKeys(email, ip) }, expiresAt: { $gt: new Date() } })
+      .toArray()
+    return found.some(failure =>
+      failure.count >= (failure.key.startsWith('ip:') ? MAX_FAILED_SIGNINS_PER_IP : MAX_FAILED_SIGNINS_PER_EMAIL)
+    )
+  }
+
+  // Count a failed sign-in against the email and IP; a window starts at the first failure
+  static async recordFailedSignIn(email: string, ip: string | null): Promise<void> {
+    await this.ensureIndexes()
+    const failures = await getCollection<LoginFailure>(UserCollections.LOGIN_FAILURES)
+    const now = new Date()
+    await Promise.all(signInKeys(email, ip).map(async key => {
+      // A window the TTL monitor hasn't removed yet starts over
+      await failures.deleteOne({ key, expiresAt: { $lte: now } })
+      await failures
+        .updateOne(
+          { key },
+          { $inc: { count: 1 }, $setOnInsert: { expiresAt: new Date(now.getTime() + SIGNIN_WINDOW_MS) } },
+          { upsert: true }
+        )
+        .catch(error => {
+          // Two failures upserting the same key at once - the other one counted
+          if (error?.code !== 11000) throw error
+        })
+    }))
+  }
+
+  // Forget an email's failed sign-ins after a successful one (the IP's count stays)
+  static async clearFailedSignIns(email: string): Promise<void> {
+    const failures = await getCollection<LoginFailure>(UserCollections.LOGIN_FAILURES)
+    await failures.deleteOne({ key: `email:${normalizeEmail(email)}` })
+  }
+
   // Update user plan
   static async updateUserPlan(userId: string | ObjectId, plan: 'FREE' | 'PRO' | 'PREMIUM'): Promise<boolean> {
     const users = await getCollection<User>(UserCollections.USERS)
@@ -155,3 +245,12 @@ export class UserService {
     return result.modifiedCount > 0
   }
 }
+
+// Emails are stored and looked up lowercased, so sign-in isn't case-sensitive
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+function signInKeys(email: string, ip: string | null): string[] {
+  return [`email:${normalizeEmail(email)}`, ...(ip ? [`ip:${ip}`] : [])]
+}
@@ -0,0 +1,64 @@
+// Volatility History Service - Database operations for daily ATM IV readings
+import { getCollection } from '../mongodb'
+import { VolatilityHistoryCollections, VolatilityHistoryPoint } from '../../models/VolatilityHistory'
+import { OptionChainSnapshot } from '../../utils/optionChainAnalysis'
+import { atmVolatilityTerm, constantMaturityIV } from '../../utils/volatilityAnalytics'
+import { addDays } from '../../utils/exchangeCalendar'
+import { toIST } from '../../utils/candles'
+
+let indexesReady: Promise<void> | null = null
+
+export class VolatilityHistoryService {
+  // Create the one-reading-per-day index (runs once per process)
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const history = await getCollection<VolatilityHistoryPoint>(VolatilityHistoryCollections.VOLATILITY_HISTORY)
+        await history.createIndex({ symbol: 1, tradingDate: 1 }, { unique: true })
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
+  // Record today's ATM IV from a chain. Later captures overwrite earlier ones,
+  // so each day ends up holding its closing reading. False when the chain has no IV.
+  static async recordDaily(snapshot: OptionChainSnapshot): Promise<boolean> {
+    const term = atmVolatilityTerm(snapshot)
+    const atmIV = constantMaturityIV(term)
+    if (atmIV === null) return false
+
+    await this.ensureIndexes()
+    const history = await getCollection<VolatilityHistoryPoint>(VolatilityHistoryCollections.VOLATILITY_HISTORY)
+
+    const capturedAt = new Date(snapshot.timestamp)
+    const symbol = snapshot.symbol.toUpperCase()
+    const tradingDate = toIST(Math.floor(capturedAt.getTime() / 1000)).date
+
+    await history.updateOne(
+      { symbol, tradingDate },
+      {
+        $set: {
+          atmIV,
+          nearestAtmIV: term[0].iv,
+          spotPrice: snapshot.spotPrice,
+          capturedAt,
+          updatedAt: new Date(),
+        },
+      },
+      { upsert: true }
+    )
+    return true
+  }
+
+  // Daily readings for the last `days` calendar days up to `asOf`, oldest first
+  static async getHistory(symbol: string, asOf: string, days: number = 365): Promise<VolatilityHistoryPoint[]> {
+    const history = await getCollection<VolatilityHistoryPoint>(VolatilityHistoryCollections.VOLATILITY_HISTORY)
+    return history
+      .find({ symbol: symbol.toUpperCase(), tradingDate: { $gt: addDays(asOf, -days), $lte: asOf } })
+      .sort({ tradingDate: 1 })
+      .toArray()
+  }
+}
@@ -3,13 +3,34 @@ import { ObjectId } from 'mongodb'
 import { getCollection } from '../mongodb'
 import { Watchlist, WatchlistCollections } from '../../models/Watchlist'
 
+// Per user, and per watchlist - the realtime server's subscription limit
+export const MAX_WATCHLISTS = 20
+export const MAX_WATCHLIST_SYMBOLS = 50
+
+let indexesReady: Promise<void> | null = null
+
 export class WatchlistService {
+  // Create the per-user lookup index (runs once per process)
+  static async ensureIndexes(): Promise<void> {
+    if (!indexesReady) {
+      indexesReady = (async () => {
+        const watchlists = await getCollection<Watchlist>(WatchlistCollections.WATCHLISTS)
+        await watchlists.createIndex({ userId: 1, createdAt: -1 })
+      })().catch(error => {
+        indexesReady = null
+        throw error
+      })
+    }
+    return indexesReady
+  }
+
   // Create watchlist
   static async createWatchlist(
     userId: string | ObjectId,
     name: string,
     symbols: string[] = []
   ): Promise<Watchlist> {
+    await this.ensureIndexes()
     const watchlists = await getCollection<Watchlist>(WatchlistCollections.WATCHLISTS)
     const id = typeof userId === 'string' ? new ObjectId(userId) : userId
 
@@ -33,6 +54,13 @@ export class WatchlistService {
     return watchlists.find({ userId: id }).sort({ createdAt: -1 }).toArray()
   }
 
+  // Count user watchlists
+  static async countUserWatchlists(userId: string | ObjectId): Promise<number> {
+    const watchlists = await getCollection<Watchlist>(WatchlistCollections.WATCHLISTS)
+    const id = typeof userId === 'string' ? new ObjectId(userId) : userId
+    return watchlists.countDocuments({ userId: id })
+  }
+
   // Get watchlist by ID
   static async getWatchlistById(watchlistId: string | ObjectId): Promise<Watchlist | null> {
     const watchlists = await getCollection<Watchlist>(WatchlistCollections.WATCHLISTS)
@@ -40,6 +68,17 @@ export class WatchlistService {
     return watchlists.findOne({ _id: id })
   }
 
+  // Get a watchlist only if this user owns it
+  static async getUserWatchlist(
+    userId: string | ObjectId,
+    watchlistId: string | ObjectId
+  ): Promise<Watchlist | null> {
+    const watchlists = await getCollection<Watchlist>(WatchlistCollections.WATCHLISTS)
+    const owner = typeof userId === 'string' ? new ObjectId(userId) : userId
+    const id = typeof watchlistId === 'string' ? new ObjectId(watchlistId) : watchlistId
+    return watchlists.findOne({ _id: id, userId: owner })
+  }
+
   // Add symbol to watchlist
   static async addSymbol(
     watchlistId: string | ObjectId,
@@ -71,6 +110,7 @@ export class WatchlistService {
       { _id: id },
       { 
         $pull: { symbols: symbol },
+        $unset: { [`notes.${symbol}`]: '' },
         $set: { updatedAt: new Date() }
       }
     )
@@ -78,6 +118,41 @@ export class WatchlistService {
     return result.modifiedCount > 0
   }
 
+  // Replace the symbol order (same symbols, new order)
+  static async reorderSymbols(
+    watchlistId: string | ObjectId,
+    symbols: string[]
+  ): Promise<boolean> {
+    const watchlists = await getCollection<Watchlist>(WatchlistCollections.WATCHLISTS)
+    const id = typeof watchlistId === 'string' ? new ObjectId(watchlistId) : watchlistId
+
+    const result = await watchlists.updateOne(
+      { _id: id },
+      { $set: { symbols, updatedAt: new Date() } }
+    )
+
+    return result.modifiedCount > 0
+  }
+
+  // Set or clear (null) the note on a symbol
+  static async setSymbolNote(
+    watchlistId: string | ObjectId,
+    symbol: string,
+    note: string | null
+  ): Promise<boolean> {
+    const watchlists = await getCollection<Watchlist>(WatchlistCollections.WATCHLISTS)
+    const id = typeof watchlistId === 'string' ? new ObjectId(watchlistId) : watchlistId
+
+    const result = await watchlists.updateOne(
+      { _id: id, symbols: symbol },
+      note
+        ? { $set: { [`notes.${symbol}`]: note, updatedAt: new Date() } }
+        : { $unset: { [`notes.${symbol}`]: '' }, $set: { updatedAt: new Date() } }
+    )
+
+    return result.modifiedCount > 0
+  }
+
   // Update watchlist name
   static async updateWatchlistName(
     watchlistId: string | ObjectId,
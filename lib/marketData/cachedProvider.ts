@@ -0,0 +1,54 @@
+// Cached Market Data Provider
+// Wraps any provider with the MongoDB-backed stale-while-revalidate cache
+
+import { CachePolicy, MarketCacheService } from '../db/marketCacheService'
+import {
+  CandleInterval,
+  CandleRange,
+  FetchOptions,
+  MarketDataProvider,
+  OptionChainData,
+  Quote,
+  RawCandle,
+} from './types'
+
+// Intraday bars move every minute; daily history can sit for the default CANDLES TTL
+const INTRADAY_CANDLE_POLICY: CachePolicy = { ttlSeconds: 60, staleSeconds: 10 * 60 }
+
+export class CachedMarketDataProvider implements MarketDataProvider {
+  readonly name: string
+
+  constructor(private readonly inner: MarketDataProvider) {
+    this.name = `${inner.name}+cache`
+  }
+
+  async getQuote(symbol: string, options: FetchOptions = {}): Promise<Quote> {
+    const type = symbol.startsWith('^') ? 'INDEX' : 'STOCK'
+    const cached = await MarketCacheService.getOrRefresh(type, symbol, () => this.inner.getQuote(symbol, options))
+    return cached.data
+  }
+
+  async getCandles(
+    symbol: string,
+    interval: CandleInterval,
+    range: CandleRange,
+    options: FetchOptions = {}
+  ): Promise<RawCandle[]> {
+    const cached = await MarketCacheService.getOrRefresh(
+      'CANDLES',
+      symbol,
+      () => this.inner.getCandles(symbol, interval, range, options),
+      { variant: `${interval}:${range}`, policy: interval === '1d' ? undefined : INTRADAY_CANDLE_POLICY }
+    )
+    return cached.data
+  }
+
+  async getOptionChain(symbol: string, options: FetchOptions = {}): Promise<OptionChainData | null> {
+    const cached = await MarketCacheService.getOrRefresh(
+      'OPTION_CHAIN',
+      symbol,
+      () => this.inner.getOptionChain(symbol, options)
+    )
+    return cached.data
+  }
+}
@@ -0,0 +1,62 @@
+// Fixture Market Data Provider
+// Serves recorded JSON from disk so the app and analysis engines run offline
+//
+// Layout (one directory per symbol, non-alphanumerics replaced with "_"):
+//   <fixturesDir>/<symbol>/quote.json                     -> Quote
+//   <fixturesDir>/<symbol>/candles-<interval>-<range>.json -> RawCandle[]
+//   <fixturesDir>/<symbol>/candles-<interval>.json         -> RawCandle[] (any range)
+//   <fixturesDir>/<symbol>/option-chain.json               -> OptionChainData
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  CandleInterval,
+  CandleRange,
+  MarketDataProvider,
+  OptionChainData,
+  Quote,
+  RawCandle,
+} from './types'
+
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'fixture'
+
+  constructor(private readonly fixturesDir: string) {}
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const quote = await this.readFixture<Quote>(symbol, 'quote.json')
+    if (!quote) {
+      throw new Error(`No quote fixture for ${symbol} in ${this.fixturesDir}`)
+    }
+    return quote
+  }
+
+  async getCandles(symbol: string, interval: CandleInterval, range: CandleRange): Promise<RawCandle[]> {
+    const candles =
+      (await this.readFixture<RawCandle[]>(symbol, `candles-${interval}-${range}.json`)) ||
+      (await this.readFixture<RawCandle[]>(symbol, `candles-${interval}.json`))
+    if (!candles) {
+      throw new Error(`No ${interval} candle fixture for ${symbol} in ${this.fixturesDir}`)
+    }
+    return candles
+  }
+
+  async getOptionChain(symbol: string): Promise<OptionChainData | null> {
+    return this.readFixture<OptionChainData>(symbol, 'option-chain.json')
+  }
+
+  private async readFixture<T>(symbol: string, file: string): Promise<T | null> {
+    const filePath = path.join(this.fixturesDir, fixtureKey(symbol), file)
+    try {
+      const content = await fs.readFile(filePath, 'utf8')
+      return JSON.parse(content) as T
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') return null
+      throw error
+    }
+  }
+}
+
+export function fixtureKey(symbol: string): string {
+  return symbol.replace(/[^A-Za-z0-9]/g, '_')
+}
@@ -0,0 +1,43 @@
+// Market Data Provider Selection
+// MARKET_DATA_PROVIDER=yahoo (default) | fixture
+// MARKET_DATA_FIXTURES_DIR overrides the fixture directory (default: fixtures/market-data)
+// MARKET_DATA_CACHE=off disables the MongoDB cache layer (on whenever MONGODB_URI is set)
+
+import path from 'path'
+import { isMongoConfigured } from '../mongodb'
+import { CachedMarketDataProvider } from './cachedProvider'
+import { FixtureMarketDataProvider } from './fixtureProvider'
+import { MarketDataProvider } from './types'
+import { YahooMarketDataProvider } from './yahooProvider'
+
+export * from './types'
+
+let provider: MarketDataProvider | null = null
+
+export function createMarketDataProvider(name: string = process.env.MARKET_DATA_PROVIDER || 'yahoo'): MarketDataProvider {
+  switch (name.toLowerCase()) {
+    case 'yahoo':
+      return new YahooMarketDataProvider()
+    case 'fixture':
+      return new FixtureMarketDataProvider(
+        process.env.MARKET_DATA_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'market-data')
+      )
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${name}" (expected "yahoo" or "fixture")`)
+  }
+}
+
+// Process-wide provider, created from config on first use
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!provider) {
+    const base = createMarketDataProvider()
+    const cacheEnabled = isMongoConfigured() && process.env.MARKET_DATA_CACHE !== 'off'
+    provider = cacheEnabled ? new CachedMarketDataProvider(base) : base
+  }
+  return provider
+}
+
+// Swap the active provider (offline runs, scripts)
+export function setMarketDataProvider(next: MarketDataProvider): void {
+  provider = next
+}
@@ -0,0 +1,95 @@
+// NSE Option Chain Client
+// Handles the NSE cookie handshake and maps option-chain-indices responses
+
+import axios from 'axios'
+import type { OptionData } from '../../utils/optionChainAnalysis'
+import { OptionChainData } from './types'
+
+const NSE_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+// ─── NSE Session Manager ────────────────────────────────────────────────────
+
+let nseCookies: string = ''
+let lastCookieTime: number = 0
+const COOKIE_EXPIRY = 5 * 60 * 1000 // 5 minutes
+
+async function getNSESession(): Promise<string> {
+  const now = Date.now()
+  if (nseCookies && (now - lastCookieTime) < COOKIE_EXPIRY) {
+    return nseCookies
+  }
+
+  try {
+    const response = await axios.get('https://www.nseindia.com', {
+      headers: {
+        'User-Agent': NSE_USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Connection': 'keep-alive',
+      },
+      timeout: 10000,
+      maxRedirects: 5,
+    })
+
+    const setCookieHeaders = response.headers['set-cookie']
+    if (setCookieHeaders) {
+      nseCookies = setCookieHeaders.map((c: string) => c.split(';')[0]).join('; ')
+      lastCookieTime = now
+    }
+    return nseCookies
+  } catch (error) {
+    console.log('Failed to get NSE session:', error)
+    return ''
+  }
+}
+
+// ─── Fetch Option Chain ─────────────────────────────────────────────────────
+
+export async function fetchNSEOptionChain(
+  symbol: string,
+  timeout: number = 15000
+): Promise<OptionChainData | null> {
+  const cookies = await getNSESession()
+  if (!cookies) return null
+
+  const response = await axios.get(`https://www.nseindia.com/api/option-chain-indices?symbol=${symbol}`, {
+    headers: {
+      'User-Agent': NSE_USER_AGENT,
+      'Accept': 'application/json',
+      'Accept-Language': 'en-US,en;q=0.5',
+      'Referer': 'https://www.nseindia.com/option-chain',
+      'Cookie': cookies,
+    },
+    timeout,
+  })
+
+  const data = response.data
+  if (!data || !data.records || !data.records.data) return null
+
+  return {
+    symbol,
+    spotPrice: data.records.underlyingValue || 0,
+    timestamp: new Date().toISOString(),
+    expiryDates: data.records.expiryDates || [],
+    entries: data.records.data.map((row: any) => ({
+      strikePrice: row.strikePrice,
+      expiryDate: row.expiryDate,
+      CE: row.CE ? mapOptionData(row, row.CE) : undefined,
+      PE: row.PE ? mapOptionData(row, row.PE) : undefined,
+    })),
+  }
+}
+
+function mapOptionData(row: any, side: any): OptionData {
+  return {
+    strikePrice: row.strikePrice,
+    expiryDate: row.expiryDate,
+    openInterest: side.openInterest || 0,
+    changeinOpenInterest: side.changeinOpenInterest || 0,
+    totalTradedVolume: side.totalTradedVolume || 0,
+    impliedVolatility: side.impliedVolatility || 0,
+    lastPrice: side.lastPrice || 0,
+    bidPrice: side.bidprice || 0,
+    askPrice: side.askPrice || 0,
+  }
+}
@@ -0,0 +1,51 @@
+// Market Data Provider Types
+// Shared contract every market data feed (Yahoo, fixtures, ...) implements
+
+import type { OptionChainEntry } from '../../utils/optionChainAnalysis'
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '1d'
+export type CandleRange = '1d' | '5d' | '30d' | '1mo' | '3mo' | '6mo' | '1y'
+
+export interface Quote {
+  symbol: string
+  name: string
+  price: number
+  previousClose: number
+  change: number
+  changePercent: number
+  volume: number
+}
+
+// Candles exactly as the feed reported them - missing bars keep their nulls
+export interface RawCandle {
+  timestamp: number // unix seconds
+  open: number | null
+  high: number | null
+  low: number | null
+  close: number | null
+  volume: number | null
+}
+
+export interface OptionChainData {
+  symbol: string
+  spotPrice: number
+  timestamp: string
+  expiryDates: string[] // nearest first
+  entries: OptionChainEntry[] // every expiry
+}
+
+export interface FetchOptions {
+  timeout?: number // milliseconds
+}
+
+export interface MarketDataProvider {
+  readonly name: string
+  getQuote(symbol: string, options?: FetchOptions): Promise<Quote>
+  getCandles(
+    symbol: string,
+    interval: CandleInterval,
+    range: CandleRange,
+    options?: FetchOptions
+  ): Promise<RawCandle[]>
+  getOptionChain(symbol: string, options?: FetchOptions): Promise<OptionChainData | null>
+}
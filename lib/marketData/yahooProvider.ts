@@ -0,0 +1,87 @@
+// Yahoo Finance Market Data Provider
+// Quotes and candles from the v8 chart API; option chains come from NSE
+// because Yahoo does not carry Indian derivatives
+
+import axios from 'axios'
+import { fetchNSEOptionChain } from './nseOptionChain'
+import {
+  CandleInterval,
+  CandleRange,
+  FetchOptions,
+  MarketDataProvider,
+  OptionChainData,
+  Quote,
+  RawCandle,
+} from './types'
+
+const CHART_URL = 'https://query1.finance.yahoo.com/v8/finance/chart'
+const DEFAULT_TIMEOUT = 10000
+
+export class YahooMarketDataProvider implements MarketDataProvider {
+  readonly name = 'yahoo'
+
+  // Latest quote from the chart meta block
+  async getQuote(symbol: string, options: FetchOptions = {}): Promise<Quote> {
+    const result = await this.fetchChart(symbol, '1d', '1d', options)
+    const meta = result.meta
+
+    const price = meta.regularMarketPrice || meta.previousClose
+    const previousClose = meta.previousClose || meta.chartPreviousClose
+    const change = price - previousClose
+
+    return {
+      symbol,
+      name: meta.longName || meta.shortName || symbol,
+      price,
+      previousClose,
+      change,
+      changePercent: (change / previousClose) * 100,
+      volume: meta.regularMarketVolume || 0,
+    }
+  }
+
+  // Historical candles for an interval/range pair
+  async getCandles(
+    symbol: string,
+    interval: CandleInterval,
+    range: CandleRange,
+    options: FetchOptions = {}
+  ): Promise<RawCandle[]> {
+    const result = await this.fetchChart(symbol, interval, range, options)
+    const timestamps: number[] = result.timestamp || []
+    const quote = result.indicators.quote[0]
+
+    return timestamps.map((ts, idx) => ({
+      timestamp: ts,
+      open: quote.open[idx] ?? null,
+      high: quote.high[idx] ?? null,
+      low: quote.low[idx] ?? null,
+      close: quote.close[idx] ?? null,
+      volume: quote.volume[idx] ?? null,
+    }))
+  }
+
+  // Option chain across all expiries
+  async getOptionChain(symbol: string, options: FetchOptions = {}): Promise<OptionChainData | null> {
+    return fetchNSEOptionChain(symbol, options.timeout)
+  }
+
+  private async fetchChart(
+    symbol: string,
+    interval: CandleInterval,
+    range: CandleRange,
+    options: FetchOptions
+  ): Promise<any> {
+    const url = `${CHART_URL}/${encodeURIComponent(symbol)}?interval=${interval}&range=${range}`
+    const response = await axios.get(url, {
+      headers: { 'User-Agent': 'Mozilla/5.0' },
+      timeout: options.timeout || DEFAULT_TIMEOUT,
+    })
+
+    const result = response.data?.chart?.result?.[0]
+    if (!result) {
+      throw new Error(`No chart data returned for ${symbol}`)
+    }
+    return result
+  }
+}
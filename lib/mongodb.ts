@@ -1,10 +1,6 @@
 // MongoDB Connection Utility
 import { MongoClient, Db, Document } from 'mongodb'
 
-if (!process.env.MONGODB_URI) {
-  throw new Error('Please add your MongoDB URI to .env.local')
-}
-
 const uri = process.env.MONGODB_URI
 const options = {}
 
@@ -15,7 +11,12 @@ declare global {
   var _mongoClientPromise: Promise<MongoClient> | undefined
 }
 
-if (process.env.NODE_ENV === 'development') {
+if (!uri) {
+  // Fail on first use rather than at import, so routes that only cache
+  // opportunistically keep working without a database
+  clientPromise = Promise.reject(new Error('Please add your MongoDB URI to .env.local'))
+  clientPromise.catch(() => {})
+} else if (process.env.NODE_ENV === 'development') {
   // In development mode, use a global variable to preserve the connection
   // across hot reloads
   if (!global._mongoClientPromise) {
@@ -32,6 +33,11 @@ if (process.env.NODE_ENV === 'development') {
 // Export a module-scoped MongoClient promise
 export default clientPromise
 
+// Whether a MongoDB connection string is configured
+export function isMongoConfigured(): boolean {
+  return !!uri
+}
+
 // Helper function to get database
 export async function getDatabase(dbName: string = 'indian-stock-market'): Promise<Db> {
   const client = await clientPromise
@@ -0,0 +1,135 @@
+// Notification Channels
+// Transports for the external channels. Every endpoint comes from configuration, so each
+// channel can be pointed at a local stand-in server:
+//   EMAIL     SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM
+//   TELEGRAM  TELEGRAM_BOT_TOKEN, TELEGRAM_API_URL (default https://api.telegram.org)
+//   WEBHOOK   the URL each user configures; private and local hosts need WEBHOOK_ALLOW_PRIVATE=true
+import crypto from 'crypto'
+import axios from 'axios'
+import nodemailer from 'nodemailer'
+import type SMTPTransport from 'nodemailer/lib/smtp-transport'
+import { ExternalChannel, NotificationMessage } from '../../models/Notification'
+import { allowPrivateWebhooks, publicLookup, webhookTargetError } from './webhookTarget'
+
+export interface NotificationTransport {
+  readonly channel: ExternalChannel
+  configured(): boolean
+  send(target: string, message: NotificationMessage, options?: { secret?: string }): Promise<void>
+}
+
+const HTTP_TIMEOUT_MS = 10000
+const SMTP_TIMEOUT_MS = 15000
+
+// Plain-text mail through nodemailer's SMTP transport; STARTTLS is used when the server
+// offers it unless SMTP_SECURE already connects over TLS
+export class EmailTransport implements NotificationTransport {
+  readonly channel = 'EMAIL' as const
+
+  configured(): boolean {
+    return smtpConfigFromEnv() !== null
+  }
+
+  async send(target: string, message: NotificationMessage): Promise<void> {
+    const config = smtpConfigFromEnv()
+    if (!config) throw new Error('SMTP_HOST is not set')
+    const { from, ...options } = config
+    await nodemailer.createTransport(options).sendMail({ from, to: target, subject: message.title, text: message.body })
+  }
+}
+
+// SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM; null without SMTP_HOST
+function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): (SMTPTransport.Options & { from: string }) | null {
+  if (!env.SMTP_HOST) return null
+  const secure = env.SMTP_SECURE === 'true'
+  const timeout = Number(env.SMTP_TIMEOUT_MS) || SMTP_TIMEOUT_MS
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    ...(env.SMTP_USER ? { auth: { user: env.SMTP_USER, pass: env.SMTP_PASS || '' } } : {}),
+    from: env.SMTP_FROM || env.SMTP_USER || `alerts@${env.SMTP_HOST}`,
+    connectionTimeout: timeout,
+    greetingTimeout: timeout,
+    socketTimeout: timeout,
+  }
+}
+
+// POSTs { title, body, data, sentAt } as JSON. With a secret, X-Signature carries
+// sha256=<hex HMAC of the exact body> so the receiver can verify it. Redirects aren't
+// followed, and private or local hosts are refused (see webhookTarget)
+export class WebhookTransport implements NotificationTransport {
+  readonly channel = 'WEBHOOK' as const
+
+  configured(): boolean {
+    return true
+  }
+
+  async send(target: string, message: NotificationMessage, options: { secret?: string } = {}): Promise<void> {
+    const body = JSON.stringify({ ...message, sentAt: new Date().toISOString() })
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (options.secret) {
+      headers['X-Signature'] = `sha256=${crypto.createHmac('sha256', options.secret).update(body).digest('hex')}`
+    }
+    const refused = await webhookTargetError(target)
+    if (refused) throw new Error(`Webhook refused: ${refused}`)
+
+    await axios.post(target, body, {
+      headers,
+      timeout: HTTP_TIMEOUT_MS,
+      maxRedirects: 0,
+      ...(allowPrivateWebhooks() ? {} : { lookup: publicLookup }),
+    }).catch(error => {
+      throw new Error(`Webhook ${describeHttpError(error)}`)
+    })
+  }
+}
+
+// Bot API sendMessage; any server speaking the same API works via TELEGRAM_API_URL
+export class TelegramTransport implements NotificationTransport {
+  readonly channel = 'TELEGRAM' as const
+
+  configured(): boolean {
+    return !!process.env.TELEGRAM_BOT_TOKEN
+  }
+
+  async send(target: string, message: NotificationMessage): Promise<void> {
+    const token = process.env.TELEGRAM_BOT_TOKEN
+    if (!token) throw new Error('TELEGRAM_BOT_TOKEN is not set')
+    const base = (process.env.TELEGRAM_API_URL || 'https://api.telegram.org').replace(/\/$/, '')
+
+    const response = await axios.post(
+      `${base}/bot${token}/sendMessage`,
+      { chat_id: target, text: `${message.title}\n\n${message.body}`, disable_web_page_preview: true },
+      { timeout: HTTP_TIMEOUT_MS }
+    ).catch(error => {
+      throw new Error(`Telegram ${describeHttpError(error)}`)
+    })
+    if (response.data && response.data.ok === false) {
+      throw new Error(`Telegram: ${response.data.description || 'sendMessage failed'}`)
+    }
+  }
+}
+
+const transports: Record<ExternalChannel, NotificationTransport> = {
+  EMAIL: new EmailTransport(),
+  WEBHOOK: new WebhookTransport(),
+  TELEGRAM: new TelegramTransport(),
+}
+
+export function getNotificationTransport(channel: ExternalChannel): NotificationTransport {
+  return transports[channel]
+}
+
+// Swap a channel's transport (scripts, local testing)
+export function setNotificationTransport(transport: NotificationTransport): void {
+  transports[transport.channel] = transport
+}
+
+// Status and the server's own description when there is one
+function describeHttpError(error: any): string {
+  const status = error?.response?.status
+  const data = error?.response?.data
+  const detail = typeof data === 'string' ? data : data?.description || data?.error || data?.message
+  if (status) return `HTTP ${status}${detail ? `: ${String(detail).slice(0, 200)}` : ''}`
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,194 @@
+// Notification Dispatcher
+// Fans an alert trigger out to the user's channels and delivers the outbox. In-app
+// notifications land straight in the inbox; external ones are queued, held for the
+// user's digest, pushed past quiet hours, and retried with backoff when a send fails.
+import { ObjectId } from 'mongodb'
+import { NotificationService } from '../db/notificationService'
+import { getNotificationTransport } from './channels'
+import type { AlertTrigger } from '../../models/Alert'
+import {
+  ExternalChannel,
+  NotificationMessage,
+  NotificationPreferences,
+  OutboxEntry,
+} from '../../models/Notification'
+import { toIST } from '../../utils/candles'
+import { afterQuietHours } from './quietHours'
+
+export { afterQuietHours }
+
+export interface NotifySummary {
+  inApp: boolean
+  queued: ExternalChannel[]
+}
+
+export interface DeliverySummary {
+  digests: number         // digest messages assembled from held entries
+  sent: number
+  retrying: number
+  failed: number          // out of attempts
+}
+
+const EXTERNAL_CHANNELS: ExternalChannel[] = ['EMAIL', 'WEBHOOK', 'TELEGRAM']
+
+// ─── Queueing ───────────────────────────────────────────────────────────────
+
+export async function notifyAlertTrigger(trigger: AlertTrigger, now: Date = new Date()): Promise<NotifySummary> {
+  return notifyUser(trigger.userId, alertMessage(trigger), { triggerId: trigger._id, now })
+}
+
+// Deliver in-app now and queue every enabled external channel
+export async function notifyUser(
+  userId: ObjectId,
+  message: NotificationMessage,
+  options: { triggerId?: ObjectId; now?: Date } = {}
+): Promise<NotifySummary> {
+  const now = options.now || new Date()
+  const preferences = await NotificationService.getPreferences(userId)
+  const summary: NotifySummary = { inApp: false, queued: [] }
+
+  if (preferences.channels.IN_APP?.enabled !== false) {
+    await NotificationService.addInApp(userId, message, options.triggerId)
+    summary.inApp = true
+  }
+
+  for (const channel of EXTERNAL_CHANNELS) {
+    const settings = preferences.channels[channel]
+    if (!settings?.enabled || !settings.target) continue
+    if (!getNotificationTransport(channel).configured()) {
+      console.log(`Notification channel ${channel} is not configured - skipping for user ${userId}`)
+      continue
+    }
+
+    await NotificationService.enqueue({
+      userId,
+      channel,
+      target: settings.target,
+      ...(settings.secret ? { secret: settings.secret } : {}),
+      message,
+      triggerIds: options.triggerId ? [options.triggerId] : [],
+      status: preferences.digestMinutes ? 'HELD' : 'PENDING',
+      nextAttemptAt: afterQuietHours(now, preferences.quietHours),
+    })
+    summary.queued.push(channel)
+  }
+  return summary
+}
+
+// ─── Delivery ───────────────────────────────────────────────────────────────
+
+// Assemble due digests, then send everything due. Run after each scan and on idle cycles
+export async function deliverDueNotifications(
+  now: Date = new Date(),
+  options: { limit?: number } = {}
+): Promise<DeliverySummary> {
+  const summary: DeliverySummary = { digests: await flushDigests(now), sent: 0, retrying: 0, failed: 0 }
+
+  const due = await NotificationService.claimDue(now, options.limit || 50)
+  const preferences = new Map<string, NotificationPreferences>()
+  for (const entry of due) {
+    try {
+      await getNotificationTransport(entry.channel).send(entry.target, entry.message, { secret: entry.secret })
+      if (!(await NotificationService.markSent(entry, new Date()))) {
+        console.log(`Notification ${entry._id} was sent after its lease expired - another worker may resend it`)
+      }
+      summary.sent++
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      // Retries wait out the user's quiet hours like the first attempt
+      const userKey = entry.userId.toHexString()
+      if (!preferences.has(userKey)) preferences.set(userKey, await NotificationService.getPreferences(entry.userId))
+      const status = await NotificationService.markFailed(entry, reason, new Date(), preferences.get(userKey)!.quietHours)
+      if (status === null) {
+        console.log(`Notification ${entry._id} failed after its lease expired - left to the worker that reclaimed it`)
+      } else if (status === 'FAILED') {
+        summary.failed++
+        console.error(`Notification ${entry._id} via ${entry.channel} failed for good: ${reason}`)
+      } else {
+        summary.retrying++
+      }
+    }
+  }
+  return summary
+}
+
+// Merge each user's held entries per channel once the oldest has waited a full digest
+// window (or straight away if they've turned digests off since)
+async function flushDigests(now: Date): Promise<number> {
+  const held = await NotificationService.getHeld()
+  if (held.length === 0) return 0
+
+  const groups = new Map<string, OutboxEntry[]>()
+  held.forEach(entry => {
+    const key = `${entry.userId.toHexString()}:${entry.channel}:${entry.target}`
+    const group = groups.get(key)
+    if (group) group.push(entry)
+    else groups.set(key, [entry])
+  })
+
+  const preferences = new Map<string, NotificationPreferences>()
+  let digests = 0
+  const keys: string[] = []
+  groups.forEach((_, key) => keys.push(key))
+
+  for (const key of keys) {
+    const entries = groups.get(key)!
+    const first = entries[0]
+    const userKey = first.userId.toHexString()
+    if (!preferences.has(userKey)) preferences.set(userKey, await NotificationService.getPreferences(first.userId))
+    const prefs = preferences.get(userKey)!
+
+    const windowMs = (prefs.digestMinutes || 0) * 60 * 1000
+    if (now.getTime() - first.createdAt.getTime() < windowMs) continue
+
+    await NotificationService.replaceWithDigest(entries, {
+      userId: first.userId,
+      channel: first.channel,
+      target: first.target,
+      ...(first.secret ? { secret: first.secret } : {}),
+      message: digestMessage(entries.map(e => e.message)),
+      triggerIds: entries.reduce<ObjectId[]>((ids, e) => ids.concat(e.triggerIds), []),
+      status: 'PENDING',
+      nextAttemptAt: afterQuietHours(now, prefs.quietHours),
+    })
+    digests++
+  }
+  return digests
+}
+
+// ─── Messages ───────────────────────────────────────────────────────────────
+
+export function alertMessage(trigger: AlertTrigger): NotificationMessage {
+  const { context } = trigger
+  const sign = context.changePercent >= 0 ? '+' : ''
+  const lines = [
+    trigger.message,
+    `Price ₹${context.price} (${sign}${context.changePercent.toFixed(2)}%)` +
+      (context.volumeRatio ? ` · volume ${context.volumeRatio}x average` : ''),
+    ...(context.details || []),
+    `Triggered ${toIST(Math.floor(trigger.triggeredAt.getTime() / 1000)).iso}`,
+  ]
+
+  return {
+    title: `🔔 ${trigger.symbol} - ${trigger.type.replace(/_/g, ' ').toLowerCase()}`,
+    body: lines.join('\n'),
+    data: {
+      alertId: trigger.alertId.toHexString(),
+      triggerId: trigger._id?.toHexString(),
+      symbol: trigger.symbol,
+      type: trigger.type,
+      key: trigger.key,
+      context,
+      triggeredAt: trigger.triggeredAt.toISOString(),
+    },
+  }
+}
+
+export function digestMessage(messages: NotificationMessage[]): NotificationMessage {
+  if (messages.length === 1) return messages[0]
+  return {
+    title: `📬 ${messages.length} alerts`,
+    body: messages.map(m => `${m.title}\n${m.body}`).join('\n\n'),
+    data: { digest: true, messages: messages.map(m => m.data || { title: m.title, body: m.body }) },
+  }
+}
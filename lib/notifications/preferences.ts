@@ -0,0 +1,132 @@
+// Notification Settings
+// Request validation and response shapes for the /api/notifications routes. Webhook
+// secrets are write-only: responses only say whether one is set.
+import { ObjectId } from 'mongodb'
+import { z } from 'zod'
+import { minutesOf } from './quietHours'
+import { getNotificationTransport } from './channels'
+import { webhookTargetError } from './webhookTarget'
+import {
+  ExternalChannel,
+  InAppNotification,
+  NotificationChannel,
+  NotificationPreferences,
+} from '../../models/Notification'
+
+export interface ChannelSettingsResponse {
+  enabled: boolean
+  target?: string
+  hasSecret?: boolean
+  available: boolean       // the server has this channel configured
+}
+
+export interface PreferencesResponse {
+  channels: Record<NotificationChannel, ChannelSettingsResponse>
+  quietHours: NotificationPreferences['quietHours'] | null
+  digestMinutes: number | null
+}
+
+export interface NotificationResponse {
+  id: string
+  title: string
+  body: string
+  read: boolean
+  createdAt: string
+}
+
+const EXTERNAL_CHANNELS: ExternalChannel[] = ['EMAIL', 'WEBHOOK', 'TELEGRAM']
+const MAX_DIGEST_MINUTES = 24 * 60
+
+const time = z.string().trim().refine(value => minutesOf(value) !== null, { error: 'Use HH:MM (24-hour)' })
+
+// An enabled channel needs somewhere to send to
+function channel<T extends z.ZodType<string>>(target: T) {
+  return z
+    .object({ enabled: z.boolean(), target: target.optional() })
+    .refine(value => !value.enabled || !!value.target, { error: 'Set a target to enable this channel', path: ['target'] })
+}
+
+// Full replacement of the user's settings. An omitted webhook secret keeps the stored
+// one; an empty string clears it. Resolves the webhook host - parse with safeParseAsync
+export const preferencesSchema = z.object({
+  channels: z.object({
+    IN_APP: z.object({ enabled: z.boolean() }).optional(),
+    EMAIL: channel(z.email({ error: 'Invalid email address' })).optional(),
+    WEBHOOK: channel(z.url({ protocol: /^https?$/, error: 'Use an http(s) URL' }))
+      .superRefine(async (value, ctx) => {
+        if (!value.enabled || !value.target) return
+        const error = await webhookTargetError(value.target)
+        if (error) ctx.addIssue({ code: 'custom', message: error, path: ['target'] })
+      })
+      .and(z.object({ secret: z.string().max(200).optional() }))
+      .optional(),
+    TELEGRAM: channel(z.string().trim().regex(/^(-?\d+|@\w{5,})$/, { error: 'Use a numeric chat id or @channel' })).optional(),
+  }),
+  quietHours: z
+    .object({ start: time, end: time })
+    .refine(value => minutesOf(value.start) !== minutesOf(value.end), { error: 'Start and end must differ', path: ['end'] })
+    .nullable()
+    .optional(),
+  digestMinutes: z.number().int().min(5).max(MAX_DIGEST_MINUTES).nullable().optional(),
+})
+
+// Mark specific notifications read, or all of them without ids
+export const markReadSchema = z.object({
+  ids: z.array(z.string().refine(value => ObjectId.isValid(value), { error: 'Invalid id' })).max(200).optional(),
+})
+
+export type PreferencesInput = z.infer<typeof preferencesSchema>
+
+// Request -> stored settings, carrying over the webhook secret when it wasn't sent
+export function toStoredPreferences(
+  input: PreferencesInput,
+  current: NotificationPreferences
+): Pick<NotificationPreferences, 'channels' | 'quietHours' | 'digestMinutes'> {
+  const channels: NotificationPreferences['channels'] = {}
+  if (input.channels.IN_APP) channels.IN_APP = { enabled: input.channels.IN_APP.enabled }
+  if (input.channels.EMAIL) channels.EMAIL = { ...input.channels.EMAIL }
+  if (input.channels.TELEGRAM) channels.TELEGRAM = { ...input.channels.TELEGRAM }
+  if (input.channels.WEBHOOK) {
+    const { secret, ...webhook } = input.channels.WEBHOOK
+    const kept = secret === undefined ? current.channels.WEBHOOK?.secret : secret
+    channels.WEBHOOK = { ...webhook, ...(kept ? { secret: kept } : {}) }
+  }
+
+  return {
+    channels,
+    quietHours: input.quietHours || undefined,
+    digestMinutes: input.digestMinutes || undefined,
+  }
+}
+
+export function toPreferencesResponse(preferences: NotificationPreferences): PreferencesResponse {
+  const external = (name: ExternalChannel): ChannelSettingsResponse => {
+    const settings = preferences.channels[name]
+    return {
+      enabled: settings?.enabled || false,
+      target: settings?.target,
+      ...(name === 'WEBHOOK' ? { hasSecret: !!settings?.secret } : {}),
+      available: getNotificationTransport(name).configured(),
+    }
+  }
+  const channels = { IN_APP: { enabled: preferences.channels.IN_APP?.enabled !== false, available: true } } as PreferencesResponse['channels']
+  EXTERNAL_CHANNELS.forEach(name => {
+    channels[name] = external(name)
+  })
+
+  return {
+    channels,
+    quietHours: preferences.quietHours || null,
+    digestMinutes: preferences.digestMinutes || null,
+  }
+}
+
+export function toNotificationResponse(notification: InAppNotification): NotificationResponse {
+  return {
+    id: String(notification._id),
+    title: notification.title,
+    body: notification.body,
+    read: notification.read,
+    createdAt: notification.createdAt.toISOString(),
+  }
+}
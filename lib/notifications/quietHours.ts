@@ -0,0 +1,33 @@
+// Quiet Hours
+// When external notifications may go out. Windows are IST HH:MM ranges and may run
+// past midnight (22:00-07:00).
+import type { NotificationPreferences } from '../../models/Notification'
+import { toIST } from '../../utils/candles'
+
+const MINUTES_PER_DAY = 24 * 60
+
+// `now`, or the end of the quiet window (IST) when now falls inside it
+export function afterQuietHours(now: Date, quietHours?: NotificationPreferences['quietHours']): Date {
+  if (!quietHours) return now
+  const start = minutesOf(quietHours.start)
+  const end = minutesOf(quietHours.end)
+  if (start === null || end === null || start === end) return now
+
+  const current = toIST(Math.floor(now.getTime() / 1000)).minutesOfDay
+  const quiet = start < end ? current >= start && current < end : current >= start || current < end
+  if (!quiet) return now
+
+  const wait = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  const resume = new Date(now.getTime() + wait * 60 * 1000)
+  resume.setUTCSeconds(0, 0)
+  return resume
+}
+
+// HH:MM -> minutes since midnight; null if it isn't a valid time
+export function minutesOf(hhmm: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim())
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null
+}
@@ -0,0 +1,92 @@
+// Webhook Targets
+// Webhook URLs come from users, so hosts that resolve to loopback, private, link-local or
+// other non-public addresses are refused - when the URL is saved, and again on every send
+// at connect time so a DNS change in between can't slip through.
+// WEBHOOK_ALLOW_PRIVATE=true lifts this for local stand-in servers.
+import dns from 'dns'
+import net from 'net'
+
+const NON_PUBLIC_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, cloud metadata
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // documentation
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['198.51.100.0', 24],  // documentation
+  ['203.0.113.0', 24],   // documentation
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4],      // reserved, broadcast
+]
+
+const NON_PUBLIC_IPV6: Array<[string, number]> = [
+  ['::', 128],           // unspecified
+  ['::1', 128],          // loopback
+  ['64:ff9b:1::', 48],   // local-use NAT64
+  ['100::', 64],         // discard
+  ['2001:db8::', 32],    // documentation
+  ['fc00::', 7],         // unique local
+  ['fe80::', 10],        // link-local
+  ['ff00::', 8],         // multicast
+]
+
+const nonPublic = new net.BlockList()
+NON_PUBLIC_IPV4.forEach(([address, prefix]) => nonPublic.addSubnet(address, prefix, 'ipv4'))
+NON_PUBLIC_IPV6.forEach(([address, prefix]) => nonPublic.addSubnet(address, prefix, 'ipv6'))
+
+export function allowPrivateWebhooks(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE === 'true'
+}
+
+// False for anything that isn't an IP literal
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 0) return false
+  // IPv4-mapped (::ffff:10.0.0.1) and NAT64 (64:ff9b::10.0.0.1) addresses reach the embedded IPv4 one
+  // - dotted, or as two hex groups the way URL normalises them (::ffff:a00:1)
+  const embedded = family === 6
+    ? address.match(/^(?:::ffff:|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i)
+    : null
+  if (embedded) {
+    if (embedded[1]) return isPublicAddress(embedded[1])
+    const high = parseInt(embedded[2], 16)
+    const low = parseInt(embedded[3], 16)
+    return isPublicAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+  if (family === 6 && /^::ffff:/i.test(address)) return false
+  return !nonPublic.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+// Why a URL can't be used as a webhook, or null when it can
+export async function webhookTargetError(target: string): Promise<string | null> {
+  let url: URL
+  try {
+    url = new URL(target)
+  } catch (error) {
+    return 'Invalid URL'
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Use an http(s) URL'
+  if (allowPrivateWebhooks()) return null
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1')
+  const addresses = net.isIP(host)
+    ? [host]
+    : await dns.promises.lookup(host, { all: true }).then(found => found.map(a => a.address)).catch(() => [])
+  if (addresses.length === 0) return `${host} could not be resolved`
+  if (!addresses.every(isPublicAddress)) return `${host} is a private or local address`
+  return null
+}
+
+// DNS lookup for the HTTP client that refuses non-public addresses, so the address
+// checked is the one connected to
+export async function publicLookup(hostname: string): Promise<[dns.LookupAddress[]]> {
+  const addresses = await dns.promises.lookup(hostname, { all: true })
+  if (!addresses.every(a => isPublicAddress(a.address))) {
+    throw new Error(`${hostname} is a private or local address`)
+  }
+  return [addresses]
+}
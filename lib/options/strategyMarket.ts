@@ -0,0 +1,157 @@
+// Strategy Market Loader
+// Gathers spot, lot size, strikes and expiries for the strategy builder: from the live
+// option chain when NSE has one, otherwise from the quote, price history and expiry calendar
+import { RSI, MACD } from 'technicalindicators'
+import { z } from 'zod'
+import { getMarketDataProvider } from '../marketData'
+import { getSymbolMaster } from '../symbols'
+import { AIConfidence, calculateAIConfidence } from '../../utils/aiConfidenceEngine'
+import { DEFAULT_VOLATILITY, historicalVolatility } from '../../utils/blackScholes'
+import { CandleData, toCandles } from '../../utils/candles'
+import { detectOperatorGame, calculateOperatorStrength } from '../../utils/operatorAnalysis'
+import { analyzeSMC } from '../../utils/smartMoneyAnalysis'
+import { detectCandlestickPatterns, detectChartPatterns, analyzeBuyerSellerPressure } from '../../utils/technicalAnalysis'
+import { getUpcomingExpiries, parseExchangeDate } from '../../utils/exchangeCalendar'
+import { ExpiryChain, fetchOptionChain, OptionChainSnapshot } from '../../utils/optionChainAnalysis'
+import { StrategyMarket } from '../../utils/optionStrategies'
+
+// Where market.volatility came from: the chain's ATM IV, 20-day realised volatility when
+// there's no chain, or DEFAULT_VOLATILITY when neither is available
+export type VolatilitySource = 'ATM_IV' | 'REALISED' | 'DEFAULT'
+
+export interface LoadedStrategyMarket {
+  market: StrategyMarket
+  volatilitySource: VolatilitySource
+  snapshot: OptionChainSnapshot | null // null = premiums will be modelled
+  realisedVolatility: number | null    // 20-day historical volatility, annualised
+  candles: CandleData[]                 // ~3 months of daily candles
+}
+
+export const MAX_STRATEGY_LEGS = 8
+
+export async function loadStrategyMarket(symbol: string): Promise<LoadedStrategyMarket> {
+  const master = getSymbolMaster()
+  const key = symbol.toUpperCase()
+  const lotSize = master.lotSize(key) || 1
+  const provider = getMarketDataProvider()
+  const yahooSymbol = master.toYahoo(key)
+
+  const [snapshot, history] = await Promise.all([
+    fetchOptionChain(key),
+    provider.getCandles(yahooSymbol, '1d', '3mo').catch(() => []),
+  ])
+  const candles = toCandles(history)
+  const realisedVolatility = historicalVolatility(candles.map(c => c.close))
+
+  if (snapshot && snapshot.spotPrice > 0) {
+    const atmIV = atmVolatility(snapshot.expiries[0], snapshot.spotPrice)
+    return {
+      volatilitySource: atmIV ? 'ATM_IV' : 'DEFAULT',
+      snapshot,
+      realisedVolatility,
+      candles,
+      market: {
+        symbol: key,
+        spotPrice: snapshot.spotPrice,
+        lotSize,
+        strikeInterval: master.strikeInterval(key, snapshot.spotPrice),
+        volatility: atmIV || DEFAULT_VOLATILITY,
+        expiries: snapshot.expiries.map(e => ({ date: e.date, daysToExpiry: e.daysToExpiry, strikes: e.strikes })),
+      },
+    }
+  }
+
+  // No chain (stock options, NSE down): model every premium off historical volatility
+  const quote = await provider.getQuote(yahooSymbol)
+
+  return {
+    volatilitySource: realisedVolatility ? 'REALISED' : 'DEFAULT',
+    snapshot: null,
+    realisedVolatility,
+    candles,
+    market: {
+      symbol: key,
+      spotPrice: quote.price,
+      lotSize,
+      strikeInterval: master.strikeInterval(key, quote.price),
+      volatility: realisedVolatility || DEFAULT_VOLATILITY,
+      expiries: getUpcomingExpiries(key, { count: 3 }).map(e => ({ date: e.date, daysToExpiry: e.daysToExpiry })),
+    },
+  }
+}
+
+// NEAREST (default) / NEXT / a date, against the expiries the market lists
+// A custom leg for POST /api/strategy; option type and side are case-insensitive, and the
+// expiry is resolved against the market like the GET selector
+export const strategyLegSchema = z.object({
+  optionType: z.string().trim().toUpperCase().pipe(z.enum(['CALL', 'PUT'], { error: 'optionType must be CALL or PUT' })),
+  side: z.string().trim().toUpperCase().pipe(z.enum(['BUY', 'SELL'], { error: 'side must be BUY or SELL' })),
+  strike: z.coerce.number({ error: 'Strike must be a number' }).positive({ error: 'Strike must be positive' }),
+  lots: z.coerce.number().optional().transform(value => Math.max(1, Math.round(value || 1))),
+  expiry: z.string().optional(),
+})
+
+export const customStrategySchema = z.object({
+  legs: z.array(strategyLegSchema).min(1, { error: 'legs must be a non-empty array' }).max(MAX_STRATEGY_LEGS),
+})
+
+export function resolveExpiry(market: StrategyMarket, value: unknown) {
+  const selector = String(value || 'NEAREST').toUpperCase()
+  if (selector === 'NEAREST') return market.expiries[0]
+  if (selector === 'NEXT') return market.expiries[1]
+  const date = parseExchangeDate(String(value))
+  return market.expiries.find(e => e.date === date)
+}
+
+// The AI confidence engine on daily candles, with the same inputs as the market scan (no
+// MTF - that needs intraday data). Null with under 50 candles, too few for smart money analysis
+export function dailyAIConfidence(symbol: string, price: number, candles: CandleData[]): AIConfidence | null {
+  if (candles.length < 50) return null
+
+  const closes = candles.map(c => c.close)
+  const rsiValues = RSI.calculate({ values: closes, period: 14 })
+  const rsi = rsiValues[rsiValues.length - 1] || 50
+
+  let macdSignal = 'NEUTRAL'
+  const macdValues = MACD.calculate({
+    values: closes,
+    fastPeriod: 12,
+    slowPeriod: 26,
+    signalPeriod: 9,
+    SimpleMAOscillator: false,
+    SimpleMASignal: false
+  })
+  const lastMACD = macdValues[macdValues.length - 1]
+  if (lastMACD && lastMACD.MACD && lastMACD.signal) {
+    macdSignal = lastMACD.MACD > lastMACD.signal ? 'BULLISH' : 'BEARISH'
+  }
+
+  const technicalSignals: any[] = [
+    ...detectCandlestickPatterns(candles),
+    ...detectChartPatterns(candles),
+    analyzeBuyerSellerPressure(candles),
+  ]
+
+  return calculateAIConfidence(
+    symbol,
+    price,
+    candles,
+    rsi,
+    macdSignal,
+    technicalSignals,
+    detectOperatorGame(candles),
+    calculateOperatorStrength(candles),
+    analyzeSMC(candles),
+    null
+  )
+}
+
+// Average of the call and put IV at the strike nearest spot
+function atmVolatility(expiry: ExpiryChain | undefined, spot: number): number | null {
+  if (!expiry || expiry.strikes.length === 0) return null
+  const atm = expiry.strikes.reduce((closest, entry) =>
+    Math.abs(entry.strikePrice - spot) < Math.abs(closest.strikePrice - spot) ? entry : closest
+  )
+  const ivs = [atm.CE?.impliedVolatility, atm.PE?.impliedVolatility].filter((iv): iv is number => !!iv && iv > 0)
+  return ivs.length > 0 ? ivs.reduce((a, b) => a + b, 0) / ivs.length / 100 : null
+}
@@ -0,0 +1,33 @@
+// Volatility Analytics Loader
+// Adds the inputs the pure analytics can't get from a chain alone: stored daily
+// ATM IV (for rank/percentile) and daily closes (for realised volatility)
+import { isMongoConfigured } from '../mongodb'
+import { getMarketDataProvider } from '../marketData'
+import { getSymbolMaster } from '../symbols'
+import { VolatilityHistoryService } from '../db/volatilityHistoryService'
+import { toCandles, toIST } from '../../utils/candles'
+import { OptionChainSnapshot } from '../../utils/optionChainAnalysis'
+import { analyzeVolatility, VolatilityAnalytics } from '../../utils/volatilityAnalytics'
+
+export async function loadVolatilityAnalytics(snapshot: OptionChainSnapshot): Promise<VolatilityAnalytics> {
+  const symbol = snapshot.symbol.toUpperCase()
+  const asOf = toIST(Math.floor(new Date(snapshot.timestamp).getTime() / 1000)).date
+
+  const [history, candles] = await Promise.all([
+    isMongoConfigured()
+      ? VolatilityHistoryService.getHistory(symbol, asOf).catch(error => {
+          console.error(`Failed to load ${symbol} IV history:`, error)
+          return []
+        })
+      : Promise.resolve([]),
+    getMarketDataProvider()
+      .getCandles(getSymbolMaster().toYahoo(symbol), '1d', '6mo')
+      .catch(() => []),
+  ])
+
+  return analyzeVolatility(snapshot, {
+    // Today's reading is the "current" value, not part of its own history
+    history: history.filter(p => p.tradingDate < asOf).map(p => p.atmIV),
+    closes: toCandles(candles).map(c => c.close),
+  })
+}
@@ -0,0 +1,84 @@
+// Realtime Events
+// The socket.io contract between the scanner's realtime server and the dashboard.
+// Type-only imports, so client code can use it without pulling in server modules.
+//
+// Rooms:
+//   market          every connection - overview, index updates
+//   symbol:<SYM>    on subscribe - quote ticks, scanner signals, option chain refreshes
+//   user:<userId>   authenticated connections - that user's triggered alerts
+import type { MarketOverview } from '../scanner/marketScan'
+import type { OptionChainAnalysis } from '../../utils/optionChainAnalysis'
+
+export interface RealtimeQuote {
+  symbol: string          // NSE symbol / index code
+  price: number
+  change: number
+  changePercent: number
+  volume?: number
+  timestamp: string       // ISO
+}
+
+export interface RealtimeIndices {
+  nifty?: RealtimeQuote
+  bankNifty?: RealtimeQuote
+  sensex?: RealtimeQuote
+  timestamp: string
+}
+
+// The scanner's analysis of one symbol after a scan
+export interface RealtimeSignal {
+  symbol: string
+  rsi?: number
+  macdSignal?: string
+  operatorGame?: { type: string; confidence: string; action: string } | null
+  smc?: { marketStructure: string; recommendation: string; confidence: number }
+  aiConfidence?: { score: number; recommendation: string; signalStrength: string }
+  timestamp: string
+}
+
+export interface RealtimeOptionChain {
+  symbol: string
+  analysis: OptionChainAnalysis
+}
+
+export interface RealtimeAlert {
+  id: string
+  alertId: string
+  symbol: string
+  type: string
+  message: string
+  price: number
+  changePercent: number
+  details?: string[]
+  triggeredAt: string     // ISO
+}
+
+export interface SubscribeResult {
+  subscribed: string[]
+  rejected: string[]      // unknown symbols, or over the per-connection limit
+}
+
+export interface ServerToClientEvents {
+  'market:overview': (overview: MarketOverview) => void
+  indices: (indices: RealtimeIndices) => void
+  quote: (quote: RealtimeQuote) => void
+  signal: (signal: RealtimeSignal) => void
+  optionChain: (chain: RealtimeOptionChain) => void
+  alert: (alert: RealtimeAlert) => void
+}
+
+export interface ClientToServerEvents {
+  subscribe: (symbols: string[], ack?: (result: SubscribeResult) => void) => void
+  unsubscribe: (symbols: string[]) => void
+}
+
+export const MARKET_ROOM = 'market'
+export const INDEX_SYMBOLS = ['NIFTY', 'BANKNIFTY', 'SENSEX']
+
+export function symbolRoom(symbol: string): string {
+  return `symbol:${symbol.toUpperCase()}`
+}
+
+export function userRoom(userId: string): string {
+  return `user:${userId}`
+}
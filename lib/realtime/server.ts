@@ -0,0 +1,276 @@
+// Realtime Server
+// socket.io server run inside the market scanner. Pushes each completed scan (overview,
+// per-symbol signals, index option chains), quote ticks for subscribed symbols between
+// scans, and triggered alerts to the user who owns them.
+//
+// Connections without a token get the market rooms only; a token from
+// /api/realtime-token adds the user's alert room. A bad or expired token is refused.
+import http from 'http'
+import { Server, Socket } from 'socket.io'
+import { getMarketDataProvider } from '../marketData'
+import { getSymbolMaster } from '../symbols'
+import { isScanWindow } from '../scanner/schedule'
+import { MarketOverview, MarketScan, withOptionChainProvenance } from '../scanner/marketScan'
+import { AlertTrigger } from '../../models/Alert'
+import {
+  ClientToServerEvents,
+  INDEX_SYMBOLS,
+  MARKET_ROOM,
+  RealtimeAlert,
+  RealtimeIndices,
+  RealtimeQuote,
+  RealtimeSignal,
+  ServerToClientEvents,
+  symbolRoom,
+  userRoom,
+} from './events'
+import { verifyRealtimeToken } from './token'
+
+export interface RealtimeServer {
+  publishScan(scan: MarketScan): void
+  publishAlerts(triggers: AlertTrigger[]): void
+  close(): Promise<void>
+}
+
+interface SocketData {
+  userId: string | null
+}
+
+type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>
+
+export const MAX_SUBSCRIPTIONS = 50
+const DEFAULT_QUOTE_SECONDS = 5
+const QUOTE_TIMEOUT_MS = 4000
+
+const INDEX_KEYS: Record<string, keyof Omit<RealtimeIndices, 'timestamp'>> = {
+  NIFTY: 'nifty',
+  BANKNIFTY: 'bankNifty',
+  SENSEX: 'sensex',
+}
+
+// Listen on `port` and start ticking quotes for subscribed symbols during market hours
+export function startRealtimeServer(port: number): RealtimeServer {
+  const httpServer = http.createServer()
+  const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(httpServer, {
+    cors: { origin: process.env.REALTIME_CORS_ORIGIN || '*' },
+  })
+  httpServer.listen(port)
+
+  // Last known state, replayed to new connections and subscriptions
+  let overview: MarketOverview | null = null
+  const quotes = new Map<string, RealtimeQuote>()
+  const signals = new Map<string, RealtimeSignal>()
+
+  io.use((socket, next) => {
+    const token = socket.handshake.auth?.token
+    if (!token) {
+      socket.data.userId = null
+      return next()
+    }
+    const claims = typeof token === 'string' ? verifyRealtimeToken(token) : null
+    if (!claims) return next(new Error('Unauthorized'))
+    socket.data.userId = claims.userId
+    next()
+  })
+
+  io.on('connection', (socket: RealtimeSocket) => {
+    socket.join(MARKET_ROOM)
+    if (socket.data.userId) socket.join(userRoom(socket.data.userId))
+    if (overview) socket.emit('market:overview', withOptionChainProvenance(overview))
+
+    socket.on('subscribe', (symbols, ack) => {
+      const result = subscribe(socket, Array.isArray(symbols) ? symbols : [])
+      result.subscribed.forEach(symbol => {
+        const quote = quotes.get(symbol)
+        const signal = signals.get(symbol)
+        if (quote) socket.emit('quote', quote)
+        if (signal) socket.emit('signal', signal)
+      })
+      if (typeof ack === 'function') ack(result)
+    })
+
+    socket.on('unsubscribe', symbols => {
+      if (!Array.isArray(symbols)) return
+      symbols.forEach(symbol => {
+        if (typeof symbol === 'string') socket.leave(symbolRoom(symbol))
+      })
+    })
+  })
+
+  // ─── Quote ticks ──────────────────────────────────────────────────────────
+
+  const quoteSeconds = Number(process.env.REALTIME_QUOTE_SECONDS) || DEFAULT_QUOTE_SECONDS
+  let ticking = false
+  const timer = setInterval(() => {
+    if (ticking || !isScanWindow() || io.engine.clientsCount === 0) return
+    ticking = true
+    tickQuotes()
+      .catch(error => console.error('[realtime] Quote tick failed:', error))
+      .finally(() => { ticking = false })
+  }, quoteSeconds * 1000)
+
+  // Indices always (the dashboard header shows them), plus whatever has subscribers
+  async function tickQuotes(): Promise<void> {
+    const symbols = new Set(INDEX_SYMBOLS)
+    io.of('/').adapter.rooms.forEach((_members, room) => {
+      if (room.startsWith('symbol:')) symbols.add(room.slice('symbol:'.length))
+    })
+
+    const master = getSymbolMaster()
+    const provider = getMarketDataProvider()
+    let indicesChanged = false
+
+    await Promise.all(Array.from(symbols).map(async symbol => {
+      const quote = await provider.getQuote(master.toYahoo(symbol), { timeout: QUOTE_TIMEOUT_MS }).catch(() => null)
+      if (!quote || !(quote.price > 0)) return
+
+      const previous = quotes.get(symbol)
+      if (previous && previous.price === quote.price && previous.volume === quote.volume) return
+
+      const tick: RealtimeQuote = {
+        symbol,
+        price: quote.price,
+        change: round(quote.change, 2),
+        changePercent: round(quote.changePercent, 2),
+        volume: quote.volume,
+        timestamp: new Date().toISOString(),
+      }
+      quotes.set(symbol, tick)
+      io.to(symbolRoom(symbol)).emit('quote', tick)
+      if (INDEX_KEYS[symbol]) indicesChanged = true
+    }))
+
+    if (indicesChanged) io.to(MARKET_ROOM).emit('indices', currentIndices())
+  }
+
+  function currentIndices(): RealtimeIndices {
+    const indices: RealtimeIndices = { timestamp: new Date().toISOString() }
+    Object.keys(INDEX_KEYS).forEach(symbol => {
+      const quote = quotes.get(symbol)
+      if (quote) indices[INDEX_KEYS[symbol]] = quote
+    })
+    return indices
+  }
+
+  // ─── Subscriptions ────────────────────────────────────────────────────────
+
+  // Resolve to NSE symbols via the symbol master and join their rooms, up to the limit
+  function subscribe(socket: RealtimeSocket, requested: unknown[]) {
+    const master = getSymbolMaster()
+    const subscribed: string[] = []
+    const rejected: string[] = []
+    let count = 0
+    socket.rooms.forEach(room => {
+      if (room.startsWith('symbol:')) count++
+    })
+
+    requested.forEach(value => {
+      const info = typeof value === 'string' ? master.get(value.trim()) : undefined
+      if (!info) {
+        rejected.push(String(value))
+        return
+      }
+      const room = symbolRoom(info.symbol)
+      if (!socket.rooms.has(room)) {
+        if (count >= MAX_SUBSCRIPTIONS) {
+          rejected.push(info.symbol)
+          return
+        }
+        socket.join(room)
+        count++
+      }
+      subscribed.push(info.symbol)
+    })
+
+    return { subscribed, rejected }
+  }
+
+  // ─── Publishing ───────────────────────────────────────────────────────────
+
+  return {
+    publishScan(scan: MarketScan) {
+      const timestamp = new Date().toISOString()
+      overview = scan.data
+      io.to(MARKET_ROOM).emit('market:overview', withOptionChainProvenance(overview))
+
+      const { indices, optionChainData } = scan.data
+      const indexQuotes: Array<[string, { price: number; change: number; changePercent: number }]> = [
+        ['NIFTY', indices.nifty],
+        ['BANKNIFTY', indices.bankNifty],
+        ['SENSEX', indices.sensex],
+      ]
+
+      scan.data.allStocks.forEach(stock => {
+        const quote: RealtimeQuote = {
+          symbol: stock.symbol,
+          price: stock.price,
+          change: stock.change,
+          changePercent: stock.changePercent,
+          volume: stock.volume,
+          timestamp,
+        }
+        const signal: RealtimeSignal = {
+          symbol: stock.symbol,
+          rsi: stock.rsi,
+          macdSignal: stock.macdSignal,
+          operatorGame: stock.operatorGame
+            ? { type: stock.operatorGame.type, confidence: stock.operatorGame.confidence, action: stock.operatorGame.action }
+            : null,
+          smc: stock.smc,
+          aiConfidence: stock.aiConfidence,
+          timestamp,
+        }
+        quotes.set(stock.symbol, quote)
+        signals.set(stock.symbol, signal)
+        io.to(symbolRoom(stock.symbol)).emit('quote', quote)
+        io.to(symbolRoom(stock.symbol)).emit('signal', signal)
+      })
+
+      indexQuotes.forEach(([symbol, quote]) => {
+        if (!(quote.price > 0)) return
+        const tick: RealtimeQuote = { symbol, ...quote, timestamp }
+        quotes.set(symbol, tick)
+        io.to(symbolRoom(symbol)).emit('quote', tick)
+      })
+      io.to(MARKET_ROOM).emit('indices', currentIndices())
+
+      const chains: Array<[string, typeof optionChainData.nifty]> = [
+        ['NIFTY', optionChainData.nifty],
+        ['BANKNIFTY', optionChainData.bankNifty],
+        ['SENSEX', optionChainData.sensex],
+      ]
+      chains.forEach(([symbol, analysis]) => {
+        if (analysis) io.to(symbolRoom(symbol)).emit('optionChain', { symbol, analysis })
+      })
+    },
+
+    publishAlerts(triggers: AlertTrigger[]) {
+      triggers.forEach(trigger => {
+        const alert: RealtimeAlert = {
+          id: String(trigger._id),
+          alertId: String(trigger.alertId),
+          symbol: trigger.symbol,
+          type: trigger.type,
+          message: trigger.message,
+          price: trigger.context.price,
+          changePercent: trigger.context.changePercent,
+          details: trigger.context.details,
+          triggeredAt: trigger.triggeredAt.toISOString(),
+        }
+        io.to(userRoom(String(trigger.userId))).emit('alert', alert)
+      })
+    },
+
+    close() {
+      clearInterval(timer)
+      return new Promise<void>(resolve => {
+        io.close(() => resolve())
+      })
+    },
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
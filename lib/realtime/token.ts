@@ -0,0 +1,53 @@
+// Realtime Tokens
+// Short-lived tokens the dashboard presents on the socket.io handshake, issued by
+// /api/realtime-token and verified by the realtime server. HMAC-SHA256 over the claims
+// with REALTIME_SECRET (or NEXTAUTH_SECRET); without either, only anonymous
+// connections are possible.
+import crypto from 'crypto'
+
+export interface RealtimeClaims {
+  userId: string
+  expiresAt: number       // unix seconds
+}
+
+const DEFAULT_TTL_SECONDS = 10 * 60
+
+function secret(): string | null {
+  return process.env.REALTIME_SECRET || process.env.NEXTAUTH_SECRET || null
+}
+
+export function isRealtimeAuthConfigured(): boolean {
+  return secret() !== null
+}
+
+// <base64url claims>.<base64url signature>
+export function createRealtimeToken(userId: string, ttlSeconds: number = DEFAULT_TTL_SECONDS): RealtimeClaims & { token: string } {
+  const key = secret()
+  if (!key) throw new Error('REALTIME_SECRET or NEXTAUTH_SECRET must be set to issue realtime tokens')
+  const claims: RealtimeClaims = { userId, expiresAt: Math.floor(Date.now() / 1000) + ttlSeconds }
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return { ...claims, token: `${payload}.${sign(payload, key)}` }
+}
+
+// Claims of a valid, unexpired token; null otherwise
+export function verifyRealtimeToken(token: string): RealtimeClaims | null {
+  const key = secret()
+  const [payload, signature] = token.split('.')
+  if (!key || !payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload, key))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as RealtimeClaims
+    if (typeof claims.userId !== 'string' || !(claims.expiresAt > Date.now() / 1000)) return null
+    return claims
+  } catch {
+    return null
+  }
+}
+
+function sign(payload: string, key: string): string {
+  return crypto.createHmac('sha256', key).update(payload).digest('base64url')
+}
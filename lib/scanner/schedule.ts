@@ -0,0 +1,27 @@
+// Scanner Schedule
+// When the background scanner runs, and how old a snapshot may be before the API rescans live
+import { getMarketSession } from '../../utils/marketSession'
+
+// Keep scanning a few minutes past each close so the closing prices land in a snapshot
+const POST_CLOSE_SCAN_MINUTES = 10
+
+export const DEFAULT_SCAN_INTERVAL_SECONDS = 60
+
+// Pre-open, continuous trading (incl. Muhurat) and the tail after the close
+export function isScanWindow(date: Date = new Date()): boolean {
+  const session = getMarketSession(date)
+  if (session.status === 'PRE_OPEN' || session.isOpen) return true
+  return getMarketSession(new Date(date.getTime() - POST_CLOSE_SCAN_MINUTES * 60 * 1000)).isOpen
+}
+
+// While the scanner is running a snapshot must be recent; outside market hours
+// the last one of the previous session stays valid until the next session starts
+export function snapshotMaxAgeSeconds(date: Date = new Date()): number {
+  const interval = Number(process.env.SCANNER_INTERVAL_SECONDS) || DEFAULT_SCAN_INTERVAL_SECONDS
+  if (isScanWindow(date)) return Math.max(5 * 60, interval * 3)
+
+  // Accept anything taken since shortly before the last close
+  const { lastClose } = getMarketSession(date)
+  if (!lastClose) return 66 * 60 * 60
+  return Math.ceil((date.getTime() - new Date(lastClose).getTime()) / 1000) + 15 * 60
+}
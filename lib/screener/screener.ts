@@ -0,0 +1,164 @@
+// Screener
+// Runs a condition (utils/conditionDsl) over the scanned universe. Scanner fields come
+// from the latest market overview; daily candles and multi-timeframe analysis are only
+// fetched when the condition reads them.
+import { isMongoConfigured } from '../mongodb'
+import { MarketCacheService } from '../db/marketCacheService'
+import { SnapshotService } from '../db/snapshotService'
+import { CandleRange, getMarketDataProvider } from '../marketData'
+import { MarketOverview, scanMarket, StockData } from '../scanner/marketScan'
+import { snapshotMaxAgeSeconds } from '../scanner/schedule'
+import { getSymbolMaster } from '../symbols'
+import { CandleData, toCandles } from '../../utils/candles'
+import { CompiledCondition, ConditionValue, evaluateCondition } from '../../utils/conditionDsl'
+import { analyzeMultiTimeframe, MTFAnalysis } from '../../utils/multiTimeframeAnalysis'
+import type { OptionChainAnalysis } from '../../utils/optionChainAnalysis'
+
+export type ScreenerUniverse = 'ALL' | 'FNO' | 'STOCKS' | 'INDICES'
+
+export interface ScreenerSubject {
+  symbol: string
+  name: string
+  price: number
+  changePercent: number
+  stock?: StockData
+  optionChain?: OptionChainAnalysis | null
+}
+
+export interface ScreenerMatch {
+  symbol: string
+  name: string
+  price: number
+  changePercent: number
+  values: Record<string, ConditionValue>
+}
+
+export interface ScreenerResult {
+  scanned: number
+  matched: ScreenerMatch[]
+  undecided: string[]     // symbols missing data the condition needed
+  asOf: string            // when the overview was scanned
+}
+
+// Multi-timeframe analysis makes six candle requests per symbol
+export const MAX_MTF_SYMBOLS = 20
+// Daily bars a year of history holds, less a margin for holidays - the most a condition
+// can look back
+export const MAX_CONDITION_LOOKBACK = 240
+const BATCH_SIZE = 10
+const INDEX_NAMES: Record<string, string> = { NIFTY: 'NIFTY 50', BANKNIFTY: 'NIFTY BANK', SENSEX: 'SENSEX' }
+
+// The background scanner's snapshot when recent, otherwise the cached live scan
+// /api/market-data serves
+export async function loadMarketOverview(): Promise<MarketOverview> {
+  const snapshot = isMongoConfigured()
+    ? await SnapshotService.getRecent(snapshotMaxAgeSeconds()).catch(error => {
+        console.log('Snapshot read failed:', error)
+        return null
+      })
+    : null
+  if (snapshot) return snapshot.data
+
+  const cached = await MarketCacheService.getOrRefresh('ANALYSIS', 'MARKET_OVERVIEW', async () => {
+    const scan = await scanMarket()
+    return scan.data
+  })
+  return cached.data
+}
+
+// Stocks and indices to screen: a named universe or an explicit symbol list
+export function screenerSubjects(overview: MarketOverview, universe: ScreenerUniverse | string[]): ScreenerSubject[] {
+  const stocks: ScreenerSubject[] = overview.allStocks.map(stock => ({
+    symbol: stock.symbol,
+    name: stock.name,
+    price: stock.price,
+    changePercent: stock.changePercent,
+    stock,
+  }))
+  const { indices, optionChainData } = overview
+  const indexQuotes: Array<[string, { price: number; changePercent: number }, OptionChainAnalysis | null]> = [
+    ['NIFTY', indices.nifty, optionChainData.nifty],
+    ['BANKNIFTY', indices.bankNifty, optionChainData.bankNifty],
+    ['SENSEX', indices.sensex, optionChainData.sensex],
+  ]
+  const indexSubjects: ScreenerSubject[] = indexQuotes
+    .filter(([, quote]) => quote.price > 0)
+    .map(([symbol, quote, optionChain]) => ({
+      symbol,
+      name: INDEX_NAMES[symbol],
+      price: quote.price,
+      changePercent: quote.changePercent,
+      optionChain,
+    }))
+
+  if (Array.isArray(universe)) {
+    const master = getSymbolMaster()
+    const wanted = new Set(universe.map(s => master.get(s)?.symbol || s.toUpperCase()))
+    return stocks.concat(indexSubjects).filter(s => wanted.has(s.symbol))
+  }
+  switch (universe) {
+    case 'FNO': return stocks.filter(s => s.stock?.isFNO)
+    case 'STOCKS': return stocks
+    case 'INDICES': return indexSubjects
+    default: return stocks.concat(indexSubjects)
+  }
+}
+
+// Daily history to fetch for a condition: ~125 bars in 6 months; longer indicators need the year
+export function conditionCandleRange(condition: CompiledCondition): CandleRange {
+  return condition.lookback <= 100 ? '6mo' : '1y'
+}
+
+// Evaluate the condition for every subject, in batches when it needs market data
+export async function runScreener(
+  condition: CompiledCondition,
+  subjects: ScreenerSubject[],
+  asOf: string
+): Promise<ScreenerResult> {
+  const needsCandles = condition.sources.includes('candles')
+  const needsMtf = condition.sources.includes('mtf')
+  const range = conditionCandleRange(condition)
+  const provider = getMarketDataProvider()
+  const master = getSymbolMaster()
+
+  const result: ScreenerResult = { scanned: subjects.length, matched: [], undecided: [], asOf }
+
+  for (let i = 0; i < subjects.length; i += BATCH_SIZE) {
+    const batch = subjects.slice(i, i + BATCH_SIZE)
+    const evaluations = await Promise.all(batch.map(async subject => {
+      const yahoo = master.toYahoo(subject.symbol)
+      const [candles, mtf] = await Promise.all([
+        needsCandles
+          ? provider.getCandles(yahoo, '1d', range).then(history => toCandles(history)).catch(error => {
+              console.log(`Screener candles failed for ${subject.symbol}:`, error)
+              return [] as CandleData[]
+            })
+          : Promise.resolve([] as CandleData[]),
+        needsMtf
+          ? analyzeMultiTimeframe(subject.symbol).catch(error => {
+              console.log(`Screener MTF analysis failed for ${subject.symbol}:`, error)
+              return null as MTFAnalysis | null
+            })
+          : Promise.resolve(null),
+      ])
+      return evaluateCondition(condition, { stock: subject.stock, candles, optionChain: subject.optionChain, mtf })
+    }))
+
+    evaluations.forEach((evaluation, idx) => {
+      const subject = batch[idx]
+      if (evaluation.matched) {
+        result.matched.push({
+          symbol: subject.symbol,
+          name: subject.name,
+          price: subject.price,
+          changePercent: subject.changePercent,
+          values: evaluation.values,
+        })
+      } else if (!evaluation.known) {
+        result.undecided.push(subject.symbol)
+      }
+    })
+  }
+
+  return result
+}
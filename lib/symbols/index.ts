@@ -0,0 +1,104 @@
+// Symbol Master
+// Single source for the scanned universe: NSE/BSE tickers, Yahoo mapping, sector,
+// F&O lot sizes and strike intervals, and index membership.
+// SYMBOL_MASTER_PATH points at a .json or .csv file to use instead of data/symbols.json
+
+import fs from 'fs'
+import path from 'path'
+import bundledMaster from '../../data/symbols.json'
+import { parseSymbolMasterCsv, parseSymbolMasterJson } from './loader'
+import { IndexCode, SymbolInfo, SymbolMasterFile } from './types'
+
+export * from './types'
+export { toYahooSymbol } from './loader'
+
+export class SymbolMaster {
+  private readonly bySymbol = new Map<string, SymbolInfo>()
+  private readonly byYahoo = new Map<string, SymbolInfo>()
+
+  constructor(readonly symbols: SymbolInfo[], readonly asOf?: string) {
+    symbols.forEach(info => {
+      if (this.bySymbol.has(info.symbol)) {
+        throw new Error(`Symbol master: duplicate symbol ${info.symbol}`)
+      }
+      this.bySymbol.set(info.symbol, info)
+      this.byYahoo.set(info.yahooSymbol.toUpperCase(), info)
+    })
+  }
+
+  // Look up by NSE ticker/index code or by Yahoo symbol (RELIANCE, RELIANCE.NS, ^NSEI)
+  get(symbol: string): SymbolInfo | undefined {
+    const key = symbol.toUpperCase()
+    return this.bySymbol.get(key) || this.byYahoo.get(key)
+  }
+
+  equities(): SymbolInfo[] {
+    return this.symbols.filter(s => s.type === 'EQUITY')
+  }
+
+  indices(): SymbolInfo[] {
+    return this.symbols.filter(s => s.type === 'INDEX')
+  }
+
+  fnoStocks(): SymbolInfo[] {
+    return this.symbols.filter(s => s.type === 'EQUITY' && s.isFNO)
+  }
+
+  constituents(index: IndexCode): SymbolInfo[] {
+    return this.symbols.filter(s => s.indices.includes(index))
+  }
+
+  // Yahoo ticker for a symbol; unknown symbols are assumed to be NSE equities
+  toYahoo(symbol: string): string {
+    const info = this.get(symbol)
+    return info ? info.yahooSymbol : `${symbol.toUpperCase()}.NS`
+  }
+
+  // Display ticker for a Yahoo symbol; unknown symbols lose their exchange suffix
+  fromYahoo(yahooSymbol: string): string {
+    const info = this.get(yahooSymbol)
+    return info ? info.symbol : yahooSymbol.replace(/\.(NS|BO)$/i, '')
+  }
+
+  lotSize(symbol: string): number | undefined {
+    return this.get(symbol)?.lotSize
+  }
+
+  // Listed strike gap; symbols outside the master fall back to the old 50/100 rule
+  strikeInterval(symbol: string, price: number): number {
+    const interval = this.get(symbol)?.strikeInterval
+    if (interval) return interval
+    return price > 10000 ? 100 : 50
+  }
+}
+
+let master: SymbolMaster | null = null
+
+export function loadSymbolMaster(filePath: string | undefined = process.env.SYMBOL_MASTER_PATH): SymbolMaster {
+  if (!filePath) {
+    const file = bundledMaster as SymbolMasterFile
+    return new SymbolMaster(parseSymbolMasterJson(file), file.asOf)
+  }
+
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath)
+  const text = fs.readFileSync(resolved, 'utf8')
+
+  if (resolved.toLowerCase().endsWith('.csv')) {
+    return new SymbolMaster(parseSymbolMasterCsv(text))
+  }
+  const file = JSON.parse(text) as SymbolMasterFile
+  return new SymbolMaster(parseSymbolMasterJson(file), file.asOf)
+}
+
+// Process-wide master, loaded from config on first use
+export function getSymbolMaster(): SymbolMaster {
+  if (!master) {
+    master = loadSymbolMaster()
+  }
+  return master
+}
+
+// Swap the active master (scripts, alternate universes)
+export function setSymbolMaster(next: SymbolMaster): void {
+  master = next
+}
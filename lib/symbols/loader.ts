@@ -0,0 +1,102 @@
+// Symbol Master Loader
+// Parses and validates the symbol master from JSON or CSV
+//
+// CSV columns (header row required, extra columns ignored):
+//   symbol,name,type,exchange,bseCode,yahooSymbol,sector,industry,isFNO,lotSize,strikeInterval,indices
+// `indices` is pipe-separated (NIFTY|BANKNIFTY); blank yahooSymbol is derived from exchange
+
+import { IndexCode, SymbolInfo, SymbolMasterFile } from './types'
+import { parseCsvLine } from '../../utils/csv'
+
+const INDEX_CODES: IndexCode[] = ['NIFTY', 'BANKNIFTY', 'NIFTYIT']
+
+export function parseSymbolMasterJson(doc: SymbolMasterFile): SymbolInfo[] {
+  if (!doc || !Array.isArray(doc.symbols)) {
+    throw new Error('Symbol master JSON must have a "symbols" array')
+  }
+  return doc.symbols.map((entry, idx) => normalizeEntry(entry, `entry ${idx + 1}`))
+}
+
+export function parseSymbolMasterCsv(text: string): SymbolInfo[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.startsWith('#'))
+  if (lines.length === 0) {
+    throw new Error('Symbol master CSV is empty')
+  }
+
+  const header = parseCsvLine(lines[0]).map(h => h.trim())
+  const column = (row: string[], name: string) => {
+    const idx = header.indexOf(name)
+    return idx >= 0 && row[idx] !== undefined ? row[idx].trim() : ''
+  }
+
+  return lines.slice(1).map((line, idx) => {
+    const row = parseCsvLine(line)
+    const isFNO = column(row, 'isFNO').toLowerCase()
+    return normalizeEntry(
+      {
+        symbol: column(row, 'symbol'),
+        name: column(row, 'name'),
+        type: (column(row, 'type') || 'EQUITY') as SymbolInfo['type'],
+        exchange: (column(row, 'exchange') || 'NSE') as SymbolInfo['exchange'],
+        bseCode: column(row, 'bseCode') || undefined,
+        yahooSymbol: column(row, 'yahooSymbol') || undefined,
+        sector: column(row, 'sector') || undefined,
+        industry: column(row, 'industry') || undefined,
+        isFNO: isFNO === 'true' || isFNO === 'yes' || isFNO === '1',
+        lotSize: optionalNumber(column(row, 'lotSize')),
+        strikeInterval: optionalNumber(column(row, 'strikeInterval')),
+        indices: column(row, 'indices').split('|').map(s => s.trim()).filter(Boolean) as IndexCode[],
+      },
+      `line ${idx + 2}`
+    )
+  })
+}
+
+// Yahoo tickers: NSE listings take .NS, BSE listings .BO
+export function toYahooSymbol(symbol: string, exchange: SymbolInfo['exchange']): string {
+  return `${symbol}${exchange === 'BSE' ? '.BO' : '.NS'}`
+}
+
+function normalizeEntry(
+  entry: SymbolMasterFile['symbols'][number],
+  where: string
+): SymbolInfo {
+  const symbol = (entry.symbol || '').trim().toUpperCase()
+  if (!symbol) throw new Error(`Symbol master ${where}: missing symbol`)
+  if (entry.type !== 'EQUITY' && entry.type !== 'INDEX') {
+    throw new Error(`Symbol master ${where} (${symbol}): type must be EQUITY or INDEX`)
+  }
+  if (entry.exchange !== 'NSE' && entry.exchange !== 'BSE') {
+    throw new Error(`Symbol master ${where} (${symbol}): exchange must be NSE or BSE`)
+  }
+  if (entry.isFNO && !(entry.lotSize && entry.lotSize > 0)) {
+    throw new Error(`Symbol master ${where} (${symbol}): F&O symbols need a positive lotSize`)
+  }
+
+  const indices = entry.indices || []
+  const unknown = indices.filter(code => !INDEX_CODES.includes(code))
+  if (unknown.length > 0) {
+    throw new Error(`Symbol master ${where} (${symbol}): unknown index ${unknown.join(', ')}`)
+  }
+
+  return {
+    symbol,
+    name: entry.name || symbol,
+    type: entry.type,
+    exchange: entry.exchange,
+    bseCode: entry.bseCode,
+    yahooSymbol: entry.yahooSymbol || toYahooSymbol(symbol, entry.exchange),
+    sector: entry.sector,
+    industry: entry.industry,
+    isFNO: !!entry.isFNO,
+    lotSize: entry.lotSize,
+    strikeInterval: entry.strikeInterval,
+    indices,
+  }
+}
+
+function optionalNumber(value: string): number | undefined {
+  if (value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
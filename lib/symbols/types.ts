@@ -0,0 +1,28 @@
+// Symbol Master Types
+
+export type SymbolType = 'EQUITY' | 'INDEX'
+export type ListingExchange = 'NSE' | 'BSE'
+
+// Index memberships tracked by the master - values are the index entries' own symbols
+export type IndexCode = 'NIFTY' | 'BANKNIFTY' | 'NIFTYIT'
+
+export interface SymbolInfo {
+  symbol: string          // NSE ticker (or index code), e.g. RELIANCE, NIFTY
+  name: string
+  type: SymbolType
+  exchange: ListingExchange // venue quotes are taken from
+  bseCode?: string        // BSE scrip code, e.g. 500325
+  yahooSymbol: string     // RELIANCE.NS, ^NSEI
+  sector?: string
+  industry?: string
+  isFNO: boolean
+  lotSize?: number        // contract size for F&O
+  strikeInterval?: number // gap between listed option strikes
+  indices: IndexCode[]
+}
+
+// Shape of data/symbols.json (or a file at SYMBOL_MASTER_PATH)
+export interface SymbolMasterFile {
+  asOf?: string // when lot sizes and constituents were last checked
+  symbols: Array<Omit<SymbolInfo, 'yahooSymbol'> & { yahooSymbol?: string }>
+}
@@ -0,0 +1,151 @@
+// Trade Journal
+// Request validation, query filters and response shape for the /api/trades routes
+import { ObjectId } from 'mongodb'
+import { z } from 'zod'
+import type { TradeFilters } from '../db/tradeService'
+import { Trade } from '../../models/Trade'
+
+export interface TradeResponse {
+  id: string
+  date: string
+  symbol: string
+  type: Trade['type']
+  action: Trade['action']
+  entry: number
+  exit?: number
+  exitDate?: string
+  quantity: number
+  stopLoss?: number
+  fees?: number
+  pnl?: number
+  pnlPercent?: number
+  status: 'OPEN' | 'CLOSED'
+  strategy?: string
+  emotionalState?: Trade['emotionalState']
+  notes?: string
+  screenshots: string[]
+  tags: string[]
+}
+
+const MAX_TAGS = 20
+const MAX_SCREENSHOTS = 10
+// About 10k tradebook rows
+const MAX_IMPORT_LENGTH = 2000000
+
+const price = z.number().positive()
+const date = z.coerce.date({ error: 'Invalid date' })
+const symbol = z.string().trim().min(1, { error: 'Symbol is required' }).max(60).transform(value => value.toUpperCase())
+const tags = z
+  .array(z.string().trim().min(1).max(30))
+  .max(MAX_TAGS)
+  .transform(values => values.filter((tag, i) => values.indexOf(tag) === i))
+
+const tradeFields = {
+  date,
+  symbol,
+  type: z.enum(['EQUITY', 'OPTION', 'FUTURE']),
+  action: z.enum(['BUY', 'SELL']),
+  entry: price,
+  quantity: z.number().positive(),
+  stopLoss: price.optional(),
+  fees: z.number().min(0).optional(),
+  strategy: z.string().trim().max(60).optional(),
+  emotionalState: z.enum(['CONFIDENT', 'FEARFUL', 'GREEDY', 'NEUTRAL', 'FRUSTRATED']).optional(),
+  notes: z.string().max(5000).optional(),
+  screenshots: z.array(z.url()).max(MAX_SCREENSHOTS).optional(),
+  tags: tags.optional(),
+}
+
+// A trade can be logged already closed by including exit (and exitDate)
+export const createTradeSchema = z
+  .object({
+    ...tradeFields,
+    exit: price.optional(),
+    exitDate: date.optional(),
+  })
+  .refine(value => !value.exitDate || value.exit !== undefined, {
+    error: 'exitDate needs an exit price',
+    path: ['exit'],
+  })
+  .refine(value => !value.exitDate || value.exitDate >= value.date, {
+    error: 'exitDate is before the entry date',
+    path: ['exitDate'],
+  })
+  .refine(value => value.exit === undefined || !!value.exitDate || value.date <= new Date(), {
+    error: 'A future-dated trade needs an exitDate',
+    path: ['exitDate'],
+  })
+
+// Any subset of fields; exit can only be changed on a closed trade (close it via /close)
+export const updateTradeSchema = z
+  .object({
+    ...tradeFields,
+    exit: price,
+    exitDate: date,
+  })
+  .partial()
+  .refine(value => Object.keys(value).length > 0, { error: 'Nothing to update' })
+
+export const closeTradeSchema = z.object({
+  exit: price,
+  exitDate: date.optional(),
+  fees: z.number().min(0).optional(),
+})
+
+// Tradebook CSV text; skipInvalid commits the valid rows of a file that has errors
+export const importTradebookSchema = z.object({
+  csv: z.string().trim().min(1, { error: 'The tradebook is empty' }).max(MAX_IMPORT_LENGTH, { error: 'The tradebook is too large' }),
+  profile: z.enum(['auto', 'zerodha', 'generic']).default('auto'),
+  skipInvalid: z.boolean().optional(),
+})
+
+// Query string -> filters; ignores anything malformed rather than failing the listing
+export function parseTradeFilters(query: Record<string, string | string[] | undefined>): TradeFilters {
+  const text = (value: string | string[] | undefined) => (typeof value === 'string' && value.trim() ? value.trim() : undefined)
+  const day = (value: string | string[] | undefined, endOfDay: boolean) => {
+    const raw = text(value)
+    if (!raw) return undefined
+    // Plain dates cover the whole IST day
+    const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(raw) ? `${raw}T${endOfDay ? '23:59:59.999' : '00:00:00'}+05:30` : raw)
+    return isNaN(parsed.getTime()) ? undefined : parsed
+  }
+  const status = text(query.status)?.toUpperCase()
+
+  return {
+    symbol: text(query.symbol)?.toUpperCase(),
+    tag: text(query.tag),
+    strategy: text(query.strategy),
+    from: day(query.from, false),
+    to: day(query.to, true),
+    status: status === 'OPEN' || status === 'CLOSED' ? status : undefined,
+  }
+}
+
+// Route param -> ObjectId; null for anything that isn't one
+export function parseTradeId(value: string | string[] | undefined): ObjectId | null {
+  return typeof value === 'string' && ObjectId.isValid(value) ? new ObjectId(value) : null
+}
+
+export function toTradeResponse(trade: Trade): TradeResponse {
+  return {
+    id: String(trade._id),
+    date: trade.date.toISOString(),
+    symbol: trade.symbol,
+    type: trade.type,
+    action: trade.action,
+    entry: trade.entry,
+    exit: trade.exit,
+    exitDate: trade.exitDate?.toISOString(),
+    quantity: trade.quantity,
+    stopLoss: trade.stopLoss,
+    fees: trade.fees,
+    pnl: trade.pnl,
+    pnlPercent: trade.pnlPercent,
+    status: trade.exit !== undefined ? 'CLOSED' : 'OPEN',
+    strategy: trade.strategy,
+    emotionalState: trade.emotionalState,
+    notes: trade.notes,
+    screenshots: trade.screenshots || [],
+    tags: trade.tags || [],
+  }
+}
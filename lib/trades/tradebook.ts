@@ -0,0 +1,399 @@
+// Tradebook Import
+// Parses broker tradebook CSV exports into fills and pairs them FIFO into round-trip
+// journal trades. Profiles map each broker's columns:
+//
+//   zerodha  Console tradebook: symbol,isin,trade_date,exchange,segment,series,trade_type,
+//            auction,quantity,price,trade_id,order_id,order_execution_time
+//   generic  Any CSV with a header row naming symbol, side (buy/sell), quantity, price and
+//            date (+ optional time, trade id, exchange, fees) - common aliases are accepted
+//
+// Times without a zone are IST. Options and futures are recognised from NSE tradingsymbols
+// (NIFTY24OCT25000CE, NIFTY2410325000PE weekly, RELIANCE24OCTFUT).
+import { parseCsvLine } from '../../utils/csv'
+import { istDateKey } from '../../utils/candles'
+import type { TradeAction, TradeType } from '../../models/Trade'
+
+export type TradebookProfileId = 'zerodha' | 'generic'
+
+export interface Instrument {
+  symbol: string            // tradingsymbol as stored on the trade
+  type: TradeType
+  underlying: string
+  expiry?: string           // YYYY-MM-DD for weekly contracts, YYYY-MM for monthly
+  strike?: number
+  optionType?: 'CE' | 'PE'
+}
+
+export interface TradebookFill {
+  row: number               // CSV line number, header is 1
+  key: string               // stable id used to skip fills that were already imported
+  time: Date
+  instrument: Instrument
+  side: TradeAction
+  quantity: number
+  price: number
+  fees: number
+}
+
+export interface TradebookError {
+  row: number
+  error: string
+}
+
+export interface ParsedTradebook {
+  profile: TradebookProfileId
+  rows: number
+  fills: TradebookFill[]
+  errors: TradebookError[]
+}
+
+// A position still open before the fills are applied - from an earlier import, or one the
+// fills open themselves
+export interface OpenLot {
+  tradeId?: string          // existing journal trade this lot is
+  symbol: string
+  type: TradeType
+  side: TradeAction
+  time: Date
+  price: number
+  quantity: number
+  fees: number
+  fills: string[]
+  rows: number[]
+}
+
+// A journal trade to create, or (with existingId) an open one to close
+export interface ImportedTrade {
+  existingId?: string
+  symbol: string
+  type: TradeType
+  action: TradeAction
+  date: Date
+  entry: number
+  quantity: number
+  exit?: number
+  exitDate?: Date
+  fees: number
+  fills: string[]
+  rows: number[]
+}
+
+export const TRADEBOOK_PROFILES: TradebookProfileId[] = ['zerodha', 'generic']
+export const MAX_TRADEBOOK_ROWS = 10000
+
+type Field = 'symbol' | 'side' | 'quantity' | 'price' | 'datetime' | 'date' | 'time' | 'tradeId' | 'exchange' | 'segment' | 'fees'
+
+// Header names per field, compared lowercased with anything but letters and digits removed
+const PROFILE_COLUMNS: Record<TradebookProfileId, Partial<Record<Field, string[]>>> = {
+  zerodha: {
+    symbol: ['symbol', 'tradingsymbol'],
+    side: ['tradetype'],
+    quantity: ['quantity'],
+    price: ['price'],
+    datetime: ['orderexecutiontime'],
+    date: ['tradedate'],
+    tradeId: ['tradeid'],
+    exchange: ['exchange'],
+    segment: ['segment'],
+  },
+  generic: {
+    symbol: ['symbol', 'tradingsymbol', 'scrip', 'scripname', 'instrument', 'stock', 'contract'],
+    side: ['side', 'tradetype', 'type', 'buysell', 'action', 'transactiontype'],
+    quantity: ['quantity', 'qty', 'tradedqty', 'filledqty'],
+    price: ['price', 'tradeprice', 'rate', 'tradedprice', 'avgprice', 'averageprice'],
+    datetime: ['datetime', 'timestamp', 'executiontime', 'tradetime', 'ordertime'],
+    date: ['date', 'tradedate'],
+    time: ['time'],
+    tradeId: ['tradeid', 'tradeno', 'tradenumber'],
+    exchange: ['exchange'],
+    segment: ['segment'],
+    fees: ['fees', 'charges', 'brokerage', 'totalcharges'],
+  },
+}
+
+// Columns that mark a Zerodha tradebook when auto-detecting
+const ZERODHA_SIGNATURE = ['tradetype', 'tradeid', 'orderexecutiontime']
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+// Weekly contracts encode the month as 1-9, O, N, D
+const WEEKLY_MONTHS = '123456789OND'
+
+const FUTURE_PATTERN = new RegExp(`^([A-Z0-9&-]+?)(\\d{2})(${MONTHS.join('|')})FUT$`)
+const MONTHLY_OPTION_PATTERN = new RegExp(`^([A-Z0-9&-]+?)(\\d{2})(${MONTHS.join('|')})(\\d+(?:\\.\\d+)?)(CE|PE)$`)
+const WEEKLY_OPTION_PATTERN = /^([A-Z0-9&-]+?)(\d{2})([1-9OND])(\d{2})(\d+(?:\.\d+)?)(CE|PE)$/
+
+// ─── Parsing ───
+
+export function parseTradebook(text: string, profile: TradebookProfileId | 'auto' = 'auto'): ParsedTradebook {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const headerIndex = lines.findIndex(line => line.trim() !== '')
+  if (headerIndex < 0) {
+    return { profile: profile === 'auto' ? 'generic' : profile, rows: 0, fills: [], errors: [{ row: 1, error: 'The file is empty' }] }
+  }
+
+  const header = parseCsvLine(lines[headerIndex]).map(normalizeHeader)
+  const resolved: TradebookProfileId =
+    profile !== 'auto' ? profile : ZERODHA_SIGNATURE.every(name => header.includes(name)) ? 'zerodha' : 'generic'
+  const columns = PROFILE_COLUMNS[resolved]
+  const fields = Object.keys(columns) as Field[]
+  const at: Partial<Record<Field, number>> = {}
+  // Aliases are in order of preference, so a "side" column wins over a "type" one
+  fields.forEach(field => {
+    const name = (columns[field] || []).find(alias => header.includes(alias))
+    if (name) at[field] = header.indexOf(name)
+  })
+
+  const missing = (['symbol', 'side', 'quantity', 'price'] as Field[]).filter(field => at[field] === undefined)
+  if (at.datetime === undefined && at.date === undefined) missing.push('date')
+  if (missing.length > 0) {
+    return {
+      profile: resolved,
+      rows: 0,
+      fills: [],
+      errors: [{ row: headerIndex + 1, error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` }],
+    }
+  }
+
+  const fills: TradebookFill[] = []
+  const errors: TradebookError[] = []
+  const seen = new Map<string, number>()
+  let rows = 0
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue
+    rows++
+    const row = i + 1
+    if (rows > MAX_TRADEBOOK_ROWS) {
+      errors.push({ row, error: `Only the first ${MAX_TRADEBOOK_ROWS} rows are imported` })
+      break
+    }
+
+    const values = parseCsvLine(lines[i])
+    const value = (field: Field) => (at[field] !== undefined ? (values[at[field]!] || '').trim() : '')
+    const problems: string[] = []
+
+    const instrument = value('symbol') ? detectInstrument(value('symbol')) : null
+    if (!instrument) problems.push('missing symbol')
+    else if (instrument.type === 'EQUITY' && /^(FO|NFO|F&O|FNO|CDS|MCX)/i.test(value('segment'))) {
+      problems.push(`can't tell the option or future contract from ${instrument.symbol}`)
+    }
+
+    const side = parseSide(value('side'))
+    if (!side) problems.push(`unknown side "${value('side')}"`)
+
+    const quantity = parseNumber(value('quantity'))
+    if (quantity === null || quantity <= 0) problems.push('quantity must be a positive number')
+    const price = parseNumber(value('price'))
+    if (price === null || price <= 0) problems.push('price must be a positive number')
+    const fees = value('fees') ? parseNumber(value('fees')) : 0
+    if (fees === null || fees < 0) problems.push('fees must be zero or more')
+
+    const time = parseTradeTime(value('datetime') || [value('date'), value('time')].filter(Boolean).join(' '))
+    if (!time) problems.push('invalid or missing date')
+
+    if (problems.length > 0) {
+      errors.push({ row, error: problems.join('; ') })
+      continue
+    }
+
+    // Exchange trade numbers restart each day and per segment, so the key carries the IST
+    // trade date, exchange and segment; without an id, identical rows are told apart by order
+    const tradeId = value('tradeId')
+    let key = tradeId
+      ? `${istDateKey(time!.getTime() / 1000)}:${value('exchange').toUpperCase()}:${value('segment').toUpperCase()}:${tradeId}`
+      : `${instrument!.symbol}|${time!.toISOString()}|${side}|${quantity}|${price}`
+    if (!tradeId) {
+      const occurrence = (seen.get(key) || 0) + 1
+      seen.set(key, occurrence)
+      key = `${key}#${occurrence}`
+    } else if (seen.has(key)) {
+      errors.push({ row, error: `duplicate trade id ${tradeId} on the same day` })
+      continue
+    } else {
+      seen.set(key, 1)
+    }
+
+    fills.push({ row, key, time: time!, instrument: instrument!, side: side!, quantity: quantity!, price: price!, fees: fees! })
+  }
+
+  return { profile: resolved, rows, fills, errors }
+}
+
+// NSE tradingsymbol -> instrument; anything that isn't an F&O contract is equity
+export function detectInstrument(tradingsymbol: string): Instrument {
+  const symbol = tradingsymbol
+    .toUpperCase()
+    .replace(/\s+/g, '')
+    .replace(/^(NSE|BSE|NFO|BFO):/, '')
+    .replace(/\.(NS|BO)$/, '')
+    .replace(/-(EQ|BE)$/, '')
+
+  const future = FUTURE_PATTERN.exec(symbol)
+  if (future) {
+    return { symbol, type: 'FUTURE', underlying: future[1], expiry: `20${future[2]}-${pad(MONTHS.indexOf(future[3]) + 1)}` }
+  }
+
+  const monthly = MONTHLY_OPTION_PATTERN.exec(symbol)
+  if (monthly) {
+    return {
+      symbol,
+      type: 'OPTION',
+      underlying: monthly[1],
+      expiry: `20${monthly[2]}-${pad(MONTHS.indexOf(monthly[3]) + 1)}`,
+      strike: Number(monthly[4]),
+      optionType: monthly[5] as 'CE' | 'PE',
+    }
+  }
+
+  const weekly = WEEKLY_OPTION_PATTERN.exec(symbol)
+  if (weekly) {
+    return {
+      symbol,
+      type: 'OPTION',
+      underlying: weekly[1],
+      expiry: `20${weekly[2]}-${pad(WEEKLY_MONTHS.indexOf(weekly[3]) + 1)}-${weekly[4]}`,
+      strike: Number(weekly[5]),
+      optionType: weekly[6] as 'CE' | 'PE',
+    }
+  }
+
+  return { symbol, type: 'EQUITY', underlying: symbol }
+}
+
+// ─── FIFO Pairing ───
+
+// Match each fill against the oldest opposite-side lots of the same contract. A fill that
+// outlasts them opens a position in its own direction (long or short). Returns the closed
+// round trips and every open lot that isn't an untouched `open` one.
+export function pairFills(fills: TradebookFill[], open: OpenLot[] = []): ImportedTrade[] {
+  const queues = new Map<string, OpenLot[]>()
+  const seeded = [...open].sort((a, b) => a.time.getTime() - b.time.getTime())
+  seeded.forEach(lot => {
+    const queue = queues.get(lot.symbol) || []
+    queue.push({ ...lot })
+    queues.set(lot.symbol, queue)
+  })
+
+  const trades: ImportedTrade[] = []
+  const ordered = [...fills].sort((a, b) => a.time.getTime() - b.time.getTime() || a.row - b.row)
+
+  ordered.forEach(fill => {
+    const symbol = fill.instrument.symbol
+    const queue = queues.get(symbol) || []
+    const feePerUnit = fill.fees / fill.quantity
+    let remaining = fill.quantity
+
+    while (remaining > 0 && queue.length > 0 && queue[0].side !== fill.side) {
+      const lot = queue[0]
+      const quantity = Math.min(remaining, lot.quantity)
+      const lotFees = (lot.fees * quantity) / lot.quantity
+
+      trades.push({
+        existingId: lot.tradeId,
+        symbol,
+        type: lot.type,
+        action: lot.side,
+        date: lot.time,
+        entry: lot.price,
+        quantity,
+        exit: fill.price,
+        exitDate: fill.time,
+        fees: round(lotFees + feePerUnit * quantity),
+        fills: [...lot.fills, fill.key],
+        rows: [...lot.rows, fill.row],
+      })
+
+      lot.quantity = round(lot.quantity - quantity, 6)
+      lot.fees -= lotFees
+      remaining = round(remaining - quantity, 6)
+      if (lot.quantity <= 0) queue.shift()
+      // What's left of a partly closed journal trade becomes a new open trade
+      else lot.tradeId = undefined
+    }
+
+    if (remaining > 0) {
+      queue.push({
+        symbol,
+        type: fill.instrument.type,
+        side: fill.side,
+        time: fill.time,
+        price: fill.price,
+        quantity: remaining,
+        fees: feePerUnit * remaining,
+        fills: [fill.key],
+        rows: [fill.row],
+      })
+    }
+    queues.set(symbol, queue)
+  })
+
+  queues.forEach(queue => {
+    queue
+      .filter(lot => !lot.tradeId)
+      .forEach(lot => {
+        trades.push({
+          symbol: lot.symbol,
+          type: lot.type,
+          action: lot.side,
+          date: lot.time,
+          entry: lot.price,
+          quantity: lot.quantity,
+          fees: round(lot.fees),
+          fills: lot.fills,
+          rows: lot.rows,
+        })
+      })
+  })
+
+  return trades
+}
+
+// ─── Helpers ───
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function parseSide(value: string): TradeAction | null {
+  const side = value.trim().toUpperCase()
+  if (side === 'BUY' || side === 'B' || side === 'BOUGHT') return 'BUY'
+  if (side === 'SELL' || side === 'S' || side === 'SOLD') return 'SELL'
+  return null
+}
+
+// Indian number formatting (1,23,456.50) and a leading ₹ are fine
+function parseNumber(value: string): number | null {
+  const cleaned = value.replace(/[₹,\s]/g, '')
+  if (cleaned === '') return null
+  const parsed = Number(cleaned)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// YYYY-MM-DD, DD-MM-YYYY, DD/MM/YYYY or DD-Mon-YYYY, optionally with HH:MM[:SS] and a zone;
+// times without a zone are IST and date-only values are midnight IST
+export function parseTradeTime(value: string): Date | null {
+  const match = /^(\d{4}-\d{2}-\d{2}|\d{1,2}[-/](?:\d{1,2}|[A-Za-z]{3})[-/]\d{4})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/.exec(
+    value.trim()
+  )
+  if (!match) return null
+
+  const parts = match[1].split(/[-/]/)
+  const [year, month, day] = /^\d{4}/.test(match[1])
+    ? parts.map(Number)
+    : [Number(parts[2]), /^\d+$/.test(parts[1]) ? Number(parts[1]) : MONTHS.indexOf(parts[1].toUpperCase()) + 1, Number(parts[0])]
+  if (month < 1 || month > 12 || day < 1 || day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null
+
+  const zone = match[5] ? (match[5] === 'Z' ? 'Z' : match[5].replace(/^([+-]\d{2}):?(\d{2})$/, '$1:$2')) : '+05:30'
+  const iso = `${year}-${pad(month)}-${pad(day)}T${pad(Number(match[2] || 0))}:${match[3] || '00'}:${match[4] || '00'}${zone}`
+  const parsed = new Date(iso)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,13 @@
+// Request Validation
+// Shared helpers for API routes that validate bodies with zod
+import { z } from 'zod'
+
+// { field: message } for a 400 response; the first issue per field wins
+export function validationErrors(error: z.ZodError): Record<string, string> {
+  const errors: Record<string, string> = {}
+  error.issues.forEach(issue => {
+    const field = issue.path.join('.') || 'body'
+    if (!errors[field]) errors[field] = issue.message
+  })
+  return errors
+}
@@ -0,0 +1,98 @@
+// Watchlists
+// Request validation and response shape for the /api/watchlists routes. Symbols are
+// checked against the symbol master and stored as NSE symbols / index codes, so
+// RELIANCE.NS and reliance both become RELIANCE.
+import { ObjectId } from 'mongodb'
+import { z } from 'zod'
+import { getSymbolMaster, SymbolType } from '../symbols'
+import { MAX_WATCHLIST_SYMBOLS } from '../db/watchlistService'
+import { Watchlist } from '../../models/Watchlist'
+
+export interface WatchlistItem {
+  symbol: string
+  name: string
+  type: SymbolType
+  sector?: string
+  isFNO: boolean
+  note?: string
+}
+
+export interface WatchlistResponse {
+  id: string
+  name: string
+  items: WatchlistItem[]
+  createdAt: string
+  updatedAt: string
+}
+
+const MAX_NAME_LENGTH = 60
+const MAX_NOTE_LENGTH = 500
+
+const name = z.string().trim().min(1, { error: 'Name is required' }).max(MAX_NAME_LENGTH)
+const symbols = z
+  .array(z.string().trim().min(1))
+  .max(MAX_WATCHLIST_SYMBOLS, { error: `A watchlist holds at most ${MAX_WATCHLIST_SYMBOLS} symbols` })
+
+export const createWatchlistSchema = z.object({
+  name,
+  symbols: symbols.optional(),
+})
+
+// symbols here is the full list in its new order - a reorder, not an add/remove
+export const updateWatchlistSchema = z
+  .object({
+    name: name.optional(),
+    symbols: symbols.optional(),
+  })
+  .refine(value => value.name !== undefined || value.symbols !== undefined, {
+    error: 'Nothing to update - send name and/or symbols',
+  })
+
+export const addSymbolSchema = z.object({
+  symbol: z.string().trim().min(1, { error: 'Symbol is required' }),
+  note: z.string().trim().max(MAX_NOTE_LENGTH).optional(),
+})
+
+// An empty or null note clears it
+export const symbolNoteSchema = z.object({
+  note: z.string().trim().max(MAX_NOTE_LENGTH).nullable(),
+})
+
+// NSE symbols for the requested ones, deduplicated in order; unknown ones are listed separately
+export function resolveSymbols(requested: string[]): { symbols: string[]; unknown: string[] } {
+  const master = getSymbolMaster()
+  const resolved: string[] = []
+  const unknown: string[] = []
+  requested.forEach(value => {
+    const info = master.get(value.trim())
+    if (!info) unknown.push(value)
+    else if (resolved.indexOf(info.symbol) < 0) resolved.push(info.symbol)
+  })
+  return { symbols: resolved, unknown }
+}
+
+// Route param -> ObjectId; null for anything that isn't one
+export function parseWatchlistId(value: string | string[] | undefined): ObjectId | null {
+  return typeof value === 'string' && ObjectId.isValid(value) ? new ObjectId(value) : null
+}
+
+export function toWatchlistResponse(watchlist: Watchlist): WatchlistResponse {
+  const master = getSymbolMaster()
+  return {
+    id: String(watchlist._id),
+    name: watchlist.name,
+    items: watchlist.symbols.map(symbol => {
+      const info = master.get(symbol)
+      return {
+        symbol,
+        name: info?.name || symbol,
+        type: info?.type || 'EQUITY',
+        sector: info?.sector,
+        isFNO: info?.isFNO || false,
+        note: watchlist.notes?.[symbol],
+      }
+    }),
+    createdAt: watchlist.createdAt.toISOString(),
+    updatedAt: watchlist.updatedAt.toISOString(),
+  }
+}
@@ -0,0 +1,14 @@
+// Middleware - pages that need a signed-in user
+// Visitors without a session cookie are sent to /login and come back afterwards.
+// API routes check the session themselves (lib/auth/session.ts) so they can answer 401
+import { withAuth } from 'next-auth/middleware'
+
+export default withAuth({
+  pages: {
+    signIn: '/login',
+  },
+})
+
+export const config = {
+  matcher: ['/account', '/watchlists', '/journal', '/journal/:path*'],
+}
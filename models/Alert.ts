@@ -8,7 +8,15 @@ export type AlertType =
   | 'BREAKOUT' 
   | 'OPERATOR_GAME' 
   | 'PATTERN_DETECTED'
+  | 'CONDITION'
 
+// condition/value per type:
+//   PRICE_ABOVE / PRICE_BELOW  value = price, fires while price is at or beyond it (not on a cross)
+//   VOLUME_SPIKE               value = multiple of the 20-day average volume (default 2)
+//   BREAKOUT                   condition = BULLISH | BEARISH | '' (either)
+//   OPERATOR_GAME              condition = ACCUMULATION, BULL_TRAP, ... | '' (any)
+//   PATTERN_DETECTED           condition = pattern name, e.g. Hammer | '' (any non-neutral)
+//   CONDITION                  condition = expression, e.g. RSI(14) < 30 AND close > EMA(200) (utils/conditionDsl)
 export interface Alert {
   _id?: ObjectId
   userId: ObjectId
@@ -18,10 +26,35 @@ export interface Alert {
   value: number
   triggered: boolean
   active: boolean
+  cooldownMinutes?: number // re-arms this long after firing; unset = fire once
+  triggerCount?: number
+  lastTriggerKey?: string  // what the last trigger was about, for dedupe
   createdAt: Date
   triggeredAt?: Date
 }
 
+// One firing of an alert, with the market context that caused it
+export interface AlertTrigger {
+  _id?: ObjectId
+  alertId: ObjectId
+  userId: ObjectId
+  symbol: string
+  type: AlertType
+  key: string              // dedupe key, e.g. BREAKOUT:2025-10-21:Resistance Breakout
+  message: string
+  context: {
+    price: number
+    changePercent: number
+    volume?: number
+    volumeRatio?: number
+    signal?: string
+    details?: string[]
+  }
+  snapshotAt: Date         // when the market data was scanned
+  triggeredAt: Date
+}
+
 export const AlertCollections = {
   ALERTS: 'alerts',
+  ALERT_TRIGGERS: 'alert_triggers',
 }
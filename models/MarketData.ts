@@ -1,13 +1,17 @@
 // Market Data Cache Model
 import { ObjectId } from 'mongodb'
 
+export type MarketDataCacheType = 'STOCK' | 'INDEX' | 'CANDLES' | 'OPTION_CHAIN' | 'ANALYSIS'
+
 export interface MarketDataCache {
   _id?: ObjectId
+  key: string // `${type}:${symbol}` plus an optional variant, e.g. CANDLES:RELIANCE.NS:1d:3mo
   symbol: string
   data: any
-  type: 'STOCK' | 'INDEX' | 'OPTION_CHAIN' | 'ANALYSIS'
+  type: MarketDataCacheType
   createdAt: Date
-  expiresAt: Date
+  expiresAt: Date  // fresh until
+  staleUntil: Date // served stale while revalidating until; TTL index removes it after
 }
 
 export interface AnalysisCache {
@@ -17,6 +21,7 @@ export interface AnalysisCache {
   data: any
   createdAt: Date
   expiresAt: Date
+  staleUntil: Date
 }
 
 export const MarketDataCollections = {
@@ -0,0 +1,20 @@
+// Market Snapshot Model
+// One document per completed scanner run over the whole universe
+import { ObjectId } from 'mongodb'
+
+export interface MarketSnapshot {
+  _id?: ObjectId
+  kind: 'MARKET_OVERVIEW'
+  data: any // the /api/market-data payload
+  symbolsScanned: number
+  symbolsFailed: string[]
+  provider: string
+  startedAt: Date
+  completedAt: Date
+  durationMs: number
+  createdAt: Date
+}
+
+export const MarketSnapshotCollections = {
+  MARKET_SNAPSHOTS: 'market_snapshots',
+}
@@ -0,0 +1,66 @@
+// Notification Model
+// Per-user delivery preferences, the in-app inbox, and the outbox external channels
+// (email, webhook, Telegram) are delivered from with retries
+import { ObjectId } from 'mongodb'
+
+export type NotificationChannel = 'IN_APP' | 'EMAIL' | 'WEBHOOK' | 'TELEGRAM'
+export type ExternalChannel = Exclude<NotificationChannel, 'IN_APP'>
+
+export interface ChannelSettings {
+  enabled: boolean
+  target?: string          // email address, webhook URL or Telegram chat id
+  secret?: string          // webhook only: signs the body (X-Signature: sha256=<hmac>)
+}
+
+export interface NotificationPreferences {
+  _id?: ObjectId
+  userId: ObjectId
+  channels: Partial<Record<NotificationChannel, ChannelSettings>>
+  quietHours?: {           // IST; external channels wait until `end`, in-app still arrives
+    start: string          // HH:MM
+    end: string            // HH:MM, may be past midnight
+  }
+  digestMinutes?: number   // batch external notifications into one message per this many minutes
+  updatedAt: Date
+}
+
+export interface NotificationMessage {
+  title: string
+  body: string
+  data?: Record<string, unknown> // machine-readable payload for webhooks
+}
+
+// In-app inbox entry
+export interface InAppNotification extends NotificationMessage {
+  _id?: ObjectId
+  userId: ObjectId
+  triggerId?: ObjectId
+  read: boolean
+  createdAt: Date
+}
+
+// HELD: waiting for its digest; SENDING: claimed by a worker until lockedUntil
+export type OutboxStatus = 'HELD' | 'PENDING' | 'SENDING' | 'SENT' | 'FAILED'
+
+export interface OutboxEntry {
+  _id?: ObjectId
+  userId: ObjectId
+  channel: ExternalChannel
+  target: string
+  secret?: string
+  message: NotificationMessage
+  triggerIds: ObjectId[]
+  status: OutboxStatus
+  attempts: number
+  nextAttemptAt: Date
+  lockedUntil?: Date
+  lastError?: string
+  createdAt: Date
+  sentAt?: Date
+}
+
+export const NotificationCollections = {
+  PREFERENCES: 'notification_preferences',
+  IN_APP: 'notifications',
+  OUTBOX: 'notification_outbox',
+}
@@ -0,0 +1,45 @@
+// Option Chain History Model
+// One document per captured chain snapshot, per symbol and expiry, plus one permanent
+// record per expiry day for the max pain pin study
+import { ObjectId } from 'mongodb'
+
+export interface StrikeSnapshot {
+  strike: number
+  callOI: number
+  putOI: number
+  callIV: number
+  putIV: number
+  callLTP: number
+  putLTP: number
+  callVolume: number
+  putVolume: number
+}
+
+export interface OptionChainHistoryPoint {
+  _id?: ObjectId
+  symbol: string
+  expiryDate: string   // YYYY-MM-DD
+  tradingDate: string  // IST date of capture, YYYY-MM-DD
+  capturedAt: Date     // when the feed produced the chain
+  spotPrice: number
+  strikes: StrikeSnapshot[]
+  createdAt: Date
+}
+
+// Max pain at the first capture of expiry day and spot at the latest one. Kept after the
+// snapshots themselves expire
+export interface ExpiryPinRecord {
+  _id?: ObjectId
+  symbol: string
+  expiryDate: string      // YYYY-MM-DD
+  openedAt: Date
+  openingMaxPain: number
+  closedAt: Date
+  closingSpot: number
+  updatedAt: Date
+}
+
+export const OptionChainHistoryCollections = {
+  OPTION_CHAIN_HISTORY: 'option_chain_history',
+  EXPIRY_PINS: 'expiry_pins',
+}
@@ -8,24 +8,39 @@ export type EmotionalState = 'CONFIDENT' | 'FEARFUL' | 'GREEDY' | 'NEUTRAL' | 'F
 export interface Trade {
   _id?: ObjectId
   userId: ObjectId
-  date: Date
+  date: Date               // entry time
   symbol: string
   type: TradeType
   action: TradeAction
   entry: number
-  exit?: number
+  exit?: number            // set when the trade is closed
+  exitDate?: Date
   quantity: number
-  pnl?: number
-  pnlPercent?: number
+  stopLoss?: number        // initial stop; the trade's risk (1R) is |entry - stopLoss| x quantity
+  fees?: number            // brokerage, taxes and charges, deducted from pnl
+  pnl?: number             // computed on close: (exit - entry) x quantity, reversed for SELL, less fees
+  pnlPercent?: number      // pnl against entry x quantity
   strategy?: string
   emotionalState?: EmotionalState
   notes?: string
   screenshots?: string[]
   tags?: string[]
+  importFills?: string[]   // broker fills the trade was imported from (lib/trades/tradebook.ts); re-imports skip them
   createdAt: Date
   updatedAt: Date
 }
 
+// One per imported broker fill, unique per user: a second commit of the same fill fails
+// instead of creating the trade again
+export interface TradeImportFill {
+  _id?: ObjectId
+  userId: ObjectId
+  key: string              // TradebookFill.key
+  importId: ObjectId       // the commit that claimed it
+  createdAt: Date
+}
+
 export const TradeCollections = {
   TRADES: 'trades',
+  IMPORT_FILLS: 'trade_import_fills',
 }
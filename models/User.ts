@@ -7,6 +7,7 @@ export interface User {
   name?: string
   passwordHash: string
   plan: 'FREE' | 'PRO' | 'PREMIUM'
+  passwordChangedAt?: Date // sessions signed in before this are refused
   createdAt: Date
   updatedAt: Date
 }
@@ -23,7 +24,16 @@ export interface UserProfile {
   updatedAt: Date
 }
 
+// Failed sign-ins in the current window, per email or client IP (key "email:..." / "ip:...")
+export interface LoginFailure {
+  _id?: ObjectId
+  key: string
+  count: number
+  expiresAt: Date // end of the window; the TTL index removes the document
+}
+
 export const UserCollections = {
   USERS: 'users',
   PROFILES: 'user_profiles',
+  LOGIN_FAILURES: 'login_failures',
 }
@@ -0,0 +1,18 @@
+// Volatility History Model
+// One document per underlying per trading day: the day's last 30-day ATM IV reading
+import { ObjectId } from 'mongodb'
+
+export interface VolatilityHistoryPoint {
+  _id?: ObjectId
+  symbol: string
+  tradingDate: string   // IST date, YYYY-MM-DD
+  atmIV: number         // 30-day constant-maturity ATM IV, percent
+  nearestAtmIV: number  // ATM IV of the nearest expiry, percent
+  spotPrice: number
+  capturedAt: Date      // chain time the reading came from
+  updatedAt: Date
+}
+
+export const VolatilityHistoryCollections = {
+  VOLATILITY_HISTORY: 'volatility_history',
+}
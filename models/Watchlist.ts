@@ -5,7 +5,8 @@ export interface Watchlist {
   _id?: ObjectId
   userId: ObjectId
   name: string
-  symbols: string[]
+  symbols: string[]                // NSE symbols / index codes, in display order
+  notes?: Record<string, string>   // per-symbol note, keyed by symbol
   createdAt: Date
   updatedAt: Date
 }
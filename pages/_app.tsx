@@ -1,6 +1,12 @@
 import type { AppProps } from 'next/app'
+import type { Session } from 'next-auth'
+import { SessionProvider } from 'next-auth/react'
 import '../styles/globals.css'
 
-export default function App({ Component, pageProps }: AppProps) {
-  return <Component {...pageProps} />
+export default function App({ Component, pageProps: { session, ...pageProps } }: AppProps<{ session?: Session }>) {
+  return (
+    <SessionProvider session={session}>
+      <Component {...pageProps} />
+    </SessionProvider>
+  )
 }
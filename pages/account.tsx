@@ -0,0 +1,118 @@
+import { FormEvent, useState } from 'react'
+import Link from 'next/link'
+import { signIn, signOut, useSession } from 'next-auth/react'
+import NotificationInbox from '../components/NotificationInbox'
+import NotificationSettings from '../components/NotificationSettings'
+
+// Protected by middleware.ts - only signed-in users get here
+export default function Account() {
+  const { data: session } = useSession({ required: true })
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  const changePassword = async (event: FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    setMessage(null)
+    setFieldErrors({})
+    try {
+      const response = await fetch('/api/auth/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        setMessage({ ok: false, text: body.error || 'Failed to change password' })
+        setFieldErrors(body.errors || {})
+        return
+      }
+      // The change ends every session, this one included - sign straight back in
+      const signedIn = await signIn('credentials', { email: session?.user?.email, password: newPassword, redirect: false })
+      if (!signedIn || signedIn.error) {
+        signOut({ callbackUrl: '/login' })
+        return
+      }
+      setMessage({ ok: true, text: 'Password changed - other sessions are signed out' })
+      setCurrentPassword('')
+      setNewPassword('')
+    } catch (err) {
+      setMessage({ ok: false, text: 'Failed to change password' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!session?.user) {
+    return (
+      <div className="container">
+        <div className="loading">
+          <div className="spinner"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container">
+      <div className="card auth-card">
+        <h2>👤 Account</h2>
+        <p>{session.user.name ? `${session.user.name} · ` : ''}{session.user.email}</p>
+        {session.user.plan && <p className="auth-switch">Plan: {session.user.plan}</p>}
+
+        <h3 style={{ marginTop: '20px' }}>Change Password</h3>
+        {message && (
+          <div className={message.ok ? 'form-success' : 'error-message'}>
+            {message.ok ? '✅' : '⚠️'} {message.text}
+          </div>
+        )}
+        <form onSubmit={changePassword}>
+          <label className="form-field">
+            Current password
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={e => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+            {fieldErrors.currentPassword && <span className="form-error">{fieldErrors.currentPassword}</span>}
+          </label>
+          <label className="form-field">
+            New password
+            <input
+              type="password"
+              value={newPassword}
+              onChange={e => setNewPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+            {fieldErrors.newPassword && <span className="form-error">{fieldErrors.newPassword}</span>}
+          </label>
+          <button className="refresh-btn" type="submit" disabled={submitting}>
+            {submitting ? 'Saving...' : 'Change Password'}
+          </button>
+        </form>
+
+        <div className="auth-switch">
+          <Link href="/">← Dashboard</Link>
+          {' · '}
+          <a href="#" onClick={e => { e.preventDefault(); signOut({ callbackUrl: '/' }) }}>Sign out</a>
+        </div>
+      </div>
+
+      <div className="card auth-card">
+        <h2>🔔 Notifications</h2>
+        <NotificationSettings />
+      </div>
+
+      <div className="card auth-card">
+        <h2>📬 Inbox</h2>
+        <NotificationInbox />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+// next-auth endpoints - sign-in, sign-out, session and CSRF
+//
+//   POST /api/auth/callback/credentials  { email, password, csrfToken }   sign in
+//   POST /api/auth/signout               { csrfToken }                    sign out
+//   GET  /api/auth/session                                               current session
+//   The pages use signIn()/signOut() from next-auth/react rather than calling these directly
+import NextAuth from 'next-auth'
+import { authOptions } from '../../../lib/auth/options'
+
+export default NextAuth(authOptions)
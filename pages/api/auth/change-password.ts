@@ -0,0 +1,40 @@
+// Change Password - for the signed-in user
+//
+//   POST /api/auth/change-password  { "currentPassword": "...", "newPassword": "..." }
+//   400 { error, errors } for invalid fields or a wrong current password; 401 without a session.
+//   Ends every existing session, this one included (lib/auth/options.ts); the account page
+//   signs back in with the new password
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { UserService } from '../../../lib/db/userService'
+import { changePasswordSchema } from '../../../lib/auth/credentials'
+import { validationErrors } from '../../../lib/validation'
+import { SessionUser, withSession } from '../../../lib/auth/session'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const parsed = changePasswordSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid password change', errors: validationErrors(parsed.error) })
+    }
+
+    const { currentPassword, newPassword } = parsed.data
+    const changed = await UserService.changePassword(user.userId, currentPassword, newPassword)
+    if (!changed) {
+      return res.status(400).json({
+        error: 'Current password is incorrect',
+        errors: { currentPassword: 'Current password is incorrect' },
+      })
+    }
+
+    res.status(200).json({ success: true })
+  } catch (error) {
+    console.error('Error in change password API:', error)
+    res.status(500).json({ error: 'Failed to change password' })
+  }
+}
+
+export default withSession(handler)
@@ -0,0 +1,39 @@
+// Signup - create an email/password account
+//
+//   POST /api/auth/signup  { "email": "you@example.com", "password": "...", "name": "..." }
+//   201 { user } on success; 400 { error, errors } for invalid fields; 409 if the email is taken.
+//   Doesn't sign in - the signup page calls signIn() with the same credentials afterwards
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { isMongoConfigured } from '../../../lib/mongodb'
+import { UserService } from '../../../lib/db/userService'
+import { signupSchema } from '../../../lib/auth/credentials'
+import { validationErrors } from '../../../lib/validation'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    if (!isMongoConfigured()) {
+      return res.status(503).json({ error: 'Accounts need MONGODB_URI' })
+    }
+
+    const parsed = signupSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid signup details', errors: validationErrors(parsed.error) })
+    }
+
+    const { email, password, name } = parsed.data
+    const user = await UserService.createUser(email, password, name || undefined)
+    res.status(201).json({
+      user: { id: user._id?.toString(), email: user.email, name: user.name, plan: user.plan },
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'User already exists') {
+      return res.status(409).json({ error: 'An account with this email already exists' })
+    }
+    console.error('Error in signup API:', error)
+    res.status(500).json({ error: 'Failed to create account' })
+  }
+}
@@ -1,18 +1,11 @@
 // Fast Market Data API - Optimized for speed
 import type { NextApiRequest, NextApiResponse } from 'next'
-import axios from 'axios'
-
-// Only fetch top 30 most liquid stocks for speed
-const TOP_STOCKS = [
-  'RELIANCE.NS', 'TCS.NS', 'HDFCBANK.NS', 'INFY.NS', 'ICICIBANK.NS',
-  'HINDUNILVR.NS', 'ITC.NS', 'SBIN.NS', 'BHARTIARTL.NS', 'KOTAKBANK.NS',
-  'LT.NS', 'AXISBANK.NS', 'ASIANPAINT.NS', 'MARUTI.NS', 'TITAN.NS',
-  'SUNPHARMA.NS', 'ULTRACEMCO.NS', 'BAJFINANCE.NS', 'WIPRO.NS', 'HCLTECH.NS',
-  'TATASTEEL.NS', 'HINDALCO.NS', 'ADANIPORTS.NS', 'NTPC.NS', 'TATAMOTORS.NS',
-  'BAJAJFINSV.NS', 'TECHM.NS', 'INDUSINDBK.NS', 'DRREDDY.NS', 'APOLLOHOSP.NS'
-]
-
-const FNO_STOCKS = TOP_STOCKS // All top stocks have F&O
+import { getMarketDataProvider } from '../../lib/marketData'
+import { getSymbolMaster } from '../../lib/symbols'
+import { isMongoConfigured } from '../../lib/mongodb'
+import { SnapshotService } from '../../lib/db/snapshotService'
+import { snapshotMaxAgeSeconds } from '../../lib/scanner/schedule'
+import { withOptionChainProvenance } from '../../lib/scanner/marketScan'
 
 interface StockData {
   symbol: string
@@ -22,33 +15,26 @@ interface StockData {
   changePercent: number
   volume?: number
   isFNO?: boolean
+  lotSize?: number
 }
 
 // Simplified fetch - only current price, no technical analysis
 async function fetchStockDataFast(symbol: string): Promise<StockData | null> {
   try {
-    const quoteUrl = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1d&range=1d`
-    const response = await axios.get(quoteUrl, {
-      headers: { 'User-Agent': 'Mozilla/5.0' },
+    const quote = await getMarketDataProvider().getQuote(symbol, {
       timeout: 3000 // 3 second timeout
     })
-
-    const result = response.data.chart.result[0]
-    const meta = result.meta
-
-    const currentPrice = meta.regularMarketPrice || meta.previousClose
-    const previousClose = meta.previousClose || meta.chartPreviousClose
-    const change = currentPrice - previousClose
-    const changePercent = (change / previousClose) * 100
+    const info = getSymbolMaster().get(symbol)
 
     return {
-      symbol: symbol.replace('.NS', ''),
-      name: meta.longName || meta.shortName || symbol,
-      price: currentPrice,
-      change,
-      changePercent,
-      volume: meta.regularMarketVolume || 0,
-      isFNO: FNO_STOCKS.includes(symbol),
+      symbol: getSymbolMaster().fromYahoo(symbol),
+      name: quote.name,
+      price: quote.price,
+      change: quote.change,
+      changePercent: quote.changePercent,
+      volume: quote.volume,
+      isFNO: info?.isFNO || false,
+      lotSize: info?.lotSize,
     }
   } catch (error) {
     return null
@@ -57,14 +43,29 @@ async function fetchStockDataFast(symbol: string): Promise<StockData | null> {
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
+    // A recent scanner snapshot already has everything (and more) - no fetching needed
+    const snapshot = isMongoConfigured()
+      ? await SnapshotService.getRecent(snapshotMaxAgeSeconds()).catch(() => null)
+      : null
+    if (snapshot) {
+      res.setHeader('X-Snapshot-Age', String(Math.round((Date.now() - snapshot.completedAt.getTime()) / 1000)))
+      return res.status(200).json(withOptionChainProvenance(snapshot.data, {
+        allowEstimated: req.query.allowEstimated !== 'false',
+      }))
+    }
+
     console.log('Fetching fast market data...')
 
+    // Only the NIFTY 50 constituents - the most liquid names - for speed
+    const master = getSymbolMaster()
+    const topStocks = master.constituents('NIFTY').map(s => s.yahooSymbol)
+
     // Fetch all stocks in parallel with aggressive batching
     const batchSize = 15 // Larger batches for speed
     const allStockData: StockData[] = []
 
-    for (let i = 0; i < TOP_STOCKS.length; i += batchSize) {
-      const batch = TOP_STOCKS.slice(i, i + batchSize)
+    for (let i = 0; i < topStocks.length; i += batchSize) {
+      const batch = topStocks.slice(i, i + batchSize)
       const batchPromises = batch.map(symbol => fetchStockDataFast(symbol))
       const batchResults = await Promise.all(batchPromises)
       allStockData.push(...batchResults.filter(Boolean) as StockData[])
@@ -96,9 +97,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     // Fetch indices
     const [niftyData, bankNiftyData, sensexData] = await Promise.all([
-      fetchStockDataFast('^NSEI'),
-      fetchStockDataFast('^NSEBANK'),
-      fetchStockDataFast('^BSESN')
+      fetchStockDataFast(master.toYahoo('NIFTY')),
+      fetchStockDataFast(master.toYahoo('BANKNIFTY')),
+      fetchStockDataFast(master.toYahoo('SENSEX'))
     ])
 
     res.status(200).json({
@@ -0,0 +1,22 @@
+// Market Status - current NSE/BSE session in IST
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getMarketSession, refreshIntervalFor } from '../../utils/marketSession'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const exchange = String(req.query.exchange || 'NSE').toUpperCase()
+    if (exchange !== 'NSE' && exchange !== 'BSE') {
+      return res.status(400).json({ error: 'exchange must be NSE or BSE' })
+    }
+
+    const session = getMarketSession(new Date(), exchange)
+    res.status(200).json({
+      ...session,
+      refreshInterval: refreshIntervalFor(session.status),
+      serverTime: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error in market-status API:', error)
+    res.status(500).json({ error: 'Failed to get market status' })
+  }
+}
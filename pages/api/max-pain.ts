@@ -0,0 +1,95 @@
+// Max Pain - across the next expiries, intraday, and how often expiries pinned it
+//
+//   GET /api/max-pain?symbol=NIFTY&expiries=3&tolerance=0.5&strikes=15
+//   expiries:  how many upcoming expiries (default 3)
+//   strikes:   writer payout curve points either side of spot (default 15)
+//   tolerance: % distance from max pain that counts as a pin in the expiry study
+//   Intraday timelines and the pin study need MONGODB_URI (stored chain snapshots and
+//   expiry pin records)
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { isMongoConfigured } from '../../lib/mongodb'
+import { OptionChainHistoryService } from '../../lib/db/optionChainHistoryService'
+import { toIST } from '../../utils/candles'
+import { addDays, formatExpiryLabel } from '../../utils/exchangeCalendar'
+import {
+  calculateMaxPain,
+  DEFAULT_PIN_TOLERANCE_PERCENT,
+  ExpiryOutcome,
+  expiryPinStudy,
+  maxPainSignal,
+  maxPainTimeline,
+  toStrikeOI,
+  writerPayoutCurve,
+} from '../../utils/maxPain'
+import { fetchOptionChain } from '../../utils/optionChainAnalysis'
+
+// Expiry pin records are kept indefinitely; study the last year of expiries
+const STUDY_LOOKBACK_DAYS = 365
+// A final capture before this (IST) didn't see the close - skip that expiry
+const CLOSING_CAPTURE_MINUTES = 15 * 60 + 25
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const symbol = String(req.query.symbol || 'NIFTY').toUpperCase()
+    const expiryCount = Math.min(6, Math.max(1, Number(req.query.expiries) || 3))
+    const strikesEachSide = Math.max(1, Number(req.query.strikes) || 15)
+    const tolerance = Number(req.query.tolerance) > 0 ? Number(req.query.tolerance) : DEFAULT_PIN_TOLERANCE_PERCENT
+
+    const snapshot = await fetchOptionChain(symbol)
+    if (!snapshot) {
+      return res.status(503).json({ error: `Option chain unavailable for ${symbol}` })
+    }
+    const { spotPrice } = snapshot
+    const withHistory = isMongoConfigured()
+
+    const expiries = await Promise.all(snapshot.expiries.slice(0, expiryCount).map(async expiry => {
+      const strikes = toStrikeOI(expiry.strikes)
+      const maxPainStrike = calculateMaxPain(strikes)
+      const curve = writerPayoutCurve(strikes)
+      const atm = curve.reduce((best, p, i) =>
+        Math.abs(p.settlement - spotPrice) < Math.abs(curve[best].settlement - spotPrice) ? i : best, 0)
+
+      // Today's captures of this expiry, if the scanner has been recording
+      let timeline = null
+      if (withHistory) {
+        const tradingDate = await OptionChainHistoryService.getLatestTradingDate(symbol, expiry.date)
+        if (tradingDate) {
+          timeline = maxPainTimeline(await OptionChainHistoryService.getHistory(symbol, expiry.date, { tradingDate }))
+        }
+      }
+
+      return {
+        expiryDate: formatExpiryLabel(expiry.date),
+        date: expiry.date,
+        kind: expiry.kind,
+        daysToExpiry: expiry.daysToExpiry,
+        maxPainStrike,
+        signal: maxPainStrike !== null ? maxPainSignal(spotPrice, maxPainStrike, expiry.daysToExpiry) : null,
+        writerPayout: curve.slice(Math.max(0, atm - strikesEachSide), atm + strikesEachSide + 1),
+        timeline,
+      }
+    }))
+
+    // Past expiry days: max pain at the first capture vs spot at the last
+    let pinStudy = null
+    if (withHistory) {
+      const today = toIST(Math.floor(Date.now() / 1000)).date
+      const pins = await OptionChainHistoryService.getExpiryPins(symbol, addDays(today, -STUDY_LOOKBACK_DAYS))
+      const outcomes: ExpiryOutcome[] = pins
+        .filter(p => toIST(Math.floor(new Date(p.closedAt).getTime() / 1000)).minutesOfDay >= CLOSING_CAPTURE_MINUTES)
+        .map(p => ({ expiryDate: p.expiryDate, maxPainStrike: p.openingMaxPain, closingSpot: p.closingSpot }))
+      pinStudy = expiryPinStudy(outcomes, tolerance)
+    }
+
+    res.status(200).json({
+      symbol,
+      spotPrice,
+      timestamp: snapshot.timestamp,
+      expiries,
+      pinStudy,
+    })
+  } catch (error) {
+    console.error('Error in max-pain API:', error)
+    res.status(500).json({ error: 'Failed to calculate max pain' })
+  }
+}
@@ -0,0 +1,39 @@
+// Notifications - the signed-in user's in-app inbox
+//
+//   GET  /api/notifications?unread=true&limit=50   newest first, with the unread count
+//   POST /api/notifications  { "ids": ["..."] }    mark those read; without ids, mark all read
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { NotificationService } from '../../../lib/db/notificationService'
+import { SessionUser, withSession } from '../../../lib/auth/session'
+import { validationErrors } from '../../../lib/validation'
+import { markReadSchema, toNotificationResponse } from '../../../lib/notifications/preferences'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const limit = Math.min(200, Math.max(1, Number(req.query.limit) || 50))
+      const [notifications, unread] = await Promise.all([
+        NotificationService.getInApp(user.userId, { unreadOnly: req.query.unread === 'true', limit }),
+        NotificationService.countUnread(user.userId),
+      ])
+      return res.status(200).json({ notifications: notifications.map(toNotificationResponse), unread })
+    }
+
+    const parsed = markReadSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid request', errors: validationErrors(parsed.error) })
+    }
+
+    const marked = await NotificationService.markRead(user.userId, parsed.data.ids)
+    res.status(200).json({ marked })
+  } catch (error) {
+    console.error('Error in notifications API:', error)
+    res.status(500).json({ error: 'Failed to load notifications' })
+  }
+}
+
+export default withSession(handler)
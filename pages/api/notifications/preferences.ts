@@ -0,0 +1,46 @@
+// Notification Preferences - where and when the signed-in user's alerts are delivered
+//
+//   GET /api/notifications/preferences
+//   PUT /api/notifications/preferences  { "channels": { "IN_APP": { "enabled": true },
+//         "EMAIL": { "enabled": true, "target": "you@example.com" },
+//         "WEBHOOK": { "enabled": false, "target": "https://...", "secret": "..." },
+//         "TELEGRAM": { "enabled": false, "target": "123456789" } },
+//         "quietHours": { "start": "22:00", "end": "07:00" }, "digestMinutes": 30 }
+//   PUT replaces everything; quietHours/digestMinutes null (or omitted) turn them off.
+//   Webhook secrets are never returned - an omitted secret keeps the stored one. Webhook
+//   URLs on private or local addresses are refused unless WEBHOOK_ALLOW_PRIVATE=true
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { NotificationService } from '../../../lib/db/notificationService'
+import { SessionUser, withSession } from '../../../lib/auth/session'
+import { validationErrors } from '../../../lib/validation'
+import {
+  preferencesSchema,
+  toPreferencesResponse,
+  toStoredPreferences,
+} from '../../../lib/notifications/preferences'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const current = await NotificationService.getPreferences(user.userId)
+    if (req.method === 'GET') {
+      return res.status(200).json({ preferences: toPreferencesResponse(current) })
+    }
+
+    const parsed = await preferencesSchema.safeParseAsync(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid preferences', errors: validationErrors(parsed.error) })
+    }
+
+    const saved = await NotificationService.savePreferences(user.userId, toStoredPreferences(parsed.data, current))
+    res.status(200).json({ preferences: toPreferencesResponse(saved) })
+  } catch (error) {
+    console.error('Error in notification preferences API:', error)
+    res.status(500).json({ error: 'Failed to load notification preferences' })
+  }
+}
+
+export default withSession(handler)
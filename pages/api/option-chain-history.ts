@@ -0,0 +1,71 @@
+// Option Chain History - strike-level OI, IV and LTP through the day plus OI build-up
+//
+//   GET /api/option-chain-history?symbol=NIFTY&expiry=NEAREST&strikes=25000,25100&windows=15,60,375
+//   expiry:  NEAREST (default) or YYYY-MM-DD / 21-Oct-2025
+//   date:    IST trading date (default: latest captured); or from/to ISO timestamps
+//   windows: build-up windows in minutes (default 15,60 and the whole session)
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { isMongoConfigured } from '../../lib/mongodb'
+import { OptionChainHistoryService } from '../../lib/db/optionChainHistoryService'
+import { analyzeBuildup } from '../../utils/oiBuildup'
+import { parseExchangeDate } from '../../utils/exchangeCalendar'
+import { toIST } from '../../utils/candles'
+
+const DEFAULT_WINDOWS = [15, 60, 375]
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (!isMongoConfigured()) {
+      return res.status(503).json({ error: 'Option chain history needs MONGODB_URI' })
+    }
+
+    const symbol = String(req.query.symbol || 'NIFTY').toUpperCase()
+    const today = toIST(Math.floor(Date.now() / 1000)).date
+
+    // Resolve the expiry
+    const expiryParam = String(req.query.expiry || 'NEAREST')
+    let expiryDate: string | null
+    if (expiryParam.toUpperCase() === 'NEAREST') {
+      const expiries = await OptionChainHistoryService.getExpiries(symbol, today)
+      expiryDate = expiries[0] || null
+    } else {
+      expiryDate = parseExchangeDate(expiryParam)
+    }
+    if (!expiryDate) {
+      return res.status(404).json({ error: `No option chain history for ${symbol} (${expiryParam})` })
+    }
+
+    // Time range: explicit from/to, else a whole trading day
+    const from = req.query.from ? new Date(String(req.query.from)) : undefined
+    const to = req.query.to ? new Date(String(req.query.to)) : undefined
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'from/to must be ISO timestamps' })
+    }
+    const tradingDate = from || to
+      ? undefined
+      : String(req.query.date || '') || await OptionChainHistoryService.getLatestTradingDate(symbol, expiryDate) || today
+
+    const strikes = req.query.strikes
+      ? String(req.query.strikes).split(',').map(Number).filter(n => Number.isFinite(n) && n > 0)
+      : undefined
+    const windows = req.query.windows
+      ? String(req.query.windows).split(',').map(Number).filter(n => Number.isFinite(n) && n > 0)
+      : DEFAULT_WINDOWS
+
+    const points = await OptionChainHistoryService.getHistory(symbol, expiryDate, { from, to, tradingDate })
+    const series = OptionChainHistoryService.toStrikeSeries(points, strikes)
+
+    res.status(200).json({
+      symbol,
+      expiryDate,
+      tradingDate,
+      captures: points.length,
+      spot: points.map(p => ({ time: p.capturedAt, price: p.spotPrice })),
+      series,
+      buildup: analyzeBuildup(series, windows),
+    })
+  } catch (error) {
+    console.error('Error in option-chain-history API:', error)
+    res.status(500).json({ error: 'Failed to load option chain history' })
+  }
+}
@@ -0,0 +1,44 @@
+// Option Chain - analysis for a chosen expiry, a PCR / max pain comparison across expiries,
+// and volatility analytics (IV rank/percentile, surface and smile, IV vs realised)
+//
+//   GET /api/option-chain?symbol=NIFTY&expiry=NEXT&compare=NEAREST,NEXT,MONTHLY
+//   expiry: NEAREST (default) | NEXT | MONTHLY | 21-Oct-2025 | 2025-10-21
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { loadVolatilityAnalytics } from '../../lib/options/volatility'
+import { analyzeOptionChain, compareExpiries, fetchOptionChain } from '../../utils/optionChainAnalysis'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const symbol = String(req.query.symbol || 'NIFTY').toUpperCase()
+    const expiry = String(req.query.expiry || 'NEAREST')
+    const compare = req.query.compare
+      ? String(req.query.compare).split(',').map(s => s.trim()).filter(Boolean)
+      : undefined
+
+    const snapshot = await fetchOptionChain(symbol)
+    if (!snapshot) {
+      return res.status(503).json({ error: `Option chain unavailable for ${symbol}` })
+    }
+
+    const analysis = analyzeOptionChain(snapshot, expiry)
+    if (!analysis) {
+      return res.status(404).json({
+        error: `No ${expiry} expiry listed for ${symbol}`,
+        expiries: snapshot.expiries.map(e => e.expiryDate),
+      })
+    }
+
+    res.status(200).json({
+      symbol,
+      spotPrice: snapshot.spotPrice,
+      timestamp: snapshot.timestamp,
+      expiries: snapshot.expiries.map(({ strikes, ...rest }) => rest),
+      analysis,
+      comparison: compareExpiries(snapshot, compare),
+      volatility: await loadVolatilityAnalytics(snapshot),
+    })
+  } catch (error) {
+    console.error('Error in option-chain API:', error)
+    res.status(500).json({ error: 'Failed to analyze option chain' })
+  }
+}
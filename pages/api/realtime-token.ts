@@ -0,0 +1,29 @@
+// Realtime Token - a short-lived token for the socket.io handshake
+//
+//   GET /api/realtime-token
+//   Signed-in users get { token, expiresAt }, which joins their alert room on the realtime
+//   server. Without a session (or without REALTIME_SECRET/NEXTAUTH_SECRET) the token is
+//   null and the dashboard connects anonymously for market data only.
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getSessionUser } from '../../lib/auth/session'
+import { createRealtimeToken, isRealtimeAuthConfigured } from '../../lib/realtime/token'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    res.setHeader('Cache-Control', 'no-store')
+    const user = isRealtimeAuthConfigured() ? await getSessionUser(req, res) : null
+    if (!user) {
+      return res.status(200).json({ token: null, expiresAt: null })
+    }
+
+    const { token, expiresAt } = createRealtimeToken(user.userId.toString())
+    res.status(200).json({ token, expiresAt: new Date(expiresAt * 1000).toISOString() })
+  } catch (error) {
+    console.error('Error in realtime token API:', error)
+    res.status(500).json({ error: 'Failed to issue realtime token' })
+  }
+}
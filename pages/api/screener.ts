@@ -0,0 +1,69 @@
+// Screener - stocks and indices matching a condition expression
+//
+//   GET  /api/screener?condition=RSI(14) < 30 AND close > EMA(200)&universe=FNO&limit=50
+//   POST /api/screener  { "condition": "...", "universe": "ALL", "limit": 50 }
+//   universe: ALL (default) | FNO | STOCKS | INDICES | comma-separated symbols
+//   Without a condition, lists the fields, functions and operators a condition can use.
+//   Invalid conditions get a 400 with each error's message, column and a caret pointer
+import type { NextApiRequest, NextApiResponse } from 'next'
+import {
+  loadMarketOverview,
+  MAX_CONDITION_LOOKBACK,
+  MAX_MTF_SYMBOLS,
+  runScreener,
+  screenerSubjects,
+  ScreenerUniverse,
+} from '../../lib/screener/screener'
+import { compileCondition, conditionCatalogue } from '../../utils/conditionDsl'
+
+const UNIVERSES: ScreenerUniverse[] = ['ALL', 'FNO', 'STOCKS', 'INDICES']
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const params = req.method === 'POST' && req.body && typeof req.body === 'object' ? req.body : req.query
+    const source = typeof params.condition === 'string' ? params.condition : ''
+    if (!source.trim()) {
+      return res.status(200).json(conditionCatalogue())
+    }
+
+    const { condition, errors } = compileCondition(source)
+    if (!condition) {
+      return res.status(400).json({ error: 'Invalid condition', errors })
+    }
+    if (condition.lookback > MAX_CONDITION_LOOKBACK) {
+      return res.status(400).json({
+        error: `This condition needs ${condition.lookback} daily bars - at most ${MAX_CONDITION_LOOKBACK} are available`,
+      })
+    }
+
+    const universeParam = String(params.universe || 'ALL').toUpperCase()
+    const universe = UNIVERSES.includes(universeParam as ScreenerUniverse)
+      ? universeParam as ScreenerUniverse
+      : universeParam.split(',').map(s => s.trim()).filter(Boolean)
+    const limit = Math.min(500, Math.max(1, Number(params.limit) || 50))
+
+    const overview = await loadMarketOverview()
+    const subjects = screenerSubjects(overview, universe)
+    if (condition.sources.includes('mtf') && subjects.length > MAX_MTF_SYMBOLS) {
+      return res.status(400).json({
+        error: `Multi-timeframe fields can screen at most ${MAX_MTF_SYMBOLS} symbols - narrow the universe`,
+      })
+    }
+
+    const result = await runScreener(condition, subjects, overview.timestamp)
+    res.status(200).json({
+      condition: source,
+      sources: condition.sources,
+      ...result,
+      matched: result.matched.slice(0, limit),
+      totalMatched: result.matched.length,
+    })
+  } catch (error) {
+    console.error('Error in screener API:', error)
+    res.status(500).json({ error: 'Failed to run screener' })
+  }
+}
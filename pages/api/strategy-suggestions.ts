@@ -0,0 +1,97 @@
+// Strategy Suggestions API - ranked strategies for the market view and IV regime
+//
+//   GET /api/strategy-suggestions?symbol=NIFTY&expiry=NEAREST&limit=5
+//   view=BULLISH|BEARISH|NEUTRAL|VOLATILE overrides the view read from the option chain and
+//   the AI confidence engine
+//   ivRank / ivPercentile (0-100) override the stored IV history; with neither, live ATM IV is
+//   compared with realised volatility, and without a chain (or ATM IV in it) the IV regime is
+//   UNKNOWN. modelVolatility / volatilitySource say what priced the legs: ATM_IV, REALISED, or
+//   DEFAULT - a flat fallback, not a market reading
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { dailyAIConfidence, loadStrategyMarket, resolveExpiry } from '../../lib/options/strategyMarket'
+import { loadVolatilityAnalytics } from '../../lib/options/volatility'
+import { analyzeOptionChain } from '../../utils/optionChainAnalysis'
+import { StrategyView } from '../../utils/optionStrategies'
+import {
+  combineViews,
+  DirectionalView,
+  suggestStrategies,
+  viewFromAIConfidence,
+  viewFromOptionChain,
+} from '../../utils/strategySuggestion'
+
+const VIEWS: StrategyView[] = ['BULLISH', 'BEARISH', 'NEUTRAL', 'VOLATILE']
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const symbol = String(req.query.symbol || 'NIFTY').toUpperCase()
+    const viewParam = req.query.view ? String(req.query.view).toUpperCase() as StrategyView : null
+    if (viewParam && !VIEWS.includes(viewParam)) {
+      return res.status(400).json({ error: `view must be one of ${VIEWS.join(', ')}` })
+    }
+
+    const { market, volatilitySource, snapshot, realisedVolatility, candles } = await loadStrategyMarket(symbol)
+    const expiry = resolveExpiry(market, req.query.expiry)
+    if (!expiry) {
+      return res.status(400).json({ error: `Expiry ${req.query.expiry} is not listed for ${symbol}` })
+    }
+    const analysis = snapshot ? analyzeOptionChain(snapshot, expiry.date) : null
+    const ivRank = snapshot ? (await loadVolatilityAnalytics(snapshot)).ivRank : null
+
+    let view: DirectionalView
+    if (viewParam) {
+      view = { view: viewParam, conviction: 0.7, source: 'Requested view' }
+    } else {
+      const ai = dailyAIConfidence(symbol, market.spotPrice, candles)
+      const chainView = analysis ? viewFromOptionChain(analysis) : null
+      const aiView = ai ? viewFromAIConfidence(ai) : null
+      if (chainView && aiView) {
+        view = combineViews(chainView, aiView)
+      } else {
+        view = chainView || aiView || { view: 'NEUTRAL', conviction: 0.3, source: 'No option chain or price history - neutral by default' }
+      }
+    }
+
+    const result = suggestStrategies(
+      {
+        view,
+        iv: {
+          rank: numberParam(req.query.ivRank) ?? ivRank?.rank ?? undefined,
+          percentile: numberParam(req.query.ivPercentile) ?? ivRank?.percentile ?? undefined,
+          current: volatilitySource === 'ATM_IV' ? market.volatility : undefined,
+          realised: realisedVolatility ?? undefined,
+        },
+        daysToExpiry: expiry.daysToExpiry,
+        spotPrice: market.spotPrice,
+        maxPainStrike: analysis?.maxPainStrike,
+      },
+      {
+        market,
+        build: {
+          expiryIndex: market.expiries.indexOf(expiry),
+          width: numberParam(req.query.width),
+          lots: numberParam(req.query.lots),
+        },
+        limit: numberParam(req.query.limit),
+      }
+    )
+
+    res.status(200).json({
+      symbol,
+      spotPrice: market.spotPrice,
+      expiryDate: expiry.date,
+      premiums: snapshot ? 'CHAIN' : 'MODEL',
+      modelVolatility: market.volatility,
+      volatilitySource,
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error in strategy suggestions API:', error)
+    res.status(500).json({ error: 'Failed to suggest strategies' })
+  }
+}
+
+function numberParam(value: unknown): number | undefined {
+  const parsed = Number(value)
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : undefined
+}
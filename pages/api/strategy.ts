@@ -0,0 +1,86 @@
+// Option Strategy Builder API
+//
+//   GET  /api/strategy?symbol=NIFTY&strategy=IRON_CONDOR&width=2&lots=1&expiry=NEAREST&tPlusDays=2
+//   GET  /api/strategy?symbol=NIFTY                       -> every strategy, summarised
+//   POST /api/strategy { symbol, legs: [{ optionType, side, strike, lots, expiry? }], tPlusDays? }
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { customStrategySchema, loadStrategyMarket, resolveExpiry } from '../../lib/options/strategyMarket'
+import { validationErrors } from '../../lib/validation'
+import {
+  analyzeStrategy,
+  buildStrategy,
+  priceLeg,
+  STRATEGIES,
+  StrategyName,
+} from '../../utils/optionStrategies'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const input = req.method === 'POST' ? (req.body || {}) : req.query
+    const symbol = String(input.symbol || 'NIFTY').toUpperCase()
+    const tPlusDays = Number(input.tPlusDays) || 0
+    const custom = req.method === 'POST' ? customStrategySchema.safeParse(input) : null
+    if (custom && !custom.success) {
+      return res.status(400).json({ error: 'Invalid legs', errors: validationErrors(custom.error) })
+    }
+    const { market, snapshot } = await loadStrategyMarket(symbol)
+    const premiums = snapshot ? 'CHAIN' : 'MODEL'
+
+    // Custom legs
+    if (custom) {
+      const legs = []
+      for (const { expiry: selector, ...leg } of custom.data.legs) {
+        const expiry = resolveExpiry(market, selector)
+        if (!expiry) {
+          return res.status(400).json({ error: `Expiry ${selector} is not listed for ${symbol}` })
+        }
+        legs.push(priceLeg(market, expiry, leg))
+      }
+      return res.status(200).json({ premiums, strategy: analyzeStrategy(legs, market, tPlusDays) })
+    }
+
+    const expiry = resolveExpiry(market, input.expiry)
+    if (!expiry) {
+      return res.status(400).json({ error: `Expiry ${input.expiry} is not listed for ${symbol}` })
+    }
+    const options = {
+      width: Number(input.width) || undefined,
+      wingWidth: Number(input.wingWidth) || undefined,
+      lots: Number(input.lots) || undefined,
+      expiryIndex: market.expiries.indexOf(expiry),
+      tPlusDays,
+    }
+
+    // One named strategy in full
+    if (input.strategy) {
+      const name = String(input.strategy).toUpperCase() as StrategyName
+      if (!STRATEGIES[name]) {
+        return res.status(400).json({ error: `Unknown strategy ${input.strategy}`, strategies: Object.keys(STRATEGIES) })
+      }
+      try {
+        return res.status(200).json({ premiums, strategy: buildStrategy(name, market, options) })
+      } catch (error) {
+        // e.g. a calendar with no later expiry listed
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to build strategy' })
+      }
+    }
+
+    // Every strategy, without payoff curves, for comparison
+    const strategies = (Object.keys(STRATEGIES) as StrategyName[]).map(name => {
+      try {
+        const { payoff, ...summary } = buildStrategy(name, market, options)
+        return summary
+      } catch (error) {
+        return { name, label: STRATEGIES[name].label, error: error instanceof Error ? error.message : 'Failed to build' }
+      }
+    })
+    res.status(200).json({ symbol, spotPrice: market.spotPrice, lotSize: market.lotSize, premiums, strategies })
+  } catch (error) {
+    console.error('Error in strategy API:', error)
+    res.status(500).json({ error: 'Failed to build strategy' })
+  }
+}
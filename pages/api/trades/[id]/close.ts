@@ -0,0 +1,45 @@
+// Close Trade - exit an open trade in the signed-in user's journal
+//
+//   POST /api/trades/:id/close  { "exit": 2510.5, "exitDate": "2026-10-19T10:42:00+05:30", "fees": 42.3 }
+//   exitDate defaults to now and fees to those already on the trade; 400 if exitDate is before
+//   the entry. Returns the trade with pnl and pnlPercent filled in; 409 if it's already closed
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { TradeService } from '../../../../lib/db/tradeService'
+import { SessionUser, withSession } from '../../../../lib/auth/session'
+import { validationErrors } from '../../../../lib/validation'
+import { closeTradeSchema, parseTradeId, toTradeResponse } from '../../../../lib/trades/journal'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const id = parseTradeId(req.query.id)
+    const trade = id ? await TradeService.getUserTrade(user.userId, id) : null
+    if (!id || !trade) {
+      return res.status(404).json({ error: 'Trade not found' })
+    }
+
+    const parsed = closeTradeSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid exit', errors: validationErrors(parsed.error) })
+    }
+
+    const { exit, exitDate = new Date(), fees } = parsed.data
+    if (exitDate < trade.date) {
+      return res.status(400).json({ error: 'Invalid exit', errors: { exitDate: 'exitDate is before the entry date' } })
+    }
+
+    const closed = await TradeService.closeTrade(id, exit, exitDate, fees)
+    if (!closed) {
+      return res.status(409).json({ error: 'Trade is already closed' })
+    }
+    res.status(200).json({ trade: toTradeResponse(closed) })
+  } catch (error) {
+    console.error('Error in close trade API:', error)
+    res.status(500).json({ error: 'Failed to close trade' })
+  }
+}
+
+export default withSession(handler)
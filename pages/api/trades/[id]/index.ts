@@ -0,0 +1,67 @@
+// Trade - one trade in the signed-in user's journal
+//
+//   GET    /api/trades/:id
+//   PATCH  /api/trades/:id  { "notes": "...", "tags": [...], "emotionalState": "FEARFUL", ... }
+//   DELETE /api/trades/:id
+//   Editing entry, exit, quantity, side or fees of a closed trade recomputes its pnl; date and
+//   exitDate are checked against the stored trade so the exit never comes before the entry.
+//   Open trades are closed with POST /api/trades/:id/close. Other users' trades 404
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { TradeService } from '../../../../lib/db/tradeService'
+import { SessionUser, withSession } from '../../../../lib/auth/session'
+import { validationErrors } from '../../../../lib/validation'
+import { parseTradeId, toTradeResponse, updateTradeSchema } from '../../../../lib/trades/journal'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const id = parseTradeId(req.query.id)
+    const trade = id ? await TradeService.getUserTrade(user.userId, id) : null
+    if (!id || !trade) {
+      return res.status(404).json({ error: 'Trade not found' })
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ trade: toTradeResponse(trade) })
+    }
+
+    if (req.method === 'DELETE') {
+      await TradeService.deleteTrade(id)
+      return res.status(200).json({ success: true })
+    }
+
+    const parsed = updateTradeSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid trade update', errors: validationErrors(parsed.error) })
+    }
+    if (trade.exit === undefined && (parsed.data.exit !== undefined || parsed.data.exitDate !== undefined)) {
+      return res.status(400).json({
+        error: 'This trade is open - close it with POST /api/trades/:id/close',
+        errors: { exit: 'Trade is open' },
+      })
+    }
+
+    const date = parsed.data.date || trade.date
+    const exitDate = parsed.data.exitDate || trade.exitDate
+    if (exitDate && exitDate < date) {
+      return res.status(400).json({
+        error: 'Invalid trade update',
+        errors: parsed.data.exitDate
+          ? { exitDate: 'exitDate is before the entry date' }
+          : { date: 'date is after the exit date' },
+      })
+    }
+
+    await TradeService.updateTrade(id, parsed.data)
+    const updated = await TradeService.getUserTrade(user.userId, id)
+    res.status(200).json({ trade: toTradeResponse(updated || trade) })
+  } catch (error) {
+    console.error('Error in trade API:', error)
+    res.status(500).json({ error: 'Failed to update trade' })
+  }
+}
+
+export default withSession(handler)
@@ -0,0 +1,28 @@
+// Trade Analytics - performance analytics over the signed-in user's closed trades
+//
+//   GET /api/trades/analytics?symbol=RELIANCE&tag=breakout&strategy=ORB&from=2026-10-01&to=2026-10-31
+//   Same filters as /api/trades (status is always CLOSED). Returns { analytics }: summary
+//   (expectancy, profit factor, R-multiples), risk (Sharpe/Sortino on daily pnl, max drawdown),
+//   streaks, the daily equity curve, the R distribution and breakdowns by strategy, tag,
+//   symbol, weekday, entry time of day and emotional state.
+//   R-multiples only cover trades logged with a stopLoss
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { TradeAnalyticsService } from '../../../lib/db/tradeAnalyticsService'
+import { SessionUser, withSession } from '../../../lib/auth/session'
+import { parseTradeFilters } from '../../../lib/trades/journal'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const analytics = await TradeAnalyticsService.getAnalytics(user.userId, parseTradeFilters(req.query))
+    res.status(200).json({ analytics })
+  } catch (error) {
+    console.error('Error in trade analytics API:', error)
+    res.status(500).json({ error: 'Failed to load trade analytics' })
+  }
+}
+
+export default withSession(handler)
@@ -0,0 +1,50 @@
+// Tradebook Import - add a broker tradebook's trades to the signed-in user's journal
+//
+//   POST /api/trades/import  { "csv": "...", "profile": "auto", "skipInvalid": false }
+//   Same input as /api/trades/import/preview. Refuses (400, with the preview) while any row
+//   has an error unless skipInvalid is set. Fills already imported are skipped, so the same
+//   or an overlapping export can be imported again. Returns { created, closed, duplicates }, or
+//   409 when another import took the same fills or an open trade was closed meanwhile (what
+//   wasn't written is picked up by importing again)
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { TradeImportConflictError, TradeImportService } from '../../../../lib/db/tradeImportService'
+import { SessionUser, withSession } from '../../../../lib/auth/session'
+import { validationErrors } from '../../../../lib/validation'
+import { importTradebookSchema } from '../../../../lib/trades/journal'
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '4mb' } },
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const parsed = importTradebookSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid import', errors: validationErrors(parsed.error) })
+    }
+
+    const { csv, profile, skipInvalid } = parsed.data
+    const plan = await TradeImportService.plan(user.userId, csv, profile)
+    if (plan.errors.length > 0 && !skipInvalid) {
+      return res.status(400).json({
+        error: `${plan.errors.length} row${plan.errors.length > 1 ? 's have' : ' has'} errors - fix them or skip invalid rows`,
+        preview: TradeImportService.toPreview(plan),
+      })
+    }
+
+    const result = await TradeImportService.commit(user.userId, plan)
+    res.status(200).json(result)
+  } catch (error) {
+    if (error instanceof TradeImportConflictError) {
+      return res.status(409).json({ error: error.message })
+    }
+    console.error('Error in trade import API:', error)
+    res.status(500).json({ error: 'Failed to import trades' })
+  }
+}
+
+export default withSession(handler)
@@ -0,0 +1,35 @@
+// Tradebook Import Preview - what importing a broker tradebook would do, without saving
+//
+//   POST /api/trades/import/preview  { "csv": "symbol,isin,trade_date,...", "profile": "auto" }
+//   profile is auto (default), zerodha or generic. Returns { preview }: rows read, valid fills,
+//   fills already imported, per-row errors, and the FIFO-paired trades with their pnl
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { TradeImportService } from '../../../../lib/db/tradeImportService'
+import { SessionUser, withSession } from '../../../../lib/auth/session'
+import { validationErrors } from '../../../../lib/validation'
+import { importTradebookSchema } from '../../../../lib/trades/journal'
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '4mb' } },
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const parsed = importTradebookSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid import', errors: validationErrors(parsed.error) })
+    }
+
+    const plan = await TradeImportService.plan(user.userId, parsed.data.csv, parsed.data.profile)
+    res.status(200).json({ preview: TradeImportService.toPreview(plan) })
+  } catch (error) {
+    console.error('Error in import preview API:', error)
+    res.status(500).json({ error: 'Failed to read tradebook' })
+  }
+}
+
+export default withSession(handler)
@@ -0,0 +1,50 @@
+// Trades - the signed-in user's trade journal
+//
+//   GET  /api/trades?symbol=RELIANCE&tag=breakout&strategy=ORB&from=2026-10-01&to=2026-10-31&status=CLOSED&limit=100&skip=0
+//   POST /api/trades  { "date": "...", "symbol": "RELIANCE", "type": "EQUITY", "action": "BUY", "entry": 2450, "quantity": 10, ... }
+//   GET returns { trades, stats }, stats over the closed trades matching the same filters.
+//   from/to are entry dates; plain YYYY-MM-DD covers the whole IST day.
+//   A POST with exit (and exitDate) logs an already-closed trade; pnl is always computed.
+//   exitDate defaults to now, so a future-dated trade must send one
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { TradeService } from '../../../lib/db/tradeService'
+import { SessionUser, withSession } from '../../../lib/auth/session'
+import { validationErrors } from '../../../lib/validation'
+import { createTradeSchema, parseTradeFilters, toTradeResponse } from '../../../lib/trades/journal'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const filters = parseTradeFilters(req.query)
+      const limit = Math.min(500, Math.max(1, Number(req.query.limit) || 100))
+      const skip = Math.max(0, Number(req.query.skip) || 0)
+      const [trades, stats] = await Promise.all([
+        TradeService.findTrades(user.userId, filters, limit, skip),
+        TradeService.getTradeStats(user.userId, filters),
+      ])
+      return res.status(200).json({ trades: trades.map(toTradeResponse), stats })
+    }
+
+    const parsed = createTradeSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid trade', errors: validationErrors(parsed.error) })
+    }
+
+    const { exit, exitDate, ...fields } = parsed.data
+    const trade = await TradeService.createTrade({
+      ...fields,
+      userId: user.userId,
+      ...(exit !== undefined ? { exit, exitDate: exitDate || new Date() } : {}),
+    })
+    res.status(201).json({ trade: toTradeResponse(trade) })
+  } catch (error) {
+    console.error('Error in trades API:', error)
+    res.status(500).json({ error: 'Failed to load trades' })
+  }
+}
+
+export default withSession(handler)
@@ -0,0 +1,68 @@
+// Watchlist - one of the signed-in user's watchlists
+//
+//   GET    /api/watchlists/:id
+//   PATCH  /api/watchlists/:id  { "name": "...", "symbols": [...] }   rename and/or reorder
+//   DELETE /api/watchlists/:id
+//   symbols in a PATCH is the full list in its new order and must hold exactly the current
+//   symbols - use /api/watchlists/:id/symbols to add or remove. Other users' watchlists 404
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { WatchlistService } from '../../../../lib/db/watchlistService'
+import { SessionUser, withSession } from '../../../../lib/auth/session'
+import { validationErrors } from '../../../../lib/validation'
+import {
+  parseWatchlistId,
+  resolveSymbols,
+  toWatchlistResponse,
+  updateWatchlistSchema,
+} from '../../../../lib/watchlists/watchlists'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const id = parseWatchlistId(req.query.id)
+    const watchlist = id ? await WatchlistService.getUserWatchlist(user.userId, id) : null
+    if (!id || !watchlist) {
+      return res.status(404).json({ error: 'Watchlist not found' })
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ watchlist: toWatchlistResponse(watchlist) })
+    }
+
+    if (req.method === 'DELETE') {
+      await WatchlistService.deleteWatchlist(id)
+      return res.status(200).json({ success: true })
+    }
+
+    const parsed = updateWatchlistSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid watchlist update', errors: validationErrors(parsed.error) })
+    }
+
+    if (parsed.data.symbols) {
+      const { symbols } = resolveSymbols(parsed.data.symbols)
+      const current = watchlist.symbols
+      if (symbols.length !== current.length || symbols.some(symbol => current.indexOf(symbol) < 0)) {
+        return res.status(400).json({
+          error: 'symbols must be the current symbols in a new order',
+          errors: { symbols: 'Does not match the watchlist' },
+        })
+      }
+      await WatchlistService.reorderSymbols(id, symbols)
+    }
+    if (parsed.data.name !== undefined) {
+      await WatchlistService.updateWatchlistName(id, parsed.data.name)
+    }
+
+    const updated = await WatchlistService.getUserWatchlist(user.userId, id)
+    res.status(200).json({ watchlist: toWatchlistResponse(updated || watchlist) })
+  } catch (error) {
+    console.error('Error in watchlist API:', error)
+    res.status(500).json({ error: 'Failed to update watchlist' })
+  }
+}
+
+export default withSession(handler)
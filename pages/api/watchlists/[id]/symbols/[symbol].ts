@@ -0,0 +1,53 @@
+// Watchlist Symbol - note or remove one symbol on the signed-in user's watchlist
+//
+//   PATCH  /api/watchlists/:id/symbols/:symbol  { "note": "Trail SL to 2450" }   null clears it
+//   DELETE /api/watchlists/:id/symbols/:symbol
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { WatchlistService } from '../../../../../lib/db/watchlistService'
+import { SessionUser, withSession } from '../../../../../lib/auth/session'
+import { validationErrors } from '../../../../../lib/validation'
+import {
+  parseWatchlistId,
+  resolveSymbols,
+  symbolNoteSchema,
+  toWatchlistResponse,
+} from '../../../../../lib/watchlists/watchlists'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const id = parseWatchlistId(req.query.id)
+    const watchlist = id ? await WatchlistService.getUserWatchlist(user.userId, id) : null
+    if (!id || !watchlist) {
+      return res.status(404).json({ error: 'Watchlist not found' })
+    }
+
+    // Symbols dropped from the master since they were added can still be removed
+    const requested = String(req.query.symbol || '').trim().toUpperCase()
+    const symbol = resolveSymbols([requested]).symbols[0] || requested
+    if (watchlist.symbols.indexOf(symbol) < 0) {
+      return res.status(404).json({ error: `${req.query.symbol} is not on this watchlist` })
+    }
+
+    if (req.method === 'DELETE') {
+      await WatchlistService.removeSymbol(id, symbol)
+    } else {
+      const parsed = symbolNoteSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid note', errors: validationErrors(parsed.error) })
+      }
+      await WatchlistService.setSymbolNote(id, symbol, parsed.data.note || null)
+    }
+
+    const updated = await WatchlistService.getUserWatchlist(user.userId, id)
+    res.status(200).json({ watchlist: toWatchlistResponse(updated || watchlist) })
+  } catch (error) {
+    console.error('Error in watchlist symbol API:', error)
+    res.status(500).json({ error: 'Failed to update symbol' })
+  }
+}
+
+export default withSession(handler)
@@ -0,0 +1,56 @@
+// Watchlist Symbols - add a symbol to one of the signed-in user's watchlists
+//
+//   POST /api/watchlists/:id/symbols  { "symbol": "TATAMOTORS", "note": "Results on Friday" }
+//   The symbol goes to the end of the list. 400 for symbols outside the symbol master or a
+//   full watchlist; adding one that's already there just updates its note
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { MAX_WATCHLIST_SYMBOLS, WatchlistService } from '../../../../../lib/db/watchlistService'
+import { SessionUser, withSession } from '../../../../../lib/auth/session'
+import { validationErrors } from '../../../../../lib/validation'
+import {
+  addSymbolSchema,
+  parseWatchlistId,
+  resolveSymbols,
+  toWatchlistResponse,
+} from '../../../../../lib/watchlists/watchlists'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const id = parseWatchlistId(req.query.id)
+    const watchlist = id ? await WatchlistService.getUserWatchlist(user.userId, id) : null
+    if (!id || !watchlist) {
+      return res.status(404).json({ error: 'Watchlist not found' })
+    }
+
+    const parsed = addSymbolSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid symbol', errors: validationErrors(parsed.error) })
+    }
+
+    const [symbol] = resolveSymbols([parsed.data.symbol]).symbols
+    if (!symbol) {
+      return res.status(400).json({ error: `Unknown symbol: ${parsed.data.symbol}`, errors: { symbol: 'Unknown symbol' } })
+    }
+    if (watchlist.symbols.indexOf(symbol) < 0) {
+      if (watchlist.symbols.length >= MAX_WATCHLIST_SYMBOLS) {
+        return res.status(400).json({ error: `A watchlist holds at most ${MAX_WATCHLIST_SYMBOLS} symbols` })
+      }
+      await WatchlistService.addSymbol(id, symbol)
+    }
+    if (parsed.data.note !== undefined) {
+      await WatchlistService.setSymbolNote(id, symbol, parsed.data.note || null)
+    }
+
+    const updated = await WatchlistService.getUserWatchlist(user.userId, id)
+    res.status(200).json({ watchlist: toWatchlistResponse(updated || watchlist) })
+  } catch (error) {
+    console.error('Error in watchlist symbols API:', error)
+    res.status(500).json({ error: 'Failed to add symbol' })
+  }
+}
+
+export default withSession(handler)
@@ -0,0 +1,45 @@
+// Watchlists - the signed-in user's watchlists
+//
+//   GET  /api/watchlists                                          all of them, newest first
+//   POST /api/watchlists  { "name": "Banks", "symbols": ["HDFCBANK", "ICICIBANK.NS"] }
+//   Symbols must be in the symbol master (400 lists unknown ones). At most 20 watchlists
+//   of 50 symbols each
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { MAX_WATCHLISTS, WatchlistService } from '../../../lib/db/watchlistService'
+import { SessionUser, withSession } from '../../../lib/auth/session'
+import { validationErrors } from '../../../lib/validation'
+import { createWatchlistSchema, resolveSymbols, toWatchlistResponse } from '../../../lib/watchlists/watchlists'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const watchlists = await WatchlistService.getUserWatchlists(user.userId)
+      return res.status(200).json({ watchlists: watchlists.map(toWatchlistResponse) })
+    }
+
+    const parsed = createWatchlistSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid watchlist', errors: validationErrors(parsed.error) })
+    }
+
+    const { symbols, unknown } = resolveSymbols(parsed.data.symbols || [])
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown symbols: ${unknown.join(', ')}`, errors: { symbols: 'Unknown symbols' } })
+    }
+    if (await WatchlistService.countUserWatchlists(user.userId) >= MAX_WATCHLISTS) {
+      return res.status(400).json({ error: `You can have at most ${MAX_WATCHLISTS} watchlists` })
+    }
+
+    const watchlist = await WatchlistService.createWatchlist(user.userId, parsed.data.name, symbols)
+    res.status(201).json({ watchlist: toWatchlistResponse(watchlist) })
+  } catch (error) {
+    console.error('Error in watchlists API:', error)
+    res.status(500).json({ error: 'Failed to load watchlists' })
+  }
+}
+
+export default withSession(handler)
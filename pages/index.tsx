@@ -1,6 +1,18 @@
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
 import useSWR from 'swr'
 import SimpleAnalysisPanel from '../components/SimpleAnalysisPanel'
+import DataSourceBadge from '../components/DataSourceBadge'
+import GammaExposureChart, { GammaExposureData } from '../components/GammaExposureChart'
+import {
+  RealtimeAlert,
+  RealtimeQuote,
+  useRealtimeConnection,
+  useRealtimeEvent,
+  useRealtimeSymbols,
+} from '../hooks/useRealtime'
+import { MarketSession, statusLabel } from '../utils/marketSession'
 
 interface Stock {
   symbol: string
@@ -10,6 +22,8 @@ interface Stock {
   changePercent: number
   volume?: number
   isFNO?: boolean
+  lotSize?: number
+  sector?: string
   technicalSignals?: TechnicalSignal[]
   rsi?: number
   macdSignal?: string
@@ -38,7 +52,12 @@ interface TechnicalSignal {
   description: string
 }
 
+type DataSource = 'LIVE' | 'CACHED' | 'ESTIMATED'
+
 interface OptionChainInfo {
+  source?: DataSource
+  asOf?: string
+  dataAge?: number
   pcr: number
   pcrInterpretation: string
   maxPain: number
@@ -77,6 +96,9 @@ interface Recommendation {
   stopLoss: number
   reason: string
   optionChain?: OptionChainInfo
+  option?: {
+    lotSize?: number
+  }
 }
 
 interface IndexData {
@@ -87,6 +109,9 @@ interface IndexData {
 
 interface OptionChainSummary {
   symbol: string
+  source?: DataSource
+  asOf?: string
+  dataAge?: number
   spotPrice: number
   pcr: number
   pcrInterpretation: string
@@ -100,6 +125,7 @@ interface OptionChainSummary {
   avgCallIV: number
   avgPutIV: number
   ivSkew: string
+  gammaExposure?: GammaExposureData | null
 }
 
 interface MarketData {
@@ -111,9 +137,9 @@ interface MarketData {
   indexRecommendations: Recommendation[]
   stockRecommendations: Recommendation[]
   optionChainData?: {
-    nifty: OptionChainSummary
-    bankNifty: OptionChainSummary
-    sensex: OptionChainSummary
+    nifty: OptionChainSummary | null
+    bankNifty: OptionChainSummary | null
+    sensex: OptionChainSummary | null
   }
   indices: {
     nifty: IndexData
@@ -125,37 +151,71 @@ interface MarketData {
 
 const fetcher = (url: string) => fetch(url).then(res => res.json())
 
+const INDEX_SYMBOLS = ['NIFTY', 'BANKNIFTY', 'SENSEX']
+const INDEX_KEYS: Record<string, 'nifty' | 'bankNifty' | 'sensex'> = {
+  NIFTY: 'nifty',
+  BANKNIFTY: 'bankNifty',
+  SENSEX: 'sensex',
+}
+const MAX_LIVE_ALERTS = 5
+
 export default function Home() {
-  const [marketOpen, setMarketOpen] = useState(false)
   const [activeTab, setActiveTab] = useState<'all' | 'fno'>('all')
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedStock, setSelectedStock] = useState<Stock | null>(null)
+  const [alerts, setAlerts] = useState<RealtimeAlert[]>([])
+  const realtime = useRealtimeConnection()
+  const { data: auth } = useSession()
   
+  // Session comes from the server in IST, so the badge is right in any timezone
+  const { data: session } = useSWR<MarketSession & { refreshInterval: number }>('/api/market-status', fetcher, {
+    refreshInterval: 60000
+  })
+
   const { data, error, mutate } = useSWR<MarketData>('/api/market-data', fetcher, {
-    refreshInterval: 60000, // Refresh every 60 seconds
-    revalidateOnFocus: true,
+    // Pushed over the realtime connection when it's up; otherwise poll every minute
+    // while trading, rarely when the market is shut
+    refreshInterval: realtime ? 0 : session?.refreshInterval ?? 60000,
+    revalidateOnFocus: !realtime,
     dedupingInterval: 10000 // Prevent duplicate requests within 10 seconds
   })
 
-  useEffect(() => {
-    checkMarketStatus()
-    const interval = setInterval(checkMarketStatus, 60000)
-    return () => clearInterval(interval)
-  }, [])
-
-  const checkMarketStatus = () => {
-    const now = new Date()
-    const hours = now.getHours()
-    const minutes = now.getMinutes()
-    const day = now.getDay()
-    
-    const isWeekday = day >= 1 && day <= 5
-    const isMarketHours = (hours === 9 && minutes >= 0) || 
-                          (hours > 9 && hours < 15) || 
-                          (hours === 15 && minutes <= 30)
-    
-    setMarketOpen(isWeekday && isMarketHours)
-  }
+  // Index rooms carry option chain refreshes; the selected stock's room its quote ticks
+  useRealtimeSymbols(selectedStock ? [...INDEX_SYMBOLS, selectedStock.symbol] : INDEX_SYMBOLS)
+
+  useRealtimeEvent('market:overview', overview => {
+    mutate(overview as unknown as MarketData, false)
+  })
+
+  useRealtimeEvent('indices', indices => {
+    mutate(current => current && {
+      ...current,
+      indices: {
+        nifty: indices.nifty ? indexFromQuote(indices.nifty) : current.indices.nifty,
+        bankNifty: indices.bankNifty ? indexFromQuote(indices.bankNifty) : current.indices.bankNifty,
+        sensex: indices.sensex ? indexFromQuote(indices.sensex) : current.indices.sensex,
+      },
+      timestamp: indices.timestamp,
+    }, false)
+  })
+
+  useRealtimeEvent('quote', quote => {
+    if (INDEX_KEYS[quote.symbol]) return // arrives as 'indices'
+    mutate(current => current && applyQuote(current, quote), false)
+    setSelectedStock(stock => stock && stock.symbol === quote.symbol ? withQuote(stock, quote) : stock)
+  })
+
+  useRealtimeEvent('optionChain', ({ symbol, analysis }) => {
+    const key = INDEX_KEYS[symbol]
+    mutate(current => current && current.optionChainData && {
+      ...current,
+      optionChainData: { ...current.optionChainData, [key]: analysis as unknown as OptionChainSummary },
+    }, false)
+  })
+
+  useRealtimeEvent('alert', alert => {
+    setAlerts(current => [alert, ...current.filter(a => a.id !== alert.id)].slice(0, MAX_LIVE_ALERTS))
+  })
 
   const loading = !data && !error
   const lastUpdate = data?.timestamp ? new Date(data.timestamp) : new Date()
@@ -168,12 +228,32 @@ export default function Home() {
   return (
     <div className="container">
       <div className="header">
+        <div className="user-nav">
+          {auth?.user ? (
+            <>
+              <Link href="/watchlists">⭐ Watchlists</Link>
+              {' · '}
+              <Link href="/journal">📒 Journal</Link>
+              {' · '}
+              <Link href="/account">👤 {auth.user.name || auth.user.email}</Link>
+            </>
+          ) : (
+            <Link href="/login">Sign in</Link>
+          )}
+        </div>
         <h1>🇮🇳 Indian Stock Market Dashboard</h1>
-        <div className={`market-status ${marketOpen ? 'market-open' : 'market-closed'}`}>
-          {marketOpen ? '🟢 Market Open' : '🔴 Market Closed'}
+        <div className={`market-status ${marketStatusClass(session?.status)}`}>
+          {session ? `${statusIcon(session.status)} ${session.session || statusLabel(session.status)}` : '⏳ Checking market...'}
+          {session?.holiday && ` - ${session.holiday}`}
         </div>
+        {session && !session.isOpen && session.nextOpen && (
+          <p style={{ marginTop: '6px', color: '#6b7280', fontSize: '0.85rem' }}>
+            Opens {formatIST(session.nextOpen)} IST
+          </p>
+        )}
         <p style={{ marginTop: '10px', color: '#6b7280' }} suppressHydrationWarning>
           Last Updated: {lastUpdate.toLocaleTimeString('en-IN')}
+          {realtime && ' · 🟢 Live'}
         </p>
         <button className="refresh-btn" onClick={() => mutate()}>
           🔄 Refresh Data
@@ -186,6 +266,23 @@ export default function Home() {
         </div>
       )}
 
+      {alerts.length > 0 && (
+        <div className="card live-alerts">
+          <h2>🔔 Triggered Alerts</h2>
+          {alerts.map(alert => (
+            <div key={alert.id} className="stock-item">
+              <div>
+                <div className="stock-name">{alert.symbol}</div>
+                <div className="stock-company">{alert.message}</div>
+              </div>
+              <div className="stock-change-value">
+                {new Date(alert.triggeredAt).toLocaleTimeString('en-IN')}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {loading ? (
         <div className="loading">
           <div className="spinner"></div>
@@ -251,6 +348,7 @@ export default function Home() {
                   <div>
                     <div className="stock-name">
                       {stock.symbol} {stock.isFNO && <span className="fno-badge">F&O</span>}
+                      {activeTab === 'fno' && stock.lotSize && <span className="lot-badge">Lot {stock.lotSize}</span>}
                     </div>
                     <div className="stock-company">{stock.name}</div>
                     <div className="stock-price">₹{stock.price.toFixed(2)}</div>
@@ -290,6 +388,7 @@ export default function Home() {
                   <div>
                     <div className="stock-name">
                       {stock.symbol} {stock.isFNO && <span className="fno-badge">F&O</span>}
+                      {activeTab === 'fno' && stock.lotSize && <span className="lot-badge">Lot {stock.lotSize}</span>}
                     </div>
                     <div className="stock-company">{stock.name}</div>
                     <div className="stock-price">₹{stock.price.toFixed(2)}</div>
@@ -360,9 +459,11 @@ export default function Home() {
                   { label: 'NIFTY', data: data.optionChainData.nifty },
                   { label: 'BANK NIFTY', data: data.optionChainData.bankNifty },
                   { label: 'SENSEX', data: data.optionChainData.sensex },
-                ].map((item, idx) => (
-                  <div key={idx} className="oc-overview-card">
-                    <div className="oc-overview-header">{item.label}</div>
+                ].map((item, idx) => item.data && (
+                  <div key={idx} className={`oc-overview-card ${item.data.source === 'ESTIMATED' ? 'estimated' : ''}`}>
+                    <div className="oc-overview-header">
+                      {item.label} <DataSourceBadge source={item.data.source} dataAge={item.data.dataAge} />
+                    </div>
                     <div className="oc-overview-spot">₹{item.data.spotPrice.toLocaleString('en-IN')}</div>
                     <div className="oc-metrics">
                       <div className="oc-metric">
@@ -397,6 +498,18 @@ export default function Home() {
                   </div>
                 ))}
               </div>
+
+              {/* Dealer gamma by strike */}
+              <h3 className="gex-title">⚡ Gamma Exposure (₹ Cr per 1% move)</h3>
+              <div className="gex-grid">
+                {[
+                  { label: 'NIFTY', data: data.optionChainData.nifty },
+                  { label: 'BANK NIFTY', data: data.optionChainData.bankNifty },
+                  { label: 'SENSEX', data: data.optionChainData.sensex },
+                ].map((item, idx) => item.data?.gammaExposure && (
+                  <GammaExposureChart key={idx} label={item.label} data={item.data.gammaExposure} />
+                ))}
+              </div>
             </div>
           )}
 
@@ -412,6 +525,9 @@ export default function Home() {
                 <div className="rec-header">
                   <h3>{rec.index}</h3>
                   <div className="rec-header-badges">
+                    {rec.optionChain && (
+                      <DataSourceBadge source={rec.optionChain.source} dataAge={rec.optionChain.dataAge} />
+                    )}
                     {rec.optionChain && (
                       <span className={`confidence-badge ${rec.optionChain.confidence.toLowerCase()}`}>
                         {rec.optionChain.confidence}
@@ -544,6 +660,7 @@ export default function Home() {
                     <div>
                       <div className="stock-rec-symbol">{rec.symbol}</div>
                       <div className="stock-rec-name">{rec.name}</div>
+                      {rec.option?.lotSize && <span className="lot-badge">Lot {rec.option.lotSize}</span>}
                     </div>
                     <div className={`action-badge-small ${rec.action.toLowerCase()}`}>
                       {rec.action}
@@ -697,3 +814,58 @@ export default function Home() {
     </div>
   )
 }
+
+function marketStatusClass(status?: MarketSession['status']): string {
+  if (status === 'OPEN' || status === 'MUHURAT') return 'market-open'
+  if (status === 'PRE_OPEN') return 'market-preopen'
+  return 'market-closed'
+}
+
+function statusIcon(status: MarketSession['status']): string {
+  if (status === 'OPEN') return '🟢'
+  if (status === 'MUHURAT') return '🪔'
+  if (status === 'PRE_OPEN') return '🟡'
+  if (status === 'HOLIDAY') return '🏖️'
+  return '🔴'
+}
+
+// 2026-10-21T09:15:00+05:30 -> Wed, 21 Oct, 09:15
+function formatIST(iso: string): string {
+  return new Date(iso).toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    weekday: 'short',
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  })
+}
+
+function indexFromQuote(quote: RealtimeQuote): IndexData {
+  return { price: quote.price, change: quote.change, changePercent: quote.changePercent }
+}
+
+function withQuote(stock: Stock, quote: RealtimeQuote): Stock {
+  return {
+    ...stock,
+    price: quote.price,
+    change: quote.change,
+    changePercent: quote.changePercent,
+    volume: quote.volume ?? stock.volume,
+  }
+}
+
+// Patch a quote tick into every list the stock appears in
+function applyQuote(data: MarketData, quote: RealtimeQuote): MarketData {
+  const patch = (stocks: Stock[]) => stocks.map(stock => stock.symbol === quote.symbol ? withQuote(stock, quote) : stock)
+  return {
+    ...data,
+    gainers: patch(data.gainers),
+    losers: patch(data.losers),
+    fnoGainers: patch(data.fnoGainers),
+    fnoLosers: patch(data.fnoLosers),
+    allStocks: patch(data.allStocks),
+    timestamp: quote.timestamp,
+  }
+}
@@ -0,0 +1,401 @@
+import { FormEvent, useState } from 'react'
+import Link from 'next/link'
+import useSWR from 'swr'
+import TradeAnalyticsPanel from '../components/TradeAnalyticsPanel'
+import type { TradeAnalytics } from '../lib/db/tradeAnalyticsService'
+import type { TradeResponse } from '../lib/trades/journal'
+
+interface TradeStats {
+  totalTrades: number
+  profitableTrades: number
+  winRate: number
+  totalPnL: number
+  avgPnL: number
+  bestTrade: number
+  worstTrade: number
+}
+
+interface Filters {
+  symbol: string
+  tag: string
+  strategy: string
+  from: string
+  to: string
+  status: '' | 'OPEN' | 'CLOSED'
+}
+
+// Form values are kept as typed; converted on submit
+interface TradeForm {
+  date: string
+  symbol: string
+  type: TradeResponse['type']
+  action: TradeResponse['action']
+  entry: string
+  quantity: string
+  stopLoss: string
+  exit: string
+  fees: string
+  strategy: string
+  emotionalState: '' | NonNullable<TradeResponse['emotionalState']>
+  tags: string
+  notes: string
+}
+
+const EMPTY_FILTERS: Filters = { symbol: '', tag: '', strategy: '', from: '', to: '', status: '' }
+const EMOTIONAL_STATES = ['CONFIDENT', 'FEARFUL', 'GREEDY', 'NEUTRAL', 'FRUSTRATED'] as const
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+// Protected by middleware.ts - only signed-in users get here
+export default function Journal() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [form, setForm] = useState<TradeForm>(emptyForm())
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+
+  const query = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value !== '') as [string, string][]
+  ).toString()
+  const { data, mutate } = useSWR<{ trades: TradeResponse[]; stats: TradeStats }>(
+    `/api/trades${query ? `?${query}` : ''}`,
+    fetcher
+  )
+  // Analytics only cover closed trades, so the status filter doesn't apply
+  const analyticsQuery = new URLSearchParams(
+    Object.entries(filters).filter(([key, value]) => value !== '' && key !== 'status') as [string, string][]
+  ).toString()
+  const { data: analytics, mutate: mutateAnalytics } = useSWR<{ analytics: TradeAnalytics }>(
+    `/api/trades/analytics${analyticsQuery ? `?${analyticsQuery}` : ''}`,
+    fetcher
+  )
+
+  const send = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setError(null)
+    setFieldErrors({})
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Request failed')
+        setFieldErrors(result.errors || {})
+        return false
+      }
+      await Promise.all([mutate(), mutateAnalytics()])
+      return true
+    } catch (err) {
+      setError('Request failed')
+      return false
+    }
+  }
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault()
+    const body = tradeBody(form, editingId !== null)
+    const saved = editingId
+      ? await send(`/api/trades/${editingId}`, 'PATCH', body)
+      : await send('/api/trades', 'POST', body)
+    if (saved) {
+      setForm(emptyForm())
+      setEditingId(null)
+    }
+  }
+
+  const edit = (trade: TradeResponse) => {
+    setEditingId(trade.id)
+    setForm({
+      date: toLocalInput(trade.date),
+      symbol: trade.symbol,
+      type: trade.type,
+      action: trade.action,
+      entry: String(trade.entry),
+      quantity: String(trade.quantity),
+      stopLoss: trade.stopLoss !== undefined ? String(trade.stopLoss) : '',
+      exit: trade.exit !== undefined ? String(trade.exit) : '',
+      fees: trade.fees !== undefined ? String(trade.fees) : '',
+      strategy: trade.strategy || '',
+      emotionalState: trade.emotionalState || '',
+      tags: trade.tags.join(', '),
+      notes: trade.notes || '',
+    })
+  }
+
+  const close = (trade: TradeResponse) => {
+    const exit = Number(window.prompt(`Exit price for ${trade.symbol}`, String(trade.entry)))
+    if (exit > 0) send(`/api/trades/${trade.id}/close`, 'POST', { exit })
+  }
+
+  const remove = (trade: TradeResponse) => {
+    if (window.confirm(`Delete the ${trade.symbol} trade?`)) send(`/api/trades/${trade.id}`, 'DELETE')
+  }
+
+  const field = (name: keyof TradeForm) => ({
+    value: form[name],
+    onChange: (e: { target: { value: string } }) => setForm({ ...form, [name]: e.target.value }),
+  })
+  const filter = (name: keyof Filters) => ({
+    value: filters[name],
+    onChange: (e: { target: { value: string } }) => setFilters({ ...filters, [name]: e.target.value }),
+  })
+
+  const stats = data?.stats
+
+  return (
+    <div className="container">
+      <div className="header">
+        <div className="user-nav">
+          <Link href="/">← Dashboard</Link>
+          {' · '}
+          <Link href="/journal/import">📥 Import trades</Link>
+        </div>
+        <h1>📒 Trade Journal</h1>
+      </div>
+
+      {error && <div className="error-message">⚠️ {error}</div>}
+
+      {/* Stats Summary */}
+      <div className="indices-grid">
+        <div className="index-card">
+          <div className="index-name">Closed Trades</div>
+          <div className="index-price">{stats ? stats.totalTrades : '-'}</div>
+          <div className="index-change">{stats ? `${stats.profitableTrades} profitable` : ''}</div>
+        </div>
+        <div className="index-card">
+          <div className="index-name">Win Rate</div>
+          <div className="index-price">{stats ? `${stats.winRate.toFixed(1)}%` : '-'}</div>
+        </div>
+        <div className="index-card">
+          <div className="index-name">Total P&L</div>
+          <div className={`index-price ${stats && stats.totalPnL < 0 ? 'negative' : 'positive'}`}>
+            {stats ? formatRupees(stats.totalPnL) : '-'}
+          </div>
+          <div className="index-change">{stats ? `Avg ${formatRupees(stats.avgPnL)}` : ''}</div>
+        </div>
+        <div className="index-card">
+          <div className="index-name">Best / Worst</div>
+          <div className="index-price" style={{ fontSize: '1.2rem' }}>
+            <span className="positive">{stats ? formatRupees(stats.bestTrade) : '-'}</span>
+            {' / '}
+            <span className="negative">{stats ? formatRupees(stats.worstTrade) : '-'}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="card" style={{ marginBottom: '20px' }}>
+        <div className="inline-form" style={{ flexWrap: 'wrap', marginBottom: 0 }}>
+          <input placeholder="Symbol" {...filter('symbol')} />
+          <input placeholder="Tag" {...filter('tag')} />
+          <input placeholder="Strategy" {...filter('strategy')} />
+          <input type="date" title="From" {...filter('from')} />
+          <input type="date" title="To" {...filter('to')} />
+          <select {...filter('status')}>
+            <option value="">All</option>
+            <option value="OPEN">Open</option>
+            <option value="CLOSED">Closed</option>
+          </select>
+          <button className="link-btn" onClick={() => setFilters(EMPTY_FILTERS)}>Clear</button>
+        </div>
+      </div>
+
+      {analytics?.analytics && <TradeAnalyticsPanel analytics={analytics.analytics} />}
+
+      {/* New / Edit Trade */}
+      <div className="card" style={{ marginBottom: '20px' }}>
+        <h2>{editingId ? '✏️ Edit Trade' : '➕ Log Trade'}</h2>
+        <form onSubmit={save} className="trade-form">
+          <label className="form-field">
+            Entry time
+            <input type="datetime-local" required {...field('date')} />
+            {fieldErrors.date && <span className="form-error">{fieldErrors.date}</span>}
+          </label>
+          <label className="form-field">
+            Symbol
+            <input required {...field('symbol')} placeholder="RELIANCE" />
+            {fieldErrors.symbol && <span className="form-error">{fieldErrors.symbol}</span>}
+          </label>
+          <label className="form-field">
+            Type
+            <select {...field('type')}>
+              <option value="EQUITY">Equity</option>
+              <option value="OPTION">Option</option>
+              <option value="FUTURE">Future</option>
+            </select>
+          </label>
+          <label className="form-field">
+            Side
+            <select {...field('action')}>
+              <option value="BUY">Buy</option>
+              <option value="SELL">Sell (short)</option>
+            </select>
+          </label>
+          <label className="form-field">
+            Entry
+            <input type="number" step="any" required {...field('entry')} />
+            {fieldErrors.entry && <span className="form-error">{fieldErrors.entry}</span>}
+          </label>
+          <label className="form-field">
+            Quantity
+            <input type="number" step="any" required {...field('quantity')} />
+            {fieldErrors.quantity && <span className="form-error">{fieldErrors.quantity}</span>}
+          </label>
+          <label className="form-field">
+            Stop loss
+            <input type="number" step="any" {...field('stopLoss')} placeholder="For R-multiples" />
+            {fieldErrors.stopLoss && <span className="form-error">{fieldErrors.stopLoss}</span>}
+          </label>
+          <label className="form-field">
+            Exit (if closed)
+            <input type="number" step="any" {...field('exit')} />
+            {fieldErrors.exit && <span className="form-error">{fieldErrors.exit}</span>}
+          </label>
+          <label className="form-field">
+            Fees
+            <input type="number" step="any" {...field('fees')} />
+          </label>
+          <label className="form-field">
+            Strategy
+            <input {...field('strategy')} placeholder="ORB, VWAP pullback..." />
+          </label>
+          <label className="form-field">
+            Emotional state
+            <select {...field('emotionalState')}>
+              <option value="">-</option>
+              {EMOTIONAL_STATES.map(state => (
+                <option key={state} value={state}>{state}</option>
+              ))}
+            </select>
+          </label>
+          <label className="form-field">
+            Tags
+            <input {...field('tags')} placeholder="breakout, earnings" />
+          </label>
+          <label className="form-field trade-notes">
+            Notes
+            <textarea rows={2} {...field('notes')} />
+          </label>
+          <div>
+            <button className="refresh-btn" type="submit">{editingId ? 'Save' : 'Log Trade'}</button>
+            {editingId && (
+              <button type="button" className="link-btn" onClick={() => { setEditingId(null); setForm(emptyForm()) }}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {/* Trades */}
+      <div className="card">
+        <h2>Trades</h2>
+        {!data ? (
+          <div className="loading">
+            <div className="spinner"></div>
+          </div>
+        ) : data.trades.length === 0 ? (
+          <p className="no-data">No trades match these filters</p>
+        ) : (
+          <table className="watchlist-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Symbol</th>
+                <th>Side</th>
+                <th>Qty</th>
+                <th>Entry</th>
+                <th>Exit</th>
+                <th>P&L</th>
+                <th>Strategy / Tags</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.trades.map(trade => (
+                <tr key={trade.id}>
+                  <td>{new Date(trade.date).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}</td>
+                  <td>
+                    <div className="stock-name">{trade.symbol}</div>
+                    <div className="stock-company">
+                      {trade.type}{trade.emotionalState ? ` · ${trade.emotionalState}` : ''}
+                    </div>
+                  </td>
+                  <td>{trade.action}</td>
+                  <td>{trade.quantity}</td>
+                  <td>₹{trade.entry.toFixed(2)}</td>
+                  <td>{trade.exit !== undefined ? `₹${trade.exit.toFixed(2)}` : 'Open'}</td>
+                  <td className={trade.pnl !== undefined && trade.pnl < 0 ? 'negative' : 'positive'}>
+                    {trade.pnl !== undefined
+                      ? `${formatRupees(trade.pnl)} (${(trade.pnlPercent || 0).toFixed(2)}%)`
+                      : '-'}
+                  </td>
+                  <td>
+                    {trade.strategy || '-'}
+                    {trade.tags.length > 0 && <div className="stock-company">{trade.tags.join(', ')}</div>}
+                  </td>
+                  <td style={{ whiteSpace: 'nowrap' }}>
+                    {trade.status === 'OPEN' && <button className="link-btn" onClick={() => close(trade)}>Close</button>}
+                    <button className="link-btn" onClick={() => edit(trade)}>Edit</button>
+                    <button className="link-btn" onClick={() => remove(trade)}>✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function emptyForm(): TradeForm {
+  return {
+    date: toLocalInput(new Date().toISOString()),
+    symbol: '',
+    type: 'EQUITY',
+    action: 'BUY',
+    entry: '',
+    quantity: '',
+    stopLoss: '',
+    exit: '',
+    fees: '',
+    strategy: '',
+    emotionalState: '',
+    tags: '',
+    notes: '',
+  }
+}
+
+// Form -> API body. Edits send every field so clearing one sticks; exit only for closed trades
+function tradeBody(form: TradeForm, editing: boolean) {
+  const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value))
+  return {
+    date: new Date(form.date).toISOString(),
+    symbol: form.symbol,
+    type: form.type,
+    action: form.action,
+    entry: Number(form.entry),
+    quantity: Number(form.quantity),
+    stopLoss: optionalNumber(form.stopLoss),
+    exit: optionalNumber(form.exit),
+    fees: optionalNumber(form.fees),
+    strategy: form.strategy.trim() || (editing ? '' : undefined),
+    emotionalState: form.emotionalState || undefined,
+    tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    notes: form.notes || (editing ? '' : undefined),
+  }
+}
+
+// ISO -> value for a datetime-local input, in the browser's timezone
+function toLocalInput(iso: string): string {
+  const date = new Date(iso)
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+function formatRupees(value: number): string {
+  return `${value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`
+}
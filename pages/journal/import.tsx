@@ -0,0 +1,200 @@
+import { ChangeEvent, useState } from 'react'
+import Link from 'next/link'
+import type { ImportPreview, ImportResult } from '../../lib/db/tradeImportService'
+
+type Profile = 'auto' | 'zerodha' | 'generic'
+
+// Most preview rows rendered; the summary covers all of them
+const MAX_PREVIEW_ROWS = 200
+
+// Protected by middleware.ts - only signed-in users get here
+export default function ImportTrades() {
+  const [csv, setCsv] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [profile, setProfile] = useState<Profile>('auto')
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const post = async (url: string, body: unknown) => {
+    setError(null)
+    setBusy(true)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Request failed')
+        if (data.preview) setPreview(data.preview)
+        return null
+      }
+      return data
+    } catch (err) {
+      setError('Request failed')
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const choose = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    setPreview(null)
+    setResult(null)
+    if (!file) return
+    setFileName(file.name)
+    setCsv(await file.text())
+  }
+
+  const runPreview = async () => {
+    setResult(null)
+    const data = await post('/api/trades/import/preview', { csv, profile })
+    if (data) setPreview(data.preview)
+  }
+
+  const runImport = async () => {
+    const data = await post('/api/trades/import', { csv, profile, skipInvalid: true })
+    if (data) {
+      setResult(data)
+      setPreview(null)
+    }
+  }
+
+  return (
+    <div className="container">
+      <div className="header">
+        <div className="user-nav">
+          <Link href="/journal">← Journal</Link>
+        </div>
+        <h1>📥 Import Trades</h1>
+        <p style={{ color: '#6b7280' }}>Upload a tradebook CSV from your broker</p>
+      </div>
+
+      {error && <div className="error-message">⚠️ {error}</div>}
+
+      <div className="card" style={{ marginBottom: '20px' }}>
+        <div className="inline-form" style={{ flexWrap: 'wrap', marginBottom: 0 }}>
+          <input type="file" accept=".csv,text/csv" onChange={choose} />
+          <select value={profile} onChange={e => setProfile(e.target.value as Profile)}>
+            <option value="auto">Detect format</option>
+            <option value="zerodha">Zerodha tradebook</option>
+            <option value="generic">Generic CSV</option>
+          </select>
+          <button className="refresh-btn" disabled={!csv || busy} onClick={runPreview}>Preview</button>
+        </div>
+        <p className="stock-company" style={{ marginTop: '10px' }}>
+          Generic CSVs need a header row with symbol, side (buy/sell), quantity, price and date columns; time, trade id
+          and charges are used when present. Buys and sells are paired first-in-first-out into round trips, and rows
+          already imported are skipped.
+        </p>
+      </div>
+
+      {result && (
+        <div className="card" style={{ marginBottom: '20px' }}>
+          <h2>✅ Imported</h2>
+          <p>
+            {result.created} trade{result.created === 1 ? '' : 's'} added
+            {result.closed > 0 && `, ${result.closed} open trade${result.closed === 1 ? '' : 's'} from earlier imports closed`}
+            {result.duplicates > 0 && `, ${result.duplicates} fill${result.duplicates === 1 ? '' : 's'} already imported`}.
+          </p>
+          <Link href="/journal">View the journal →</Link>
+        </div>
+      )}
+
+      {preview && (
+        <div className="card">
+          <h2>
+            Preview · {fileName} ({preview.profile === 'zerodha' ? 'Zerodha' : 'generic'} format)
+          </h2>
+          <p>
+            {preview.rows} rows · {preview.fills} valid fills
+            {preview.duplicates > 0 && ` · ${preview.duplicates} already imported`} · {preview.summary.closed} closed and{' '}
+            {preview.summary.open} open trades · P&L{' '}
+            <span className={preview.summary.pnl < 0 ? 'negative' : 'positive'}>{formatRupees(preview.summary.pnl)}</span>
+          </p>
+
+          {preview.errors.length > 0 && (
+            <>
+              <h3 className="negative">{preview.errors.length} row{preview.errors.length === 1 ? '' : 's'} with errors</h3>
+              <table className="watchlist-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.errors.map(row => (
+                    <tr key={row.row}>
+                      <td>{row.row}</td>
+                      <td>{row.error}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          {preview.trades.length === 0 ? (
+            <p className="no-data">Nothing new to import</p>
+          ) : (
+            <>
+              <table className="watchlist-table">
+                <thead>
+                  <tr>
+                    <th>Entry</th>
+                    <th>Symbol</th>
+                    <th>Side</th>
+                    <th>Qty</th>
+                    <th>Entry price</th>
+                    <th>Exit</th>
+                    <th>Fees</th>
+                    <th>P&L</th>
+                    <th>Rows</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.trades.slice(0, MAX_PREVIEW_ROWS).map((trade, i) => (
+                    <tr key={i}>
+                      <td>{new Date(trade.date).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}</td>
+                      <td>
+                        <div className="stock-name">{trade.symbol}</div>
+                        <div className="stock-company">
+                          {trade.type}{trade.closesOpenTrade ? ' · closes an earlier import' : ''}
+                        </div>
+                      </td>
+                      <td>{trade.action}</td>
+                      <td>{trade.quantity}</td>
+                      <td>₹{trade.entry.toFixed(2)}</td>
+                      <td>{trade.exit !== undefined ? `₹${trade.exit.toFixed(2)}` : 'Open'}</td>
+                      <td>{trade.fees > 0 ? formatRupees(trade.fees) : '-'}</td>
+                      <td className={trade.pnl !== undefined && trade.pnl < 0 ? 'negative' : 'positive'}>
+                        {trade.pnl !== undefined ? formatRupees(trade.pnl) : '-'}
+                      </td>
+                      <td>{trade.rows.join(', ') || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.trades.length > MAX_PREVIEW_ROWS && (
+                <p className="stock-company">…and {preview.trades.length - MAX_PREVIEW_ROWS} more</p>
+              )}
+              <button className="refresh-btn" style={{ marginTop: '15px' }} disabled={busy} onClick={runImport}>
+                Import {preview.trades.length} trade{preview.trades.length === 1 ? '' : 's'}
+                {preview.errors.length > 0 ? ' (skip rows with errors)' : ''}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function formatRupees(value: number): string {
+  return `${value < 0 ? '-' : ''}₹${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`
+}
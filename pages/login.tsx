@@ -0,0 +1,66 @@
+import { FormEvent, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import { signIn } from 'next-auth/react'
+import { SIGNIN_THROTTLED_ERROR } from '../lib/auth/credentials'
+
+export default function Login() {
+  const router = useRouter()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    const result = await signIn('credentials', { email, password, redirect: false })
+    setSubmitting(false)
+    if (!result || result.error) {
+      setError(result?.error === SIGNIN_THROTTLED_ERROR
+        ? 'Too many failed sign-ins - try again in 15 minutes'
+        : 'Invalid email or password')
+      return
+    }
+    router.push(returnPath(router.query.callbackUrl))
+  }
+
+  return (
+    <div className="container">
+      <div className="card auth-card">
+        <h2>🔐 Sign In</h2>
+        {error && <div className="error-message">⚠️ {error}</div>}
+        <form onSubmit={submit}>
+          <label className="form-field">
+            Email
+            <input type="email" value={email} onChange={e => setEmail(e.target.value)} autoComplete="email" required />
+          </label>
+          <label className="form-field">
+            Password
+            <input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </label>
+          <button className="refresh-btn" type="submit" disabled={submitting}>
+            {submitting ? 'Signing in...' : 'Sign In'}
+          </button>
+        </form>
+        <p className="auth-switch">
+          No account? <Link href="/signup">Create one</Link>
+        </p>
+      </div>
+    </div>
+  )
+}
+
+// Only return to paths on this site
+function returnPath(callbackUrl: string | string[] | undefined): string {
+  return typeof callbackUrl === 'string' && callbackUrl.startsWith('/') && !callbackUrl.startsWith('//')
+    ? callbackUrl
+    : '/'
+}
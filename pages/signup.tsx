@@ -0,0 +1,79 @@
+import { FormEvent, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import { signIn } from 'next-auth/react'
+
+export default function Signup() {
+  const router = useRouter()
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    setFieldErrors({})
+    try {
+      const response = await fetch('/api/auth/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, email, password }),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        setError(body.error || 'Failed to create account')
+        setFieldErrors(body.errors || {})
+        return
+      }
+
+      // Sign straight in with the new account
+      const result = await signIn('credentials', { email, password, redirect: false })
+      router.push(result && !result.error ? '/' : '/login')
+    } catch (err) {
+      setError('Failed to create account')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="container">
+      <div className="card auth-card">
+        <h2>✨ Create Account</h2>
+        {error && <div className="error-message">⚠️ {error}</div>}
+        <form onSubmit={submit}>
+          <label className="form-field">
+            Name
+            <input type="text" value={name} onChange={e => setName(e.target.value)} autoComplete="name" />
+          </label>
+          <label className="form-field">
+            Email
+            <input type="email" value={email} onChange={e => setEmail(e.target.value)} autoComplete="email" required />
+            {fieldErrors.email && <span className="form-error">{fieldErrors.email}</span>}
+          </label>
+          <label className="form-field">
+            Password
+            <input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+            {fieldErrors.password && <span className="form-error">{fieldErrors.password}</span>}
+          </label>
+          <button className="refresh-btn" type="submit" disabled={submitting}>
+            {submitting ? 'Creating account...' : 'Create Account'}
+          </button>
+        </form>
+        <p className="auth-switch">
+          Already registered? <Link href="/login">Sign in</Link>
+        </p>
+      </div>
+    </div>
+  )
+}
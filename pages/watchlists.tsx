@@ -0,0 +1,276 @@
+import { FormEvent, useState } from 'react'
+import Link from 'next/link'
+import useSWR from 'swr'
+import {
+  RealtimeQuote,
+  RealtimeSignal,
+  useRealtimeConnection,
+  useRealtimeEvent,
+  useRealtimeSymbols,
+} from '../hooks/useRealtime'
+import type { WatchlistResponse } from '../lib/watchlists/watchlists'
+
+interface MarketStock {
+  symbol: string
+  price: number
+  change: number
+  changePercent: number
+  rsi?: number
+  aiConfidence?: {
+    score: number
+    recommendation: string
+    signalStrength: string
+  }
+}
+
+interface MarketData {
+  allStocks: MarketStock[]
+  indices: Record<'nifty' | 'bankNifty' | 'sensex', { price: number; change: number; changePercent: number }>
+}
+
+interface LiveRow {
+  price?: number
+  changePercent?: number
+  rsi?: number
+  aiConfidence?: MarketStock['aiConfidence']
+}
+
+const INDEX_KEYS: Record<string, 'nifty' | 'bankNifty' | 'sensex'> = {
+  NIFTY: 'nifty',
+  BANKNIFTY: 'bankNifty',
+  SENSEX: 'sensex',
+}
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+// Protected by middleware.ts - only signed-in users get here
+export default function Watchlists() {
+  const { data: list, mutate: mutateList } = useSWR<{ watchlists: WatchlistResponse[] }>('/api/watchlists', fetcher)
+  const realtime = useRealtimeConnection()
+  const { data: market } = useSWR<MarketData>('/api/market-data', fetcher, {
+    // Scanner data for symbols without a realtime tick yet; polled only while disconnected
+    refreshInterval: realtime ? 0 : 60000,
+  })
+
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [newSymbol, setNewSymbol] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [quotes, setQuotes] = useState<Record<string, RealtimeQuote>>({})
+  const [signals, setSignals] = useState<Record<string, RealtimeSignal>>({})
+
+  const watchlists = list?.watchlists || []
+  const selected = watchlists.find(w => w.id === selectedId) || watchlists[0] || null
+  const symbols = selected ? selected.items.map(item => item.symbol) : []
+
+  useRealtimeSymbols(symbols)
+  useRealtimeEvent('quote', quote => setQuotes(current => ({ ...current, [quote.symbol]: quote })))
+  useRealtimeEvent('signal', signal => setSignals(current => ({ ...current, [signal.symbol]: signal })))
+
+  // Run a watchlist request and fold the returned watchlist into the list
+  const send = async (url: string, method: string, body?: unknown): Promise<WatchlistResponse | null> => {
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Request failed')
+        return null
+      }
+      if (method === 'DELETE' && !result.watchlist) {
+        await mutateList()
+        return null
+      }
+      const watchlist: WatchlistResponse = result.watchlist
+      const created = method === 'POST' && url === '/api/watchlists'
+      mutateList(current => {
+        const existing = current?.watchlists || []
+        return { watchlists: created ? [watchlist, ...existing] : replace(existing, watchlist) }
+      }, false)
+      return watchlist
+    } catch (err) {
+      setError('Request failed')
+      return null
+    }
+  }
+
+  const createWatchlist = async (event: FormEvent) => {
+    event.preventDefault()
+    const created = await send('/api/watchlists', 'POST', { name: newName })
+    if (created) {
+      setNewName('')
+      setSelectedId(created.id)
+    }
+  }
+
+  const addSymbol = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!selected) return
+    if (await send(`/api/watchlists/${selected.id}/symbols`, 'POST', { symbol: newSymbol })) setNewSymbol('')
+  }
+
+  const move = (index: number, offset: number) => {
+    if (!selected) return
+    const order = [...symbols]
+    const [symbol] = order.splice(index, 1)
+    order.splice(index + offset, 0, symbol)
+    send(`/api/watchlists/${selected.id}`, 'PATCH', { symbols: order })
+  }
+
+  const rename = () => {
+    if (!selected) return
+    const name = window.prompt('Rename watchlist', selected.name)
+    if (name && name.trim() !== selected.name) send(`/api/watchlists/${selected.id}`, 'PATCH', { name })
+  }
+
+  const remove = () => {
+    if (!selected || !window.confirm(`Delete "${selected.name}"?`)) return
+    setSelectedId(null)
+    send(`/api/watchlists/${selected.id}`, 'DELETE')
+  }
+
+  // Realtime tick first, then the last scan
+  const live = (symbol: string): LiveRow => {
+    const stock = market?.allStocks?.find(s => s.symbol === symbol)
+    const index = INDEX_KEYS[symbol] && market?.indices?.[INDEX_KEYS[symbol]]
+    const quote = quotes[symbol]
+    const signal = signals[symbol]
+    return {
+      price: quote?.price ?? stock?.price ?? (index ? index.price : undefined),
+      changePercent: quote?.changePercent ?? stock?.changePercent ?? (index ? index.changePercent : undefined),
+      rsi: signal?.rsi ?? stock?.rsi,
+      aiConfidence: signal?.aiConfidence ?? stock?.aiConfidence,
+    }
+  }
+
+  return (
+    <div className="container">
+      <div className="header">
+        <div className="user-nav">
+          <Link href="/">← Dashboard</Link>
+        </div>
+        <h1>⭐ Watchlists</h1>
+        <p style={{ color: '#6b7280' }}>{realtime ? '🟢 Live' : 'Updated every minute'}</p>
+      </div>
+
+      {error && <div className="error-message">⚠️ {error}</div>}
+
+      <div className="card" style={{ marginBottom: '20px' }}>
+        <div className="watchlist-bar">
+          {watchlists.map(w => (
+            <button
+              key={w.id}
+              className={`tab ${selected?.id === w.id ? 'active' : ''}`}
+              onClick={() => setSelectedId(w.id)}
+            >
+              {w.name} ({w.items.length})
+            </button>
+          ))}
+          <form onSubmit={createWatchlist} className="inline-form">
+            <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="New watchlist" required />
+            <button className="refresh-btn" type="submit">➕ Create</button>
+          </form>
+        </div>
+      </div>
+
+      {!list ? (
+        <div className="loading">
+          <div className="spinner"></div>
+        </div>
+      ) : !selected ? (
+        <div className="card">
+          <p className="no-data">Create a watchlist to start tracking symbols</p>
+        </div>
+      ) : (
+        <div className="card">
+          <h2>
+            {selected.name}
+            <button className="link-btn" onClick={rename}>Rename</button>
+            <button className="link-btn" onClick={remove}>Delete</button>
+          </h2>
+
+          <form onSubmit={addSymbol} className="inline-form">
+            <input value={newSymbol} onChange={e => setNewSymbol(e.target.value)} placeholder="Add symbol, e.g. RELIANCE" required />
+            <button className="refresh-btn" type="submit">Add</button>
+          </form>
+
+          {selected.items.length === 0 ? (
+            <p className="no-data">No symbols yet</p>
+          ) : (
+            <table className="watchlist-table">
+              <thead>
+                <tr>
+                  <th>Symbol</th>
+                  <th>Price</th>
+                  <th>Change</th>
+                  <th>RSI</th>
+                  <th>AI Confidence</th>
+                  <th>Note</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.items.map((item, index) => {
+                  const row = live(item.symbol)
+                  return (
+                    <tr key={`${selected.id}:${item.symbol}`}>
+                      <td>
+                        <div className="stock-name">
+                          {item.symbol} {item.isFNO && <span className="fno-badge">F&O</span>}
+                        </div>
+                        <div className="stock-company">{item.name}</div>
+                      </td>
+                      <td>{row.price !== undefined ? `₹${row.price.toFixed(2)}` : '-'}</td>
+                      <td className={row.changePercent !== undefined && row.changePercent < 0 ? 'negative' : 'positive'}>
+                        {row.changePercent !== undefined
+                          ? `${row.changePercent >= 0 ? '+' : ''}${row.changePercent.toFixed(2)}%`
+                          : '-'}
+                      </td>
+                      <td>{row.rsi !== undefined ? row.rsi.toFixed(0) : '-'}</td>
+                      <td>
+                        {row.aiConfidence
+                          ? `${row.aiConfidence.score} · ${row.aiConfidence.recommendation}`
+                          : '-'}
+                      </td>
+                      <td>
+                        <input
+                          className="note-input"
+                          defaultValue={item.note || ''}
+                          placeholder="Add a note"
+                          onBlur={e => {
+                            const note = e.target.value.trim()
+                            if (note !== (item.note || '')) {
+                              send(`/api/watchlists/${selected.id}/symbols/${encodeURIComponent(item.symbol)}`, 'PATCH', { note: note || null })
+                            }
+                          }}
+                        />
+                      </td>
+                      <td style={{ whiteSpace: 'nowrap' }}>
+                        <button className="link-btn" disabled={index === 0} onClick={() => move(index, -1)}>↑</button>
+                        <button className="link-btn" disabled={index === selected.items.length - 1} onClick={() => move(index, 1)}>↓</button>
+                        <button
+                          className="link-btn"
+                          onClick={() => send(`/api/watchlists/${selected.id}/symbols/${encodeURIComponent(item.symbol)}`, 'DELETE')}
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function replace(watchlists: WatchlistResponse[], updated: WatchlistResponse): WatchlistResponse[] {
+  return watchlists.map(w => (w.id === updated.id ? updated : w))
+}
@@ -0,0 +1,5 @@
+// Load .env / .env.local the way `next dev` does. Imported first by scripts,
+// before any module reads process.env at import time (lib/mongodb does)
+import { loadEnvConfig } from '@next/env'
+
+loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production')
@@ -0,0 +1,160 @@
+// Market Scanner Worker
+// Precomputes the /api/market-data payload on a schedule during NSE hours and stores it as a snapshot
+// Index option chains from each run go to the option chain history for OI build-up tracking
+// Alert notifications are delivered every cycle, so digests and quiet hours release off-hours too
+// With REALTIME_PORT set, scans, quote ticks and triggered alerts are pushed over socket.io
+//
+//   npm run scanner            run continuously
+//   npm run scanner -- --once  run a single scan now, regardless of market hours
+import './loadEnv'
+import { isMongoConfigured } from '../lib/mongodb'
+import { SnapshotService } from '../lib/db/snapshotService'
+import { OptionChainHistoryService } from '../lib/db/optionChainHistoryService'
+import { VolatilityHistoryService } from '../lib/db/volatilityHistoryService'
+import { createMarketDataProvider, getMarketDataProvider, setMarketDataProvider } from '../lib/marketData'
+import { scanMarket } from '../lib/scanner/marketScan'
+import { alertContextsFromScan, runAlertEngine } from '../lib/alerts/alertEngine'
+import { deliverDueNotifications } from '../lib/notifications/dispatcher'
+import { RealtimeServer, startRealtimeServer } from '../lib/realtime/server'
+import { DEFAULT_SCAN_INTERVAL_SECONDS, isScanWindow } from '../lib/scanner/schedule'
+import { getMarketSession } from '../utils/marketSession'
+
+const intervalSeconds = Number(process.env.SCANNER_INTERVAL_SECONDS) || DEFAULT_SCAN_INTERVAL_SECONDS
+const runOnce = process.argv.includes('--once')
+
+let scanning = false
+let stopping = false
+let realtime: RealtimeServer | null = null
+
+async function runScan(): Promise<void> {
+  scanning = true
+  const startedAt = new Date()
+
+  try {
+    const scan = await scanMarket()
+    const completedAt = new Date()
+
+    await SnapshotService.saveSnapshot({
+      kind: 'MARKET_OVERVIEW',
+      data: scan.data,
+      symbolsScanned: scan.symbolsScanned,
+      symbolsFailed: scan.symbolsFailed,
+      provider: getMarketDataProvider().name,
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    })
+
+    realtime?.publishScan(scan)
+
+    // Keep each index chain so OI build-up can be tracked through the day,
+    // and the day's ATM IV for IV rank/percentile
+    await Promise.all(scan.optionChains.map(chain => Promise.all([
+      OptionChainHistoryService.recordSnapshot(chain).catch(error =>
+        console.error(`[scanner] Failed to record ${chain.symbol} option chain:`, error)
+      ),
+      VolatilityHistoryService.recordDaily(chain).catch(error =>
+        console.error(`[scanner] Failed to record ${chain.symbol} ATM IV:`, error)
+      ),
+    ])))
+
+    // Fire user alerts against this scan
+    const alerts = await runAlertEngine(alertContextsFromScan(scan, completedAt), completedAt).catch(error => {
+      console.error('[scanner] Alert evaluation failed:', error)
+      return null
+    })
+    if (alerts && alerts.triggered.length > 0) {
+      realtime?.publishAlerts(alerts.triggered)
+      console.log(`[scanner] ${alerts.triggered.length} of ${alerts.evaluated} alerts triggered`)
+    }
+
+    console.log(
+      `[scanner] ${completedAt.toISOString()} scanned ${scan.symbolsScanned} symbols ` +
+      `(${scan.symbolsFailed.length} failed) in ${completedAt.getTime() - startedAt.getTime()}ms`
+    )
+  } finally {
+    scanning = false
+  }
+}
+
+async function deliverNotifications(): Promise<void> {
+  const delivery = await deliverDueNotifications().catch(error => {
+    console.error('[scanner] Notification delivery failed:', error)
+    return null
+  })
+  if (delivery && delivery.sent + delivery.retrying + delivery.failed > 0) {
+    console.log(
+      `[scanner] Notifications: ${delivery.sent} sent, ${delivery.retrying} retrying, ` +
+      `${delivery.failed} failed (${delivery.digests} digests)`
+    )
+  }
+}
+
+function shutdown() {
+  stopping = true
+  // Let an in-flight scan finish and save; the loop exits after it
+  if (!scanning) {
+    exit()
+    return
+  }
+  console.log('[scanner] Finishing current scan before exit...')
+}
+
+async function main() {
+  if (!isMongoConfigured()) {
+    console.error('[scanner] MONGODB_URI is not set - snapshots have nowhere to go')
+    process.exit(1)
+  }
+
+  // Scan straight from the feed; the request cache would hand back the previous cycle's quotes
+  setMarketDataProvider(createMarketDataProvider())
+
+  if (runOnce) {
+    await runScan()
+    await deliverNotifications()
+    process.exit(0)
+  }
+
+  const realtimePort = Number(process.env.REALTIME_PORT)
+  if (realtimePort) {
+    realtime = startRealtimeServer(realtimePort)
+    console.log(`[scanner] Realtime server listening on port ${realtimePort}`)
+  }
+
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  console.log(`[scanner] Started with ${getMarketDataProvider().name}, every ${intervalSeconds}s during market hours`)
+
+  let idleLogged = false
+  while (!stopping) {
+    const cycleStart = Date.now()
+
+    if (isScanWindow()) {
+      idleLogged = false
+      await runScan().catch(error => console.error('[scanner] Scan failed:', error))
+    } else if (!idleLogged) {
+      const session = getMarketSession()
+      const reason = session.status === 'HOLIDAY' ? `Market holiday (${session.holiday})` : 'Outside market hours'
+      console.log(`[scanner] ${reason}, next open ${session.nextOpen}`)
+      idleLogged = true
+    }
+    await deliverNotifications()
+
+    if (stopping) break
+    const waitMs = Math.max(1000, intervalSeconds * 1000 - (Date.now() - cycleStart))
+    await new Promise(resolve => setTimeout(resolve, waitMs))
+  }
+
+  await exit()
+}
+
+async function exit(): Promise<never> {
+  await realtime?.close().catch(() => undefined)
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('[scanner] Fatal error:', error)
+  process.exit(1)
+})
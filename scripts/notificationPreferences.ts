@@ -0,0 +1,42 @@
+// Show or replace a user's notification preferences
+//
+//   npm run notify:prefs -- <userId>
+//   npm run notify:prefs -- <userId> '{ "channels": { "EMAIL": { "enabled": true, "target": "you@example.com" } },
+//     "quietHours": { "start": "22:00", "end": "07:00" }, "digestMinutes": 30 }'
+//
+// The JSON replaces everything, validated like the settings it stores; an omitted webhook
+// secret keeps the stored one
+import './loadEnv'
+import { ObjectId } from 'mongodb'
+import { NotificationService } from '../lib/db/notificationService'
+import { preferencesSchema, toPreferencesResponse, toStoredPreferences } from '../lib/notifications/preferences'
+
+async function main() {
+  const [userId, json] = process.argv.slice(2)
+  if (!userId || !ObjectId.isValid(userId)) {
+    console.error('Usage: npm run notify:prefs -- <userId> [preferences JSON]')
+    process.exit(1)
+  }
+
+  const current = await NotificationService.getPreferences(userId)
+  if (!json) {
+    const unread = await NotificationService.countUnread(userId)
+    console.log(JSON.stringify({ preferences: toPreferencesResponse(current), unread }, null, 2))
+    process.exit(0)
+  }
+
+  const parsed = await preferencesSchema.safeParseAsync(JSON.parse(json))
+  if (!parsed.success) {
+    parsed.error.issues.forEach(issue => console.error(`${issue.path.join('.') || 'body'}: ${issue.message}`))
+    process.exit(1)
+  }
+
+  const saved = await NotificationService.savePreferences(userId, toStoredPreferences(parsed.data, current))
+  console.log(JSON.stringify({ preferences: toPreferencesResponse(saved) }, null, 2))
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('Failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,43 @@
+// Send a test notification straight through one channel's transport - no MongoDB or outbox.
+// Point SMTP_HOST / TELEGRAM_API_URL (or the webhook URL) at a local stand-in to check
+// configuration end to end
+//
+//   npm run notify:test -- email you@example.com
+//   WEBHOOK_ALLOW_PRIVATE=true npm run notify:test -- webhook http://localhost:9000/hook [secret]
+//   npm run notify:test -- telegram <chat id>
+import './loadEnv'
+import { getNotificationTransport } from '../lib/notifications/channels'
+import { ExternalChannel } from '../models/Notification'
+
+const CHANNELS: ExternalChannel[] = ['EMAIL', 'WEBHOOK', 'TELEGRAM']
+
+async function main() {
+  const [channelArg, target, secret] = process.argv.slice(2)
+  const channel = String(channelArg || '').toUpperCase() as ExternalChannel
+  if (!CHANNELS.includes(channel) || !target) {
+    console.error('Usage: npm run notify:test -- <email|webhook|telegram> <target> [webhook secret]')
+    process.exit(1)
+  }
+
+  const transport = getNotificationTransport(channel)
+  if (!transport.configured()) {
+    console.error(`${channel} is not configured - see the Notifications section of the README`)
+    process.exit(1)
+  }
+
+  await transport.send(
+    target,
+    {
+      title: '🔔 Test notification',
+      body: `Delivered via ${channel} at ${new Date().toISOString()}`,
+      data: { test: true },
+    },
+    { secret }
+  )
+  console.log(`Sent test notification via ${channel} to ${target}`)
+}
+
+main().catch(error => {
+  console.error('Test notification failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,24 @@
+// next-auth type augmentation - the user id and plan carried on sessions (lib/auth/options.ts)
+import type { DefaultSession } from 'next-auth'
+import type { User as AppUser } from '../models/User'
+
+declare module 'next-auth' {
+  interface Session {
+    user?: DefaultSession['user'] & {
+      id: string
+      plan?: AppUser['plan']
+    }
+  }
+
+  interface User {
+    plan?: AppUser['plan']
+    passwordChangedAt?: number
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    plan?: AppUser['plan']
+    passwordChangedAt?: number // ms; 0 before the first change
+  }
+}
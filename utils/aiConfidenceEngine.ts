@@ -3,14 +3,7 @@
 
 import { SMCAnalysis } from './smartMoneyAnalysis'
 import { MTFAnalysis } from './multiTimeframeAnalysis'
-
-interface CandleData {
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-}
+import { CandleData } from './candles'
 
 interface TechnicalSignal {
   pattern: string
@@ -0,0 +1,208 @@
+// Black-Scholes-Merton Option Pricing
+// European option prices, Greeks and implied volatility with a continuous dividend yield.
+// NSE index and stock options are European-style, so BSM applies directly
+
+export type OptionType = 'CALL' | 'PUT'
+
+export interface PricingInput {
+  spot: number
+  strike: number
+  timeToExpiry: number  // years
+  volatility: number    // annualised, 0.20 = 20%
+  riskFreeRate?: number // annualised, continuous; defaults to RISK_FREE_RATE
+  dividendYield?: number // annualised, continuous; defaults to DIVIDEND_YIELD
+  optionType: OptionType
+}
+
+export interface OptionGreeks {
+  delta: number
+  gamma: number // per ₹1 move in the underlying
+  theta: number // per calendar day
+  vega: number  // per 1 volatility point (1%)
+  rho: number   // per 1% change in the rate
+}
+
+// RBI repo rate as the risk-free proxy; override with RISK_FREE_RATE=0.065
+export const DEFAULT_RISK_FREE_RATE = envRate('RISK_FREE_RATE', 0.055)
+export const DEFAULT_DIVIDEND_YIELD = envRate('DIVIDEND_YIELD', 0)
+// Used when neither the chain nor price history gives us a volatility
+export const DEFAULT_VOLATILITY = 0.2
+
+const DAYS_PER_YEAR = 365
+const TRADING_DAYS_PER_YEAR = 252
+
+// ─── Pricing ────────────────────────────────────────────────────────────────
+
+export function priceOption(input: PricingInput): number {
+  const { spot, strike, optionType } = input
+  const T = Math.max(0, input.timeToExpiry)
+  const r = input.riskFreeRate ?? DEFAULT_RISK_FREE_RATE
+  const q = input.dividendYield ?? DEFAULT_DIVIDEND_YIELD
+
+  // At expiry (or with no volatility) the option is worth its discounted intrinsic value
+  if (T === 0 || input.volatility <= 0) {
+    const forward = spot * Math.exp((r - q) * T)
+    const intrinsic = optionType === 'CALL' ? forward - strike : strike - forward
+    return Math.max(0, intrinsic) * Math.exp(-r * T)
+  }
+
+  const { d1, d2 } = dTerms(input, T, r, q)
+  const discountedSpot = spot * Math.exp(-q * T)
+  const discountedStrike = strike * Math.exp(-r * T)
+
+  return optionType === 'CALL'
+    ? discountedSpot * normCdf(d1) - discountedStrike * normCdf(d2)
+    : discountedStrike * normCdf(-d2) - discountedSpot * normCdf(-d1)
+}
+
+export function calculateGreeks(input: PricingInput): OptionGreeks {
+  const { spot, strike, optionType, volatility } = input
+  const T = Math.max(0, input.timeToExpiry)
+  const r = input.riskFreeRate ?? DEFAULT_RISK_FREE_RATE
+  const q = input.dividendYield ?? DEFAULT_DIVIDEND_YIELD
+  const isCall = optionType === 'CALL'
+
+  if (T === 0 || volatility <= 0) {
+    const inTheMoney = isCall ? spot > strike : spot < strike
+    return { delta: inTheMoney ? (isCall ? 1 : -1) : 0, gamma: 0, theta: 0, vega: 0, rho: 0 }
+  }
+
+  const { d1, d2 } = dTerms(input, T, r, q)
+  const sqrtT = Math.sqrt(T)
+  const spotDiscount = Math.exp(-q * T)
+  const strikeDiscount = Math.exp(-r * T)
+  const pdfD1 = normPdf(d1)
+
+  const delta = isCall ? spotDiscount * normCdf(d1) : -spotDiscount * normCdf(-d1)
+  const gamma = (spotDiscount * pdfD1) / (spot * volatility * sqrtT)
+  const vega = spot * spotDiscount * pdfD1 * sqrtT
+
+  const decay = -(spot * spotDiscount * pdfD1 * volatility) / (2 * sqrtT)
+  const theta = isCall
+    ? decay - r * strike * strikeDiscount * normCdf(d2) + q * spot * spotDiscount * normCdf(d1)
+    : decay + r * strike * strikeDiscount * normCdf(-d2) - q * spot * spotDiscount * normCdf(-d1)
+
+  const rho = isCall
+    ? strike * T * strikeDiscount * normCdf(d2)
+    : -strike * T * strikeDiscount * normCdf(-d2)
+
+  return {
+    delta,
+    gamma,
+    theta: theta / DAYS_PER_YEAR,
+    vega: vega / 100,
+    rho: rho / 100,
+  }
+}
+
+// ─── Implied Volatility ─────────────────────────────────────────────────────
+
+// Volatility that reproduces a market premium. Newton-Raphson from the
+// Brenner-Subrahmanyam estimate, falling back to bisection when vega is too
+// flat to step on. Returns null when the premium violates no-arbitrage bounds.
+export function impliedVolatility(
+  marketPrice: number,
+  input: Omit<PricingInput, 'volatility'>,
+  options: { tolerance?: number; maxIterations?: number } = {}
+): number | null {
+  const tolerance = options.tolerance ?? 1e-6
+  const maxIterations = options.maxIterations ?? 100
+  const T = input.timeToExpiry
+  const r = input.riskFreeRate ?? DEFAULT_RISK_FREE_RATE
+  const q = input.dividendYield ?? DEFAULT_DIVIDEND_YIELD
+
+  if (!(marketPrice > 0) || !(T > 0) || !(input.spot > 0) || !(input.strike > 0)) return null
+
+  const lowerBound = priceOption({ ...input, volatility: 0 })
+  const upperBound = input.optionType === 'CALL'
+    ? input.spot * Math.exp(-q * T)
+    : input.strike * Math.exp(-r * T)
+  if (marketPrice < lowerBound - tolerance || marketPrice >= upperBound) return null
+
+  const MIN_VOL = 1e-4
+  const MAX_VOL = 5
+
+  // Newton-Raphson
+  let sigma = clamp(Math.sqrt((2 * Math.PI) / T) * (marketPrice / input.spot), 0.05, 2)
+  for (let i = 0; i < maxIterations; i++) {
+    const diff = priceOption({ ...input, volatility: sigma }) - marketPrice
+    if (Math.abs(diff) < tolerance) return sigma
+
+    const vega = calculateGreeks({ ...input, volatility: sigma }).vega * 100
+    if (vega < 1e-8) break
+
+    const next = sigma - diff / vega
+    if (!Number.isFinite(next) || next <= MIN_VOL || next >= MAX_VOL) break
+    sigma = next
+  }
+
+  // Bisection - price is monotonic in volatility
+  let low = MIN_VOL
+  let high = MAX_VOL
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const diff = priceOption({ ...input, volatility: mid }) - marketPrice
+    if (Math.abs(diff) < tolerance || high - low < 1e-8) return mid
+    if (diff > 0) high = mid
+    else low = mid
+  }
+  return (low + high) / 2
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+// Calendar days to the year fraction BSM expects
+export function yearsFromDays(days: number): number {
+  return Math.max(0, days) / DAYS_PER_YEAR
+}
+
+// Annualised close-to-close volatility over the last `period` returns
+export function historicalVolatility(closes: number[], period: number = 20): number | null {
+  const recent = closes.slice(-(period + 1))
+  if (recent.length < 3) return null
+
+  const returns: number[] = []
+  for (let i = 1; i < recent.length; i++) {
+    if (recent[i - 1] > 0 && recent[i] > 0) returns.push(Math.log(recent[i] / recent[i - 1]))
+  }
+  if (returns.length < 2) return null
+
+  const mean = returns.reduce((sum, x) => sum + x, 0) / returns.length
+  const variance = returns.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (returns.length - 1)
+  return Math.sqrt(variance * TRADING_DAYS_PER_YEAR)
+}
+
+export function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI)
+}
+
+// Standard normal CDF via the complementary error function (|error| < 1.2e-7)
+export function normCdf(x: number): number {
+  return 0.5 * erfc(-x / Math.SQRT2)
+}
+
+function erfc(x: number): number {
+  const z = Math.abs(x)
+  const t = 1 / (1 + 0.5 * z)
+  const r = t * Math.exp(
+    -z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277))))))))
+  )
+  return x >= 0 ? r : 2 - r
+}
+
+function dTerms(input: PricingInput, T: number, r: number, q: number) {
+  const volSqrtT = input.volatility * Math.sqrt(T)
+  const d1 = (Math.log(input.spot / input.strike) + (r - q + (input.volatility * input.volatility) / 2) * T) / volSqrtT
+  return { d1, d2: d1 - volSqrtT }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function envRate(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback
+}
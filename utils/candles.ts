@@ -0,0 +1,171 @@
+// Candle Normalization
+// Single CandleData type for every analysis engine, built from raw provider candles:
+// sorts and dedupes timestamps, handles null gaps, repairs OHLC and keys sessions in IST
+
+import type { RawCandle } from '../lib/marketData/types'
+
+export interface CandleData {
+  timestamp: number // unix seconds
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+// 'drop' removes bars with no close; 'forward-fill' turns them into flat bars at the previous close
+export type GapPolicy = 'drop' | 'forward-fill'
+
+export interface NormalizeOptions {
+  gapPolicy?: GapPolicy
+  repairOHLC?: boolean // widen high/low to contain open/close instead of dropping the bar
+}
+
+export interface CandleSeries {
+  timezone: 'Asia/Kolkata'
+  candles: CandleData[]
+  stats: {
+    received: number
+    duplicates: number
+    gaps: number       // bars with no usable close
+    filled: number     // gaps forward-filled
+    repaired: number   // bars whose high/low were widened
+    dropped: number    // bars removed for any reason
+  }
+}
+
+export interface ISTDateTime {
+  date: string // YYYY-MM-DD
+  time: string // HH:mm
+  iso: string  // 2024-01-15T09:15:00+05:30
+  dayOfWeek: number // 0 = Sunday
+  minutesOfDay: number
+}
+
+export const IST_OFFSET_MINUTES = 330
+const NSE_SESSION_OPEN_MINUTES = 9 * 60 + 15
+
+// ─── Normalization ──────────────────────────────────────────────────────────
+
+export function normalizeCandles(raw: RawCandle[], options: NormalizeOptions = {}): CandleSeries {
+  const gapPolicy = options.gapPolicy || 'drop'
+  const repairOHLC = options.repairOHLC !== false
+
+  const stats = { received: raw.length, duplicates: 0, gaps: 0, filled: 0, repaired: 0, dropped: 0 }
+
+  // Sort and dedupe by timestamp - the last report for a bar wins (live bars get revised)
+  const byTimestamp = new Map<number, RawCandle>()
+  raw.forEach(candle => {
+    if (!Number.isFinite(candle.timestamp)) {
+      stats.dropped++
+      return
+    }
+    if (byTimestamp.has(candle.timestamp)) stats.duplicates++
+    byTimestamp.set(candle.timestamp, candle)
+  })
+  const ordered = Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp)
+
+  const candles: CandleData[] = []
+  ordered.forEach(candle => {
+    const close = validPrice(candle.close)
+    const previous = candles[candles.length - 1]
+
+    if (close === null) {
+      stats.gaps++
+      if (gapPolicy === 'forward-fill' && previous) {
+        const price = previous.close
+        candles.push({ timestamp: candle.timestamp, open: price, high: price, low: price, close: price, volume: 0 })
+        stats.filled++
+      } else {
+        stats.dropped++
+      }
+      return
+    }
+
+    // Partial bars: derive missing fields from what we have rather than zero-filling
+    const open = validPrice(candle.open) ?? close
+    let high = validPrice(candle.high) ?? Math.max(open, close)
+    let low = validPrice(candle.low) ?? Math.min(open, close)
+    const volume = candle.volume !== null && candle.volume >= 0 ? candle.volume : 0
+
+    if (!isConsistent(open, high, low, close)) {
+      if (!repairOHLC) {
+        stats.dropped++
+        return
+      }
+      high = Math.max(open, high, low, close)
+      low = Math.min(open, high, low, close)
+      stats.repaired++
+    }
+
+    candles.push({ timestamp: candle.timestamp, open, high, low, close, volume })
+  })
+
+  return { timezone: 'Asia/Kolkata', candles, stats }
+}
+
+// Shorthand when only the candles are needed
+export function toCandles(raw: RawCandle[], options: NormalizeOptions = {}): CandleData[] {
+  return normalizeCandles(raw, options).candles
+}
+
+export function isConsistent(open: number, high: number, low: number, close: number): boolean {
+  return high >= Math.max(open, close, low) && low <= Math.min(open, close, high)
+}
+
+function validPrice(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null
+}
+
+// ─── IST Time Helpers ───────────────────────────────────────────────────────
+
+export function toIST(timestamp: number): ISTDateTime {
+  const shifted = new Date((timestamp + IST_OFFSET_MINUTES * 60) * 1000)
+  const date = `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`
+  const time = `${pad(shifted.getUTCHours())}:${pad(shifted.getUTCMinutes())}`
+
+  return {
+    date,
+    time,
+    iso: `${date}T${time}:${pad(shifted.getUTCSeconds())}+05:30`,
+    dayOfWeek: shifted.getUTCDay(),
+    minutesOfDay: shifted.getUTCHours() * 60 + shifted.getUTCMinutes(),
+  }
+}
+
+export function istDateKey(timestamp: number): string {
+  return toIST(timestamp).date
+}
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : `${value}`
+}
+
+// ─── Aggregation ────────────────────────────────────────────────────────────
+
+// Roll intraday candles into larger bars anchored at the 09:15 IST session open,
+// so a 4H bar never straddles two trading days
+export function aggregateCandles(candles: CandleData[], minutes: number): CandleData[] {
+  const aggregated: CandleData[] = []
+  let bucketKey = ''
+
+  candles.forEach(candle => {
+    const ist = toIST(candle.timestamp)
+    const bucket = Math.floor(Math.max(0, ist.minutesOfDay - NSE_SESSION_OPEN_MINUTES) / minutes)
+    const key = `${ist.date}#${bucket}`
+    const current = aggregated[aggregated.length - 1]
+
+    if (key !== bucketKey || !current) {
+      aggregated.push({ ...candle })
+      bucketKey = key
+      return
+    }
+
+    current.high = Math.max(current.high, candle.high)
+    current.low = Math.min(current.low, candle.low)
+    current.close = candle.close
+    current.volume += candle.volume
+  })
+
+  return aggregated
+}
@@ -0,0 +1,1145 @@
+// Condition DSL
+// A small typed expression language shared by alerts and the screener, e.g.
+//   RSI(14) < 30 AND close > EMA(200) AND operatorGame = ACCUMULATION
+// compileCondition parses and type-checks against the fields and indicator functions
+// catalogued below; evaluateCondition runs the result against one symbol's data.
+// Values that aren't available (no option chain for a stock, too little history for
+// EMA(200)) make a comparison unknown rather than false, so NOT can't turn missing
+// data into a match.
+
+import { ADX, ATR, BollingerBands, CCI, EMA, MACD, RSI, SMA, Stochastic } from 'technicalindicators'
+import type { StockData } from '../lib/scanner/marketScan'
+import type { CandleData } from './candles'
+import type { MTFAnalysis } from './multiTimeframeAnalysis'
+import type { OptionChainAnalysis } from './optionChainAnalysis'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ConditionValueType = 'number' | 'string' | 'boolean'
+export type ConditionValue = number | string | boolean | null
+
+// Data a condition can read - callers only need to load what `sources` lists
+export type ConditionSource = 'stock' | 'candles' | 'mtf' | 'optionChain'
+
+export interface ConditionInputs {
+  stock?: StockData | null        // scanner output for the symbol
+  candles: CandleData[]           // daily, oldest first; the last bar is the current session
+  optionChain?: OptionChainAnalysis | null
+  mtf?: MTFAnalysis | null
+}
+
+export type CompareOp = '<' | '<=' | '>' | '>=' | '=' | '!=' | 'CROSSES_ABOVE' | 'CROSSES_BELOW'
+
+interface Span {
+  start: number           // offsets into the source text
+  end: number
+}
+
+export type ConditionNode = Span & (
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'name'; name: string }                       // bare word, before checking
+  | { kind: 'field'; name: string }                      // a catalogued field, after checking
+  | { kind: 'call'; name: string; args: ConditionNode[] }
+  | { kind: 'offset'; target: ConditionNode; barsAgo: number } // close[1]
+  | { kind: 'negate'; operand: ConditionNode }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'arithmetic'; op: '+' | '-' | '*' | '/'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'compare'; op: CompareOp; left: ConditionNode; right: ConditionNode }
+  | { kind: 'logical'; op: 'AND' | 'OR'; left: ConditionNode; right: ConditionNode }
+)
+
+export interface ConditionError {
+  message: string
+  start: number
+  end: number
+  column: number          // 1-based, for display
+  pointer: string         // the source with a caret line under the problem
+}
+
+export interface CompiledCondition {
+  source: string
+  ast: ConditionNode      // checked: names resolved to fields or enum values, call defaults filled in
+  sources: ConditionSource[]
+  lookback: number        // daily bars of history the indicators need
+}
+
+export interface ConditionCompileResult {
+  condition: CompiledCondition | null
+  errors: ConditionError[]
+}
+
+export interface ConditionEvaluation {
+  matched: boolean
+  known: boolean          // false when missing data left the result undecided
+  values: Record<string, ConditionValue> // each field / indicator as written, on the current bar
+  missing: string[]       // fields / indicators with no value
+}
+
+interface FieldSpec {
+  type: ConditionValueType
+  source: ConditionSource
+  description: string
+  values?: string[]       // allowed values of an enum field
+  series?: boolean        // has values on past bars, so takes [n] and CROSSES
+  read: (inputs: ConditionInputs, barsAgo: number) => ConditionValue | undefined
+}
+
+interface ParamSpec {
+  name: string
+  default?: number
+  min: number
+  max: number
+  decimal?: boolean       // whole numbers unless set
+}
+
+interface IndicatorSpec {
+  description: string
+  params: ParamSpec[]
+  // Values aligned so the last one is the current bar
+  compute: (candles: CandleData[], args: number[]) => number[]
+}
+
+interface MathSpec {
+  description: string
+  minArgs: number
+  maxArgs: number
+  apply: (args: number[]) => number
+}
+
+const MAX_BARS_AGO = 50
+const VOLUME_AVERAGE_DAYS = 20
+
+// ─── Catalogue ──────────────────────────────────────────────────────────────
+
+const TRENDS = ['STRONG_BULLISH', 'BULLISH', 'NEUTRAL', 'BEARISH', 'STRONG_BEARISH']
+const RECOMMENDATIONS = ['STRONG_BUY', 'BUY', 'HOLD', 'SELL', 'STRONG_SELL']
+const CONFIDENCE = ['HIGH', 'MEDIUM', 'LOW']
+
+const FIELDS: Record<string, FieldSpec> = {
+  // Quote and daily bars - the scanner's quote on the current bar, candles before it
+  symbol: { type: 'string', source: 'stock', description: 'NSE symbol', read: i => i.stock?.symbol },
+  price: {
+    type: 'number', source: 'candles', series: true, description: 'Last traded price',
+    read: (i, b) => (b === 0 && i.stock?.price) || bar(i, b)?.close,
+  },
+  close: {
+    type: 'number', source: 'candles', series: true, description: 'Daily close (last price on the current bar)',
+    read: (i, b) => (b === 0 && i.stock?.price) || bar(i, b)?.close,
+  },
+  open: { type: 'number', source: 'candles', series: true, description: 'Daily open', read: (i, b) => bar(i, b)?.open },
+  high: { type: 'number', source: 'candles', series: true, description: 'Daily high', read: (i, b) => bar(i, b)?.high },
+  low: { type: 'number', source: 'candles', series: true, description: 'Daily low', read: (i, b) => bar(i, b)?.low },
+  volume: {
+    type: 'number', source: 'candles', series: true, description: 'Daily volume',
+    read: (i, b) => (b === 0 && i.stock?.volume) || bar(i, b)?.volume,
+  },
+  change: {
+    type: 'number', source: 'candles', series: true, description: 'Change from the previous close, ₹',
+    read: (i, b) => b === 0 && i.stock ? i.stock.change : barChange(i, b, false),
+  },
+  changePercent: {
+    type: 'number', source: 'candles', series: true, description: 'Change from the previous close, %',
+    read: (i, b) => b === 0 && i.stock ? i.stock.changePercent : barChange(i, b, true),
+  },
+  volumeRatio: {
+    type: 'number', source: 'candles', series: true,
+    description: `Volume over the previous ${VOLUME_AVERAGE_DAYS}-day average`,
+    read: (i, b) => {
+      const current = (b === 0 && i.stock?.volume) || bar(i, b)?.volume
+      const average = averageVolume(i.candles, i.candles.length - 1 - b, VOLUME_AVERAGE_DAYS)
+      return current && average ? current / average : null
+    },
+  },
+
+  // Scanner analysis
+  rsi: { type: 'number', source: 'stock', description: "Scanner's RSI(14) over the last 30 days", read: i => i.stock?.rsi },
+  macdSignal: {
+    type: 'string', source: 'stock', values: ['BULLISH', 'BEARISH', 'NEUTRAL'],
+    description: 'MACD line vs signal', read: i => i.stock?.macdSignal,
+  },
+  volatility: { type: 'number', source: 'stock', description: '20-day historical volatility, annualised (0.25 = 25%)', read: i => i.stock?.volatility },
+  isFNO: { type: 'boolean', source: 'stock', description: 'Trades in F&O', read: i => i.stock ? !!i.stock.isFNO : undefined },
+  lotSize: { type: 'number', source: 'stock', description: 'F&O lot size', read: i => i.stock?.lotSize },
+  sector: { type: 'string', source: 'stock', description: 'Sector from the symbol master', read: i => i.stock?.sector },
+  operatorGame: {
+    type: 'string', source: 'stock',
+    values: ['ACCUMULATION', 'DISTRIBUTION', 'BULL_TRAP', 'BEAR_TRAP', 'PUMP_DUMP', 'BREAKOUT_FAKE', 'SQUEEZE', 'NONE'],
+    description: 'Operator activity detected on the daily bars',
+    read: i => i.stock ? i.stock.operatorGame?.type || 'NONE' : undefined,
+  },
+  operatorConfidence: {
+    type: 'string', source: 'stock', values: CONFIDENCE,
+    description: 'Confidence in the operator game', read: i => i.stock?.operatorGame?.confidence,
+  },
+  operatorAction: {
+    type: 'string', source: 'stock', values: ['BUY', 'SELL', 'AVOID', 'WAIT'],
+    description: 'Action the operator game suggests', read: i => i.stock?.operatorGame?.action,
+  },
+
+  // Smart money concepts and AI confidence
+  smcStructure: {
+    type: 'string', source: 'stock', values: ['BULLISH', 'BEARISH', 'RANGING'],
+    description: 'SMC market structure', read: i => i.stock?.smc?.marketStructure,
+  },
+  smcRecommendation: {
+    type: 'string', source: 'stock', values: RECOMMENDATIONS,
+    description: 'SMC recommendation', read: i => i.stock?.smc?.recommendation,
+  },
+  smcConfidence: { type: 'number', source: 'stock', description: 'SMC confidence, 0-100', read: i => i.stock?.smc?.confidence },
+  aiScore: { type: 'number', source: 'stock', description: 'AI trade confidence score, 0-100', read: i => i.stock?.aiConfidence?.score },
+  aiRecommendation: {
+    type: 'string', source: 'stock', values: RECOMMENDATIONS,
+    description: 'AI confidence recommendation', read: i => i.stock?.aiConfidence?.recommendation,
+  },
+  aiSignalStrength: {
+    type: 'string', source: 'stock', values: ['VERY_STRONG', 'STRONG', 'MODERATE', 'WEAK', 'VERY_WEAK'],
+    description: 'AI signal strength', read: i => i.stock?.aiConfidence?.signalStrength,
+  },
+
+  // Multi-timeframe
+  mtfTrend: { type: 'string', source: 'mtf', values: TRENDS, description: 'Weighted trend across 1m-1D', read: i => i.mtf?.overallTrend },
+  mtfRecommendation: {
+    type: 'string', source: 'mtf', values: RECOMMENDATIONS,
+    description: 'Multi-timeframe recommendation', read: i => i.mtf?.recommendation,
+  },
+  mtfConfidence: { type: 'number', source: 'mtf', description: 'Multi-timeframe confidence, 0-100', read: i => i.mtf?.confidenceScore },
+  mtfAlignment: { type: 'number', source: 'mtf', description: '% of timeframes agreeing', read: i => i.mtf?.alignment },
+
+  // Option chain (indices)
+  pcr: { type: 'number', source: 'optionChain', description: 'Put-call OI ratio', read: i => i.optionChain?.pcr },
+  maxPain: { type: 'number', source: 'optionChain', description: 'Max pain strike', read: i => i.optionChain?.maxPainStrike },
+  maxPainDistance: {
+    type: 'number', source: 'optionChain', description: 'Max pain minus spot, % of spot',
+    read: i => i.optionChain?.maxPainSignal?.distancePercent,
+  },
+  daysToExpiry: { type: 'number', source: 'optionChain', description: 'Calendar days to expiry', read: i => i.optionChain?.daysToExpiry },
+  callOIStrike: {
+    type: 'number', source: 'optionChain', description: 'Strike with the highest call OI (resistance)',
+    read: i => i.optionChain?.highestCallOIStrike,
+  },
+  putOIStrike: {
+    type: 'number', source: 'optionChain', description: 'Strike with the highest put OI (support)',
+    read: i => i.optionChain?.highestPutOIStrike,
+  },
+  avgCallIV: { type: 'number', source: 'optionChain', description: 'Average call IV, %', read: i => i.optionChain?.avgCallIV },
+  avgPutIV: { type: 'number', source: 'optionChain', description: 'Average put IV, %', read: i => i.optionChain?.avgPutIV },
+  gex: {
+    type: 'number', source: 'optionChain', description: 'Total dealer gamma, ₹ Cr per 1% move',
+    read: i => i.optionChain?.gammaExposure?.totalGEX,
+  },
+  gexRegime: {
+    type: 'string', source: 'optionChain', values: ['POSITIVE', 'NEGATIVE'],
+    description: 'Dealer gamma regime', read: i => i.optionChain?.gammaExposure?.regime,
+  },
+  zeroGamma: {
+    type: 'number', source: 'optionChain', description: 'Zero-gamma flip level',
+    read: i => i.optionChain?.gammaExposure?.zeroGammaLevel,
+  },
+  callWall: { type: 'number', source: 'optionChain', description: 'Call gamma wall strike', read: i => i.optionChain?.gammaExposure?.callWall },
+  putWall: { type: 'number', source: 'optionChain', description: 'Put gamma wall strike', read: i => i.optionChain?.gammaExposure?.putWall },
+  ocAction: {
+    type: 'string', source: 'optionChain', values: ['BUY_CALL', 'BUY_PUT', 'HOLD'],
+    description: 'Option chain recommendation', read: i => i.optionChain?.recommendation.action,
+  },
+  ocConfidence: {
+    type: 'string', source: 'optionChain', values: CONFIDENCE,
+    description: 'Option chain recommendation confidence', read: i => i.optionChain?.recommendation.confidence,
+  },
+}
+
+const period = (fallback?: number, max: number = 200): ParamSpec => ({ name: 'period', default: fallback, min: 1, max })
+const MACD_PARAMS: ParamSpec[] = [
+  { name: 'fast', default: 12, min: 2, max: 100 },
+  { name: 'slow', default: 26, min: 3, max: 200 },
+  { name: 'signal', default: 9, min: 2, max: 100 },
+]
+const BB_PARAMS: ParamSpec[] = [period(20), { name: 'stdDev', default: 2, min: 0.5, max: 5, decimal: true }]
+const STOCH_PARAMS: ParamSpec[] = [period(14), { name: 'signal', default: 3, min: 1, max: 50 }]
+
+const INDICATORS: Record<string, IndicatorSpec> = {
+  RSI: { description: 'Relative strength index', params: [period(14)], compute: (c, [p]) => RSI.calculate({ values: closes(c), period: p }) },
+  SMA: { description: 'Simple moving average of close', params: [period()], compute: (c, [p]) => SMA.calculate({ values: closes(c), period: p }) },
+  EMA: { description: 'Exponential moving average of close', params: [period()], compute: (c, [p]) => EMA.calculate({ values: closes(c), period: p }) },
+  MACD: { description: 'MACD line', params: MACD_PARAMS, compute: (c, args) => macd(c, args).map(m => m.MACD ?? NaN) },
+  MACD_SIGNAL: { description: 'MACD signal line', params: MACD_PARAMS, compute: (c, args) => macd(c, args).map(m => m.signal ?? NaN) },
+  MACD_HIST: { description: 'MACD histogram', params: MACD_PARAMS, compute: (c, args) => macd(c, args).map(m => m.histogram ?? NaN) },
+  BB_UPPER: { description: 'Upper Bollinger band', params: BB_PARAMS, compute: (c, args) => bollinger(c, args).map(b => b.upper) },
+  BB_MIDDLE: { description: 'Middle Bollinger band', params: BB_PARAMS, compute: (c, args) => bollinger(c, args).map(b => b.middle) },
+  BB_LOWER: { description: 'Lower Bollinger band', params: BB_PARAMS, compute: (c, args) => bollinger(c, args).map(b => b.lower) },
+  ATR: { description: 'Average true range', params: [period(14)], compute: (c, [p]) => ATR.calculate({ ...hlc(c), period: p }) },
+  ADX: { description: 'Average directional index', params: [period(14)], compute: (c, [p]) => ADX.calculate({ ...hlc(c), period: p }).map(a => a.adx) },
+  CCI: { description: 'Commodity channel index', params: [period(20)], compute: (c, [p]) => CCI.calculate({ ...hlc(c), period: p }) },
+  STOCH_K: {
+    description: 'Stochastic %K', params: STOCH_PARAMS,
+    compute: (c, [p, s]) => Stochastic.calculate({ ...hlc(c), period: p, signalPeriod: s }).map(x => x.k),
+  },
+  STOCH_D: {
+    description: 'Stochastic %D', params: STOCH_PARAMS,
+    compute: (c, [p, s]) => Stochastic.calculate({ ...hlc(c), period: p, signalPeriod: s }).map(x => x.d ?? NaN),
+  },
+  HIGHEST: {
+    description: 'Highest high of the previous n bars', params: [period()],
+    compute: (c, [p]) => trailing(c, p, window => Math.max(...window.map(x => x.high))),
+  },
+  LOWEST: {
+    description: 'Lowest low of the previous n bars', params: [period()],
+    compute: (c, [p]) => trailing(c, p, window => Math.min(...window.map(x => x.low))),
+  },
+  AVG_VOLUME: {
+    description: 'Average volume of the previous n bars', params: [period(VOLUME_AVERAGE_DAYS)],
+    compute: (c, [p]) => trailing(c, p, window => window.reduce((sum, x) => sum + x.volume, 0) / window.length),
+  },
+  CHANGE: {
+    description: '% change in close over n bars', params: [period()],
+    compute: (c, [p]) => c.slice(p).map((x, i) => (c[i].close > 0 ? ((x.close - c[i].close) / c[i].close) * 100 : NaN)),
+  },
+}
+
+const MATH: Record<string, MathSpec> = {
+  ABS: { description: 'Absolute value', minArgs: 1, maxArgs: 1, apply: ([x]) => Math.abs(x) },
+  MIN: { description: 'Smallest argument', minArgs: 2, maxArgs: 8, apply: args => Math.min(...args) },
+  MAX: { description: 'Largest argument', minArgs: 2, maxArgs: 8, apply: args => Math.max(...args) },
+}
+
+// Fields and functions with their types, for the screener's help response
+export function conditionCatalogue() {
+  return {
+    fields: Object.keys(FIELDS).map(name => {
+      const f = FIELDS[name]
+      return { name, type: f.type, source: f.source, description: f.description, ...(f.values ? { values: f.values } : {}) }
+    }),
+    functions: [
+      ...Object.keys(INDICATORS).map(name => ({
+        name: `${name}(${INDICATORS[name].params.map(p => p.default !== undefined ? `${p.name}=${p.default}` : p.name).join(', ')})`,
+        description: INDICATORS[name].description,
+      })),
+      ...Object.keys(MATH).map(name => ({ name: `${name}(...)`, description: MATH[name].description })),
+    ],
+    operators: ['AND', 'OR', 'NOT', '<', '<=', '>', '>=', '=', '!=', 'CROSSES ABOVE', 'CROSSES BELOW', '+', '-', '*', '/', 'x[n] (n bars ago)'],
+  }
+}
+
+// ─── Tokenizer ──────────────────────────────────────────────────────────────
+
+type TokenType = 'number' | 'string' | 'ident' | 'op' | '(' | ')' | '[' | ']' | ',' | 'end'
+
+interface Token extends Span {
+  type: TokenType
+  text: string
+}
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'CROSSES', 'ABOVE', 'BELOW', 'TRUE', 'FALSE']
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '<', '>', '=', '+', '-', '*', '/']
+// Spellings from other languages, and what to write instead
+const FOREIGN_OPERATORS: Record<string, string> = { '&&': 'AND', '||': 'OR', '&': 'AND', '|': 'OR', '!': 'NOT' }
+
+// Thrown inside the parser, reported by compileCondition
+class ConditionSyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message)
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    const start = i
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i))
+      if (!match) throw new ConditionSyntaxError(`Invalid number`, start, start + 1)
+      i += match[0].length
+      if (/[A-Za-z_]/.test(source[i] || '')) {
+        throw new ConditionSyntaxError(`Invalid number '${source.slice(start, i + 1)}' - put a space or operator after it`, start, i + 1)
+      }
+      tokens.push({ type: 'number', text: match[0], start, end: i })
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!
+      i += match[0].length
+      tokens.push({ type: 'ident', text: match[0], start, end: i })
+    } else if (ch === '\'' || ch === '"') {
+      const close = source.indexOf(ch, i + 1)
+      if (close < 0) throw new ConditionSyntaxError(`Unterminated string - add the closing ${ch}`, start, source.length)
+      i = close + 1
+      tokens.push({ type: 'string', text: source.slice(start + 1, close), start, end: i })
+    } else if ('()[],'.indexOf(ch) >= 0) {
+      i++
+      tokens.push({ type: ch as TokenType, text: ch, start, end: i })
+    } else {
+      const two = source.slice(i, i + 2)
+      const foreign = FOREIGN_OPERATORS[two] ? two : FOREIGN_OPERATORS[ch] && two !== '!=' ? ch : null
+      if (foreign) {
+        throw new ConditionSyntaxError(`Use ${FOREIGN_OPERATORS[foreign]} instead of '${foreign}'`, start, start + foreign.length)
+      }
+      const op = OPERATORS.find(o => source.startsWith(o, i))
+      if (!op) throw new ConditionSyntaxError(`Unexpected character '${ch}'`, start, start + 1)
+      i += op.length
+      tokens.push({ type: 'op', text: op, start, end: i })
+    }
+  }
+
+  tokens.push({ type: 'end', text: '', start: source.length, end: source.length })
+  return tokens
+}
+
+// ─── Parser ─────────────────────────────────────────────────────────────────
+
+// or      := and (OR and)*
+// and     := not (AND not)*
+// not     := NOT not | compare
+// compare := sum ((< <= > >= = != | CROSSES ABOVE|BELOW) sum)?
+// sum     := product ((+ -) product)*
+// product := unary ((* /) unary)*
+// unary   := - unary | postfix
+// postfix := primary ([n])*
+// primary := number | string | TRUE | FALSE | name | name(args) | ( or )
+class Parser {
+  private index = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    if (this.peek().type === 'end') throw new ConditionSyntaxError('Condition is empty', 0, 0)
+    const node = this.parseOr()
+    const next = this.peek()
+    if (next.type !== 'end') {
+      const hint = next.type === ')' ? 'there is no matching \'(\'' : 'join conditions with AND or OR'
+      throw new ConditionSyntaxError(`Unexpected '${next.text}' - ${hint}`, next.start, next.end)
+    }
+    return node
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd()
+    while (this.isKeyword('OR')) {
+      this.advance()
+      const right = this.parseAnd()
+      left = { kind: 'logical', op: 'OR', left, right, start: left.start, end: right.end }
+    }
+    return left
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot()
+    while (this.isKeyword('AND')) {
+      this.advance()
+      const right = this.parseNot()
+      left = { kind: 'logical', op: 'AND', left, right, start: left.start, end: right.end }
+    }
+    return left
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isKeyword('NOT')) {
+      const token = this.advance()
+      const operand = this.parseNot()
+      return { kind: 'not', operand, start: token.start, end: operand.end }
+    }
+    return this.parseCompare()
+  }
+
+  private parseCompare(): ConditionNode {
+    const left = this.parseSum()
+    const op = this.compareOperator()
+    if (!op) return left
+
+    const right = this.parseSum()
+    const node: ConditionNode = { kind: 'compare', op, left, right, start: left.start, end: right.end }
+    const chained = this.peek()
+    if (this.compareOperatorAhead()) {
+      throw new ConditionSyntaxError(
+        `Comparisons can't be chained - join them with AND, e.g. rsi > 30 AND rsi < 70`,
+        chained.start,
+        chained.end
+      )
+    }
+    return node
+  }
+
+  private compareOperator(): CompareOp | null {
+    const token = this.peek()
+    if (token.type === 'op' && ['<', '<=', '>', '>=', '=', '==', '!=', '<>'].indexOf(token.text) >= 0) {
+      this.advance()
+      if (token.text === '==') return '='
+      if (token.text === '<>') return '!='
+      return token.text as CompareOp
+    }
+    if (this.isKeyword('CROSSES')) {
+      this.advance()
+      const direction = this.peek()
+      const word = direction.type === 'ident' ? direction.text.toUpperCase() : ''
+      if (word !== 'ABOVE' && word !== 'BELOW') {
+        throw new ConditionSyntaxError(`Expected ABOVE or BELOW after CROSSES`, direction.start, direction.end)
+      }
+      this.advance()
+      return word === 'ABOVE' ? 'CROSSES_ABOVE' : 'CROSSES_BELOW'
+    }
+    return null
+  }
+
+  private compareOperatorAhead(): boolean {
+    const token = this.peek()
+    return (token.type === 'op' && ['<', '<=', '>', '>=', '=', '==', '!=', '<>'].indexOf(token.text) >= 0) ||
+      this.isKeyword('CROSSES')
+  }
+
+  private parseSum(): ConditionNode {
+    let left = this.parseProduct()
+    while (this.peek().type === 'op' && (this.peek().text === '+' || this.peek().text === '-')) {
+      const op = this.advance().text as '+' | '-'
+      const right = this.parseProduct()
+      left = { kind: 'arithmetic', op, left, right, start: left.start, end: right.end }
+    }
+    return left
+  }
+
+  private parseProduct(): ConditionNode {
+    let left = this.parseUnary()
+    while (this.peek().type === 'op' && (this.peek().text === '*' || this.peek().text === '/')) {
+      const op = this.advance().text as '*' | '/'
+      const right = this.parseUnary()
+      left = { kind: 'arithmetic', op, left, right, start: left.start, end: right.end }
+    }
+    return left
+  }
+
+  private parseUnary(): ConditionNode {
+    const token = this.peek()
+    if (token.type === 'op' && token.text === '-') {
+      this.advance()
+      const operand = this.parseUnary()
+      if (operand.kind === 'number') return { ...operand, value: -operand.value, start: token.start }
+      return { kind: 'negate', operand, start: token.start, end: operand.end }
+    }
+    return this.parsePostfix()
+  }
+
+  private parsePostfix(): ConditionNode {
+    let node = this.parsePrimary()
+    while (this.peek().type === '[') {
+      const open = this.advance()
+      const count = this.peek()
+      if (count.type !== 'number' || !/^\d+$/.test(count.text)) {
+        throw new ConditionSyntaxError(`Expected a whole number of bars ago, e.g. close[1]`, count.start, count.end)
+      }
+      this.advance()
+      this.expect(']', `Missing ']' to close the '[' at column ${open.start + 1}`)
+      node = { kind: 'offset', target: node, barsAgo: Number(count.text), start: node.start, end: this.previous().end }
+    }
+    return node
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.peek()
+
+    switch (token.type) {
+      case 'number':
+        this.advance()
+        return { kind: 'number', value: Number(token.text), start: token.start, end: token.end }
+
+      case 'string':
+        this.advance()
+        return { kind: 'string', value: token.text, start: token.start, end: token.end }
+
+      case '(': {
+        this.advance()
+        const inner = this.parseOr()
+        this.expect(')', `Missing ')' to close the '(' at column ${token.start + 1}`)
+        return { ...inner, start: token.start, end: this.previous().end }
+      }
+
+      case 'ident': {
+        const word = token.text.toUpperCase()
+        if (word === 'TRUE' || word === 'FALSE') {
+          this.advance()
+          return { kind: 'boolean', value: word === 'TRUE', start: token.start, end: token.end }
+        }
+        if (KEYWORDS.indexOf(word) >= 0) {
+          throw new ConditionSyntaxError(`Expected a value before ${word}`, token.start, token.end)
+        }
+        this.advance()
+        if (this.peek().type !== '(') return { kind: 'name', name: token.text, start: token.start, end: token.end }
+
+        const open = this.advance()
+        const args: ConditionNode[] = []
+        if (this.peek().type !== ')') {
+          args.push(this.parseOr())
+          while (this.peek().type === ',') {
+            this.advance()
+            args.push(this.parseOr())
+          }
+        }
+        this.expect(')', `Missing ')' to close ${token.text}( at column ${open.start + 1}`)
+        return { kind: 'call', name: token.text, args, start: token.start, end: this.previous().end }
+      }
+
+      case 'end': {
+        const last = this.index > 0 ? this.previous() : null
+        throw new ConditionSyntaxError(
+          last ? `Condition ends after '${last.text}' - expected a value` : 'Condition is empty',
+          token.start,
+          token.end
+        )
+      }
+
+      default:
+        throw new ConditionSyntaxError(`Expected a value but found '${token.text}'`, token.start, token.end)
+    }
+  }
+
+  private expect(type: TokenType, message: string): Token {
+    const token = this.peek()
+    if (token.type !== type) throw new ConditionSyntaxError(message, token.start, token.end)
+    return this.advance()
+  }
+
+  private isKeyword(word: string): boolean {
+    const token = this.peek()
+    return token.type === 'ident' && token.text.toUpperCase() === word
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1]
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== 'end') this.index++
+    return token
+  }
+}
+
+// ─── Checking ───────────────────────────────────────────────────────────────
+
+interface Checked {
+  node: ConditionNode
+  type: ConditionValueType | null // null once an error has been reported for it
+  series: boolean
+}
+
+const FIELD_NAMES = new Map<string, string>()
+Object.keys(FIELDS).forEach(name => FIELD_NAMES.set(name.toLowerCase(), name))
+
+class Checker {
+  errors: ConditionError[] = []
+  sources = new Set<ConditionSource>()
+  lookback = 0
+
+  constructor(private source: string) {}
+
+  check(node: ConditionNode, enumOf?: FieldSpec, barsAgo: number = 0): Checked {
+    switch (node.kind) {
+      case 'number':
+      case 'boolean':
+        return { node, type: node.kind, series: true }
+
+      case 'string':
+        return this.enumValue(node, node.value, enumOf)
+
+      case 'field':
+      case 'name': {
+        const canonical = FIELD_NAMES.get(node.name.toLowerCase())
+        if (canonical) {
+          const field = FIELDS[canonical]
+          this.sources.add(field.source)
+          if (barsAgo > 0) this.lookback = Math.max(this.lookback, barsAgo + 1)
+          return { node: { kind: 'field', name: canonical, start: node.start, end: node.end }, type: field.type, series: !!field.series }
+        }
+        // A bare word compared with a text field is one of its values: operatorGame = ACCUMULATION
+        if (enumOf && enumOf.type === 'string') return this.enumValue(node, node.name, enumOf)
+        return this.fail(this.unknownName(node.name), node)
+      }
+
+      case 'call':
+        return this.checkCall(node, barsAgo)
+
+      case 'offset': {
+        if (node.barsAgo < 1 || node.barsAgo > MAX_BARS_AGO) {
+          return this.fail(`Bars ago must be between 1 and ${MAX_BARS_AGO}`, node)
+        }
+        const target = this.check(node.target, undefined, barsAgo + node.barsAgo)
+        if (target.type === null) return target
+        if (target.type !== 'number' || !target.series || isLiteral(target.node)) {
+          return this.fail(`${this.text(node.target)} has no history - [n] works on price fields and indicators, e.g. RSI(14)[1]`, node)
+        }
+        this.sources.add('candles')
+        return { node: { ...node, target: target.node }, type: 'number', series: true }
+      }
+
+      case 'negate': {
+        const operand = this.check(node.operand, undefined, barsAgo)
+        if (operand.type !== null && operand.type !== 'number') {
+          return this.fail(`Can't negate ${this.text(node.operand)} - it is a ${operand.type}`, node)
+        }
+        return { node: { ...node, operand: operand.node }, type: operand.type && 'number', series: operand.series }
+      }
+
+      case 'not': {
+        const operand = this.check(node.operand, undefined, barsAgo)
+        this.expectBoolean(operand, node.operand, 'NOT')
+        return { node: { ...node, operand: operand.node }, type: 'boolean', series: operand.series }
+      }
+
+      case 'arithmetic': {
+        const left = this.check(node.left, undefined, barsAgo)
+        const right = this.check(node.right, undefined, barsAgo)
+        const wrong = [left, right].find(side => side.type !== null && side.type !== 'number')
+        if (wrong) return this.fail(`'${node.op}' needs numbers but ${this.text(wrong.node)} is a ${wrong.type}`, wrong.node)
+        return {
+          node: { ...node, left: left.node, right: right.node },
+          type: left.type && right.type && 'number',
+          series: left.series && right.series,
+        }
+      }
+
+      case 'compare':
+        return this.checkCompare(node, barsAgo)
+
+      case 'logical': {
+        const left = this.check(node.left, undefined, barsAgo)
+        const right = this.check(node.right, undefined, barsAgo)
+        this.expectBoolean(left, node.left, node.op)
+        this.expectBoolean(right, node.right, node.op)
+        return { node: { ...node, left: left.node, right: right.node }, type: 'boolean', series: left.series && right.series }
+      }
+    }
+  }
+
+  private checkCompare(node: Extract<ConditionNode, { kind: 'compare' }>, barsAgo: number): Checked {
+    const crosses = node.op === 'CROSSES_ABOVE' || node.op === 'CROSSES_BELOW'
+    // A crossing compares this bar with the one before
+    const depth = crosses ? barsAgo + 1 : barsAgo
+    const left = this.check(node.left, fieldOf(node.right), depth)
+    const right = this.check(node.right, fieldOf(node.left), depth)
+    const checked: Checked = { node: { ...node, left: left.node, right: right.node }, type: 'boolean', series: left.series && right.series }
+    if (left.type === null || right.type === null) return checked
+
+    if (node.op === '=' || node.op === '!=') {
+      if (left.type !== right.type) {
+        return this.fail(`Can't compare ${this.text(node.left)} (${left.type}) with ${this.text(node.right)} (${right.type})`, node)
+      }
+      return checked
+    }
+
+    const text = [left, right].find(side => side.type !== 'number')
+    if (text) {
+      const hint = text.type === 'string' ? ' - use = or !=' : ''
+      return this.fail(`${this.operatorText(node.op)} compares numbers but ${this.text(text.node)} is a ${text.type}${hint}`, node)
+    }
+    if (crosses) {
+      const flat = [left, right].find(side => !side.series)
+      if (flat) {
+        return this.fail(`${this.operatorText(node.op)} needs history on both sides but ${this.text(flat.node)} has none`, flat.node)
+      }
+      this.sources.add('candles')
+    }
+    return checked
+  }
+
+  private checkCall(node: Extract<ConditionNode, { kind: 'call' }>, barsAgo: number): Checked {
+    const name = node.name.toUpperCase()
+    const indicator = INDICATORS[name]
+    const math = MATH[name]
+
+    if (math) {
+      if (node.args.length < math.minArgs || node.args.length > math.maxArgs) {
+        const count = math.minArgs === math.maxArgs ? `${math.minArgs}` : `${math.minArgs}-${math.maxArgs}`
+        return this.fail(`${name} takes ${count} argument${math.maxArgs === 1 ? '' : 's'}`, node)
+      }
+      const args = node.args.map(arg => this.check(arg, undefined, barsAgo))
+      const wrong = args.find(a => a.type !== null && a.type !== 'number')
+      if (wrong) return this.fail(`${name} needs numbers but ${this.text(wrong.node)} is a ${wrong.type}`, wrong.node)
+      return {
+        node: { ...node, name, args: args.map(a => a.node) },
+        type: args.every(a => a.type !== null) ? 'number' : null,
+        series: args.every(a => a.series),
+      }
+    }
+
+    if (!indicator) {
+      if (FIELD_NAMES.has(node.name.toLowerCase())) {
+        return this.fail(`${FIELD_NAMES.get(node.name.toLowerCase())} is a field, not a function - drop the brackets`, node)
+      }
+      return this.fail(this.unknownName(node.name, true), node)
+    }
+
+    const { params } = indicator
+    if (node.args.length > params.length) {
+      return this.fail(`${name} takes at most ${params.length} setting${params.length === 1 ? '' : 's'}: ${usage(name)}`, node)
+    }
+    const values: number[] = []
+    for (let i = 0; i < params.length; i++) {
+      const param = params[i]
+      const arg = node.args[i]
+      if (!arg) {
+        if (param.default === undefined) return this.fail(`${name} needs a ${param.name}, e.g. ${name}(${example(param)})`, node)
+        values.push(param.default)
+        continue
+      }
+      if (arg.kind !== 'number') return this.fail(`${name} ${param.name} must be a number, e.g. ${name}(${example(param)})`, arg)
+      if (arg.value < param.min || arg.value > param.max || (!param.decimal && !Number.isInteger(arg.value))) {
+        const kind = param.decimal ? 'a number' : 'a whole number'
+        return this.fail(`${name} ${param.name} must be ${kind} from ${param.min} to ${param.max}`, arg)
+      }
+      values.push(arg.value)
+    }
+
+    this.sources.add('candles')
+    const warmUp = values.filter((v, i) => !params[i].decimal).reduce((sum, v) => sum + v, 0)
+    this.lookback = Math.max(this.lookback, warmUp + barsAgo + 1)
+    return {
+      node: {
+        ...node,
+        name,
+        args: values.map((value, i) => ({ kind: 'number', value, start: node.args[i]?.start ?? node.end, end: node.args[i]?.end ?? node.end })),
+      },
+      type: 'number',
+      series: true,
+    }
+  }
+
+  private enumValue(node: ConditionNode, value: string, field?: FieldSpec): Checked {
+    const literal: ConditionNode = { kind: 'string', value, start: node.start, end: node.end }
+    if (!field || !field.values) return { node: literal, type: 'string', series: true }
+
+    const upper = value.toUpperCase()
+    if (field.values.indexOf(upper) < 0) {
+      const suggestion = closest(upper, field.values)
+      const hint = suggestion ? `did you mean ${suggestion}?` : `expected one of ${field.values.join(', ')}`
+      return this.fail(`'${value}' isn't a valid ${fieldName(field)} value - ${hint}`, node)
+    }
+    return { node: { ...literal, value: upper }, type: 'string', series: true }
+  }
+
+  private expectBoolean(checked: Checked, node: ConditionNode, operator: string) {
+    if (checked.type === null || checked.type === 'boolean') return
+    const example = checked.type === 'number' ? `${this.text(node)} > 0` : `${this.text(node)} = '...'`
+    this.fail(`${operator} needs a true/false condition but ${this.text(node)} is a ${checked.type} - compare it, e.g. ${example}`, node)
+  }
+
+  private unknownName(name: string, call: boolean = false): string {
+    const upper = name.toUpperCase()
+    if (!call && INDICATORS[upper]) {
+      const needsPeriod = INDICATORS[upper].params.some(p => p.default === undefined)
+      return `${upper} is a function - write ${needsPeriod ? `${upper}(${example(INDICATORS[upper].params[0])})` : `${upper}()`}`
+    }
+    const candidates = call ? Object.keys(INDICATORS).concat(Object.keys(MATH)) : Object.keys(FIELDS)
+    const suggestion = closest(call ? upper : name, candidates)
+    const kind = call ? 'function' : 'field'
+    return `Unknown ${kind} '${name}'${suggestion ? ` - did you mean ${suggestion}?` : ''}`
+  }
+
+  private operatorText(op: CompareOp): string {
+    return op === 'CROSSES_ABOVE' ? 'CROSSES ABOVE' : op === 'CROSSES_BELOW' ? 'CROSSES BELOW' : `'${op}'`
+  }
+
+  private text(node: ConditionNode): string {
+    return this.source.slice(node.start, node.end)
+  }
+
+  fail(message: string, span: Span): Checked {
+    this.errors.push(toError(this.source, message, span.start, span.end))
+    return { node: span as ConditionNode, type: null, series: false }
+  }
+}
+
+function fieldOf(node: ConditionNode): FieldSpec | undefined {
+  if (node.kind !== 'name' && node.kind !== 'field') return undefined
+  const canonical = FIELD_NAMES.get(node.name.toLowerCase())
+  return canonical ? FIELDS[canonical] : undefined
+}
+
+function fieldName(field: FieldSpec): string {
+  return Object.keys(FIELDS).find(name => FIELDS[name] === field) || 'field'
+}
+
+function isLiteral(node: ConditionNode): boolean {
+  return node.kind === 'number' || node.kind === 'string' || node.kind === 'boolean'
+}
+
+function usage(name: string): string {
+  return `${name}(${INDICATORS[name].params.map(p => p.name).join(', ')})`
+}
+
+function example(param: ParamSpec): number {
+  return param.default ?? (param.name === 'period' ? 20 : param.min)
+}
+
+// Nearest candidate by edit distance, if it's close enough to be a typo
+function closest(word: string, candidates: string[]): string | null {
+  let best: string | null = null
+  let bestDistance = Math.max(2, Math.floor(word.length / 3)) + 1
+  candidates.forEach(candidate => {
+    const d = editDistance(word.toLowerCase(), candidate.toLowerCase())
+    if (d < bestDistance) {
+      best = candidate
+      bestDistance = d
+    }
+  })
+  return best
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diagonal = above
+    }
+  }
+  return row[b.length]
+}
+
+function toError(source: string, message: string, start: number, end: number): ConditionError {
+  const line = source.replace(/[\r\n\t]/g, ' ')
+  const width = Math.max(1, Math.min(end, line.length + 1) - start)
+  return {
+    message,
+    start,
+    end,
+    column: start + 1,
+    pointer: `${line}\n${' '.repeat(start)}${'^'.repeat(width)}`,
+  }
+}
+
+// ─── Compile ────────────────────────────────────────────────────────────────
+
+// Parse and type-check a condition. Syntax errors stop at the first; type errors are
+// all reported
+export function compileCondition(source: string): ConditionCompileResult {
+  let ast: ConditionNode
+  try {
+    ast = new Parser(tokenize(source)).parse()
+  } catch (error) {
+    if (error instanceof ConditionSyntaxError) {
+      return { condition: null, errors: [toError(source, error.message, error.start, error.end)] }
+    }
+    throw error
+  }
+
+  const checker = new Checker(source)
+  const checked = checker.check(ast)
+  if (checked.type !== null && checked.type !== 'boolean') {
+    const example = checked.type === 'number' ? `${source.trim()} > 0` : `${source.trim()} = '...'`
+    checker.fail(`A condition must be true or false but this is a ${checked.type} - compare it, e.g. ${example}`, ast)
+  }
+  if (checker.errors.length > 0) return { condition: null, errors: checker.errors }
+
+  return {
+    condition: {
+      source,
+      ast: checked.node,
+      sources: Array.from(checker.sources).sort(),
+      lookback: checker.lookback,
+    },
+    errors: [],
+  }
+}
+
+// One line per error with a caret under the problem, for logs and thrown errors
+export function formatConditionErrors(errors: ConditionError[]): string {
+  return errors.map(e => `${e.message} (column ${e.column})\n${e.pointer}`).join('\n')
+}
+
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+
+interface Scope {
+  source: string
+  inputs: ConditionInputs
+  indicators: Map<string, number[]>
+  values: Record<string, ConditionValue>
+  missing: Set<string>
+}
+
+export function evaluateCondition(condition: CompiledCondition, inputs: ConditionInputs): ConditionEvaluation {
+  const scope: Scope = { source: condition.source, inputs, indicators: new Map(), values: {}, missing: new Set() }
+  const result = evaluate(condition.ast, scope, 0)
+  const missing: string[] = []
+  scope.missing.forEach(label => missing.push(label))
+
+  return {
+    matched: result === true,
+    known: result !== null,
+    values: scope.values,
+    missing,
+  }
+}
+
+function evaluate(node: ConditionNode, scope: Scope, barsAgo: number): ConditionValue {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value
+
+    case 'field': {
+      const value = FIELDS[node.name].read(scope.inputs, barsAgo)
+      return record(node, scope, barsAgo, value === undefined || (typeof value === 'number' && !isFinite(value)) ? null : value)
+    }
+
+    case 'call': {
+      const args = node.args.map(arg => evaluate(arg, scope, barsAgo))
+      if (MATH[node.name]) {
+        return args.some(a => typeof a !== 'number') ? null : MATH[node.name].apply(args as number[])
+      }
+      const key = `${node.name}(${args.join(',')})`
+      let series = scope.indicators.get(key)
+      if (!series) {
+        series = scope.inputs.candles.length > 0 ? INDICATORS[node.name].compute(scope.inputs.candles, args as number[]) : []
+        scope.indicators.set(key, series)
+      }
+      const value = series[series.length - 1 - barsAgo]
+      return record(node, scope, barsAgo, typeof value === 'number' && isFinite(value) ? value : null)
+    }
+
+    case 'offset':
+      return record(node, scope, barsAgo, evaluate(node.target, scope, barsAgo + node.barsAgo))
+
+    case 'name':
+      return null // resolved by compileCondition
+
+    case 'negate': {
+      const value = evaluate(node.operand, scope, barsAgo)
+      return typeof value === 'number' ? -value : null
+    }
+
+    case 'not': {
+      const value = evaluate(node.operand, scope, barsAgo)
+      return typeof value === 'boolean' ? !value : null
+    }
+
+    case 'arithmetic': {
+      const left = evaluate(node.left, scope, barsAgo)
+      const right = evaluate(node.right, scope, barsAgo)
+      if (typeof left !== 'number' || typeof right !== 'number') return null
+      if (node.op === '+') return left + right
+      if (node.op === '-') return left - right
+      if (node.op === '*') return left * right
+      return right !== 0 ? left / right : null
+    }
+
+    case 'compare':
+      return compare(node, scope, barsAgo)
+
+    case 'logical': {
+      // Three-valued: a known false (AND) or true (OR) decides it even if the other side is missing
+      const left = evaluate(node.left, scope, barsAgo)
+      const right = evaluate(node.right, scope, barsAgo)
+      if (node.op === 'AND') {
+        if (left === false || right === false) return false
+        return left === true && right === true ? true : null
+      }
+      if (left === true || right === true) return true
+      return left === false && right === false ? false : null
+    }
+  }
+}
+
+function compare(node: Extract<ConditionNode, { kind: 'compare' }>, scope: Scope, barsAgo: number): boolean | null {
+  const left = evaluate(node.left, scope, barsAgo)
+  const right = evaluate(node.right, scope, barsAgo)
+  if (left === null || right === null) return null
+
+  switch (node.op) {
+    case '=':
+    case '!=': {
+      const equal = typeof left === 'string' && typeof right === 'string'
+        ? left.toUpperCase() === right.toUpperCase()
+        : left === right
+      return node.op === '=' ? equal : !equal
+    }
+    case '<': return left < right
+    case '<=': return left <= right
+    case '>': return left > right
+    case '>=': return left >= right
+    default: {
+      const prevLeft = evaluate(node.left, scope, barsAgo + 1)
+      const prevRight = evaluate(node.right, scope, barsAgo + 1)
+      if (typeof prevLeft !== 'number' || typeof prevRight !== 'number') return null
+      return node.op === 'CROSSES_ABOVE'
+        ? prevLeft <= prevRight && left > right
+        : prevLeft >= prevRight && left < right
+    }
+  }
+}
+
+// Note what a field or indicator read on the current bar, as the user wrote it
+function record(node: ConditionNode, scope: Scope, barsAgo: number, value: ConditionValue): ConditionValue {
+  if (barsAgo === 0) {
+    const label = scope.source.slice(node.start, node.end)
+    scope.values[label] = typeof value === 'number' ? round(value, 2) : value
+    if (value === null) scope.missing.add(label)
+  }
+  return value
+}
+
+// ─── Series helpers ─────────────────────────────────────────────────────────
+
+function bar(inputs: ConditionInputs, barsAgo: number): CandleData | undefined {
+  return inputs.candles[inputs.candles.length - 1 - barsAgo]
+}
+
+function barChange(inputs: ConditionInputs, barsAgo: number, percent: boolean): number | null {
+  const current = bar(inputs, barsAgo)
+  const previous = bar(inputs, barsAgo + 1)
+  if (!current || !previous || !(previous.close > 0)) return null
+  const change = current.close - previous.close
+  return percent ? (change / previous.close) * 100 : change
+}
+
+function averageVolume(candles: CandleData[], index: number, days: number): number | null {
+  const previous = candles.slice(Math.max(0, index - days), Math.max(0, index)).filter(c => c.volume > 0)
+  if (previous.length === 0) return null
+  return previous.reduce((sum, c) => sum + c.volume, 0) / previous.length
+}
+
+function closes(candles: CandleData[]): number[] {
+  return candles.map(c => c.close)
+}
+
+function hlc(candles: CandleData[]) {
+  return { high: candles.map(c => c.high), low: candles.map(c => c.low), close: closes(candles) }
+}
+
+function macd(candles: CandleData[], [fastPeriod, slowPeriod, signalPeriod]: number[]) {
+  return MACD.calculate({
+    values: closes(candles),
+    fastPeriod,
+    slowPeriod,
+    signalPeriod,
+    SimpleMAOscillator: false,
+    SimpleMASignal: false,
+  })
+}
+
+function bollinger(candles: CandleData[], [p, stdDev]: number[]) {
+  return BollingerBands.calculate({ values: closes(candles), period: p, stdDev })
+}
+
+// f over the n bars before each bar (the bar itself excluded, so a breakout can exceed it)
+function trailing(candles: CandleData[], n: number, f: (window: CandleData[]) => number): number[] {
+  const values: number[] = []
+  for (let i = n; i < candles.length; i++) values.push(f(candles.slice(i - n, i)))
+  return values
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,244 @@
+// Exchange Calendar
+// NSE/BSE trading days and derivative expiries in IST.
+// Holidays and special sessions come from data/holidays.json (no fs - safe to import from the UI)
+
+import holidayFile from '../data/holidays.json'
+import { toIST } from './candles'
+
+export type Exchange = 'NSE' | 'BSE'
+export type ExpiryKind = 'WEEKLY' | 'MONTHLY'
+
+export interface TradingHoliday {
+  date: string // YYYY-MM-DD
+  name: string
+  exchanges?: Exchange[] // both when omitted
+}
+
+// One-off sessions on otherwise closed days (Diwali Muhurat trading), HH:mm IST
+export interface SpecialSession {
+  date: string
+  name: string
+  open: string
+  close: string
+  exchanges?: Exchange[]
+}
+
+// Expiries fall on `weekday` (0 = Sunday); monthly contracts take the last one of the month
+export interface ExpiryRule {
+  exchange: Exchange
+  weekday: number
+  weekly: boolean // false = monthly contracts only
+}
+
+export interface ExpiryInfo {
+  date: string           // YYYY-MM-DD, after any holiday shift
+  kind: ExpiryKind
+  shiftedFrom?: string   // scheduled date when a holiday moved it earlier
+  daysToExpiry: number   // calendar days until the 15:30 IST close (fractional)
+  label: string          // 21 Oct 2025
+}
+
+const CLOSE_MINUTES_IST = 15 * 60 + 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// NSE moved every derivative expiry to Tuesday and BSE to Thursday (Sep 2025);
+// only NIFTY and SENSEX still list weekly contracts
+const INDEX_EXPIRY_RULES: Record<string, ExpiryRule> = {
+  NIFTY: { exchange: 'NSE', weekday: 2, weekly: true },
+  BANKNIFTY: { exchange: 'NSE', weekday: 2, weekly: false },
+  FINNIFTY: { exchange: 'NSE', weekday: 2, weekly: false },
+  MIDCPNIFTY: { exchange: 'NSE', weekday: 2, weekly: false },
+  NIFTYNXT50: { exchange: 'NSE', weekday: 2, weekly: false },
+  SENSEX: { exchange: 'BSE', weekday: 4, weekly: true },
+  BANKEX: { exchange: 'BSE', weekday: 4, weekly: false },
+}
+
+// Single-stock options: monthly, last Tuesday
+const STOCK_EXPIRY_RULE: ExpiryRule = { exchange: 'NSE', weekday: 2, weekly: false }
+
+const customRules: Record<string, ExpiryRule> = {}
+let holidays: TradingHoliday[] = (holidayFile as { holidays: TradingHoliday[] }).holidays
+let specialSessions: SpecialSession[] = (holidayFile as { specialSessions?: SpecialSession[] }).specialSessions || []
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+
+// Replace the holiday list (e.g. with next year's exchange circular)
+export function setTradingHolidays(next: TradingHoliday[]): void {
+  holidays = next
+}
+
+export function getTradingHolidays(exchange?: Exchange): TradingHoliday[] {
+  return exchange ? holidays.filter(h => appliesTo(h, exchange)) : holidays
+}
+
+export function setSpecialSessions(next: SpecialSession[]): void {
+  specialSessions = next
+}
+
+// Override the expiry rule for an underlying when an exchange changes its schedule
+export function setExpiryRule(symbol: string, rule: ExpiryRule): void {
+  customRules[symbol.toUpperCase()] = rule
+}
+
+export function getExpiryRule(symbol: string): ExpiryRule {
+  const key = symbol.toUpperCase()
+  return customRules[key] || INDEX_EXPIRY_RULES[key] || STOCK_EXPIRY_RULE
+}
+
+// ─── Trading Days ───────────────────────────────────────────────────────────
+
+export function getHoliday(dateKey: string, exchange: Exchange = 'NSE'): TradingHoliday | undefined {
+  return holidays.find(h => h.date === dateKey && appliesTo(h, exchange))
+}
+
+export function getSpecialSession(dateKey: string, exchange: Exchange = 'NSE'): SpecialSession | undefined {
+  return specialSessions.find(s => s.date === dateKey && appliesTo(s, exchange))
+}
+
+export function isTradingDay(dateKey: string, exchange: Exchange = 'NSE'): boolean {
+  const weekday = weekdayOf(dateKey)
+  return weekday !== 0 && weekday !== 6 && !getHoliday(dateKey, exchange)
+}
+
+export function previousTradingDay(dateKey: string, exchange: Exchange = 'NSE'): string {
+  let day = addDays(dateKey, -1)
+  while (!isTradingDay(day, exchange)) day = addDays(day, -1)
+  return day
+}
+
+export function nextTradingDay(dateKey: string, exchange: Exchange = 'NSE'): string {
+  let day = addDays(dateKey, 1)
+  while (!isTradingDay(day, exchange)) day = addDays(day, 1)
+  return day
+}
+
+// ─── Expiries ───────────────────────────────────────────────────────────────
+
+// Upcoming expiries for an underlying, nearest first. An expiry stays
+// "upcoming" until the 15:30 IST close on its day.
+export function getUpcomingExpiries(
+  symbol: string,
+  options: { from?: Date; count?: number; kind?: ExpiryKind } = {}
+): ExpiryInfo[] {
+  const from = options.from || new Date()
+  const count = options.count || 4
+  const rule = getExpiryRule(symbol)
+  const { date: today } = toIST(Math.floor(from.getTime() / 1000))
+
+  const expiries: ExpiryInfo[] = []
+  let [year, month] = today.split('-').map(Number)
+
+  // Walk month by month; 24 months is far more than any caller needs
+  for (let i = 0; i < 24 && expiries.length < count; i++) {
+    const monthly = lastWeekdayOfMonth(year, month, rule.weekday)
+    const scheduled = rule.weekly && options.kind !== 'MONTHLY'
+      ? weekdaysOfMonth(year, month, rule.weekday)
+      : [monthly]
+
+    scheduled.forEach(date => {
+      if (expiries.length >= count) return
+      const kind: ExpiryKind = date === monthly ? 'MONTHLY' : 'WEEKLY'
+      if (options.kind && options.kind !== kind) return
+
+      const info = buildExpiry(date, kind, rule.exchange, from)
+      if (info.date > today || (info.date === today && info.daysToExpiry > 0)) {
+        expiries.push(info)
+      }
+    })
+
+    month++
+    if (month > 12) {
+      month = 1
+      year++
+    }
+  }
+
+  return expiries
+}
+
+export function getNextExpiry(symbol: string, from: Date = new Date()): ExpiryInfo {
+  return getUpcomingExpiries(symbol, { from, count: 1 })[0]
+}
+
+export function getMonthlyExpiry(symbol: string, year: number, month: number): ExpiryInfo {
+  const rule = getExpiryRule(symbol)
+  return buildExpiry(lastWeekdayOfMonth(year, month, rule.weekday), 'MONTHLY', rule.exchange, new Date())
+}
+
+// Calendar days from `from` until the 15:30 IST close on an expiry date
+export function daysUntilClose(dateKey: string, from: Date = new Date()): number {
+  const [y, m, d] = dateKey.split('-').map(Number)
+  const closeUtc = Date.UTC(y, m - 1, d, 0, CLOSE_MINUTES_IST - 330)
+  return Math.max(0, (closeUtc - from.getTime()) / DAY_MS)
+}
+
+// NSE publishes expiries as 21-Oct-2025; also accepts YYYY-MM-DD
+export function parseExchangeDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+
+  const match = /^(\d{1,2})-([A-Za-z]{3})-(\d{4})$/.exec(value.trim())
+  if (!match) return null
+  const month = MONTHS.indexOf(match[2].toLowerCase()) + 1
+  if (month === 0) return null
+  return `${match[3]}-${pad(month)}-${pad(Number(match[1]))}`
+}
+
+export function formatExpiryLabel(dateKey: string): string {
+  const [y, m, d] = dateKey.split('-').map(Number)
+  return `${pad(d)} ${MONTH_LABELS[m - 1]} ${y}`
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function buildExpiry(scheduled: string, kind: ExpiryKind, exchange: Exchange, from: Date): ExpiryInfo {
+  // Holiday on expiry day - the contract expires on the previous trading day
+  const date = isTradingDay(scheduled, exchange) ? scheduled : previousTradingDay(scheduled, exchange)
+  return {
+    date,
+    kind,
+    ...(date !== scheduled ? { shiftedFrom: scheduled } : {}),
+    daysToExpiry: daysUntilClose(date, from),
+    label: formatExpiryLabel(date),
+  }
+}
+
+function appliesTo(entry: { exchanges?: Exchange[] }, exchange: Exchange): boolean {
+  return !entry.exchanges || entry.exchanges.includes(exchange)
+}
+
+function weekdaysOfMonth(year: number, month: number, weekday: number): string[] {
+  const first = new Date(Date.UTC(year, month - 1, 1))
+  const offset = (weekday - first.getUTCDay() + 7) % 7
+  const dates: string[] = []
+  for (let day = 1 + offset; day <= daysInMonth(year, month); day += 7) {
+    dates.push(`${year}-${pad(month)}-${pad(day)}`)
+  }
+  return dates
+}
+
+function lastWeekdayOfMonth(year: number, month: number, weekday: number): string {
+  const dates = weekdaysOfMonth(year, month, weekday)
+  return dates[dates.length - 1]
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function weekdayOf(dateKey: string): number {
+  const [y, m, d] = dateKey.split('-').map(Number)
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay()
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split('-').map(Number)
+  const date = new Date(Date.UTC(y, m - 1, d) + days * DAY_MS)
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : `${value}`
+}
@@ -0,0 +1,160 @@
+// Gamma Exposure (GEX)
+// Dealer gamma by strike from option chain OI and Black-Scholes gamma, the zero-gamma
+// flip level and the call/put walls. Assumes the usual dealer book: long the calls
+// customers sell, short the puts customers buy - so call gamma counts positive, put
+// gamma negative. Above the flip dealers damp moves; below it they chase them.
+
+import { calculateGreeks, DEFAULT_VOLATILITY, yearsFromDays } from './blackScholes'
+import type { ExpiryChain, OptionChainSnapshot } from './optionChainAnalysis'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface StrikeGamma {
+  strike: number
+  callGEX: number         // ₹ crore per 1% move in the underlying
+  putGEX: number          // negative
+  netGEX: number
+  callOI: number
+  putOI: number
+}
+
+export interface GammaExposure {
+  spotPrice: number
+  lotSize: number
+  expiries: string[]      // YYYY-MM-DD of the expiries summed
+  totalGEX: number        // ₹ crore per 1% move
+  regime: 'POSITIVE' | 'NEGATIVE'
+  zeroGammaLevel: number | null // spot where total GEX changes sign
+  callWall: number | null // strike with the most call gamma
+  putWall: number | null  // strike with the most put gamma
+  interpretation: string
+  profile: StrikeGamma[]  // strikes around spot, ascending
+}
+
+// Strikes each side of spot returned in `profile` (all strikes count towards totals)
+const PROFILE_STRIKES_EACH_SIDE = 15
+// How far either side of spot to search for the flip
+const FLIP_SEARCH_RANGE = 0.1
+const FLIP_SEARCH_STEPS = 200
+const CRORE = 1e7
+
+// ─── Calculation ────────────────────────────────────────────────────────────
+
+// NSE reports OI in contracts, so lotSize converts it to units of the underlying
+export function calculateGammaExposure(
+  snapshot: OptionChainSnapshot,
+  lotSize: number,
+  options: { maxExpiries?: number; strikesEachSide?: number } = {}
+): GammaExposure | null {
+  const expiries = snapshot.expiries.filter(e => e.daysToExpiry > 0).slice(0, options.maxExpiries ?? 3)
+  const { spotPrice } = snapshot
+  if (expiries.length === 0 || !(spotPrice > 0)) return null
+
+  const byStrike = strikeGamma(expiries, spotPrice, lotSize)
+  if (byStrike.length === 0) return null
+
+  const totalGEX = byStrike.reduce((sum, s) => sum + s.netGEX, 0)
+  const callWall = byStrike.reduce<StrikeGamma | null>((best, s) => (!best || s.callGEX > best.callGEX ? s : best), null)
+  const putWall = byStrike.reduce<StrikeGamma | null>((best, s) => (!best || s.putGEX < best.putGEX ? s : best), null)
+  const zeroGammaLevel = findZeroGamma(expiries, spotPrice, lotSize)
+
+  const eachSide = options.strikesEachSide ?? PROFILE_STRIKES_EACH_SIDE
+  const atmIndex = byStrike.reduce((best, s, i) =>
+    Math.abs(s.strike - spotPrice) < Math.abs(byStrike[best].strike - spotPrice) ? i : best, 0)
+
+  return {
+    spotPrice,
+    lotSize,
+    expiries: expiries.map(e => e.date),
+    totalGEX: round(totalGEX, 2),
+    regime: totalGEX >= 0 ? 'POSITIVE' : 'NEGATIVE',
+    zeroGammaLevel,
+    callWall: callWall && callWall.callGEX > 0 ? callWall.strike : null,
+    putWall: putWall && putWall.putGEX < 0 ? putWall.strike : null,
+    interpretation: interpret(totalGEX, spotPrice, zeroGammaLevel),
+    profile: byStrike
+      .slice(Math.max(0, atmIndex - eachSide), atmIndex + eachSide + 1)
+      .map(s => ({
+        ...s,
+        callGEX: round(s.callGEX, 2),
+        putGEX: round(s.putGEX, 2),
+        netGEX: round(s.netGEX, 2),
+      })),
+  }
+}
+
+// Per-strike GEX summed across expiries, with the chain's own IV per option
+function strikeGamma(expiries: ExpiryChain[], spot: number, lotSize: number): StrikeGamma[] {
+  const byStrike = new Map<number, StrikeGamma>()
+
+  expiries.forEach(expiry => {
+    const timeToExpiry = yearsFromDays(expiry.daysToExpiry)
+    expiry.strikes.forEach(entry => {
+      const current = byStrike.get(entry.strikePrice) ||
+        { strike: entry.strikePrice, callGEX: 0, putGEX: 0, netGEX: 0, callOI: 0, putOI: 0 }
+
+      if (entry.CE && entry.CE.openInterest > 0) {
+        current.callGEX += exposure(spot, entry.strikePrice, timeToExpiry, entry.CE.impliedVolatility, entry.CE.openInterest, lotSize)
+        current.callOI += entry.CE.openInterest
+      }
+      if (entry.PE && entry.PE.openInterest > 0) {
+        current.putGEX -= exposure(spot, entry.strikePrice, timeToExpiry, entry.PE.impliedVolatility, entry.PE.openInterest, lotSize)
+        current.putOI += entry.PE.openInterest
+      }
+      current.netGEX = current.callGEX + current.putGEX
+      byStrike.set(entry.strikePrice, current)
+    })
+  })
+
+  const strikes: StrikeGamma[] = []
+  byStrike.forEach(s => strikes.push(s))
+  return strikes.sort((a, b) => a.strike - b.strike)
+}
+
+// ₹ crore of delta dealers must trade for a 1% move: gamma × units × S² × 1%
+function exposure(spot: number, strike: number, timeToExpiry: number, iv: number, oi: number, lotSize: number): number {
+  const gamma = calculateGreeks({
+    spot,
+    strike,
+    timeToExpiry,
+    volatility: iv > 0 ? iv / 100 : DEFAULT_VOLATILITY,
+    optionType: 'CALL', // gamma is the same for calls and puts
+  }).gamma
+  return (gamma * oi * lotSize * spot * spot * 0.01) / CRORE
+}
+
+// Re-price total GEX at hypothetical spots and return the sign change nearest spot
+function findZeroGamma(expiries: ExpiryChain[], spot: number, lotSize: number): number | null {
+  const totalAt = (level: number) => strikeGamma(expiries, level, lotSize).reduce((sum, s) => sum + s.netGEX, 0)
+  const low = spot * (1 - FLIP_SEARCH_RANGE)
+  const step = (spot * 2 * FLIP_SEARCH_RANGE) / FLIP_SEARCH_STEPS
+
+  let best: number | null = null
+  let prevLevel = low
+  let prev = totalAt(low)
+  for (let i = 1; i <= FLIP_SEARCH_STEPS; i++) {
+    const level = low + step * i
+    const value = totalAt(level)
+    if ((prev <= 0 && value > 0) || (prev >= 0 && value < 0)) {
+      const flip = prevLevel + (step * -prev) / (value - prev)
+      if (best === null || Math.abs(flip - spot) < Math.abs(best - spot)) best = flip
+    }
+    prevLevel = level
+    prev = value
+  }
+  return best !== null ? round(best, 2) : null
+}
+
+function interpret(totalGEX: number, spot: number, zeroGammaLevel: number | null): string {
+  const flip = zeroGammaLevel !== null
+    ? ` Flip at ${Math.round(zeroGammaLevel)} (${(((zeroGammaLevel - spot) / spot) * 100).toFixed(1)}% from spot).`
+    : ''
+  return totalGEX >= 0
+    ? `🧲 Positive gamma - dealer hedging damps moves, expect mean reversion.${flip}`
+    : `⚡ Negative gamma - dealer hedging amplifies moves, expect trend and volatility.${flip}`
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,139 @@
+// Market Session
+// Where NSE/BSE are in the trading day, in Asia/Kolkata time regardless of the caller's clock.
+// Shared by /api/market-status, the dashboard, the scanner and refresh intervals
+
+import { toIST } from './candles'
+import { addDays, Exchange, getHoliday, getSpecialSession, isTradingDay } from './exchangeCalendar'
+
+export type MarketStatus = 'PRE_OPEN' | 'OPEN' | 'CLOSED' | 'HOLIDAY' | 'MUHURAT'
+
+export interface MarketSession {
+  status: MarketStatus
+  exchange: Exchange
+  isOpen: boolean         // continuous trading (OPEN or MUHURAT)
+  date: string            // IST trading date, YYYY-MM-DD
+  time: string            // IST wall clock, HH:mm
+  holiday?: string        // holiday name when status is HOLIDAY
+  session?: string        // special session name (Muhurat Trading)
+  nextOpen: string        // ISO +05:30 - next start of continuous trading
+  nextClose: string       // ISO +05:30 - close of the current or next session
+  lastClose: string | null // ISO +05:30 - most recent close before now
+}
+
+// NSE equity/F&O timings
+export const PRE_OPEN_MINUTES = 9 * 60
+export const OPEN_MINUTES = 9 * 60 + 15
+export const CLOSE_MINUTES = 15 * 60 + 30
+// Special sessions have a 15 minute pre-open of their own
+const SPECIAL_PRE_OPEN_MINUTES = 15
+
+// Far enough to cover any run of holidays and weekends
+const LOOKAHEAD_DAYS = 15
+
+interface DaySession {
+  date: string
+  preOpen: number
+  open: number
+  close: number
+  special?: string
+}
+
+export function getMarketSession(now: Date = new Date(), exchange: Exchange = 'NSE'): MarketSession {
+  const ist = toIST(Math.floor(now.getTime() / 1000))
+  const today = sessionOn(ist.date, exchange)
+  const minutes = ist.minutesOfDay
+
+  let status: MarketStatus = 'CLOSED'
+  if (today && minutes >= today.preOpen && minutes < today.open) {
+    status = 'PRE_OPEN'
+  } else if (today && minutes >= today.open && minutes < today.close) {
+    status = today.special ? 'MUHURAT' : 'OPEN'
+  } else if (!today || today.special) {
+    // A weekday with no regular session is an exchange holiday
+    const weekday = ist.dayOfWeek
+    if (weekday !== 0 && weekday !== 6 && getHoliday(ist.date, exchange)) status = 'HOLIDAY'
+  }
+
+  const isOpen = status === 'OPEN' || status === 'MUHURAT'
+  const upcoming = findSession(ist.date, exchange, 1, s => s.date > ist.date || minutes < s.open)
+  const closing = isOpen ? today : findSession(ist.date, exchange, 1, s => s.date > ist.date || minutes < s.close)
+  const previous = findSession(ist.date, exchange, -1, s => s.date < ist.date || minutes >= s.close)
+
+  return {
+    status,
+    exchange,
+    isOpen,
+    date: ist.date,
+    time: ist.time,
+    ...(status === 'HOLIDAY' ? { holiday: getHoliday(ist.date, exchange)?.name } : {}),
+    ...(today?.special && status !== 'CLOSED' && status !== 'HOLIDAY' ? { session: today.special } : {}),
+    nextOpen: upcoming ? toISO(upcoming.date, upcoming.open) : '',
+    nextClose: closing ? toISO(closing.date, closing.close) : '',
+    lastClose: previous ? toISO(previous.date, previous.close) : null,
+  }
+}
+
+export function isMarketOpen(now: Date = new Date(), exchange: Exchange = 'NSE'): boolean {
+  return getMarketSession(now, exchange).isOpen
+}
+
+// How often clients should poll market data in each state
+export function refreshIntervalFor(status: MarketStatus): number {
+  switch (status) {
+    case 'OPEN':
+    case 'MUHURAT':
+      return 60 * 1000
+    case 'PRE_OPEN':
+      return 30 * 1000
+    default:
+      return 10 * 60 * 1000
+  }
+}
+
+export function statusLabel(status: MarketStatus): string {
+  switch (status) {
+    case 'PRE_OPEN': return 'Pre-Open'
+    case 'OPEN': return 'Market Open'
+    case 'MUHURAT': return 'Muhurat Trading'
+    case 'HOLIDAY': return 'Market Holiday'
+    default: return 'Market Closed'
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+// Trading session on a date: the special session if one is scheduled, else the regular day
+function sessionOn(date: string, exchange: Exchange): DaySession | null {
+  const special = getSpecialSession(date, exchange)
+  if (special) {
+    const open = parseMinutes(special.open)
+    return { date, preOpen: open - SPECIAL_PRE_OPEN_MINUTES, open, close: parseMinutes(special.close), special: special.name }
+  }
+  if (!isTradingDay(date, exchange)) return null
+  return { date, preOpen: PRE_OPEN_MINUTES, open: OPEN_MINUTES, close: CLOSE_MINUTES }
+}
+
+// Nearest session from `date` walking forward (1) or back (-1) that satisfies `accept`
+function findSession(
+  date: string,
+  exchange: Exchange,
+  direction: 1 | -1,
+  accept: (session: DaySession) => boolean
+): DaySession | null {
+  for (let i = 0; i <= LOOKAHEAD_DAYS; i++) {
+    const session = sessionOn(addDays(date, i * direction), exchange)
+    if (session && accept(session)) return session
+  }
+  return null
+}
+
+function parseMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number)
+  return h * 60 + m
+}
+
+function toISO(date: string, minutes: number): string {
+  const h = Math.floor(minutes / 60)
+  const m = minutes % 60
+  return `${date}T${h < 10 ? '0' : ''}${h}:${m < 10 ? '0' : ''}${m}:00+05:30`
+}
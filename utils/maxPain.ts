@@ -0,0 +1,172 @@
+// Max Pain
+// The settlement price that costs option writers least, the writer payout curve behind it,
+// spot's distance from it as a signal, how it moves through the day, and how often
+// past expiries actually settled near it
+
+import type { OptionChainEntry } from './optionChainAnalysis'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+// Open interest at a strike - chain entries and stored StrikeSnapshots both fit
+export interface StrikeOI {
+  strike: number
+  callOI: number
+  putOI: number
+}
+
+export interface WriterPayout {
+  settlement: number      // hypothetical expiry price (each listed strike)
+  callPayout: number      // Σ max(0, settlement - K) × call OI
+  putPayout: number       // Σ max(0, K - settlement) × put OI
+  totalPayout: number
+}
+
+export interface MaxPainSignal {
+  maxPainStrike: number
+  distance: number        // max pain - spot, points
+  distancePercent: number
+  pull: 'UP' | 'DOWN' | 'NONE'
+  strength: 'STRONG' | 'MODERATE' | 'WEAK'
+  note: string
+}
+
+export interface MaxPainTimelinePoint {
+  time: string            // ISO
+  spotPrice: number
+  maxPainStrike: number
+  distancePercent: number
+}
+
+export interface ExpiryOutcome {
+  expiryDate: string      // YYYY-MM-DD
+  maxPainStrike: number   // at the first capture of expiry day
+  closingSpot: number     // at the last capture of expiry day
+}
+
+export interface PinStudy {
+  tolerancePercent: number
+  expiries: number
+  pinned: number          // closed within tolerance of max pain
+  pinRate: number | null  // % of expiries pinned
+  averageDistancePercent: number | null
+  outcomes: Array<ExpiryOutcome & { distancePercent: number; pinned: boolean }>
+}
+
+// Inside this distance spot is already "at" max pain
+const AT_MAX_PAIN_PERCENT = 0.25
+export const DEFAULT_PIN_TOLERANCE_PERCENT = 0.5
+
+// ─── Calculation ────────────────────────────────────────────────────────────
+
+export function toStrikeOI(entries: OptionChainEntry[]): StrikeOI[] {
+  return entries.map(e => ({
+    strike: e.strikePrice,
+    callOI: e.CE?.openInterest || 0,
+    putOI: e.PE?.openInterest || 0,
+  }))
+}
+
+// What writers pay out at each listed strike if the contract settles there
+export function writerPayoutCurve(strikes: StrikeOI[]): WriterPayout[] {
+  const sorted = strikes.slice().sort((a, b) => a.strike - b.strike)
+  return sorted.map(({ strike: settlement }) => {
+    let callPayout = 0
+    let putPayout = 0
+    sorted.forEach(s => {
+      callPayout += Math.max(0, settlement - s.strike) * s.callOI
+      putPayout += Math.max(0, s.strike - settlement) * s.putOI
+    })
+    return { settlement, callPayout, putPayout, totalPayout: callPayout + putPayout }
+  })
+}
+
+// Strike with the smallest writer payout; null for an empty chain
+export function calculateMaxPain(strikes: StrikeOI[]): number | null {
+  const curve = writerPayoutCurve(strikes.filter(s => s.callOI > 0 || s.putOI > 0))
+  if (curve.length === 0) return null
+  return curve.reduce((best, p) => (p.totalPayout < best.totalPayout ? p : best)).settlement
+}
+
+// Max pain pulls hardest in the last few sessions before expiry, and only while spot is
+// within reach of it - a strike 4% away on a weekly isn't a magnet
+export function maxPainSignal(spotPrice: number, maxPainStrike: number, daysToExpiry: number): MaxPainSignal {
+  const distance = maxPainStrike - spotPrice
+  const distancePercent = spotPrice > 0 ? Math.round((distance / spotPrice) * 10000) / 100 : 0
+  const away = Math.abs(distancePercent)
+
+  if (away <= AT_MAX_PAIN_PERCENT) {
+    return {
+      maxPainStrike,
+      distance,
+      distancePercent,
+      pull: 'NONE',
+      strength: daysToExpiry <= 2 ? 'STRONG' : 'MODERATE',
+      note: `Spot is at max pain ${maxPainStrike} - pinning likely into expiry`,
+    }
+  }
+
+  const pull = distance > 0 ? 'UP' : 'DOWN'
+  let strength: MaxPainSignal['strength'] = 'WEAK'
+  if (daysToExpiry <= 2 && away <= 1.5) strength = 'STRONG'
+  else if (daysToExpiry <= 7 && away <= 2.5) strength = 'MODERATE'
+
+  return {
+    maxPainStrike,
+    distance,
+    distancePercent,
+    pull,
+    strength,
+    note: `Max pain ${maxPainStrike} is ${away}% ${pull === 'UP' ? 'above' : 'below'} spot - ` +
+      `${strength.toLowerCase()} pull ${pull.toLowerCase()} with ${Math.ceil(daysToExpiry)}d to expiry`,
+  }
+}
+
+// ─── History ────────────────────────────────────────────────────────────────
+
+// Max pain at each capture of the day, oldest first
+export function maxPainTimeline(
+  captures: Array<{ capturedAt: Date | string; spotPrice: number; strikes: StrikeOI[] }>
+): MaxPainTimelinePoint[] {
+  const timeline: MaxPainTimelinePoint[] = []
+  captures.forEach(capture => {
+    const maxPainStrike = calculateMaxPain(capture.strikes)
+    if (maxPainStrike === null) return
+    timeline.push({
+      time: new Date(capture.capturedAt).toISOString(),
+      spotPrice: capture.spotPrice,
+      maxPainStrike,
+      distancePercent: capture.spotPrice > 0
+        ? Math.round(((maxPainStrike - capture.spotPrice) / capture.spotPrice) * 10000) / 100
+        : 0,
+    })
+  })
+  return timeline
+}
+
+// How often past expiries closed within `tolerancePercent` of that morning's max pain
+export function expiryPinStudy(
+  outcomes: ExpiryOutcome[],
+  tolerancePercent: number = DEFAULT_PIN_TOLERANCE_PERCENT
+): PinStudy {
+  const scored = outcomes
+    .filter(o => o.closingSpot > 0)
+    .map(o => {
+      const distancePercent = Math.round(((o.closingSpot - o.maxPainStrike) / o.closingSpot) * 10000) / 100
+      return { ...o, distancePercent, pinned: Math.abs(distancePercent) <= tolerancePercent }
+    })
+    .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate))
+
+  const pinned = scored.filter(o => o.pinned).length
+  const averageDistance = scored.length > 0
+    ? scored.reduce((sum, o) => sum + Math.abs(o.distancePercent), 0) / scored.length
+    : null
+
+  return {
+    tolerancePercent,
+    expiries: scored.length,
+    pinned,
+    pinRate: scored.length > 0 ? Math.round((pinned / scored.length) * 1000) / 10 : null,
+    averageDistancePercent: averageDistance !== null ? Math.round(averageDistance * 100) / 100 : null,
+    outcomes: scored,
+  }
+}
@@ -1,17 +1,10 @@
 // Multi-Timeframe Analysis Engine
 // Analyzes 6 timeframes (1m, 5m, 15m, 1H, 4H, 1D) for trend alignment and confluence
 
-import axios from 'axios'
 import { RSI, MACD, EMA } from 'technicalindicators'
-
-interface CandleData {
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-  timestamp: number
-}
+import { getMarketDataProvider, CandleInterval, CandleRange } from '../lib/marketData'
+import { getSymbolMaster } from '../lib/symbols'
+import { CandleData, toCandles, aggregateCandles } from './candles'
 
 interface TimeframeSignal {
   timeframe: '1m' | '5m' | '15m' | '1H' | '4H' | '1D'
@@ -112,7 +105,7 @@ export async function analyzeMultiTimeframe(symbol: string): Promise<MTFAnalysis
 
 // Fetch data for all timeframes
 async function fetchAllTimeframes(symbol: string): Promise<Record<string, CandleData[]>> {
-  const intervals = {
+  const intervals: Record<string, CandleInterval> = {
     '1m': '1m',
     '5m': '5m',
     '15m': '15m',
@@ -121,7 +114,7 @@ async function fetchAllTimeframes(symbol: string): Promise<Record<string, Candle
     '1D': '1d',
   }
 
-  const ranges = {
+  const ranges: Record<string, CandleRange> = {
     '1m': '1d',
     '5m': '5d',
     '15m': '5d',
@@ -130,34 +123,18 @@ async function fetchAllTimeframes(symbol: string): Promise<Record<string, Candle
     '1D': '1y',
   }
 
+  const provider = getMarketDataProvider()
   const data: Record<string, CandleData[]> = {}
 
   for (const [tf, interval] of Object.entries(intervals)) {
     try {
-      const range = ranges[tf as keyof typeof ranges]
-      const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}.NS?interval=${interval}&range=${range}`
-      
-      const response = await axios.get(url, {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        timeout: 10000,
-      })
-
-      const result = response.data.chart.result[0]
-      const timestamps = result.timestamp
-      const quote = result.indicators.quote[0]
-
-      let candles = timestamps.map((ts: number, idx: number) => ({
-        open: quote.open[idx] || 0,
-        high: quote.high[idx] || 0,
-        low: quote.low[idx] || 0,
-        close: quote.close[idx] || 0,
-        volume: quote.volume[idx] || 0,
-        timestamp: ts,
-      })).filter((c: CandleData) => c.close > 0)
+      const history = await provider.getCandles(getSymbolMaster().toYahoo(symbol), interval, ranges[tf], { timeout: 10000 })
+
+      let candles = toCandles(history)
 
       // Aggregate 1H to 4H if needed
       if (tf === '4H') {
-        candles = aggregateTo4H(candles)
+        candles = aggregateCandles(candles, 240)
       }
 
       data[tf] = candles
@@ -170,27 +147,6 @@ async function fetchAllTimeframes(symbol: string): Promise<Record<string, Candle
   return data
 }
 
-// Aggregate 1H candles to 4H
-function aggregateTo4H(candles: CandleData[]): CandleData[] {
-  const aggregated: CandleData[] = []
-  
-  for (let i = 0; i < candles.length; i += 4) {
-    const chunk = candles.slice(i, i + 4)
-    if (chunk.length === 0) continue
-
-    aggregated.push({
-      open: chunk[0].open,
-      high: Math.max(...chunk.map(c => c.high)),
-      low: Math.min(...chunk.map(c => c.low)),
-      close: chunk[chunk.length - 1].close,
-      volume: chunk.reduce((sum, c) => sum + c.volume, 0),
-      timestamp: chunk[0].timestamp,
-    })
-  }
-
-  return aggregated
-}
-
 // Analyze single timeframe
 function analyzeTimeframe(candles: CandleData[], timeframe: string): TimeframeSignal {
   if (candles.length < 20) {
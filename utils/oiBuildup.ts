@@ -0,0 +1,151 @@
+// OI Build-up Classification
+// Reads price and open interest changes together, per strike and side, over a time window:
+//   price ↑ OI ↑  long build-up      price ↓ OI ↑  short build-up
+//   price ↑ OI ↓  short covering     price ↓ OI ↓  long unwinding
+
+export type BuildupType =
+  | 'LONG_BUILDUP'
+  | 'SHORT_BUILDUP'
+  | 'SHORT_COVERING'
+  | 'LONG_UNWINDING'
+  | 'NEUTRAL'
+
+// One capture of a strike - the shape OptionChainHistoryService.toStrikeSeries produces
+export interface BuildupPoint {
+  time: Date | string
+  callOI: number
+  putOI: number
+  callLTP: number
+  putLTP: number
+}
+
+export interface SideBuildup {
+  type: BuildupType
+  oiChange: number
+  oiChangePercent: number
+  priceChange: number
+  priceChangePercent: number
+}
+
+export interface StrikeBuildup {
+  strike: number
+  windowMinutes: number
+  from: string // ISO time of the first capture used
+  to: string   // ISO time of the last capture used
+  call: SideBuildup
+  put: SideBuildup
+  interpretation: string
+}
+
+// Moves smaller than this are noise (bid/ask flicker, a few lots of OI)
+export const DEFAULT_BUILDUP_THRESHOLDS = {
+  oiChangePercent: 2,
+  priceChangePercent: 1,
+}
+
+export function classifyBuildup(
+  priceChangePercent: number,
+  oiChangePercent: number,
+  thresholds = DEFAULT_BUILDUP_THRESHOLDS
+): BuildupType {
+  const priceMove = Math.abs(priceChangePercent) >= thresholds.priceChangePercent ? Math.sign(priceChangePercent) : 0
+  const oiMove = Math.abs(oiChangePercent) >= thresholds.oiChangePercent ? Math.sign(oiChangePercent) : 0
+
+  if (priceMove === 0 || oiMove === 0) return 'NEUTRAL'
+  if (oiMove > 0) return priceMove > 0 ? 'LONG_BUILDUP' : 'SHORT_BUILDUP'
+  return priceMove > 0 ? 'SHORT_COVERING' : 'LONG_UNWINDING'
+}
+
+// Compare the latest capture with the one at (or just after) `windowMinutes` earlier.
+// Null when the series doesn't span two captures inside the window.
+export function analyzeStrikeBuildup(
+  strike: number,
+  points: BuildupPoint[],
+  windowMinutes: number,
+  thresholds = DEFAULT_BUILDUP_THRESHOLDS
+): StrikeBuildup | null {
+  if (points.length < 2) return null
+
+  const last = points[points.length - 1]
+  const cutoff = timeOf(last) - windowMinutes * 60 * 1000
+  const first = points.find(p => timeOf(p) >= cutoff)
+  if (!first || first === last) return null
+
+  const call = sideBuildup(first.callLTP, last.callLTP, first.callOI, last.callOI, thresholds)
+  const put = sideBuildup(first.putLTP, last.putLTP, first.putOI, last.putOI, thresholds)
+
+  return {
+    strike,
+    windowMinutes,
+    from: new Date(timeOf(first)).toISOString(),
+    to: new Date(timeOf(last)).toISOString(),
+    call,
+    put,
+    interpretation: interpret(call.type, put.type),
+  }
+}
+
+// Build-up for every strike over each window, e.g. [15, 60, 375] for 15m, 1h and the day
+export function analyzeBuildup(
+  series: Array<{ strike: number; points: BuildupPoint[] }>,
+  windows: number[],
+  thresholds = DEFAULT_BUILDUP_THRESHOLDS
+): Record<number, StrikeBuildup[]> {
+  const result: Record<number, StrikeBuildup[]> = {}
+  windows.forEach(windowMinutes => {
+    result[windowMinutes] = series
+      .map(s => analyzeStrikeBuildup(s.strike, s.points, windowMinutes, thresholds))
+      .filter((b): b is StrikeBuildup => b !== null)
+  })
+  return result
+}
+
+export function buildupLabel(type: BuildupType): string {
+  switch (type) {
+    case 'LONG_BUILDUP': return 'Long Build-up'
+    case 'SHORT_BUILDUP': return 'Short Build-up'
+    case 'SHORT_COVERING': return 'Short Covering'
+    case 'LONG_UNWINDING': return 'Long Unwinding'
+    default: return 'No Clear Build-up'
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function sideBuildup(
+  startPrice: number,
+  endPrice: number,
+  startOI: number,
+  endOI: number,
+  thresholds: typeof DEFAULT_BUILDUP_THRESHOLDS
+): SideBuildup {
+  const priceChange = endPrice - startPrice
+  const oiChange = endOI - startOI
+  const priceChangePercent = startPrice > 0 ? (priceChange / startPrice) * 100 : 0
+  const oiChangePercent = startOI > 0 ? (oiChange / startOI) * 100 : (endOI > 0 ? 100 : 0)
+
+  return {
+    type: classifyBuildup(priceChangePercent, oiChangePercent, thresholds),
+    oiChange,
+    oiChangePercent: Math.round(oiChangePercent * 100) / 100,
+    priceChange: Math.round(priceChange * 100) / 100,
+    priceChangePercent: Math.round(priceChangePercent * 100) / 100,
+  }
+}
+
+// What the two sides together say about the underlying at this strike
+function interpret(call: BuildupType, put: BuildupType): string {
+  if (call === 'SHORT_BUILDUP' && put === 'SHORT_BUILDUP') return '⚖️ Writers on both sides - range expected'
+  if (call === 'SHORT_BUILDUP') return '🔴 Call writing - resistance building'
+  if (put === 'SHORT_BUILDUP') return '🟢 Put writing - support building'
+  if (call === 'SHORT_COVERING') return '🚀 Call short covering - resistance giving way'
+  if (put === 'SHORT_COVERING') return '📉 Put short covering - support giving way'
+  if (call === 'LONG_BUILDUP') return '📈 Fresh call buying'
+  if (put === 'LONG_BUILDUP') return '📉 Fresh put buying'
+  if (call === 'LONG_UNWINDING' || put === 'LONG_UNWINDING') return '↩️ Longs exiting'
+  return '➖ No significant change'
+}
+
+function timeOf(point: BuildupPoint): number {
+  return new Date(point.time).getTime()
+}
@@ -1,15 +1,8 @@
 // Operator Game Detection - Identifies institutional manipulation patterns
 
-interface CandleData {
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-  date?: Date
-}
+import { CandleData } from './candles'
 
-interface OperatorSignal {
+export interface OperatorSignal {
   type: 'ACCUMULATION' | 'DISTRIBUTION' | 'BULL_TRAP' | 'BEAR_TRAP' | 'PUMP_DUMP' | 'BREAKOUT_FAKE' | 'SQUEEZE'
   confidence: 'HIGH' | 'MEDIUM' | 'LOW'
   action: 'BUY' | 'SELL' | 'AVOID' | 'WAIT'
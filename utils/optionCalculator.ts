@@ -1,5 +1,16 @@
 // Option Strike Price Calculator for Indian Markets
 
+import { getSymbolMaster } from '../lib/symbols'
+import {
+  calculateGreeks,
+  DEFAULT_VOLATILITY,
+  impliedVolatility,
+  OptionGreeks,
+  priceOption,
+  yearsFromDays,
+} from './blackScholes'
+import { getNextExpiry } from './exchangeCalendar'
+
 interface OptionRecommendation {
   strikePrice: number
   optionType: 'CALL' | 'PUT'
@@ -11,9 +22,12 @@ interface OptionRecommendation {
 }
 
 // Calculate ATM, ITM, OTM strikes
-export function calculateOptionStrikes(currentPrice: number, optionType: 'CALL' | 'PUT') {
-  // Round to nearest strike (Indian options are typically in multiples of 50 or 100)
-  const strikeInterval = currentPrice > 10000 ? 100 : 50
+export function calculateOptionStrikes(
+  currentPrice: number,
+  optionType: 'CALL' | 'PUT',
+  strikeInterval: number = currentPrice > 10000 ? 100 : 50
+) {
+  // Round to the nearest listed strike
   const atmStrike = Math.round(currentPrice / strikeInterval) * strikeInterval
   
   if (optionType === 'CALL') {
@@ -31,22 +45,22 @@ export function calculateOptionStrikes(currentPrice: number, optionType: 'CALL'
   }
 }
 
-// Estimate option premium (simplified calculation)
+// Theoretical premium from Black-Scholes, rounded to the ₹0.05 exchange tick
 export function estimateOptionPremium(
   currentPrice: number,
   strikePrice: number,
   optionType: 'CALL' | 'PUT',
-  daysToExpiry: number = 7
+  daysToExpiry: number = 7,
+  volatility: number = DEFAULT_VOLATILITY
 ): number {
-  const intrinsicValue = optionType === 'CALL' 
-    ? Math.max(0, currentPrice - strikePrice)
-    : Math.max(0, strikePrice - currentPrice)
-  
-  // Time value estimation (simplified)
-  const volatility = 0.20 // Assume 20% volatility
-  const timeValue = (currentPrice * volatility * Math.sqrt(daysToExpiry / 365)) / 2
-  
-  return Math.round(intrinsicValue + timeValue)
+  const premium = priceOption({
+    spot: currentPrice,
+    strike: strikePrice,
+    timeToExpiry: yearsFromDays(daysToExpiry),
+    volatility,
+    optionType,
+  })
+  return roundToTick(premium)
 }
 
 // Generate option recommendation
@@ -55,18 +69,29 @@ export function generateOptionRecommendation(
   currentPrice: number,
   action: 'BUY' | 'SELL',
   targetPercent: number,
-  stopLossPercent: number
+  stopLossPercent: number,
+  pricing: { daysToExpiry?: number; volatility?: number } = {}
 ): OptionRecommendation {
   const optionType = action === 'BUY' ? 'CALL' : 'PUT'
-  const strikes = calculateOptionStrikes(currentPrice, optionType)
+  const strikes = calculateOptionStrikes(
+    currentPrice,
+    optionType,
+    getSymbolMaster().strikeInterval(symbol, currentPrice)
+  )
   
   // Use ATM strike for recommendations
   const strikePrice = strikes.atm
-  const premium = estimateOptionPremium(currentPrice, strikePrice, optionType)
+  const premium = estimateOptionPremium(
+    currentPrice,
+    strikePrice,
+    optionType,
+    pricing.daysToExpiry ?? getNextExpiry(symbol).daysToExpiry,
+    pricing.volatility
+  )
   
-  const breakeven = optionType === 'CALL' 
+  const breakeven = round(optionType === 'CALL' 
     ? strikePrice + premium 
-    : strikePrice - premium
+    : strikePrice - premium, 2)
   
   const maxLoss = premium
   
@@ -94,53 +119,62 @@ export function generateOptionRecommendation(
   }
 }
 
-// Calculate option Greeks (simplified)
+// Black-Scholes Greeks: theta per day, vega per vol point, rho per 1% rate
 export function calculateOptionGreeks(
   currentPrice: number,
   strikePrice: number,
   optionType: 'CALL' | 'PUT',
-  daysToExpiry: number = 7
-) {
-  // Simplified Delta calculation
-  const moneyness = optionType === 'CALL' 
-    ? (currentPrice - strikePrice) / currentPrice
-    : (strikePrice - currentPrice) / currentPrice
-  
-  const delta = optionType === 'CALL'
-    ? Math.min(0.9, Math.max(0.1, 0.5 + moneyness))
-    : Math.min(0.9, Math.max(0.1, 0.5 - moneyness))
-  
-  // Simplified Theta (time decay per day)
-  const theta = -(currentPrice * 0.20 * Math.sqrt(1 / 365)) / (2 * Math.sqrt(daysToExpiry / 365))
-  
+  daysToExpiry: number = 7,
+  volatility: number = DEFAULT_VOLATILITY
+): OptionGreeks {
+  const greeks = calculateGreeks({
+    spot: currentPrice,
+    strike: strikePrice,
+    timeToExpiry: yearsFromDays(daysToExpiry),
+    volatility,
+    optionType,
+  })
+
   return {
-    delta: delta.toFixed(2),
-    theta: theta.toFixed(2),
-    gamma: '0.05', // Simplified
-    vega: '0.15'   // Simplified
+    delta: round(greeks.delta, 4),
+    gamma: round(greeks.gamma, 6),
+    theta: round(greeks.theta, 2),
+    vega: round(greeks.vega, 2),
+    rho: round(greeks.rho, 2),
   }
 }
 
-// Generate weekly expiry date (Thursday)
-export function getNextExpiryDate(): string {
-  const today = new Date()
-  const dayOfWeek = today.getDay()
-  const daysUntilThursday = (4 - dayOfWeek + 7) % 7 || 7
-  
-  const expiryDate = new Date(today)
-  expiryDate.setDate(today.getDate() + daysUntilThursday)
-  
-  return expiryDate.toLocaleDateString('en-IN', { 
-    day: '2-digit', 
-    month: 'short', 
-    year: 'numeric' 
+// Volatility implied by a traded premium (annualised, 0.18 = 18%); null if the premium is off-market
+export function calculateImpliedVolatility(
+  premium: number,
+  currentPrice: number,
+  strikePrice: number,
+  optionType: 'CALL' | 'PUT',
+  daysToExpiry: number
+): number | null {
+  return impliedVolatility(premium, {
+    spot: currentPrice,
+    strike: strikePrice,
+    timeToExpiry: yearsFromDays(daysToExpiry),
+    optionType,
   })
 }
 
-// Calculate days to expiry
-export function getDaysToExpiry(): number {
-  const today = new Date()
-  const dayOfWeek = today.getDay()
-  const daysUntilThursday = (4 - dayOfWeek + 7) % 7 || 7
-  return daysUntilThursday
+function roundToTick(price: number, tick: number = 0.05): number {
+  return round(Math.round(price / tick) * tick, 2)
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+// Next expiry for an underlying, from the exchange calendar (dd MMM yyyy)
+export function getNextExpiryDate(symbol: string = 'NIFTY'): string {
+  return getNextExpiry(symbol).label
+}
+
+// Calendar days until the next expiry closes (fractional)
+export function getDaysToExpiry(symbol: string = 'NIFTY'): number {
+  return getNextExpiry(symbol).daysToExpiry
 }
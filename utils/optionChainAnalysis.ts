@@ -1,10 +1,23 @@
 // Option Chain Analysis for NIFTY, BANKNIFTY, SENSEX
-// Fetches live option chain data from NSE and analyzes PCR, OI, Max Pain, IV
+// Fetches live option chain data and analyzes PCR, OI, Max Pain, IV
 
-import axios from 'axios'
+import { getMarketDataProvider } from '../lib/marketData'
+import { getSymbolMaster } from '../lib/symbols'
+import { daysUntilClose, ExpiryKind, formatExpiryLabel, getNextExpiry, parseExchangeDate } from './exchangeCalendar'
+import { estimateOptionPremium } from './optionCalculator'
+import { calculateGammaExposure, GammaExposure } from './gammaExposure'
+import { calculateMaxPain, MaxPainSignal, maxPainSignal, toStrikeOI } from './maxPain'
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
+// LIVE      - chain fetched within LIVE_MAX_AGE_SECONDS
+// CACHED    - real chain, but older (cache, scanner snapshot)
+// ESTIMATED - no chain; PCR, IV and OI levels are guessed from price momentum
+export type DataSource = 'LIVE' | 'CACHED' | 'ESTIMATED'
+
+// NSE republishes the chain about every 3 minutes
+export const LIVE_MAX_AGE_SECONDS = 180
+
 export interface OptionData {
   strikePrice: number
   expiryDate: string
@@ -24,12 +37,54 @@ export interface OptionChainEntry {
   PE?: OptionData
 }
 
+// One expiry's strikes within a chain snapshot
+export interface ExpiryChain {
+  expiryDate: string             // As the exchange lists it (21-Oct-2025)
+  date: string                   // YYYY-MM-DD
+  kind: ExpiryKind               // MONTHLY = last listed expiry of its month
+  daysToExpiry: number           // Calendar days to the 15:30 IST close
+  strikes: OptionChainEntry[]    // Ascending by strike
+}
+
+export interface OptionChainSnapshot {
+  symbol: string
+  spotPrice: number
+  timestamp: string
+  expiries: ExpiryChain[]        // Nearest first; contracts past their close are dropped
+}
+
+// NEAREST = current weekly (or monthly), NEXT = the one after it,
+// MONTHLY = nearest monthly contract; anything else is an expiry date
+// (21-Oct-2025 or 2025-10-21)
+export type ExpirySelector = 'NEAREST' | 'NEXT' | 'MONTHLY' | string
+
+export interface ExpiryComparison {
+  expiryDate: string
+  kind: ExpiryKind
+  daysToExpiry: number
+  pcr: number
+  maxPainStrike: number
+  callOITotal: number
+  putOITotal: number
+  highestCallOIStrike: number
+  highestPutOIStrike: number
+  avgCallIV: number
+  avgPutIV: number
+}
+
 export interface OptionChainAnalysis {
   symbol: string
+  source: DataSource
+  asOf: string                   // ISO time of the chain (or the estimate)
+  dataAge: number                // Seconds between asOf and when the analysis was produced/served
   spotPrice: number
+  expiryDate: string             // Expiry the chain was read for (dd MMM yyyy)
+  expiryKind: ExpiryKind
+  daysToExpiry: number           // Calendar days to the 15:30 IST close
   pcr: number                    // Put-Call Ratio
   pcrInterpretation: string
   maxPainStrike: number          // Strike where max sellers profit
+  maxPainSignal: MaxPainSignal   // Spot's distance from max pain and how hard it pulls
   highestCallOIStrike: number    // Resistance from OI
   highestPutOIStrike: number     // Support from OI
   callOITotal: number
@@ -39,6 +94,7 @@ export interface OptionChainAnalysis {
   avgCallIV: number              // Average Call IV
   avgPutIV: number               // Average Put IV
   ivSkew: string                 // IV skew interpretation
+  gammaExposure: GammaExposure | null // Dealer gamma across the nearest expiries (null when estimated)
   recommendation: OptionChainRecommendation
   topStrikes: StrikeAnalysis[]   // Top strikes by OI
 }
@@ -63,120 +119,110 @@ export interface StrikeAnalysis {
   interpretation: string
 }
 
-// ─── NSE Session Manager ────────────────────────────────────────────────────
-
-let nseCookies: string = ''
-let lastCookieTime: number = 0
-const COOKIE_EXPIRY = 5 * 60 * 1000 // 5 minutes
-
-async function getNSESession(): Promise<string> {
-  const now = Date.now()
-  if (nseCookies && (now - lastCookieTime) < COOKIE_EXPIRY) {
-    return nseCookies
-  }
+// ─── Fetch Option Chain ─────────────────────────────────────────────────────
 
+export async function fetchOptionChain(symbol: string): Promise<OptionChainSnapshot | null> {
   try {
-    const response = await axios.get('https://www.nseindia.com', {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Connection': 'keep-alive',
-      },
-      timeout: 10000,
-      maxRedirects: 5,
-    })
-
-    const setCookieHeaders = response.headers['set-cookie']
-    if (setCookieHeaders) {
-      nseCookies = setCookieHeaders.map((c: string) => c.split(';')[0]).join('; ')
-      lastCookieTime = now
+    const chain = await getMarketDataProvider().getOptionChain(symbol)
+    if (!chain) return null
+
+    const fetchedAt = new Date(chain.timestamp)
+    const now = isNaN(fetchedAt.getTime()) ? new Date() : fetchedAt
+    const expiries = chain.expiryDates
+      .map(expiryDate => ({ expiryDate, date: parseExchangeDate(expiryDate) }))
+      .filter((e): e is { expiryDate: string; date: string } => e.date !== null)
+      // On expiry afternoon the feed still lists today's contracts first
+      .filter(e => daysUntilClose(e.date, now) > 0)
+      .sort((a, b) => a.date.localeCompare(b.date))
+
+    const snapshot: OptionChainSnapshot = {
+      symbol,
+      spotPrice: chain.spotPrice,
+      timestamp: chain.timestamp,
+      expiries: expiries.map((e, idx) => {
+        const following = expiries[idx + 1]
+        return {
+          expiryDate: e.expiryDate,
+          date: e.date,
+          kind: !following || following.date.slice(0, 7) !== e.date.slice(0, 7) ? 'MONTHLY' : 'WEEKLY',
+          daysToExpiry: daysUntilClose(e.date, now),
+          strikes: chain.entries
+            .filter(entry => entry.expiryDate === e.expiryDate)
+            .sort((a, b) => a.strikePrice - b.strikePrice),
+        }
+      }),
     }
-    return nseCookies
+
+    return snapshot.expiries.length > 0 ? snapshot : null
   } catch (error) {
-    console.log('Failed to get NSE session:', error)
-    return ''
+    console.log(`Failed to fetch option chain for ${symbol}:`, error)
+    return null
   }
 }
 
-// ─── Fetch Option Chain from NSE ────────────────────────────────────────────
+export function selectExpiry(snapshot: OptionChainSnapshot, selector: ExpirySelector = 'NEAREST'): ExpiryChain | null {
+  const { expiries } = snapshot
+  switch (selector) {
+    case 'NEAREST':
+      return expiries[0] || null
+    case 'NEXT':
+      return expiries[1] || null
+    case 'MONTHLY':
+      return expiries.find(e => e.kind === 'MONTHLY') || null
+    default: {
+      const date = parseExchangeDate(selector)
+      return expiries.find(e => e.date === date) || null
+    }
+  }
+}
 
-export async function fetchOptionChain(symbol: string): Promise<OptionChainEntry[] | null> {
-  try {
-    const cookies = await getNSESession()
-    if (!cookies) return null
-
-    // NSE uses NIFTY, BANKNIFTY for indices
-    const nseSymbol = symbol === 'SENSEX' ? 'SENSEX' : symbol
-    const apiUrl = symbol === 'SENSEX'
-      ? `https://www.nseindia.com/api/option-chain-indices?symbol=SENSEX`
-      : `https://www.nseindia.com/api/option-chain-indices?symbol=${nseSymbol}`
-
-    const response = await axios.get(apiUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'application/json',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Referer': 'https://www.nseindia.com/option-chain',
-        'Cookie': cookies,
-      },
-      timeout: 15000,
+// PCR, max pain and OI walls side by side for several expiries (current weekly
+// vs next weekly vs monthly). Selectors that resolve to the same expiry appear once.
+export function compareExpiries(
+  snapshot: OptionChainSnapshot,
+  selectors: ExpirySelector[] = ['NEAREST', 'NEXT', 'MONTHLY']
+): ExpiryComparison[] {
+  const seen: string[] = []
+  const comparisons: ExpiryComparison[] = []
+
+  selectors.forEach(selector => {
+    const expiry = selectExpiry(snapshot, selector)
+    if (!expiry || seen.includes(expiry.date)) return
+    seen.push(expiry.date)
+
+    const analysis = analyzeOptionChain(snapshot, expiry.date)
+    if (!analysis) return
+    comparisons.push({
+      expiryDate: analysis.expiryDate,
+      kind: expiry.kind,
+      daysToExpiry: expiry.daysToExpiry,
+      pcr: analysis.pcr,
+      maxPainStrike: analysis.maxPainStrike,
+      callOITotal: analysis.callOITotal,
+      putOITotal: analysis.putOITotal,
+      highestCallOIStrike: analysis.highestCallOIStrike,
+      highestPutOIStrike: analysis.highestPutOIStrike,
+      avgCallIV: analysis.avgCallIV,
+      avgPutIV: analysis.avgPutIV,
     })
+  })
 
-    const data = response.data
-    if (!data || !data.records || !data.records.data) return null
-
-    const spotPrice = data.records.underlyingValue || 0
-    const entries: OptionChainEntry[] = data.records.data
-      .filter((row: any) => row.expiryDate === data.records.expiryDates[0]) // nearest expiry
-      .map((row: any) => ({
-        strikePrice: row.strikePrice,
-        expiryDate: row.expiryDate,
-        CE: row.CE ? {
-          strikePrice: row.strikePrice,
-          expiryDate: row.expiryDate,
-          openInterest: row.CE.openInterest || 0,
-          changeinOpenInterest: row.CE.changeinOpenInterest || 0,
-          totalTradedVolume: row.CE.totalTradedVolume || 0,
-          impliedVolatility: row.CE.impliedVolatility || 0,
-          lastPrice: row.CE.lastPrice || 0,
-          bidPrice: row.CE.bidprice || 0,
-          askPrice: row.CE.askPrice || 0,
-        } : undefined,
-        PE: row.PE ? {
-          strikePrice: row.strikePrice,
-          expiryDate: row.expiryDate,
-          openInterest: row.PE.openInterest || 0,
-          changeinOpenInterest: row.PE.changeinOpenInterest || 0,
-          totalTradedVolume: row.PE.totalTradedVolume || 0,
-          impliedVolatility: row.PE.impliedVolatility || 0,
-          lastPrice: row.PE.lastPrice || 0,
-          bidPrice: row.PE.bidprice || 0,
-          askPrice: row.PE.askPrice || 0,
-        } : undefined,
-      }))
-
-    // Attach spotPrice to the result for later use
-    ;(entries as any).__spotPrice = spotPrice
-
-    return entries
-  } catch (error) {
-    console.log(`Failed to fetch option chain for ${symbol}:`, error)
-    return null
-  }
+  return comparisons.sort((a, b) => a.daysToExpiry - b.daysToExpiry)
 }
 
 // ─── Analyze Option Chain ───────────────────────────────────────────────────
 
+// Analyse one expiry of a snapshot; null when the selector matches no listed expiry
 export function analyzeOptionChain(
-  symbol: string,
-  entries: OptionChainEntry[],
-  spotPrice: number
-): OptionChainAnalysis {
+  snapshot: OptionChainSnapshot,
+  expirySelector: ExpirySelector = 'NEAREST'
+): OptionChainAnalysis | null {
+  const expiry = selectExpiry(snapshot, expirySelector)
+  const { symbol, spotPrice } = snapshot
+
   // Filter strikes near ATM (±10 strikes around spot price)
-  const sortedEntries = entries
-    .filter(e => e.CE || e.PE)
-    .sort((a, b) => a.strikePrice - b.strikePrice)
+  const sortedEntries = expiry ? expiry.strikes.filter(e => e.CE || e.PE) : []
+  if (!expiry || sortedEntries.length === 0) return null
 
   // Find ATM strike
   const atmStrike = sortedEntries.reduce((closest, entry) =>
@@ -232,7 +278,7 @@ export function analyzeOptionChain(
   else pcrInterpretation = 'Very Bearish - Heavy call writing indicates strong resistance'
 
   // ─── Max Pain ───
-  const maxPainStrike = calculateMaxPain(sortedEntries, spotPrice)
+  const maxPainStrike = calculateMaxPain(toStrikeOI(sortedEntries)) ?? spotPrice
 
   // ─── Highest OI Strikes (Support/Resistance) ───
   let highestCallOI = 0
@@ -270,10 +316,15 @@ export function analyzeOptionChain(
 
   return {
     symbol,
+    ...provenance(snapshot.timestamp),
     spotPrice,
+    expiryDate: formatExpiryLabel(expiry.date),
+    expiryKind: expiry.kind,
+    daysToExpiry: expiry.daysToExpiry,
     pcr: Math.round(pcr * 100) / 100,
     pcrInterpretation,
     maxPainStrike,
+    maxPainSignal: maxPainSignal(spotPrice, maxPainStrike, expiry.daysToExpiry),
     highestCallOIStrike,
     highestPutOIStrike,
     callOITotal,
@@ -283,40 +334,12 @@ export function analyzeOptionChain(
     avgCallIV: Math.round(avgCallIV * 100) / 100,
     avgPutIV: Math.round(avgPutIV * 100) / 100,
     ivSkew,
+    gammaExposure: calculateGammaExposure(snapshot, getSymbolMaster().lotSize(symbol) || 1),
     recommendation,
     topStrikes,
   }
 }
 
-// ─── Max Pain Calculation ───────────────────────────────────────────────────
-
-function calculateMaxPain(entries: OptionChainEntry[], spotPrice: number): number {
-  let minPain = Infinity
-  let maxPainStrike = spotPrice
-
-  entries.forEach(entry => {
-    let totalPain = 0
-
-    entries.forEach(other => {
-      // Call pain: max(0, strike - expiry_price) * OI
-      if (other.CE) {
-        totalPain += Math.max(0, entry.strikePrice - other.strikePrice) * other.CE.openInterest
-      }
-      // Put pain: max(0, expiry_price - strike) * OI
-      if (other.PE) {
-        totalPain += Math.max(0, other.strikePrice - entry.strikePrice) * other.PE.openInterest
-      }
-    })
-
-    if (totalPain < minPain) {
-      minPain = totalPain
-      maxPainStrike = entry.strikePrice
-    }
-  })
-
-  return maxPainStrike
-}
-
 // ─── Top Strikes by OI ─────────────────────────────────────────────────────
 
 function getTopStrikes(entries: OptionChainEntry[], spotPrice: number): StrikeAnalysis[] {
@@ -439,7 +462,7 @@ function generateOptionRecommendation(
   const netScore = bullishScore - bearishScore
 
   // Determine strike price for recommendation
-  const strikeStep = symbol === 'BANKNIFTY' ? 100 : symbol === 'SENSEX' ? 100 : 50
+  const strikeStep = getSymbolMaster().strikeInterval(symbol, spotPrice)
   const atmStrike = Math.round(spotPrice / strikeStep) * strikeStep
 
   if (netScore >= 3) {
@@ -499,7 +522,7 @@ export function generateFallbackAnalysis(
   rsi?: number
 ): OptionChainAnalysis {
   // Simulate basic option chain analysis from price movement + RSI
-  const strikeStep = symbol === 'BANKNIFTY' ? 100 : symbol === 'SENSEX' ? 100 : 50
+  const strikeStep = getSymbolMaster().strikeInterval(symbol, spotPrice)
   const atmStrike = Math.round(spotPrice / strikeStep) * strikeStep
 
   const isBullish = changePercent > 0.3
@@ -566,13 +589,28 @@ export function generateFallbackAnalysis(
     )
   }
 
-  const estimatedPremium = spotPrice * 0.005
+  // Price the ATM option with Black-Scholes at the fallback IV (15%) to the real expiry
+  const expiry = getNextExpiry(symbol)
+  const estimatedPremium = estimateOptionPremium(
+    spotPrice,
+    atmStrike,
+    type === 'PUT' ? 'PUT' : 'CALL',
+    expiry.daysToExpiry,
+    0.15
+  )
   return {
     symbol,
+    source: 'ESTIMATED',
+    asOf: new Date().toISOString(),
+    dataAge: 0,
     spotPrice,
+    expiryDate: expiry.label,
+    expiryKind: expiry.kind,
+    daysToExpiry: expiry.daysToExpiry,
     pcr: Math.round(pcr * 100) / 100,
     pcrInterpretation: pcr > 1.0 ? 'Bullish - Put support building' : 'Bearish - Call resistance building',
     maxPainStrike: maxPain,
+    maxPainSignal: maxPainSignal(spotPrice, maxPain, expiry.daysToExpiry),
     highestCallOIStrike: resistanceStrike,
     highestPutOIStrike: supportStrike,
     callOITotal: 0,
@@ -582,6 +620,7 @@ export function generateFallbackAnalysis(
     avgCallIV: 15,
     avgPutIV: 16,
     ivSkew: 'Estimated - Live data unavailable',
+    gammaExposure: null,
     recommendation: {
       action,
       confidence,
@@ -621,22 +660,67 @@ export async function getOptionChainAnalysis(
   symbol: string,
   spotPrice: number,
   changePercent: number,
-  rsi?: number
+  rsi?: number,
+  expiry: ExpirySelector = 'NEAREST'
 ): Promise<OptionChainAnalysis> {
+  let snapshot: OptionChainSnapshot | null = null
   try {
-    const entries = await fetchOptionChain(symbol)
-    if (entries && entries.length > 0) {
-      const actualSpot = (entries as any).__spotPrice || spotPrice
-      return analyzeOptionChain(symbol, entries, actualSpot)
-    }
+    snapshot = await fetchOptionChain(symbol)
   } catch (error) {
     console.log(`Option chain fetch failed for ${symbol}, using fallback`)
   }
+  return buildOptionChainAnalysis(symbol, snapshot, spotPrice, changePercent, rsi, expiry)
+}
+
+// Analysis for an already-fetched snapshot, falling back to the price-based
+// estimate when there is no snapshot or no matching expiry
+export function buildOptionChainAnalysis(
+  symbol: string,
+  snapshot: OptionChainSnapshot | null,
+  spotPrice: number,
+  changePercent: number,
+  rsi?: number,
+  expiry: ExpirySelector = 'NEAREST'
+): OptionChainAnalysis {
+  if (snapshot) {
+    const analysis = analyzeOptionChain(
+      snapshot.spotPrice > 0 ? snapshot : { ...snapshot, spotPrice },
+      expiry
+    )
+    if (analysis) return analysis
+  }
 
   // Fallback to price-based analysis
   return generateFallbackAnalysis(symbol, spotPrice, changePercent, rsi)
 }
 
+// ─── Provenance ─────────────────────────────────────────────────────────────
+
+// Recompute age when a stored analysis is served later; LIVE becomes CACHED once old
+export function refreshDataAge<T extends Pick<OptionChainAnalysis, 'source' | 'asOf' | 'dataAge'>>(
+  analysis: T,
+  now: Date = new Date()
+): T {
+  if (analysis.source === 'ESTIMATED' || !analysis.asOf) return analysis
+  return { ...analysis, ...provenance(analysis.asOf, now) }
+}
+
+export function isEstimated(analysis: Pick<OptionChainAnalysis, 'source'> | null | undefined): boolean {
+  return !analysis || analysis.source === 'ESTIMATED'
+}
+
+function provenance(timestamp: string, now: Date = new Date()): Pick<OptionChainAnalysis, 'source' | 'asOf' | 'dataAge'> {
+  const fetchedAt = new Date(timestamp)
+  const dataAge = isNaN(fetchedAt.getTime())
+    ? 0
+    : Math.max(0, Math.round((now.getTime() - fetchedAt.getTime()) / 1000))
+  return {
+    source: dataAge <= LIVE_MAX_AGE_SECONDS ? 'LIVE' : 'CACHED',
+    asOf: isNaN(fetchedAt.getTime()) ? now.toISOString() : fetchedAt.toISOString(),
+    dataAge,
+  }
+}
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
 function formatOI(oi: number): string {
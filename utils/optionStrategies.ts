@@ -0,0 +1,467 @@
+// Option Strategy Builder
+// Multi-leg strategies priced from the live chain (Black-Scholes where a strike has no trade),
+// with payoff at expiry and at T+n, breakevens, max profit/loss, net Greeks and a margin estimate
+
+import {
+  calculateGreeks,
+  DEFAULT_VOLATILITY,
+  impliedVolatility,
+  OptionGreeks,
+  OptionType,
+  priceOption,
+  yearsFromDays,
+} from './blackScholes'
+import type { OptionChainEntry } from './optionChainAnalysis'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StrategyName =
+  | 'LONG_CALL'
+  | 'LONG_PUT'
+  | 'BULL_CALL_SPREAD'
+  | 'BULL_PUT_SPREAD'
+  | 'BEAR_PUT_SPREAD'
+  | 'BEAR_CALL_SPREAD'
+  | 'LONG_STRADDLE'
+  | 'SHORT_STRADDLE'
+  | 'LONG_STRANGLE'
+  | 'SHORT_STRANGLE'
+  | 'IRON_CONDOR'
+  | 'IRON_BUTTERFLY'
+  | 'LONG_CALL_BUTTERFLY'
+  | 'LONG_PUT_BUTTERFLY'
+  | 'CALL_RATIO_SPREAD'
+  | 'PUT_RATIO_SPREAD'
+  | 'CALL_CALENDAR'
+  | 'PUT_CALENDAR'
+
+export type StrategyView = 'BULLISH' | 'BEARISH' | 'NEUTRAL' | 'VOLATILE'
+export type LegSide = 'BUY' | 'SELL'
+
+export interface StrategyLeg {
+  optionType: OptionType
+  side: LegSide
+  strike: number
+  expiryDate: string      // YYYY-MM-DD
+  daysToExpiry: number
+  lots: number
+  premium: number         // per unit
+  volatility: number      // annualised, used for T+n and Greeks
+  premiumSource: 'CHAIN' | 'MODEL'
+}
+
+// What the builder needs to know about the underlying
+export interface StrategyMarket {
+  symbol: string
+  spotPrice: number
+  lotSize: number
+  strikeInterval: number
+  volatility: number      // used where the chain has no IV for a strike
+  expiries: Array<{
+    date: string          // YYYY-MM-DD
+    daysToExpiry: number
+    strikes?: OptionChainEntry[]
+  }>
+}
+
+export interface BuildOptions {
+  width?: number          // strikes between the body and the wings (default 2)
+  wingWidth?: number      // extra strikes out to the protective wings (iron condor, default = width)
+  lots?: number
+  expiryIndex?: number    // which listed expiry to trade (0 = nearest)
+}
+
+export interface PayoffPoint {
+  spot: number
+  atExpiry: number        // ₹ for the whole position at the first leg's expiry
+  atTarget: number        // ₹ at T+n (Black-Scholes for unexpired legs)
+}
+
+export interface MarginEstimate {
+  required: number
+  premiumPaid: number     // net debit (0 for credit strategies)
+  method: 'PREMIUM' | 'DEFINED_RISK' | 'NAKED'
+}
+
+export interface StrategyAnalysis {
+  name: StrategyName | 'CUSTOM'
+  label: string
+  view: StrategyView | 'CUSTOM'
+  symbol: string
+  spotPrice: number
+  lotSize: number
+  legs: StrategyLeg[]
+  netPremium: number        // ₹ for the position; positive = debit paid, negative = credit received
+  maxProfit: number | null  // null = unlimited
+  maxLoss: number | null    // null = unlimited (positive number = rupees at risk)
+  breakevens: number[]
+  greeks: OptionGreeks      // position totals (per lot size × lots)
+  margin: MarginEstimate
+  tPlusDays: number
+  payoff: PayoffPoint[]
+}
+
+// Short option margin as a share of notional - a rough SPAN + exposure stand-in
+export const NAKED_MARGIN_RATE = 0.15
+
+interface LegTemplate {
+  optionType: OptionType
+  side: LegSide
+  offset: number          // strikes from ATM (in strike intervals)
+  ratio: number
+  far?: boolean           // calendar back month
+}
+
+interface StrategyDefinition {
+  label: string
+  view: StrategyView
+  legs: (w: number, wing: number) => LegTemplate[]
+}
+
+// ─── Strategy Definitions ───────────────────────────────────────────────────
+
+const leg = (optionType: OptionType, side: LegSide, offset: number, ratio = 1, far = false): LegTemplate =>
+  ({ optionType, side, offset, ratio, far })
+
+export const STRATEGIES: Record<StrategyName, StrategyDefinition> = {
+  LONG_CALL: { label: 'Long Call', view: 'BULLISH', legs: () => [leg('CALL', 'BUY', 0)] },
+  LONG_PUT: { label: 'Long Put', view: 'BEARISH', legs: () => [leg('PUT', 'BUY', 0)] },
+  BULL_CALL_SPREAD: {
+    label: 'Bull Call Spread',
+    view: 'BULLISH',
+    legs: w => [leg('CALL', 'BUY', 0), leg('CALL', 'SELL', w)],
+  },
+  BULL_PUT_SPREAD: {
+    label: 'Bull Put Spread',
+    view: 'BULLISH',
+    legs: w => [leg('PUT', 'SELL', 0), leg('PUT', 'BUY', -w)],
+  },
+  BEAR_PUT_SPREAD: {
+    label: 'Bear Put Spread',
+    view: 'BEARISH',
+    legs: w => [leg('PUT', 'BUY', 0), leg('PUT', 'SELL', -w)],
+  },
+  BEAR_CALL_SPREAD: {
+    label: 'Bear Call Spread',
+    view: 'BEARISH',
+    legs: w => [leg('CALL', 'SELL', 0), leg('CALL', 'BUY', w)],
+  },
+  LONG_STRADDLE: {
+    label: 'Long Straddle',
+    view: 'VOLATILE',
+    legs: () => [leg('CALL', 'BUY', 0), leg('PUT', 'BUY', 0)],
+  },
+  SHORT_STRADDLE: {
+    label: 'Short Straddle',
+    view: 'NEUTRAL',
+    legs: () => [leg('CALL', 'SELL', 0), leg('PUT', 'SELL', 0)],
+  },
+  LONG_STRANGLE: {
+    label: 'Long Strangle',
+    view: 'VOLATILE',
+    legs: w => [leg('CALL', 'BUY', w), leg('PUT', 'BUY', -w)],
+  },
+  SHORT_STRANGLE: {
+    label: 'Short Strangle',
+    view: 'NEUTRAL',
+    legs: w => [leg('CALL', 'SELL', w), leg('PUT', 'SELL', -w)],
+  },
+  IRON_CONDOR: {
+    label: 'Iron Condor',
+    view: 'NEUTRAL',
+    legs: (w, wing) => [
+      leg('PUT', 'BUY', -w - wing),
+      leg('PUT', 'SELL', -w),
+      leg('CALL', 'SELL', w),
+      leg('CALL', 'BUY', w + wing),
+    ],
+  },
+  IRON_BUTTERFLY: {
+    label: 'Iron Butterfly',
+    view: 'NEUTRAL',
+    legs: w => [leg('PUT', 'BUY', -w), leg('PUT', 'SELL', 0), leg('CALL', 'SELL', 0), leg('CALL', 'BUY', w)],
+  },
+  LONG_CALL_BUTTERFLY: {
+    label: 'Long Call Butterfly',
+    view: 'NEUTRAL',
+    legs: w => [leg('CALL', 'BUY', -w), leg('CALL', 'SELL', 0, 2), leg('CALL', 'BUY', w)],
+  },
+  LONG_PUT_BUTTERFLY: {
+    label: 'Long Put Butterfly',
+    view: 'NEUTRAL',
+    legs: w => [leg('PUT', 'BUY', w), leg('PUT', 'SELL', 0, 2), leg('PUT', 'BUY', -w)],
+  },
+  CALL_RATIO_SPREAD: {
+    label: 'Call Ratio Spread (1:2)',
+    view: 'BULLISH',
+    legs: w => [leg('CALL', 'BUY', 0), leg('CALL', 'SELL', w, 2)],
+  },
+  PUT_RATIO_SPREAD: {
+    label: 'Put Ratio Spread (1:2)',
+    view: 'BEARISH',
+    legs: w => [leg('PUT', 'BUY', 0), leg('PUT', 'SELL', -w, 2)],
+  },
+  CALL_CALENDAR: {
+    label: 'Call Calendar Spread',
+    view: 'NEUTRAL',
+    legs: () => [leg('CALL', 'SELL', 0), leg('CALL', 'BUY', 0, 1, true)],
+  },
+  PUT_CALENDAR: {
+    label: 'Put Calendar Spread',
+    view: 'NEUTRAL',
+    legs: () => [leg('PUT', 'SELL', 0), leg('PUT', 'BUY', 0, 1, true)],
+  },
+}
+
+// ─── Builder ────────────────────────────────────────────────────────────────
+
+// Build a named strategy around the ATM strike of the chosen expiry
+export function buildStrategy(
+  name: StrategyName,
+  market: StrategyMarket,
+  options: BuildOptions & { tPlusDays?: number } = {}
+): StrategyAnalysis {
+  const definition = STRATEGIES[name]
+  if (!definition) throw new Error(`Unknown strategy ${name}`)
+
+  const width = Math.max(1, Math.round(options.width || 2))
+  const wingWidth = Math.max(1, Math.round(options.wingWidth || width))
+  const lots = Math.max(1, Math.round(options.lots || 1))
+  const expiryIndex = options.expiryIndex || 0
+
+  const near = market.expiries[expiryIndex]
+  if (!near) throw new Error(`No expiry #${expiryIndex + 1} listed for ${market.symbol}`)
+  const templates = definition.legs(width, wingWidth)
+  const far = market.expiries[expiryIndex + 1]
+  if (templates.some(t => t.far) && !far) {
+    throw new Error(`${definition.label} needs a later expiry than ${near.date}`)
+  }
+
+  const atm = Math.round(market.spotPrice / market.strikeInterval) * market.strikeInterval
+  const legs = templates.map(t => priceLeg(market, t.far ? far : near, {
+    optionType: t.optionType,
+    side: t.side,
+    strike: atm + t.offset * market.strikeInterval,
+    lots: t.ratio * lots,
+  }))
+
+  return {
+    ...analyzeStrategy(legs, market, options.tPlusDays),
+    name,
+    label: definition.label,
+    view: definition.view,
+  }
+}
+
+// Price a leg from the chain LTP when it traded, otherwise from Black-Scholes
+export function priceLeg(
+  market: StrategyMarket,
+  expiry: StrategyMarket['expiries'][number],
+  leg: { optionType: OptionType; side: LegSide; strike: number; lots: number }
+): StrategyLeg {
+  const entry = expiry.strikes?.find(e => e.strikePrice === leg.strike)
+  const quote = leg.optionType === 'CALL' ? entry?.CE : entry?.PE
+  const timeToExpiry = yearsFromDays(expiry.daysToExpiry)
+
+  if (quote && quote.lastPrice > 0) {
+    // Chain IV is in percent; back it out of the LTP when NSE leaves it blank
+    const volatility = quote.impliedVolatility > 0
+      ? quote.impliedVolatility / 100
+      : impliedVolatility(quote.lastPrice, {
+          spot: market.spotPrice,
+          strike: leg.strike,
+          timeToExpiry,
+          optionType: leg.optionType,
+        }) || market.volatility
+
+    return {
+      ...leg,
+      expiryDate: expiry.date,
+      daysToExpiry: expiry.daysToExpiry,
+      premium: quote.lastPrice,
+      volatility,
+      premiumSource: 'CHAIN',
+    }
+  }
+
+  const volatility = market.volatility || DEFAULT_VOLATILITY
+  return {
+    ...leg,
+    expiryDate: expiry.date,
+    daysToExpiry: expiry.daysToExpiry,
+    premium: round(priceOption({
+      spot: market.spotPrice,
+      strike: leg.strike,
+      timeToExpiry,
+      volatility,
+      optionType: leg.optionType,
+    }), 2),
+    volatility,
+    premiumSource: 'MODEL',
+  }
+}
+
+// ─── Payoff Engine ──────────────────────────────────────────────────────────
+
+// Analyse any set of legs (custom strategies use this directly)
+export function analyzeStrategy(
+  legs: StrategyLeg[],
+  market: Pick<StrategyMarket, 'symbol' | 'spotPrice' | 'lotSize'>,
+  tPlusDays: number = 0
+): StrategyAnalysis {
+  if (legs.length === 0) throw new Error('A strategy needs at least one leg')
+
+  const { spotPrice, lotSize } = market
+  const firstExpiry = Math.min(...legs.map(l => l.daysToExpiry))
+  const target = Math.min(Math.max(0, tPlusDays), firstExpiry)
+
+  const atExpiry = (spot: number) => positionValue(legs, spot, firstExpiry, lotSize)
+  const atTarget = (spot: number) => positionValue(legs, spot, target, lotSize)
+
+  // Chart range ±20% plus every strike so kinks are exact
+  const low = spotPrice * 0.8
+  const high = spotPrice * 1.2
+  const steps = 120
+  const spots: number[] = []
+  for (let i = 0; i <= steps; i++) spots.push(low + ((high - low) * i) / steps)
+  legs.forEach(l => {
+    if (l.strike > low && l.strike < high) spots.push(l.strike)
+  })
+  spots.sort((a, b) => a - b)
+
+  const payoff: PayoffPoint[] = spots.map(spot => ({
+    spot: round(spot, 2),
+    atExpiry: round(atExpiry(spot), 2),
+    atTarget: round(atTarget(spot), 2),
+  }))
+
+  // Extremes: strikes and the ends of the world (0 and far above spot)
+  const probes = [0, spotPrice * 3].concat(legs.map(l => l.strike), spots)
+  const values = probes.map(atExpiry)
+  const rightSlope = atExpiry(spotPrice * 3) - atExpiry(spotPrice * 2.5)
+  const best = Math.max(...values)
+  const worst = Math.min(...values)
+
+  const netPremium = legs.reduce((sum, l) => sum + sign(l) * l.premium * l.lots * lotSize, 0)
+  const maxProfit = rightSlope > 1e-6 ? null : round(best, 2)
+  const maxLoss = rightSlope < -1e-6 ? null : round(Math.max(0, -worst), 2)
+
+  return {
+    name: 'CUSTOM',
+    label: 'Custom Strategy',
+    view: 'CUSTOM',
+    symbol: market.symbol,
+    spotPrice,
+    lotSize,
+    legs,
+    netPremium: round(netPremium, 2),
+    maxProfit,
+    maxLoss,
+    breakevens: findBreakevens(atExpiry, spotPrice),
+    greeks: netGreeks(legs, spotPrice, lotSize),
+    margin: estimateMargin(legs, spotPrice, lotSize, netPremium, maxLoss),
+    tPlusDays: target,
+    payoff,
+  }
+}
+
+// P&L of the whole position `daysElapsed` days from now; legs still alive are
+// valued with Black-Scholes, expired ones at intrinsic
+function positionValue(legs: StrategyLeg[], spot: number, daysElapsed: number, lotSize: number): number {
+  return legs.reduce((total, l) => {
+    const remaining = Math.max(0, l.daysToExpiry - daysElapsed)
+    const value = priceOption({
+      spot,
+      strike: l.strike,
+      timeToExpiry: yearsFromDays(remaining),
+      volatility: l.volatility,
+      optionType: l.optionType,
+    })
+    return total + sign(l) * (value - l.premium) * l.lots * lotSize
+  }, 0)
+}
+
+function findBreakevens(pnl: (spot: number) => number, spotPrice: number): number[] {
+  const breakevens: number[] = []
+  const low = spotPrice * 0.5
+  const high = spotPrice * 1.5
+  const steps = 1000
+  let prevSpot = low
+  let prev = pnl(low)
+
+  for (let i = 1; i <= steps; i++) {
+    const spot = low + ((high - low) * i) / steps
+    const value = pnl(spot)
+    if (prev === 0) {
+      breakevens.push(round(prevSpot, 2))
+    } else if ((prev < 0 && value > 0) || (prev > 0 && value < 0)) {
+      // Linear between grid points - exact for expiry payoffs between strikes
+      breakevens.push(round(prevSpot + ((spot - prevSpot) * -prev) / (value - prev), 2))
+    }
+    prevSpot = spot
+    prev = value
+  }
+  return breakevens
+}
+
+function netGreeks(legs: StrategyLeg[], spot: number, lotSize: number): OptionGreeks {
+  const total: OptionGreeks = { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 }
+  legs.forEach(l => {
+    const g = calculateGreeks({
+      spot,
+      strike: l.strike,
+      timeToExpiry: yearsFromDays(l.daysToExpiry),
+      volatility: l.volatility,
+      optionType: l.optionType,
+    })
+    const units = sign(l) * l.lots * lotSize
+    total.delta += g.delta * units
+    total.gamma += g.gamma * units
+    total.theta += g.theta * units
+    total.vega += g.vega * units
+    total.rho += g.rho * units
+  })
+  return {
+    delta: round(total.delta, 2),
+    gamma: round(total.gamma, 4),
+    theta: round(total.theta, 2),
+    vega: round(total.vega, 2),
+    rho: round(total.rho, 2),
+  }
+}
+
+// Long-only: the premium. Shorts covered by longs of the same type: the defined
+// max loss. Uncovered shorts: a flat share of notional per naked lot plus any debit.
+// A planning figure only - the broker's SPAN calculation will differ.
+function estimateMargin(
+  legs: StrategyLeg[],
+  spot: number,
+  lotSize: number,
+  netPremium: number,
+  maxLoss: number | null
+): MarginEstimate {
+  const premiumPaid = round(Math.max(0, netPremium), 2)
+  if (!legs.some(l => l.side === 'SELL')) return { required: premiumPaid, premiumPaid, method: 'PREMIUM' }
+
+  const lotsOf = (optionType: OptionType, side: LegSide) =>
+    legs.filter(l => l.optionType === optionType && l.side === side).reduce((sum, l) => sum + l.lots, 0)
+  const nakedLots =
+    Math.max(0, lotsOf('CALL', 'SELL') - lotsOf('CALL', 'BUY')) +
+    Math.max(0, lotsOf('PUT', 'SELL') - lotsOf('PUT', 'BUY'))
+
+  if (nakedLots === 0 && maxLoss !== null) {
+    return { required: round(Math.max(maxLoss, premiumPaid), 2), premiumPaid, method: 'DEFINED_RISK' }
+  }
+
+  const required = Math.max(1, nakedLots) * spot * lotSize * NAKED_MARGIN_RATE + premiumPaid
+  return { required: round(required, 2), premiumPaid, method: 'NAKED' }
+}
+
+function sign(l: Pick<StrategyLeg, 'side'>): number {
+  return l.side === 'BUY' ? 1 : -1
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
@@ -1,14 +1,7 @@
 // Smart Money Concepts (SMC) Analysis
 // Detects institutional trading patterns: liquidity sweeps, order blocks, FVGs, BOS, CHOCH
 
-interface CandleData {
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-  timestamp?: number
-}
+import { CandleData } from './candles'
 
 interface LiquiditySweep {
   type: 'BULLISH' | 'BEARISH'
@@ -0,0 +1,314 @@
+// Strategy Suggestion Engine
+// Turns a directional view, the IV regime, days to expiry and the max pain distance into a
+// ranked list of option strategies: sell premium (credit spreads, condors) when IV is rich,
+// buy it (debit spreads, straddles, calendars) when it is cheap
+
+import type { AIConfidence } from './aiConfidenceEngine'
+import type { OptionChainAnalysis } from './optionChainAnalysis'
+import {
+  buildStrategy,
+  BuildOptions,
+  STRATEGIES,
+  StrategyAnalysis,
+  StrategyMarket,
+  StrategyName,
+  StrategyView,
+} from './optionStrategies'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type IVRegime = 'HIGH' | 'NORMAL' | 'LOW' | 'UNKNOWN'
+
+export interface DirectionalView {
+  view: StrategyView
+  conviction: number        // 0-1
+  source: string            // what the view was read from
+}
+
+// Any of these is enough; rank/percentile win over the IV/realised ratio
+export interface IVInput {
+  rank?: number             // 0-100, where current IV sits in its 1y range
+  percentile?: number       // 0-100, share of days IV was lower
+  current?: number          // ATM IV, annualised (0.14 = 14%)
+  realised?: number         // historical volatility, annualised
+}
+
+export interface SuggestionContext {
+  view: DirectionalView
+  iv: IVInput
+  daysToExpiry: number
+  spotPrice: number
+  maxPainStrike?: number
+}
+
+export interface StrategySuggestion {
+  rank: number
+  name: StrategyName
+  label: string
+  view: StrategyView
+  score: number             // 0-100
+  rationale: string[]
+  strategy?: Omit<StrategyAnalysis, 'payoff'>  // priced legs when a market was supplied
+}
+
+export interface SuggestionResult {
+  view: DirectionalView
+  ivRegime: IVRegime
+  ivNote: string
+  daysToExpiry: number
+  maxPainDistance: number | null  // % of spot, positive = max pain above spot
+  suggestions: StrategySuggestion[]
+}
+
+// IV rank/percentile bands
+export const HIGH_IV_RANK = 60
+export const LOW_IV_RANK = 30
+
+// ATM IV vs realised volatility bands, used when there is no IV history
+const HIGH_IV_RATIO = 1.25
+const LOW_IV_RATIO = 0.9
+
+type PremiumStyle = 'CREDIT' | 'DEBIT' | 'TIME'
+
+interface StrategyTraits {
+  style: PremiumStyle
+  unlimitedRisk: boolean
+  outright: boolean         // bought options with nothing sold against them
+  pins: boolean             // profits most if the underlying pins a strike
+}
+
+const TRAITS: Record<StrategyName, StrategyTraits> = {
+  LONG_CALL: { style: 'DEBIT', unlimitedRisk: false, outright: true, pins: false },
+  LONG_PUT: { style: 'DEBIT', unlimitedRisk: false, outright: true, pins: false },
+  BULL_CALL_SPREAD: { style: 'DEBIT', unlimitedRisk: false, outright: false, pins: false },
+  BULL_PUT_SPREAD: { style: 'CREDIT', unlimitedRisk: false, outright: false, pins: false },
+  BEAR_PUT_SPREAD: { style: 'DEBIT', unlimitedRisk: false, outright: false, pins: false },
+  BEAR_CALL_SPREAD: { style: 'CREDIT', unlimitedRisk: false, outright: false, pins: false },
+  LONG_STRADDLE: { style: 'DEBIT', unlimitedRisk: false, outright: true, pins: false },
+  SHORT_STRADDLE: { style: 'CREDIT', unlimitedRisk: true, outright: false, pins: true },
+  LONG_STRANGLE: { style: 'DEBIT', unlimitedRisk: false, outright: true, pins: false },
+  SHORT_STRANGLE: { style: 'CREDIT', unlimitedRisk: true, outright: false, pins: false },
+  IRON_CONDOR: { style: 'CREDIT', unlimitedRisk: false, outright: false, pins: false },
+  IRON_BUTTERFLY: { style: 'CREDIT', unlimitedRisk: false, outright: false, pins: true },
+  LONG_CALL_BUTTERFLY: { style: 'DEBIT', unlimitedRisk: false, outright: false, pins: true },
+  LONG_PUT_BUTTERFLY: { style: 'DEBIT', unlimitedRisk: false, outright: false, pins: true },
+  CALL_RATIO_SPREAD: { style: 'CREDIT', unlimitedRisk: true, outright: false, pins: false },
+  PUT_RATIO_SPREAD: { style: 'CREDIT', unlimitedRisk: true, outright: false, pins: false },
+  CALL_CALENDAR: { style: 'TIME', unlimitedRisk: false, outright: false, pins: true },
+  PUT_CALENDAR: { style: 'TIME', unlimitedRisk: false, outright: false, pins: true },
+}
+
+// ─── Reading The View ───────────────────────────────────────────────────────
+
+export function viewFromOptionChain(analysis: OptionChainAnalysis): DirectionalView {
+  const { action, confidence } = analysis.recommendation
+  const conviction = confidence === 'HIGH' ? 0.9 : confidence === 'MEDIUM' ? 0.6 : 0.3
+  const view: StrategyView = action === 'BUY_CALL' ? 'BULLISH' : action === 'BUY_PUT' ? 'BEARISH' : 'NEUTRAL'
+  return { view, conviction, source: `Option chain (${action.replace('_', ' ')}, ${confidence})` }
+}
+
+// HOLD with a high risk score means "something is coming, direction unclear" - a volatility view
+export function viewFromAIConfidence(ai: AIConfidence): DirectionalView {
+  const conviction = Math.min(1, Math.max(0, ai.tradeConfidenceScore / 100))
+  const source = `AI confidence (${ai.recommendation}, ${ai.tradeConfidenceScore})`
+
+  switch (ai.recommendation) {
+    case 'STRONG_BUY':
+    case 'BUY':
+      return { view: 'BULLISH', conviction, source }
+    case 'STRONG_SELL':
+    case 'SELL':
+      return { view: 'BEARISH', conviction, source }
+    default:
+      return { view: ai.riskScore >= 70 ? 'VOLATILE' : 'NEUTRAL', conviction, source }
+  }
+}
+
+// Two readings that agree reinforce each other; ones that disagree cancel out to neutral
+export function combineViews(a: DirectionalView, b: DirectionalView): DirectionalView {
+  const source = `${a.source} + ${b.source}`
+  if (a.view === b.view) {
+    return { view: a.view, conviction: Math.min(1, Math.max(a.conviction, b.conviction) + 0.1), source }
+  }
+  if (a.view === 'NEUTRAL' || b.view === 'NEUTRAL') {
+    const directional = a.view === 'NEUTRAL' ? b : a
+    return { view: directional.view, conviction: directional.conviction * 0.6, source }
+  }
+  return { view: 'NEUTRAL', conviction: 0.3, source }
+}
+
+export function classifyIVRegime(iv: IVInput): { regime: IVRegime; note: string } {
+  const rank = iv.rank ?? iv.percentile
+  if (rank !== undefined) {
+    const label = iv.rank !== undefined ? 'IV rank' : 'IV percentile'
+    if (rank >= HIGH_IV_RANK) return { regime: 'HIGH', note: `${label} ${Math.round(rank)} - options are expensive` }
+    if (rank <= LOW_IV_RANK) return { regime: 'LOW', note: `${label} ${Math.round(rank)} - options are cheap` }
+    return { regime: 'NORMAL', note: `${label} ${Math.round(rank)} - IV is mid-range` }
+  }
+
+  if (iv.current && iv.realised) {
+    const ratio = iv.current / iv.realised
+    const detail = `ATM IV ${(iv.current * 100).toFixed(1)}% vs realised ${(iv.realised * 100).toFixed(1)}%`
+    if (ratio >= HIGH_IV_RATIO) return { regime: 'HIGH', note: `${detail} - premium is rich` }
+    if (ratio <= LOW_IV_RATIO) return { regime: 'LOW', note: `${detail} - premium is cheap` }
+    return { regime: 'NORMAL', note: `${detail} - fairly priced` }
+  }
+
+  return { regime: 'UNKNOWN', note: 'No IV history or live ATM IV - IV regime unknown' }
+}
+
+// ─── Ranking ────────────────────────────────────────────────────────────────
+
+// Rank every strategy for the context. With a market, each suggestion is also built
+// (strikes, premiums, max profit/loss) and ones that can't be built are dropped.
+export function suggestStrategies(
+  context: SuggestionContext,
+  options: { market?: StrategyMarket; build?: BuildOptions; limit?: number } = {}
+): SuggestionResult {
+  const { regime, note } = classifyIVRegime(context.iv)
+  const maxPainDistance = context.maxPainStrike && context.spotPrice > 0
+    ? Math.round(((context.maxPainStrike - context.spotPrice) / context.spotPrice) * 10000) / 100
+    : null
+
+  const scored = (Object.keys(STRATEGIES) as StrategyName[])
+    .map(name => scoreStrategy(name, context, regime, maxPainDistance))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  const suggestions: StrategySuggestion[] = []
+  const limit = options.limit || 5
+  for (const candidate of scored) {
+    if (suggestions.length >= limit) break
+    const definition = STRATEGIES[candidate.name]
+    const suggestion: StrategySuggestion = {
+      rank: suggestions.length + 1,
+      name: candidate.name,
+      label: definition.label,
+      view: definition.view,
+      score: candidate.score,
+      rationale: candidate.rationale,
+    }
+
+    if (options.market) {
+      try {
+        const { payoff, ...strategy } = buildStrategy(candidate.name, options.market, options.build)
+        suggestion.strategy = strategy
+      } catch (error) {
+        continue // e.g. a calendar with no later expiry listed
+      }
+    }
+    suggestions.push(suggestion)
+  }
+
+  return {
+    view: context.view,
+    ivRegime: regime,
+    ivNote: note,
+    daysToExpiry: context.daysToExpiry,
+    maxPainDistance,
+    suggestions,
+  }
+}
+
+function scoreStrategy(
+  name: StrategyName,
+  context: SuggestionContext,
+  regime: IVRegime,
+  maxPainDistance: number | null
+): { name: StrategyName; score: number; rationale: string[] } {
+  const definition = STRATEGIES[name]
+  const traits = TRAITS[name]
+  const { view, conviction } = context.view
+  const rationale: string[] = []
+  let score = 0
+
+  // 1. View fit - the gate. A neutral strategy can still serve a weak directional view.
+  if (definition.view === view) {
+    score += view === 'BULLISH' || view === 'BEARISH' ? 25 + 15 * conviction : 40
+    rationale.push(`Fits the ${view.toLowerCase()} view (${context.view.source})`)
+  } else if (definition.view === 'NEUTRAL' && (view === 'BULLISH' || view === 'BEARISH') && conviction < 0.5) {
+    score += 15
+    rationale.push(`Low-conviction ${view.toLowerCase()} view - range-bound strategies still fit`)
+  } else {
+    return { name, score: 0, rationale }
+  }
+
+  // 2. IV regime - sell rich premium, buy cheap premium
+  if (regime === 'HIGH') {
+    if (traits.style === 'CREDIT') {
+      score += 30
+      rationale.push('High IV - collects rich premium and gains if IV falls')
+    } else if (traits.style === 'DEBIT') {
+      score -= traits.outright ? 20 : 10
+      rationale.push('High IV - paying up for premium, IV crush works against it')
+    } else {
+      score -= 5
+      rationale.push('High IV - the long back-month leg is expensive')
+    }
+  } else if (regime === 'LOW') {
+    if (traits.style === 'DEBIT') {
+      score += 30
+      rationale.push('Low IV - premium is cheap and an IV rise helps')
+    } else if (traits.style === 'TIME') {
+      score += 20
+      rationale.push('Low IV - long vega through the back month')
+    } else {
+      score -= 10
+      rationale.push('Low IV - little premium to collect for the risk')
+    }
+  } else if (!traits.unlimitedRisk && !traits.outright) {
+    score += 15
+    rationale.push(regime === 'UNKNOWN'
+      ? 'IV regime unknown - a defined-risk spread limits the cost of misjudging premium'
+      : 'Normal IV - a defined-risk spread balances premium paid and collected')
+  } else {
+    score += 5
+  }
+
+  // 3. Time to expiry - theta and gamma
+  const dte = context.daysToExpiry
+  if (dte <= 2) {
+    if (traits.outright) {
+      score -= 20
+      rationale.push(`${dte}d to expiry - long premium bleeds fast`)
+    }
+    if (traits.unlimitedRisk) {
+      score -= 15
+      rationale.push(`${dte}d to expiry - gamma risk on uncovered shorts`)
+    }
+    if (traits.style === 'CREDIT' && !traits.unlimitedRisk) {
+      score += 10
+      rationale.push(`${dte}d to expiry - fast theta decay on a defined-risk credit`)
+    }
+  } else if (dte >= 25 && traits.style === 'CREDIT') {
+    score -= 5
+    rationale.push(`${dte}d to expiry - premium decays slowly this far out`)
+  }
+
+  // 4. Max pain - pinning near expiry, or a pull in the direction of the view
+  if (maxPainDistance !== null) {
+    if (Math.abs(maxPainDistance) <= 1 && dte <= 7 && traits.pins) {
+      score += 10
+      rationale.push(`Max pain ${context.maxPainStrike} is ${Math.abs(maxPainDistance)}% from spot - pinning likely`)
+    } else if (Math.abs(maxPainDistance) > 1.5) {
+      const towards = maxPainDistance > 0 ? 'BULLISH' : 'BEARISH'
+      if (definition.view === towards) {
+        score += 5
+        rationale.push(`Max pain ${context.maxPainStrike} pulls ${maxPainDistance > 0 ? 'up' : 'down'} ${Math.abs(maxPainDistance)}%`)
+      } else if (definition.view === (towards === 'BULLISH' ? 'BEARISH' : 'BULLISH')) {
+        score -= 5
+        rationale.push(`Max pain ${context.maxPainStrike} pulls against this view`)
+      }
+    }
+  }
+
+  // 5. Risk - defined-risk alternatives win ties; unlimited risk needs a strong view
+  if (traits.unlimitedRisk) {
+    score -= conviction < 0.5 ? 20 : 10
+    rationale.push(conviction < 0.5
+      ? 'Unlimited risk on one side with a low-conviction view'
+      : 'Unlimited risk beyond the short strikes - size and stop accordingly')
+  }
+
+  return { name, score: Math.max(0, Math.min(100, Math.round(score))), rationale }
+}
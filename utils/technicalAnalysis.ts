@@ -1,14 +1,8 @@
 // Technical Analysis Utilities for Chart Patterns and Candlestick Analysis
 
-interface CandleData {
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-}
+import { CandleData } from './candles'
 
-interface TechnicalSignal {
+export interface TechnicalSignal {
   pattern: string
   signal: 'BULLISH' | 'BEARISH' | 'NEUTRAL'
   strength: 'STRONG' | 'MODERATE' | 'WEAK'
@@ -368,7 +362,7 @@ function isDoubleTop(highs: number[]): boolean {
   return diff < 0.02 // Within 2%
 }
 
-function detectBreakout(candles: CandleData[]): TechnicalSignal | null {
+export function detectBreakout(candles: CandleData[]): TechnicalSignal | null {
   const recent = candles.slice(-20)
   const current = candles[candles.length - 1]
   
@@ -0,0 +1,32 @@
+// Trade P&L
+// Realised profit/loss of a closed trade. BUY trades profit when exit > entry, SELL
+// (short) trades when exit < entry. Fees (brokerage, STT, GST, stamp duty) come off the
+// P&L; the percentage is on the capital at entry.
+
+import type { TradeAction } from '../models/Trade'
+
+export interface TradePnl {
+  pnl: number
+  pnlPercent: number
+}
+
+export function calculateTradePnl(
+  action: TradeAction,
+  entry: number,
+  exit: number,
+  quantity: number,
+  fees: number = 0
+): TradePnl {
+  const perUnit = action === 'BUY' ? exit - entry : entry - exit
+  const pnl = perUnit * quantity - fees
+  const capital = entry * quantity
+  return {
+    pnl: round(pnl, 2),
+    pnlPercent: capital > 0 ? round((pnl / capital) * 100, 2) : 0,
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
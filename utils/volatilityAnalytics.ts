@@ -0,0 +1,334 @@
+// Volatility Analytics
+// ATM IV term structure, IV rank/percentile over 52 weeks, the strike x expiry volatility
+// surface with 25-delta risk reversal and butterfly per expiry, and IV vs realised volatility.
+// IVs are in percent throughout, as NSE quotes them.
+
+import { calculateGreeks, historicalVolatility, yearsFromDays } from './blackScholes'
+import type { ExpiryChain, OptionChainEntry, OptionChainSnapshot } from './optionChainAnalysis'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface TermPoint {
+  expiryDate: string      // YYYY-MM-DD
+  daysToExpiry: number
+  strike: number          // ATM strike
+  iv: number
+}
+
+export interface IVRankStats {
+  current: number
+  rank: number | null     // 0-100, position in the 52-week high-low range
+  percentile: number | null // 0-100, share of days with lower IV
+  high: number | null
+  low: number | null
+  observations: number
+  note: string
+}
+
+export interface SmilePoint {
+  strike: number
+  moneyness: number       // strike / spot
+  callIV: number | null
+  putIV: number | null
+  iv: number | null       // OTM side: puts below spot, calls above
+  callDelta: number | null
+}
+
+export interface ExpirySmile {
+  expiryDate: string
+  daysToExpiry: number
+  atmIV: number | null
+  call25IV: number | null
+  put25IV: number | null
+  riskReversal25: number | null // call25 - put25; negative = puts bid (downside skew)
+  butterfly25: number | null    // wings vs ATM; positive = fat tails priced in
+  points: SmilePoint[]
+}
+
+export interface VolatilitySurface {
+  spotPrice: number
+  strikes: number[]
+  expiries: ExpirySmile[]
+}
+
+export interface RealisedComparison {
+  atmIV: number
+  hv10: number | null
+  hv20: number | null
+  hv60: number | null
+  ivHvSpread: number | null     // ATM IV - HV20, vol points
+  ivHvRatio: number | null
+  interpretation: string
+}
+
+export interface VolatilityAnalytics {
+  symbol: string
+  asOf: string
+  atmIV: number | null          // 30-day constant maturity
+  termStructure: TermPoint[]
+  ivRank: IVRankStats | null
+  realised: RealisedComparison | null
+  surface: VolatilitySurface
+}
+
+// Days of IV history needed before rank/percentile mean anything
+export const MIN_RANK_OBSERVATIONS = 20
+// Tenor the daily ATM IV reading is normalised to
+export const CONSTANT_MATURITY_DAYS = 30
+
+const SURFACE_STRIKES_EACH_SIDE = 10
+const SURFACE_MAX_EXPIRIES = 4
+
+// ─── ATM Term Structure ─────────────────────────────────────────────────────
+
+// ATM IV per expiry, skipping expiries inside their last day (IV there is noise)
+export function atmVolatilityTerm(snapshot: OptionChainSnapshot): TermPoint[] {
+  const term: TermPoint[] = []
+  snapshot.expiries.forEach(expiry => {
+    if (expiry.daysToExpiry < 1) return
+    const atm = nearestStrike(expiry.strikes, snapshot.spotPrice)
+    const iv = atm ? averageIV(atm) : null
+    if (atm && iv !== null) {
+      term.push({ expiryDate: expiry.date, daysToExpiry: expiry.daysToExpiry, strike: atm.strikePrice, iv })
+    }
+  })
+  return term
+}
+
+// ATM IV at a fixed tenor, interpolating total variance (iv² × t) between the expiries
+// either side of it. Weekly rolls would otherwise make the daily series jump.
+export function constantMaturityIV(term: TermPoint[], targetDays: number = CONSTANT_MATURITY_DAYS): number | null {
+  if (term.length === 0) return null
+  const sorted = term.slice().sort((a, b) => a.daysToExpiry - b.daysToExpiry)
+  if (targetDays <= sorted[0].daysToExpiry) return round(sorted[0].iv, 2)
+  const last = sorted[sorted.length - 1]
+  if (targetDays >= last.daysToExpiry) return round(last.iv, 2)
+
+  for (let i = 1; i < sorted.length; i++) {
+    const near = sorted[i - 1]
+    const far = sorted[i]
+    if (targetDays <= far.daysToExpiry) {
+      const nearVar = near.iv * near.iv * near.daysToExpiry
+      const farVar = far.iv * far.iv * far.daysToExpiry
+      const weight = (targetDays - near.daysToExpiry) / (far.daysToExpiry - near.daysToExpiry)
+      return round(Math.sqrt((nearVar + (farVar - nearVar) * weight) / targetDays), 2)
+    }
+  }
+  return round(last.iv, 2)
+}
+
+// ─── IV Rank / Percentile ───────────────────────────────────────────────────
+
+// history: prior daily readings (the last 52 weeks); current is included in the range
+export function ivRankStats(current: number, history: number[]): IVRankStats {
+  const values = history.filter(v => v > 0)
+  if (values.length < MIN_RANK_OBSERVATIONS) {
+    return {
+      current,
+      rank: null,
+      percentile: null,
+      high: values.length ? Math.max(current, ...values) : null,
+      low: values.length ? Math.min(current, ...values) : null,
+      observations: values.length,
+      note: `Needs ${MIN_RANK_OBSERVATIONS - values.length} more days of IV history`,
+    }
+  }
+
+  const high = Math.max(current, ...values)
+  const low = Math.min(current, ...values)
+  const rank = high > low ? ((current - low) / (high - low)) * 100 : 50
+  const percentile = (values.filter(v => v < current).length / values.length) * 100
+
+  let note = 'IV mid-range for the year'
+  if (rank >= 80) note = 'IV near its 52-week high - options expensive'
+  else if (rank >= 60) note = 'IV elevated for the year'
+  else if (rank <= 20) note = 'IV near its 52-week low - options cheap'
+  else if (rank <= 40) note = 'IV subdued for the year'
+
+  return {
+    current,
+    rank: round(rank, 1),
+    percentile: round(percentile, 1),
+    high: round(high, 2),
+    low: round(low, 2),
+    observations: values.length,
+    note,
+  }
+}
+
+// ─── Volatility Surface ─────────────────────────────────────────────────────
+
+// Smile per expiry around ATM, with 25-delta risk reversal and butterfly
+export function volatilitySurface(
+  snapshot: OptionChainSnapshot,
+  options: { strikesEachSide?: number; maxExpiries?: number } = {}
+): VolatilitySurface {
+  const strikesEachSide = options.strikesEachSide ?? SURFACE_STRIKES_EACH_SIDE
+  const maxExpiries = options.maxExpiries ?? SURFACE_MAX_EXPIRIES
+  const { spotPrice } = snapshot
+  const strikeSet: number[] = []
+
+  const expiries = snapshot.expiries
+    .filter(e => e.daysToExpiry > 0)
+    .slice(0, maxExpiries)
+    .map(expiry => {
+      const smile = expirySmile(expiry, spotPrice, strikesEachSide)
+      smile.points.forEach(p => {
+        if (!strikeSet.includes(p.strike)) strikeSet.push(p.strike)
+      })
+      return smile
+    })
+
+  return { spotPrice, strikes: strikeSet.sort((a, b) => a - b), expiries }
+}
+
+function expirySmile(expiry: ExpiryChain, spot: number, strikesEachSide: number): ExpirySmile {
+  const entries = expiry.strikes.filter(e => e.CE || e.PE).sort((a, b) => a.strikePrice - b.strikePrice)
+  const atm = nearestStrike(entries, spot)
+  const atmIndex = atm ? entries.indexOf(atm) : 0
+  const timeToExpiry = yearsFromDays(expiry.daysToExpiry)
+
+  // Deltas over the whole chain - far expiries reach 25-delta well outside the smile window
+  const allPoints: SmilePoint[] = entries.map(entry => {
+    const callIV = positive(entry.CE?.impliedVolatility)
+    const putIV = positive(entry.PE?.impliedVolatility)
+    const otmIV = entry.strikePrice >= spot ? callIV ?? putIV : putIV ?? callIV
+    const callDelta = callIV !== null
+      ? calculateGreeks({ spot, strike: entry.strikePrice, timeToExpiry, volatility: callIV / 100, optionType: 'CALL' }).delta
+      : null
+    return {
+      strike: entry.strikePrice,
+      moneyness: round(entry.strikePrice / spot, 4),
+      callIV,
+      putIV,
+      iv: otmIV,
+      callDelta: callDelta !== null ? round(callDelta, 4) : null,
+    }
+  })
+
+  // 25-delta call on the upside, 25-delta put on the downside
+  const call25IV = ivAtDelta(allPoints.filter(p => p.strike >= spot), p => p.callDelta, 0.25, p => p.callIV)
+  const put25IV = ivAtDelta(
+    allPoints.filter(p => p.strike <= spot),
+    p => putDelta(p, spot, timeToExpiry),
+    -0.25,
+    p => p.putIV
+  )
+  const atmIV = atm ? averageIV(atm) : null
+
+  return {
+    expiryDate: expiry.date,
+    daysToExpiry: expiry.daysToExpiry,
+    atmIV,
+    call25IV,
+    put25IV,
+    riskReversal25: call25IV !== null && put25IV !== null ? round(call25IV - put25IV, 2) : null,
+    butterfly25: call25IV !== null && put25IV !== null && atmIV !== null
+      ? round((call25IV + put25IV) / 2 - atmIV, 2)
+      : null,
+    points: allPoints.slice(Math.max(0, atmIndex - strikesEachSide), atmIndex + strikesEachSide + 1),
+  }
+}
+
+// ─── Realised Volatility ────────────────────────────────────────────────────
+
+export function compareToRealised(atmIV: number, closes: number[]): RealisedComparison {
+  const hv = (period: number) => {
+    const value = historicalVolatility(closes, period)
+    return value !== null ? round(value * 100, 2) : null
+  }
+  const hv10 = hv(10)
+  const hv20 = hv(20)
+  const hv60 = closes.length > 60 ? hv(60) : null
+
+  const ivHvSpread = hv20 !== null ? round(atmIV - hv20, 2) : null
+  const ivHvRatio = hv20 ? round(atmIV / hv20, 2) : null
+
+  let interpretation = 'Not enough price history for realised volatility'
+  if (ivHvRatio !== null) {
+    if (ivHvRatio >= 1.25) interpretation = 'IV well above realised - options overpriced vs recent moves, favours selling'
+    else if (ivHvRatio >= 1.05) interpretation = 'IV slightly above realised - normal risk premium'
+    else if (ivHvRatio >= 0.9) interpretation = 'IV in line with realised'
+    else interpretation = 'IV below realised - options cheap vs recent moves, favours buying'
+  }
+
+  return { atmIV, hv10, hv20, hv60, ivHvSpread, ivHvRatio, interpretation }
+}
+
+// ─── Everything Together ────────────────────────────────────────────────────
+
+// history: prior daily 30-day ATM IV readings; closes: daily closes, oldest first
+export function analyzeVolatility(
+  snapshot: OptionChainSnapshot,
+  inputs: { history?: number[]; closes?: number[] } = {}
+): VolatilityAnalytics {
+  const termStructure = atmVolatilityTerm(snapshot)
+  const atmIV = constantMaturityIV(termStructure)
+
+  return {
+    symbol: snapshot.symbol,
+    asOf: snapshot.timestamp,
+    atmIV,
+    termStructure,
+    ivRank: atmIV !== null ? ivRankStats(atmIV, inputs.history || []) : null,
+    realised: atmIV !== null && inputs.closes ? compareToRealised(atmIV, inputs.closes) : null,
+    surface: volatilitySurface(snapshot),
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function nearestStrike(entries: OptionChainEntry[], spot: number): OptionChainEntry | null {
+  const priced = entries.filter(e => e.CE || e.PE)
+  if (priced.length === 0) return null
+  return priced.reduce((closest, entry) =>
+    Math.abs(entry.strikePrice - spot) < Math.abs(closest.strikePrice - spot) ? entry : closest
+  )
+}
+
+function averageIV(entry: OptionChainEntry): number | null {
+  const ivs = [positive(entry.CE?.impliedVolatility), positive(entry.PE?.impliedVolatility)]
+    .filter((iv): iv is number => iv !== null)
+  return ivs.length > 0 ? round(ivs.reduce((a, b) => a + b, 0) / ivs.length, 2) : null
+}
+
+function putDelta(point: SmilePoint, spot: number, timeToExpiry: number): number | null {
+  if (point.putIV === null) return null
+  return calculateGreeks({
+    spot,
+    strike: point.strike,
+    timeToExpiry,
+    volatility: point.putIV / 100,
+    optionType: 'PUT',
+  }).delta
+}
+
+// Linear interpolation of IV between the two strikes whose delta brackets the target
+function ivAtDelta(
+  points: SmilePoint[],
+  deltaOf: (p: SmilePoint) => number | null,
+  target: number,
+  ivOf: (p: SmilePoint) => number | null
+): number | null {
+  const usable = points
+    .map(p => ({ delta: deltaOf(p), iv: ivOf(p) }))
+    .filter((p): p is { delta: number; iv: number } => p.delta !== null && p.iv !== null)
+
+  for (let i = 1; i < usable.length; i++) {
+    const a = usable[i - 1]
+    const b = usable[i]
+    if ((a.delta - target) * (b.delta - target) <= 0 && a.delta !== b.delta) {
+      return round(a.iv + ((b.iv - a.iv) * (target - a.delta)) / (b.delta - a.delta), 2)
+    }
+  }
+  return null
+}
+
+function positive(value: number | undefined): number | null {
+  return value !== undefined && value > 0 ? value : null
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}